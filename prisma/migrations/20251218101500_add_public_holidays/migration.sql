@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "PublicHoliday" (
+    "id" TEXT NOT NULL,
+    "countryCode" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PublicHoliday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PublicHoliday_countryCode_date_key" ON "PublicHoliday"("countryCode", "date");
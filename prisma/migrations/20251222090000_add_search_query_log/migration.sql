@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "SearchQueryLog" (
+    "id" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "keyParts" JSONB NOT NULL,
+    "q" TEXT,
+    "cityId" TEXT,
+    "target" TEXT NOT NULL,
+    "categories" TEXT[],
+    "total" INTEGER NOT NULL,
+    "returned" INTEGER NOT NULL,
+    "tookMs" INTEGER NOT NULL,
+    "cache" TEXT NOT NULL,
+    "warnings" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchQueryLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchQueryLog_createdAt_idx" ON "SearchQueryLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SearchQueryLog_fingerprint_createdAt_idx" ON "SearchQueryLog"("fingerprint", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SearchQueryLog_cityId_createdAt_idx" ON "SearchQueryLog"("cityId", "createdAt");
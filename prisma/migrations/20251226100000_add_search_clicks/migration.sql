@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "PlanItem" ADD COLUMN "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: existing items were added no later than their plan was last changed
+UPDATE "PlanItem" pi SET "createdAt" = p."updatedAt" FROM "Plan" p WHERE p."id" = pi."planId";
+
+-- CreateTable
+CREATE TABLE "SearchClick" (
+    "id" TEXT NOT NULL,
+    "queryId" TEXT,
+    "userId" TEXT,
+    "placeId" TEXT,
+    "eventId" TEXT,
+    "position" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchClick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchClick_placeId_createdAt_idx" ON "SearchClick"("placeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SearchClick_eventId_createdAt_idx" ON "SearchClick"("eventId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SearchClick" ADD CONSTRAINT "SearchClick_placeId_fkey" FOREIGN KEY ("placeId") REFERENCES "Place"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SearchClick" ADD CONSTRAINT "SearchClick_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "IngestRun" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "jobId" TEXT,
+    "cityId" TEXT,
+    "query" JSONB NOT NULL,
+    "sources" TEXT[],
+    "providerStats" JSONB NOT NULL,
+    "placeStats" JSONB NOT NULL,
+    "eventStats" JSONB NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "warnings" TEXT[],
+    "error" TEXT,
+    "log" TEXT[],
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+
+    CONSTRAINT "IngestRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestRun_startedAt_idx" ON "IngestRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "IngestRun_cityId_startedAt_idx" ON "IngestRun"("cityId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "IngestRun_outcome_startedAt_idx" ON "IngestRun"("outcome", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "IngestRun_jobId_idx" ON "IngestRun"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "IngestRun" ADD CONSTRAINT "IngestRun_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -10,6 +10,8 @@ export const CACHE_TTL_SEARCH_FIRST = num('CACHE_TTL_SEARCH_FIRST', 60); // firs
 export const CACHE_TTL_SEARCH_PAGES = num('CACHE_TTL_SEARCH_PAGES', 300); // other pages
 export const CACHE_TTL_CATALOG_PLACES = num('CACHE_TTL_CATALOG_PLACES', 900);
 export const CACHE_TTL_CATALOG_EVENTS = num('CACHE_TTL_CATALOG_EVENTS', 600);
+export const CACHE_TTL_SUGGEST = num('CACHE_TTL_SUGGEST', 120); // search box suggestions
+export const CACHE_TTL_EVENTS_SOON = num('CACHE_TTL_EVENTS_SOON', 120); // events starting in the next hours
 
 // Optional stale-while-revalidate window (seconds) — reserved for future use
 export const CACHE_SWR_SEARCH = num('CACHE_SWR_SEARCH', 300);
@@ -0,0 +1,17 @@
+function num(name: string, def: number): number {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v > 0 ? v : def;
+}
+
+// Scheduled batch ingest: every INGEST_SCHEDULE_INTERVAL_MIN one instance (claimed through Redis) sweeps all cities.
+// Off by default: a sweep spends provider quota for every city and category.
+export const INGEST_SCHEDULE_ENABLED = process.env.INGEST_SCHEDULE_ENABLED === 'true';
+export const INGEST_SCHEDULE_INTERVAL_MIN = num('INGEST_SCHEDULE_INTERVAL_MIN', 360);
+// How often each instance checks whether a scheduled sweep is due
+export const INGEST_SCHEDULE_TICK_SEC = num('INGEST_SCHEDULE_TICK_SEC', 60);
+
+// Events are swept for the next N days
+export const INGEST_SWEEP_WINDOW_DAYS = num('INGEST_SWEEP_WINDOW_DAYS', 14);
+
+// A city is ingested by one job at a time; the lock expires after this long should its job die
+export const INGEST_CITY_LOCK_TTL_SEC = num('INGEST_CITY_LOCK_TTL_SEC', 1800);
@@ -16,3 +16,63 @@ export const GLOBAL_INGEST_LIMIT = 500;
 
 // Default geo dedup radius in meters (heuristic fallback when no Source link exists)
 export const DEDUP_RADIUS_METERS_DEFAULT = 50;
+
+function num(name: string, def: number, min = 1): number {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v >= min ? v : def;
+}
+
+// Request timeout per provider (ms); PROVIDER_TIMEOUT_MS is the default, <SOURCE>_TIMEOUT_MS overrides one provider
+const DEFAULT_PROVIDER_TIMEOUT_MS = num('PROVIDER_TIMEOUT_MS', 8000);
+export const PROVIDER_TIMEOUTS_MS: Record<SourceType, number> = {
+  TICKETMASTER: num('TICKETMASTER_TIMEOUT_MS', DEFAULT_PROVIDER_TIMEOUT_MS),
+  PREDICTHQ: num('PREDICTHQ_TIMEOUT_MS', DEFAULT_PROVIDER_TIMEOUT_MS),
+  GEOAPIFY: num('GEOAPIFY_TIMEOUT_MS', DEFAULT_PROVIDER_TIMEOUT_MS),
+  GOOGLE_PLACES: num('GOOGLE_PLACES_TIMEOUT_MS', DEFAULT_PROVIDER_TIMEOUT_MS),
+  FOURSQUARE: num('FOURSQUARE_TIMEOUT_MS', DEFAULT_PROVIDER_TIMEOUT_MS),
+  PARTNER: DEFAULT_PROVIDER_TIMEOUT_MS,
+  MANUAL: DEFAULT_PROVIDER_TIMEOUT_MS,
+};
+
+// Retries of a provider request on 429 / 5xx / timeout / network error, with jittered exponential backoff
+export const PROVIDER_MAX_RETRIES = num('PROVIDER_MAX_RETRIES', 2, 0);
+export const PROVIDER_RETRY_BASE_MS = num('PROVIDER_RETRY_BASE_MS', 200);
+// Also the longest Retry-After we wait for; a longer one fails the request right away
+export const PROVIDER_RETRY_MAX_MS = num('PROVIDER_RETRY_MAX_MS', 3000);
+
+// Circuit breaker (state shared through Redis): opens after this many consecutive failed requests
+export const PROVIDER_BREAKER_THRESHOLD = num('PROVIDER_BREAKER_THRESHOLD', 5);
+// Provider is skipped this long once the breaker opens; then a trial request decides (half-open)
+export const PROVIDER_BREAKER_COOLDOWN_SEC = num('PROVIDER_BREAKER_COOLDOWN_SEC', 120);
+
+function fraction(name: string, def: number): number {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v > 0 && v <= 1 ? v : def;
+}
+
+// Daily request budget per provider (UTC day, every HTTP request incl. retries; 0 = unlimited), <SOURCE>_DAILY_BUDGET.
+// Defaults follow the free tiers: Ticketmaster 5000 calls/day, Geoapify 3000 credits/day.
+export const PROVIDER_DAILY_BUDGETS: Record<SourceType, number> = {
+  TICKETMASTER: num('TICKETMASTER_DAILY_BUDGET', 5000, 0),
+  PREDICTHQ: num('PREDICTHQ_DAILY_BUDGET', 0, 0),
+  GEOAPIFY: num('GEOAPIFY_DAILY_BUDGET', 3000, 0),
+  GOOGLE_PLACES: num('GOOGLE_PLACES_DAILY_BUDGET', 0, 0),
+  FOURSQUARE: num('FOURSQUARE_DAILY_BUDGET', 0, 0),
+  PARTNER: 0,
+  MANUAL: 0,
+};
+// Past this share of the budget searches fetch smaller pages and batch sweeps stop calling the provider;
+// at 100% the provider is skipped and results come from what is already stored (cache-only)
+export const PROVIDER_BUDGET_REDUCE_AT = fraction('PROVIDER_BUDGET_REDUCE_AT', 0.8);
+export const PROVIDER_BUDGET_REDUCED_SIZE = fraction('PROVIDER_BUDGET_REDUCED_SIZE', 0.25);
+
+// Google Nearby Search has no opening hours periods: up to this many kept results per search get a Place Details
+// request for them (0 = none); skipped once the daily budget is past PROVIDER_BUDGET_REDUCE_AT
+export const GOOGLE_PLACES_DETAILS_LIMIT = num('GOOGLE_PLACES_DETAILS_LIMIT', 10, 0);
+
+// Provider transport: live requests; record (live, and every response is saved under PROVIDER_FIXTURES_DIR);
+// replay (responses are served from PROVIDER_FIXTURES_DIR, nothing goes out, no API keys needed)
+export type ProviderTransportMode = 'live' | 'record' | 'replay';
+export const PROVIDER_TRANSPORT: ProviderTransportMode =
+  process.env.PROVIDER_TRANSPORT === 'record' || process.env.PROVIDER_TRANSPORT === 'replay' ? process.env.PROVIDER_TRANSPORT : 'live';
+export const PROVIDER_FIXTURES_DIR = process.env.PROVIDER_FIXTURES_DIR || 'fixtures/providers';
@@ -0,0 +1,37 @@
+function num(name: string, def: number): number {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v > 0 ? v : def;
+}
+
+// Max age of a pagination cursor; older cursors must restart the search
+export const SEARCH_CURSOR_MAX_AGE_SEC = num('SEARCH_CURSOR_MAX_AGE_SEC', 3600);
+
+// Global switch for profile-based ranking of authenticated searches
+export const SEARCH_PERSONALIZATION_ENABLED = process.env.SEARCH_PERSONALIZATION_ENABLED !== 'false';
+
+// Max ranked hits rendered by the map formats of /api/search (geojson, clusters)
+export const SEARCH_MAP_MAX_FEATURES = num('SEARCH_MAP_MAX_FEATURES', 2000);
+
+// Max hits a saved search run remembers for change detection (all matching hits up to this, not just one page)
+export const SAVED_SEARCH_SNAPSHOT_LIMIT = num('SAVED_SEARCH_SNAPSHOT_LIMIT', 1000);
+
+// Log every /api/search call to SearchQueryLog for the admin analytics reports
+export const SEARCH_ANALYTICS_ENABLED = process.env.SEARCH_ANALYTICS_ENABLED !== 'false';
+
+// Max areas (cities, or stretches of a route) that get a first-page online ingest in a multi-area search
+export const SEARCH_AREA_INGEST_MAX = num('SEARCH_AREA_INGEST_MAX', 3);
+
+// Trending feeds: engagement (favorites, plan additions, reviews, search clicks) of the last N days,
+// each signal losing half its weight every TRENDING_HALF_LIFE_HOURS
+export const TRENDING_WINDOW_DAYS = num('TRENDING_WINDOW_DAYS', 7);
+export const TRENDING_HALF_LIFE_HOURS = num('TRENDING_HALF_LIFE_HOURS', 48);
+// A user (or, anonymously, an IP) opening the same hit again within this window is one click
+export const SEARCH_CLICK_DEDUP_SEC = num('SEARCH_CLICK_DEDUP_SEC', 1800);
+
+// Diversification of ranked search results (per request via `diversify`): at most N consecutive hits
+// sharing a category, venue or source, looking up to SEARCH_DIVERSIFY_WINDOW hits ahead for a substitute
+export const SEARCH_DIVERSIFY_ENABLED = process.env.SEARCH_DIVERSIFY_ENABLED !== 'false';
+export const SEARCH_DIVERSIFY_MAX_CATEGORY = num('SEARCH_DIVERSIFY_MAX_CATEGORY', 3);
+export const SEARCH_DIVERSIFY_MAX_VENUE = num('SEARCH_DIVERSIFY_MAX_VENUE', 2);
+export const SEARCH_DIVERSIFY_MAX_SOURCE = num('SEARCH_DIVERSIFY_MAX_SOURCE', 5);
+export const SEARCH_DIVERSIFY_WINDOW = num('SEARCH_DIVERSIFY_WINDOW', 50);
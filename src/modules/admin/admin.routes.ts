@@ -1,5 +1,16 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
+import {
+  queryStatsResponseSchema,
+  searchAnalyticsQuerySchema,
+  zeroResultStatsResponseSchema,
+  type SearchAnalyticsQuery,
+} from '../search/search.schemas.js';
+import { slowestQueries, topQueries, zeroResultQueries } from '../search/search.analytics.js';
+
+function sinceDays(days: number): Date {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
 
 export default async function adminRoutes(app: FastifyInstance) {
   app.get('/', {
@@ -9,4 +20,47 @@ export default async function adminRoutes(app: FastifyInstance) {
       response: { 200: z.object({ status: z.literal('ok') }) }
     }
   }, async () => ({ status: 'ok' as const }));
+
+  // Search analytics over the last `days` days, grouped by normalized query
+  app.get('/search/top-queries', {
+    schema: {
+      description: 'Most frequent search queries',
+      tags: ['admin'],
+      querystring: searchAnalyticsQuerySchema,
+      response: { 200: queryStatsResponseSchema }
+    }
+  }, async (req) => {
+    const query = req.query as SearchAnalyticsQuery;
+    const since = sinceDays(query.days);
+    const items = await topQueries(app.prisma, { since, cityId: query.cityId }, query.limit);
+    return { since: since.toISOString(), items };
+  });
+
+  app.get('/search/zero-results', {
+    schema: {
+      description: 'Search queries that returned nothing, with zero-result counts per city (where ingest coverage is missing)',
+      tags: ['admin'],
+      querystring: searchAnalyticsQuerySchema,
+      response: { 200: zeroResultStatsResponseSchema }
+    }
+  }, async (req) => {
+    const query = req.query as SearchAnalyticsQuery;
+    const since = sinceDays(query.days);
+    const { items, byCity } = await zeroResultQueries(app.prisma, { since, cityId: query.cityId }, query.limit);
+    return { since: since.toISOString(), items, byCity };
+  });
+
+  app.get('/search/slow-queries', {
+    schema: {
+      description: 'Search queries with the highest average response time',
+      tags: ['admin'],
+      querystring: searchAnalyticsQuerySchema,
+      response: { 200: queryStatsResponseSchema }
+    }
+  }, async (req) => {
+    const query = req.query as SearchAnalyticsQuery;
+    const since = sinceDays(query.days);
+    const items = await slowestQueries(app.prisma, { since, cityId: query.cityId }, query.limit);
+    return { since: since.toISOString(), items };
+  });
 }
@@ -3,9 +3,24 @@ import { z } from 'zod';
 import { listEvents, EventService } from './event.service.js';
 import { EventIdParamSchema, EventListResponseSchema, EventSchema } from './event.schemas.js';
 import { searchUnifiedFromDb } from '../../search/search.service.js';
-import { searchResponseSchema } from '../../search/search.schemas.js';
+import {
+    searchResponseSchema,
+    similarQuerySchema,
+    similarResponseSchema,
+    startingSoonQuerySchema,
+    startingSoonResponseSchema,
+    trendingQuerySchema,
+    trendingResponseSchema,
+    type SimilarQuery,
+    type StartingSoonQuery,
+    type TrendingQuery
+} from '../../search/search.schemas.js';
+import { findSimilarEvents } from '../../search/search.similar.js';
+import { findEventsStartingSoon, findTrendingEvents } from '../../search/search.trending.js';
+import { NotFoundError } from '../../../shared/errors.js';
 import { CacheService } from '../../cache/cache.service.js';
-import { CACHE_TTL_CATALOG_EVENTS } from '../../../config/cache.js';
+import { CACHE_TTL_CATALOG_EVENTS, CACHE_TTL_EVENTS_SOON } from '../../../config/cache.js';
+import { TRENDING_WINDOW_DAYS } from '../../../config/search.js';
 
 export default async function eventRoutes(app: FastifyInstance) {
     const service = new EventService(app.prisma);
@@ -84,4 +99,111 @@ export default async function eventRoutes(app: FastifyInstance) {
         return resp;
     });
 
+    // Trending events by city: favorites, plan additions, reviews and search clicks over a sliding window
+    const TrendingParamsSchema = z.object({ cityId: z.string() });
+    app.get('/trending/:cityId', {
+        schema: {
+            description: 'Trending events in the specified city, ranked by recent engagement (favorites, plans, reviews, search clicks)',
+            tags: ['catalog.events'],
+            params: TrendingParamsSchema,
+            querystring: trendingQuerySchema,
+            response: { 200: trendingResponseSchema }
+        }
+    }, async (req) => {
+        const startedAt = Date.now();
+        const params = TrendingParamsSchema.parse(req.params);
+        const query = req.query as TrendingQuery;
+        const windowDays = query.days ?? TRENDING_WINDOW_DAYS;
+        const cache = new CacheService(app);
+        const key = cache.buildKey('catalog:events:trending', { cityId: params.cityId, days: windowDays, limit: query.limit });
+        if (cache.isEnabled()) {
+            const cached = await cache.getJSON<any>(key);
+            if (cached) return { ...cached, queryId: `${startedAt}`, tookMs: Date.now() - startedAt };
+        }
+        const result = await findTrendingEvents(app.prisma, params.cityId, { windowDays, limit: query.limit });
+        const resp = {
+            queryId: `${startedAt}`,
+            cityId: result.cityId,
+            windowDays: result.windowDays,
+            total: result.items.length,
+            tookMs: Date.now() - startedAt,
+            items: result.items
+        };
+        if (cache.isEnabled()) {
+            const tags = [`city:${params.cityId}:catalog:events`];
+            try { await cache.setJSON(key, resp, { ttlSeconds: CACHE_TTL_CATALOG_EVENTS, tags }); } catch {}
+        }
+        return resp;
+    });
+
+    // Events starting within the next hours by city
+    const SoonParamsSchema = z.object({ cityId: z.string() });
+    app.get('/soon/:cityId', {
+        schema: {
+            description: 'Events in the specified city with an occurrence starting within the next hours, soonest first',
+            tags: ['catalog.events'],
+            params: SoonParamsSchema,
+            querystring: startingSoonQuerySchema,
+            response: { 200: startingSoonResponseSchema }
+        }
+    }, async (req) => {
+        const startedAt = Date.now();
+        const params = SoonParamsSchema.parse(req.params);
+        const query = req.query as StartingSoonQuery;
+        const cache = new CacheService(app);
+        const key = cache.buildKey('catalog:events:soon', { cityId: params.cityId, hours: query.hours, limit: query.limit });
+        if (cache.isEnabled()) {
+            const cached = await cache.getJSON<any>(key);
+            if (cached) return { ...cached, queryId: `${startedAt}`, tookMs: Date.now() - startedAt };
+        }
+        const result = await findEventsStartingSoon(app.prisma, params.cityId, { hours: query.hours, limit: query.limit });
+        const resp = {
+            queryId: `${startedAt}`,
+            ...result,
+            total: result.items.length,
+            tookMs: Date.now() - startedAt
+        };
+        if (cache.isEnabled()) {
+            const tags = [`city:${params.cityId}:catalog:events`];
+            try { await cache.setJSON(key, resp, { ttlSeconds: CACHE_TTL_EVENTS_SOON, tags }); } catch {}
+        }
+        return resp;
+    });
+
+    // Similar events in the same city (search hit format)
+    const SimilarParamsSchema = z.object({ id: z.string() });
+    app.get('/:id/similar', {
+        schema: {
+            description: 'Similar events: shared categories, tags and price tier, nearby and at overlapping times. Excludes the event itself and its duplicates',
+            tags: ['catalog.events'],
+            params: SimilarParamsSchema,
+            querystring: similarQuerySchema,
+            response: { 200: similarResponseSchema }
+        }
+    }, async (req) => {
+        const startedAt = Date.now();
+        const params = SimilarParamsSchema.parse(req.params);
+        const query = req.query as SimilarQuery;
+        const cache = new CacheService(app);
+        const key = cache.buildKey('catalog:events:similar', { id: params.id, limit: query.limit });
+        if (cache.isEnabled()) {
+            const cached = await cache.getJSON<any>(key);
+            if (cached) return { ...cached, queryId: `${startedAt}`, tookMs: Date.now() - startedAt };
+        }
+        const result = await findSimilarEvents(app.prisma, params.id, { limit: query.limit });
+        if (!result) throw new NotFoundError('Event not found');
+        const resp = {
+            queryId: `${startedAt}`,
+            sourceId: result.sourceId,
+            total: result.items.length,
+            tookMs: Date.now() - startedAt,
+            items: result.items
+        };
+        if (cache.isEnabled()) {
+            const tags = [`city:${result.cityId}:catalog:events`];
+            try { await cache.setJSON(key, resp, { ttlSeconds: CACHE_TTL_CATALOG_EVENTS, tags }); } catch {}
+        }
+        return resp;
+    });
+
 }
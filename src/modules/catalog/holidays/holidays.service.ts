@@ -0,0 +1,48 @@
+import type { PrismaClient } from '@prisma/client';
+
+// Public holidays per country, imported from Nager.Date (https://date.nager.at) into PublicHoliday
+
+const NAGER_BASE = 'https://date.nager.at/api/v3/PublicHolidays';
+
+export type PublicHolidayItem = { date: string; name: string };
+
+// Nationwide public holidays of a country for a year ("YYYY-MM-DD" local dates)
+export async function fetchPublicHolidays(countryCode: string, year: number): Promise<PublicHolidayItem[]> {
+  const res = await fetch(`${NAGER_BASE}/${year}/${encodeURIComponent(countryCode.toUpperCase())}`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!res.ok) throw new Error(`Nager.Date HTTP ${res.status}`);
+  const data: any[] = await res.json();
+  return (Array.isArray(data) ? data : [])
+    // Regional holidays (counties set) don't close a whole country
+    .filter((h) => typeof h?.date === 'string' && (h.global !== false || !Array.isArray(h.counties) || !h.counties.length))
+    .filter((h) => !Array.isArray(h.types) || h.types.includes('Public'))
+    .map((h) => ({ date: h.date, name: String(h.localName ?? h.name ?? 'Holiday') }));
+}
+
+export async function syncPublicHolidays(prisma: PrismaClient, countryCode: string, year: number): Promise<number> {
+  const cc = countryCode.toUpperCase();
+  const items = await fetchPublicHolidays(cc, year);
+  for (const h of items) {
+    const date = new Date(`${h.date}T00:00:00.000Z`);
+    await prisma.publicHoliday.upsert({
+      where: { countryCode_date: { countryCode: cc, date } },
+      update: { name: h.name },
+      create: { countryCode: cc, date, name: h.name },
+    });
+  }
+  return items.length;
+}
+
+// Holiday dates ("YYYY-MM-DD") of a country between two local dates (inclusive)
+export async function listHolidayDates(prisma: PrismaClient, countryCode: string, fromDate: string, toDate: string): Promise<string[]> {
+  const rows = await prisma.publicHoliday.findMany({
+    where: {
+      countryCode: countryCode.toUpperCase(),
+      date: { gte: new Date(`${fromDate}T00:00:00.000Z`), lte: new Date(`${toDate}T00:00:00.000Z`) },
+    },
+    select: { date: true },
+    orderBy: { date: 'asc' },
+  });
+  return rows.map((r) => r.date.toISOString().slice(0, 10));
+}
@@ -0,0 +1,91 @@
+import {
+  evaluateOpeningHours,
+  normalizeFoursquareHours,
+  normalizeGoogleOpeningHours,
+  parseOsmOpeningHours,
+} from '../opening-hours.js';
+
+describe('opening hours normalization', () => {
+  it('parses common OSM opening_hours strings', () => {
+    const oh = parseOsmOpeningHours('Mo-Fr 08:00-12:00,13:00-18:00; Sa 10:00-14:00; Su off', 'Europe/Berlin')!;
+    expect(oh.timezone).toBe('Europe/Berlin');
+    expect(oh.periods.filter((p) => p.weekday === 1)).toEqual([
+      { weekday: 1, open: '08:00', close: '12:00' },
+      { weekday: 1, open: '13:00', close: '18:00' },
+    ]);
+    expect(oh.periods.some((p) => p.weekday === 0)).toBe(false);
+    expect(oh.periods.filter((p) => p.weekday === 6)).toEqual([{ weekday: 6, open: '10:00', close: '14:00' }]);
+  });
+
+  it('handles 24/7, wrapping day ranges and spans past midnight', () => {
+    expect(parseOsmOpeningHours('24/7')!.periods).toHaveLength(7);
+    const bar = parseOsmOpeningHours('Fr-Su 20:00-03:00')!;
+    expect(bar.periods.map((p) => p.weekday).sort()).toEqual([0, 5, 6]);
+    expect(bar.periods[0].close).toBe('03:00');
+    expect(parseOsmOpeningHours('Mo-Sa 22:00-26:00')!.periods[0].close).toBe('02:00');
+    expect(parseOsmOpeningHours('PH off')).toBeNull();
+  });
+
+  it('normalizes Google periods and the always-open marker', () => {
+    const g = normalizeGoogleOpeningHours({ periods: [{ open: { day: 5, time: '2200' }, close: { day: 6, time: '0300' } }] })!;
+    expect(g.periods).toEqual([{ weekday: 5, open: '22:00', close: '03:00' }]);
+    expect(normalizeGoogleOpeningHours({ periods: [{ open: { day: 0, time: '0000' } }] })!.periods).toHaveLength(7);
+    expect(normalizeGoogleOpeningHours({ open_now: true })).toBeNull();
+  });
+
+  it('normalizes Foursquare regular hours (Monday = 1, Sunday = 7)', () => {
+    const f = normalizeFoursquareHours({ regular: [{ day: 7, open: '1000', close: '1600' }] }, 'America/New_York')!;
+    expect(f.periods).toEqual([{ weekday: 0, open: '10:00', close: '16:00' }]);
+  });
+});
+
+describe('evaluateOpeningHours', () => {
+  const cafe = { timezone: 'Europe/London', periods: [{ weekday: 3, open: '08:00', close: '18:00' }] };
+
+  it('evaluates in the place timezone', () => {
+    // Wed 2025-07-02 16:30 UTC = 17:30 BST
+    const open = evaluateOpeningHours(cafe, { at: new Date('2025-07-02T16:30:00Z') });
+    expect(open).toEqual({ openNow: true, openUntil: '18:00', openInWindow: true });
+    // 17:30 UTC = 18:30 BST → closed
+    expect(evaluateOpeningHours(cafe, { at: new Date('2025-07-02T17:30:00Z') }).openNow).toBe(false);
+  });
+
+  it('falls back to the city timezone when hours carry none', () => {
+    const hours = { timezone: '', periods: [{ weekday: 3, open: '08:00', close: '18:00' }] };
+    // 06:30 UTC = 08:30 in Berlin (CEST)
+    expect(evaluateOpeningHours(hours, { at: new Date('2025-07-02T06:30:00Z') }, 'Europe/Berlin').openNow).toBe(true);
+    expect(evaluateOpeningHours(hours, { at: new Date('2025-07-02T06:30:00Z') }, 'Europe/London').openNow).toBe(false);
+  });
+
+  it('handles periods crossing midnight', () => {
+    const bar = { timezone: 'UTC', periods: [{ weekday: 5, open: '22:00', close: '03:00' }] };
+    // Saturday 01:00 is still Friday night's period
+    expect(evaluateOpeningHours(bar, { at: new Date('2025-07-05T01:00:00Z') })).toMatchObject({ openNow: true, openUntil: '03:00' });
+    expect(evaluateOpeningHours(bar, { at: new Date('2025-07-05T04:00:00Z') }).openNow).toBe(false);
+  });
+
+  it('reports 24h places as open without a closing time', () => {
+    const always = parseOsmOpeningHours('24/7', 'UTC')!;
+    expect(evaluateOpeningHours(always, { at: new Date('2025-07-05T04:00:00Z') })).toEqual({ openNow: true, openUntil: undefined, openInWindow: true });
+  });
+
+  it('checks whether the place opens at some point of the window', () => {
+    const window = { at: new Date('2025-07-02T05:00:00Z'), from: new Date('2025-07-02T05:00:00Z'), to: new Date('2025-07-02T09:00:00Z') };
+    const state = evaluateOpeningHours(cafe, window);
+    expect(state.openNow).toBe(false);
+    expect(state.openInWindow).toBe(true);
+  });
+
+  it('only counts the given intervals of a multi-interval window', () => {
+    // Hull Tue–Thu, but only the evenings: the Wednesday cafe is closed then
+    const from = new Date('2025-07-01T17:00:00Z');
+    const to = new Date('2025-07-03T21:00:00Z');
+    const evenings = [
+      { from, to: new Date('2025-07-01T21:00:00Z') },
+      { from: new Date('2025-07-02T17:00:00Z'), to: new Date('2025-07-02T21:00:00Z') },
+      { from: new Date('2025-07-03T17:00:00Z'), to },
+    ];
+    expect(evaluateOpeningHours(cafe, { at: from, from, to }).openInWindow).toBe(true);
+    expect(evaluateOpeningHours(cafe, { at: from, from, to, intervals: evenings }).openInWindow).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+import { formatZonedTime, zonedParts, zonedTimeToUtc } from '../../../shared/timezone.js';
+
+// Canonical opening hours stored in Place.openingHours (shape of openingHoursSchema).
+// weekday: 0 Sun .. 6 Sat; open/close: local "HH:MM". close <= open means the period ends on the next day,
+// "00:00"-"24:00" is a full day. `source` remembers which provider produced the hours (merge precedence).
+export type OpeningPeriod = { weekday: number; open: string; close: string };
+export type OpeningHours = { timezone: string; periods: OpeningPeriod[]; source?: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function allDayPeriods(): OpeningPeriod[] {
+  return [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ weekday, open: '00:00', close: '24:00' }));
+}
+
+// "0930" | "9:30" | "09:30" → "09:30"
+function toHHMM(raw: unknown): string | null {
+  const s = String(raw ?? '').trim().replace(/^\+/, '');
+  const m = s.match(/^(\d{1,2}):?(\d{2})$/);
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 24 || min > 59 || (h === 24 && min > 0)) return null;
+  return `${String(h).padStart(2, '0')}:${m[2]}`;
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// Google Places `opening_hours.periods`: [{ open: { day, time }, close?: { day, time } }], day 0 = Sunday
+export function normalizeGoogleOpeningHours(raw: any, timezone = ''): OpeningHours | null {
+  const periods: any[] = Array.isArray(raw?.periods) ? raw.periods : [];
+  if (!periods.length) return null;
+  // A single open period without close means "always open"
+  if (periods.length === 1 && periods[0]?.open && !periods[0]?.close) {
+    return { timezone, periods: allDayPeriods(), source: 'GOOGLE_PLACES' };
+  }
+  const out: OpeningPeriod[] = [];
+  for (const p of periods) {
+    const weekday = Number(p?.open?.day);
+    const open = toHHMM(p?.open?.time);
+    const close = toHHMM(p?.close?.time);
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6 || !open || !close) continue;
+    out.push({ weekday, open, close });
+  }
+  return out.length ? { timezone, periods: out, source: 'GOOGLE_PLACES' } : null;
+}
+
+// Foursquare `hours.regular`: [{ day: 1 (Mon) .. 7 (Sun), open: "0800", close: "2200" }]
+export function normalizeFoursquareHours(raw: any, timezone = ''): OpeningHours | null {
+  const regular: any[] = Array.isArray(raw?.regular) ? raw.regular : [];
+  const out: OpeningPeriod[] = [];
+  for (const r of regular) {
+    const day = Number(r?.day);
+    const open = toHHMM(r?.open);
+    const close = toHHMM(r?.close);
+    if (!Number.isInteger(day) || day < 1 || day > 7 || !open || !close) continue;
+    out.push({ weekday: day % 7, open, close: open === '00:00' && close === '00:00' ? '24:00' : close });
+  }
+  return out.length ? { timezone, periods: out, source: 'FOURSQUARE' } : null;
+}
+
+const OSM_DAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const OSM_DAY = '(?:Mo|Tu|We|Th|Fr|Sa|Su)';
+const OSM_RULE = new RegExp(`^((?:${OSM_DAY}(?:-${OSM_DAY})?)(?:,${OSM_DAY}(?:-${OSM_DAY})?)*)?\\s*(.*)$`);
+
+function expandOsmDays(spec: string): number[] {
+  const days = new Set<number>();
+  for (const part of spec.split(',')) {
+    const [a, b] = part.split('-');
+    const start = OSM_DAYS.indexOf(a);
+    const end = b ? OSM_DAYS.indexOf(b) : start;
+    if (start < 0 || end < 0) continue;
+    // Ranges may wrap around the week (Fr-Mo)
+    for (let d = start; ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === end) break;
+    }
+  }
+  return Array.from(days);
+}
+
+// OpenStreetMap `opening_hours` (as returned by Geoapify). Supports the common subset:
+// "24/7", "Mo-Fr 08:00-18:00; Sa 10:00-14:00; Su off", several spans per day, spans past midnight and "10:00+".
+// Rules with month/holiday selectors are skipped; later rules override earlier ones for the same days.
+export function parseOsmOpeningHours(raw: unknown, timezone = ''): OpeningHours | null {
+  const spec = typeof raw === 'string' ? raw.trim() : '';
+  if (!spec) return null;
+  if (spec === '24/7') return { timezone, periods: allDayPeriods(), source: 'GEOAPIFY' };
+
+  const byDay = new Map<number, OpeningPeriod[]>();
+  for (const chunk of spec.split(';')) {
+    const rule = chunk.trim();
+    if (!rule) continue;
+    const m = rule.match(OSM_RULE);
+    if (!m) continue;
+    const daySpec = m[1];
+    const rest = (m[2] ?? '').trim();
+    const days = daySpec ? expandOsmDays(daySpec) : [0, 1, 2, 3, 4, 5, 6];
+
+    if (/^(off|closed)$/i.test(rest)) {
+      for (const d of days) byDay.set(d, []);
+      continue;
+    }
+    if (rest === '24/7' || rest === '00:00-24:00') {
+      for (const d of days) byDay.set(d, [{ weekday: d, open: '00:00', close: '24:00' }]);
+      continue;
+    }
+    // Unsupported selectors (PH, months, week numbers, comments)
+    if (!rest || /^[A-Za-z"]/.test(rest)) continue;
+
+    const spans: Array<{ open: string; close: string }> = [];
+    for (const s of rest.split(',')) {
+      const span = s.trim();
+      const openEnded = span.match(/^(\d{1,2}:\d{2})\+$/);
+      if (openEnded) {
+        const open = toHHMM(openEnded[1]);
+        if (open) spans.push({ open, close: '24:00' });
+        continue;
+      }
+      const range = span.match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+      if (!range) continue;
+      const open = toHHMM(range[1]);
+      let close = toHHMM(range[2]);
+      // OSM writes spans past midnight either as 22:00-02:00 or 22:00-26:00
+      if (!close) {
+        const [h, min] = range[2].split(':').map(Number);
+        if (h > 24 && h < 48) close = toHHMM(`${h - 24}:${String(min).padStart(2, '0')}`);
+      }
+      if (open && close) spans.push({ open, close });
+    }
+    if (!spans.length) continue;
+    for (const d of days) byDay.set(d, spans.map((sp) => ({ weekday: d, ...sp })));
+  }
+
+  const periods = Array.from(byDay.values()).flat().sort((a, b) => a.weekday - b.weekday || a.open.localeCompare(b.open));
+  if (!byDay.size) return null;
+  return { timezone, periods, source: 'GEOAPIFY' };
+}
+
+// Accepts anything stored in Place.openingHours and returns a valid canonical value (or null)
+export function coerceOpeningHours(raw: unknown): OpeningHours | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const periods = Array.isArray((raw as any).periods) ? (raw as any).periods : null;
+  if (!periods) return null;
+  const clean: OpeningPeriod[] = [];
+  for (const p of periods) {
+    const weekday = Number(p?.weekday);
+    const open = toHHMM(p?.open);
+    const close = toHHMM(p?.close);
+    if (Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 && open && close) clean.push({ weekday, open, close });
+  }
+  const timezone = typeof (raw as any).timezone === 'string' ? (raw as any).timezone : '';
+  const source = typeof (raw as any).source === 'string' ? (raw as any).source : undefined;
+  return { timezone, periods: clean, ...(source ? { source } : {}) };
+}
+
+// Open intervals (epoch ms) overlapping [fromMs, toMs], merged when one period ends exactly where the next starts
+function openIntervals(hours: OpeningHours, fromMs: number, toMs: number, tz: string): Array<[number, number]> {
+  const out: Array<[number, number]> = [];
+  const start = zonedParts(new Date(fromMs), tz);
+  // Start one local day earlier to catch periods that began yesterday and run past midnight
+  const days = Math.min(62, Math.ceil((toMs - fromMs) / DAY_MS) + 2);
+  for (let i = -1; i < days; i++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + i));
+    const y = date.getUTCFullYear();
+    const mo = date.getUTCMonth() + 1;
+    const d = date.getUTCDate();
+    const weekday = date.getUTCDay();
+    for (const p of hours.periods) {
+      if (p.weekday !== weekday) continue;
+      const o = toMinutes(p.open);
+      const c = toMinutes(p.close);
+      const openAt = zonedTimeToUtc(y, mo, d, 0, o, tz).getTime();
+      const closeAt = zonedTimeToUtc(y, mo, c > o ? d : d + 1, 0, c, tz).getTime();
+      if (closeAt <= openAt) continue;
+      if (closeAt < fromMs || openAt > toMs) continue;
+      out.push([openAt, closeAt]);
+    }
+  }
+  out.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const iv of out) {
+    const last = merged[merged.length - 1];
+    if (last && iv[0] <= last[1]) last[1] = Math.max(last[1], iv[1]);
+    else merged.push([iv[0], iv[1]]);
+  }
+  return merged;
+}
+
+export type OpeningState = {
+  openNow: boolean;
+  // Local "HH:MM" when the place closes; undefined when open around the clock or closed
+  openUntil?: string;
+  // Open at any moment of the requested window
+  openInWindow: boolean;
+};
+
+// Evaluate opening hours at `at` and over [from, to] in the place's timezone (hours.timezone or the fallback, e.g. City.tz).
+// With `intervals`, "open in window" means open during one of them ([from, to] should be their hull)
+export function evaluateOpeningHours(
+  hours: OpeningHours,
+  window: { at: Date; from?: Date; to?: Date; intervals?: Array<{ from: Date; to: Date }> },
+  fallbackTz?: string | null
+): OpeningState {
+  const tz = hours.timezone || fallbackTz || 'UTC';
+  const atMs = window.at.getTime();
+  const fromMs = Math.min(window.from?.getTime() ?? atMs, atMs);
+  const toMs = Math.max(window.to?.getTime() ?? atMs, atMs);
+  // Look a week ahead of `at` so that openUntil can follow 24h chains
+  const intervals = openIntervals(hours, fromMs, Math.max(toMs, atMs + 8 * DAY_MS), tz);
+
+  const current = intervals.find(([o, c]) => o <= atMs && atMs < c);
+  const windowFrom = window.from?.getTime() ?? atMs;
+  const windowTo = window.to?.getTime() ?? atMs;
+  const openInWindow = window.intervals
+    ? window.intervals.some((iv) => intervals.some(([o, c]) => o <= iv.to.getTime() && c > iv.from.getTime()))
+    : intervals.some(([o, c]) => o <= windowTo && c > windowFrom);
+
+  if (!current) return { openNow: false, openInWindow };
+  const aroundTheClock = current[1] - atMs >= 7 * DAY_MS;
+  return {
+    openNow: true,
+    openUntil: aroundTheClock ? undefined : formatZonedTime(new Date(current[1]), tz),
+    openInWindow,
+  };
+}
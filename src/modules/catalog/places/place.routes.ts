@@ -3,9 +3,21 @@ import { z } from 'zod';
 import { listPlaces, PlaceService } from './place.service.js';
 import { PlaceIdParamSchema, PlaceListResponseSchema, PlaceSchema } from './place.schemas.js';
 import { searchUnifiedFromDb } from '../../search/search.service.js';
-import { searchResponseSchema } from '../../search/search.schemas.js';
+import {
+    searchResponseSchema,
+    similarQuerySchema,
+    similarResponseSchema,
+    trendingQuerySchema,
+    trendingResponseSchema,
+    type SimilarQuery,
+    type TrendingQuery
+} from '../../search/search.schemas.js';
+import { findSimilarPlaces } from '../../search/search.similar.js';
+import { findTrendingPlaces } from '../../search/search.trending.js';
+import { NotFoundError } from '../../../shared/errors.js';
 import { CacheService } from '../../cache/cache.service.js';
 import { CACHE_TTL_CATALOG_PLACES } from '../../../config/cache.js';
+import { TRENDING_WINDOW_DAYS } from '../../../config/search.js';
 
 
 export default async function placeRoutes(app: FastifyInstance) {
@@ -82,4 +94,77 @@ export default async function placeRoutes(app: FastifyInstance) {
         return resp;
     });
 
+    // Trending places by city: favorites, plan additions, reviews and search clicks over a sliding window
+    const TrendingParamsSchema = z.object({ cityId: z.string() });
+    app.get('/trending/:cityId', {
+        schema: {
+            description: 'Trending places in the specified city, ranked by recent engagement (favorites, plans, reviews, search clicks)',
+            tags: ['catalog.places'],
+            params: TrendingParamsSchema,
+            querystring: trendingQuerySchema,
+            response: { 200: trendingResponseSchema }
+        }
+    }, async (req) => {
+        const startedAt = Date.now();
+        const params = TrendingParamsSchema.parse(req.params);
+        const query = req.query as TrendingQuery;
+        const windowDays = query.days ?? TRENDING_WINDOW_DAYS;
+        const cache = new CacheService(app);
+        const key = cache.buildKey('catalog:places:trending', { cityId: params.cityId, days: windowDays, limit: query.limit });
+        if (cache.isEnabled()) {
+            const cached = await cache.getJSON<any>(key);
+            if (cached) return { ...cached, queryId: `${startedAt}`, tookMs: Date.now() - startedAt };
+        }
+        const result = await findTrendingPlaces(app.prisma, params.cityId, { windowDays, limit: query.limit });
+        const resp = {
+            queryId: `${startedAt}`,
+            cityId: result.cityId,
+            windowDays: result.windowDays,
+            total: result.items.length,
+            tookMs: Date.now() - startedAt,
+            items: result.items
+        };
+        if (cache.isEnabled()) {
+            const tags = [`city:${params.cityId}:catalog:places`];
+            try { await cache.setJSON(key, resp, { ttlSeconds: CACHE_TTL_CATALOG_PLACES, tags }); } catch {}
+        }
+        return resp;
+    });
+
+    // Similar places in the same city (search hit format)
+    const SimilarParamsSchema = z.object({ id: z.string() });
+    app.get('/:id/similar', {
+        schema: {
+            description: 'Similar places: shared categories, tags and price tier, nearby. Excludes the place itself and its duplicates',
+            tags: ['catalog.places'],
+            params: SimilarParamsSchema,
+            querystring: similarQuerySchema,
+            response: { 200: similarResponseSchema }
+        }
+    }, async (req) => {
+        const startedAt = Date.now();
+        const params = SimilarParamsSchema.parse(req.params);
+        const query = req.query as SimilarQuery;
+        const cache = new CacheService(app);
+        const key = cache.buildKey('catalog:places:similar', { id: params.id, limit: query.limit });
+        if (cache.isEnabled()) {
+            const cached = await cache.getJSON<any>(key);
+            if (cached) return { ...cached, queryId: `${startedAt}`, tookMs: Date.now() - startedAt };
+        }
+        const result = await findSimilarPlaces(app.prisma, params.id, { limit: query.limit });
+        if (!result) throw new NotFoundError('Place not found');
+        const resp = {
+            queryId: `${startedAt}`,
+            sourceId: result.sourceId,
+            total: result.items.length,
+            tookMs: Date.now() - startedAt,
+            items: result.items
+        };
+        if (cache.isEnabled()) {
+            const tags = [`city:${result.cityId}:catalog:places`];
+            try { await cache.setJSON(key, resp, { ttlSeconds: CACHE_TTL_CATALOG_PLACES, tags }); } catch {}
+        }
+        return resp;
+    });
+
 }
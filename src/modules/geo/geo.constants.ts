@@ -9,6 +9,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'NYC',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 40.7128,
             lon: -74.0060
@@ -26,6 +27,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'LAX',
+        timezone: 'America/Los_Angeles',
         coordinates: {
             lat: 34.0522,
             lon: -118.2437
@@ -43,6 +45,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'CHI',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 41.8781,
             lon: -87.6298
@@ -60,6 +63,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'DFW',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 32.7767,
             lon: -96.7970
@@ -77,6 +81,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'HOU',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 29.7604,
             lon: -95.3698
@@ -94,6 +99,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'PHL',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 39.9526,
             lon: -75.1652
@@ -111,6 +117,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'WAS',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 38.9072,
             lon: -77.0369
@@ -128,6 +135,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'BOS',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 42.3601,
             lon: -71.0589
@@ -145,6 +153,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'ATL',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 33.7490,
             lon: -84.3880
@@ -162,6 +171,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'MIA',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 25.7617,
             lon: -80.1918
@@ -179,6 +189,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'SFO',
+        timezone: 'America/Los_Angeles',
         coordinates: {
             lat: 37.7749,
             lon: -122.4194
@@ -196,6 +207,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'SEA',
+        timezone: 'America/Los_Angeles',
         coordinates: {
             lat: 47.6062,
             lon: -122.3321
@@ -213,6 +225,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'LAS',
+        timezone: 'America/Los_Angeles',
         coordinates: {
             lat: 36.1699,
             lon: -115.1398
@@ -230,6 +243,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'PHX',
+        timezone: 'America/Phoenix',
         coordinates: {
             lat: 33.4484,
             lon: -112.0740
@@ -247,6 +261,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'SAN',
+        timezone: 'America/Los_Angeles',
         coordinates: {
             lat: 32.7157,
             lon: -117.1611
@@ -264,6 +279,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'ORL',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 28.5383,
             lon: -81.3792
@@ -281,6 +297,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'MSP',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 44.9778,
             lon: -93.2650
@@ -298,6 +315,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'DEN',
+        timezone: 'America/Denver',
         coordinates: {
             lat: 39.7392,
             lon: -104.9903
@@ -315,6 +333,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'DTW',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 42.3314,
             lon: -83.0458
@@ -332,6 +351,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'BNA',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 36.1627,
             lon: -86.7816
@@ -349,6 +369,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'MSY',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 29.9511,
             lon: -90.0715
@@ -366,6 +387,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'MCI',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 39.0997,
             lon: -94.5786
@@ -383,6 +405,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'STL',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 38.6270,
             lon: -90.1994
@@ -400,6 +423,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'TPA',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 27.9506,
             lon: -82.4572
@@ -417,6 +441,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'CLT',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 35.2271,
             lon: -80.8431
@@ -434,6 +459,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'JAX',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 30.3322,
             lon: -81.6557
@@ -451,6 +477,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'IND',
+        timezone: 'America/Indiana/Indianapolis',
         coordinates: {
             lat: 39.7684,
             lon: -86.1581
@@ -468,6 +495,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'CLE',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 41.4993,
             lon: -81.6944
@@ -485,6 +513,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'CMH',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 39.9612,
             lon: -82.9988
@@ -502,6 +531,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'PIT',
+        timezone: 'America/New_York',
         coordinates: {
             lat: 40.4406,
             lon: -79.9959
@@ -519,6 +549,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'PDX',
+        timezone: 'America/Los_Angeles',
         coordinates: {
             lat: 45.5152,
             lon: -122.6784
@@ -536,6 +567,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'AUS',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 30.2672,
             lon: -97.7431
@@ -553,6 +585,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'US',
         countryName: 'United States',
         codeIATA: 'SAT',
+        timezone: 'America/Chicago',
         coordinates: {
             lat: 29.4241,
             lon: -98.4936
@@ -572,6 +605,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'CA',
         countryName: 'Canada',
         codeIATA: 'YTO',
+        timezone: 'America/Toronto',
         coordinates: {
             lat: 43.6532,
             lon: -79.3832
@@ -589,6 +623,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'CA',
         countryName: 'Canada',
         codeIATA: 'YVR',
+        timezone: 'America/Vancouver',
         coordinates: {
             lat: 49.2827,
             lon: -123.1207
@@ -606,6 +641,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'CA',
         countryName: 'Canada',
         codeIATA: 'YUL',
+        timezone: 'America/Toronto',
         coordinates: {
             lat: 45.5017,
             lon: -73.5673
@@ -623,6 +659,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'CA',
         countryName: 'Canada',
         codeIATA: 'YYC',
+        timezone: 'America/Edmonton',
         coordinates: {
             lat: 51.0447,
             lon: -114.0719
@@ -640,6 +677,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'CA',
         countryName: 'Canada',
         codeIATA: 'YEG',
+        timezone: 'America/Edmonton',
         coordinates: {
             lat: 53.5461,
             lon: -113.4938
@@ -657,6 +695,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'CA',
         countryName: 'Canada',
         codeIATA: 'YOW',
+        timezone: 'America/Toronto',
         coordinates: {
             lat: 45.4215,
             lon: -75.6972
@@ -676,6 +715,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'LON',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 51.5074,
             lon: -0.1278
@@ -693,6 +733,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'MAN',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 53.4808,
             lon: -2.2426
@@ -710,6 +751,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'BHX',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 52.4862,
             lon: -1.8904
@@ -727,6 +769,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'GLA',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 55.8642,
             lon: -4.2518
@@ -744,6 +787,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'LPL',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 53.4084,
             lon: -2.9916
@@ -761,6 +805,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'LBA',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 53.8008,
             lon: -1.5491
@@ -778,6 +823,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'EDI',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 55.9533,
             lon: -3.1883
@@ -795,6 +841,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'GB',
         countryName: 'United Kingdom',
         codeIATA: 'CWL',
+        timezone: 'Europe/London',
         coordinates: {
             lat: 51.4816,
             lon: -3.1791
@@ -812,6 +859,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'IE',
         countryName: 'Ireland',
         codeIATA: 'DUB',
+        timezone: 'Europe/Dublin',
         coordinates: {
             lat: 53.3498,
             lon: -6.2603
@@ -831,6 +879,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'DE',
         countryName: 'Germany',
         codeIATA: 'BER',
+        timezone: 'Europe/Berlin',
         coordinates: {
             lat: 52.5200,
             lon: 13.4050
@@ -848,6 +897,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'DE',
         countryName: 'Germany',
         codeIATA: 'HAM',
+        timezone: 'Europe/Berlin',
         coordinates: {
             lat: 53.5511,
             lon: 9.9937
@@ -865,6 +915,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'DE',
         countryName: 'Germany',
         codeIATA: 'MUC',
+        timezone: 'Europe/Berlin',
         coordinates: {
             lat: 48.1351,
             lon: 11.5820
@@ -882,6 +933,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'DE',
         countryName: 'Germany',
         codeIATA: 'CGN',
+        timezone: 'Europe/Berlin',
         coordinates: {
             lat: 50.9375,
             lon: 6.9603
@@ -899,6 +951,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'DE',
         countryName: 'Germany',
         codeIATA: 'FRA',
+        timezone: 'Europe/Berlin',
         coordinates: {
             lat: 50.1109,
             lon: 8.6821
@@ -918,6 +971,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'NL',
         countryName: 'Netherlands',
         codeIATA: 'AMS',
+        timezone: 'Europe/Amsterdam',
         coordinates: {
             lat: 52.3676,
             lon: 4.9041
@@ -935,6 +989,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'NL',
         countryName: 'Netherlands',
         codeIATA: 'RTM',
+        timezone: 'Europe/Amsterdam',
         coordinates: {
             lat: 51.9244,
             lon: 4.4777
@@ -952,6 +1007,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'NL',
         countryName: 'Netherlands',
         codeIATA: null,
+        timezone: 'Europe/Amsterdam',
         coordinates: {
             lat: 52.0907,
             lon: 5.1214
@@ -971,6 +1027,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'SE',
         countryName: 'Sweden',
         codeIATA: 'ARN',
+        timezone: 'Europe/Stockholm',
         coordinates: {
             lat: 59.3293,
             lon: 18.0686
@@ -988,6 +1045,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'SE',
         countryName: 'Sweden',
         codeIATA: 'GOT',
+        timezone: 'Europe/Stockholm',
         coordinates: {
             lat: 57.7089,
             lon: 11.9746
@@ -1007,6 +1065,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'ES',
         countryName: 'Spain',
         codeIATA: 'MAD',
+        timezone: 'Europe/Madrid',
         coordinates: {
             lat: 40.4168,
             lon: -3.7038
@@ -1024,6 +1083,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'ES',
         countryName: 'Spain',
         codeIATA: 'BCN',
+        timezone: 'Europe/Madrid',
         coordinates: {
             lat: 41.3851,
             lon: 2.1734
@@ -1041,6 +1101,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'ES',
         countryName: 'Spain',
         codeIATA: 'VLC',
+        timezone: 'Europe/Madrid',
         coordinates: {
             lat: 39.4699,
             lon: -0.3763
@@ -1058,6 +1119,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'ES',
         countryName: 'Spain',
         codeIATA: 'SVQ',
+        timezone: 'Europe/Madrid',
         coordinates: {
             lat: 37.3891,
             lon: -5.9845
@@ -1077,6 +1139,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'TR',
         countryName: 'Turkey',
         codeIATA: 'IST',
+        timezone: 'Europe/Istanbul',
         coordinates: {
             lat: 41.0082,
             lon: 28.9784
@@ -1094,6 +1157,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'TR',
         countryName: 'Turkey',
         codeIATA: 'ESB',
+        timezone: 'Europe/Istanbul',
         coordinates: {
             lat: 39.9334,
             lon: 32.8597
@@ -1111,6 +1175,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'TR',
         countryName: 'Turkey',
         codeIATA: 'ADB',
+        timezone: 'Europe/Istanbul',
         coordinates: {
             lat: 38.4237,
             lon: 27.1428
@@ -1130,6 +1195,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'AU',
         countryName: 'Australia',
         codeIATA: 'SYD',
+        timezone: 'Australia/Sydney',
         coordinates: {
             lat: -33.8688,
             lon: 151.2093
@@ -1147,6 +1213,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'AU',
         countryName: 'Australia',
         codeIATA: 'MEL',
+        timezone: 'Australia/Melbourne',
         coordinates: {
             lat: -37.8136,
             lon: 144.9631
@@ -1164,6 +1231,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'AU',
         countryName: 'Australia',
         codeIATA: 'BNE',
+        timezone: 'Australia/Brisbane',
         coordinates: {
             lat: -27.4698,
             lon: 153.0251
@@ -1181,6 +1249,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'AU',
         countryName: 'Australia',
         codeIATA: 'PER',
+        timezone: 'Australia/Perth',
         coordinates: {
             lat: -31.9523,
             lon: 115.8613
@@ -1198,6 +1267,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'AU',
         countryName: 'Australia',
         codeIATA: 'ADL',
+        timezone: 'Australia/Adelaide',
         coordinates: {
             lat: -34.9285,
             lon: 138.6007
@@ -1217,6 +1287,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'NZ',
         countryName: 'New Zealand',
         codeIATA: 'AKL',
+        timezone: 'Pacific/Auckland',
         coordinates: {
             lat: -36.8485,
             lon: 174.7633
@@ -1234,6 +1305,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'NZ',
         countryName: 'New Zealand',
         codeIATA: 'WLG',
+        timezone: 'Pacific/Auckland',
         coordinates: {
             lat: -41.2865,
             lon: 174.7762
@@ -1251,6 +1323,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'NZ',
         countryName: 'New Zealand',
         codeIATA: 'CHC',
+        timezone: 'Pacific/Auckland',
         coordinates: {
             lat: -43.5321,
             lon: 172.6362
@@ -1270,6 +1343,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'MX',
         countryName: 'Mexico',
         codeIATA: 'MEX',
+        timezone: 'America/Mexico_City',
         coordinates: {
             lat: 19.4326,
             lon: -99.1332
@@ -1287,6 +1361,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'MX',
         countryName: 'Mexico',
         codeIATA: 'MTY',
+        timezone: 'America/Monterrey',
         coordinates: {
             lat: 25.6866,
             lon: -100.3161
@@ -1304,6 +1379,7 @@ export const GEO_CITIES: GeoCity[] = [
         countryCode: 'MX',
         countryName: 'Mexico',
         codeIATA: 'GDL',
+        timezone: 'America/Mexico_City',
         coordinates: {
             lat: 20.6597,
             lon: -103.3496
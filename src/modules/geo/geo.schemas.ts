@@ -18,6 +18,7 @@ export const geoCitySchema = z.object({
     countryCode: z.string().length(2),
     countryName: z.string(),
     codeIATA: z.string().nullable().optional(),
+    timezone: z.string(),
     coordinates: geoCoordinatesSchema,
     boundingBox: geoBoundingBoxSchema
 });
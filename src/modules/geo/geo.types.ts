@@ -16,6 +16,7 @@ export interface GeoCity {
     countryCode: string;      // ISO2, e.g. "UA"
     countryName: string;      // "Ukraine"
     codeIATA?: string | null; // e.g. "IEV", "LON"
+    timezone: string;         // IANA zone, e.g. "Europe/London"
     coordinates: GeoCoordinates;  // city center
     boundingBox: GeoBoundingBox;  // city bounding box
 }
@@ -2,7 +2,14 @@ import { FastifyInstance } from 'fastify';
 import healthRoutes from './system/health.routes.js';
 import systemRoutes from './system/system.routes.js';
 import searchRoutes from './search/search.routes.js';
+import suggestRoutes from './search/suggest.routes.js';
+import parseRoutes from './search/parse.routes.js';
+import searchStreamRoutes from './search/search.stream.routes.js';
+import clickRoutes from './search/click.routes.js';
 import ingestionRoutes from './ingestion/ingestion.routes.js';
+import ingestionScheduler from './ingestion/ingestion.scheduler.js';
+import providerBreakerStore from './ingestion/provider.breaker.js';
+import providerUsageStore from './ingestion/provider.usage.js';
 import placesRoutes from './catalog/places/place.routes.js';
 import eventsRoutes from './catalog/events/event.routes.js';
 import {taxonomyRoutes} from './catalog/taxonomy/taxonomy.routes.js';
@@ -13,6 +20,7 @@ import partnerRoutes from './partner/partner.routes.js';
 import adminRoutes from './admin/admin.routes.js';
 import notificationsRoutes from './notifications/notifications.routes.js';
 import usersRoutes from './users/user.routes.js';
+import savedSearchRoutes from './users/saved-search.routes.js';
 import groupsRoutes from './groups/groups.routes.js';
 import reviewsRoutes from './reviews/reviews.routes.js';
 import authRoutes from './auth/auth.routes.js';
@@ -23,7 +31,14 @@ export default async function registerModules(app: FastifyInstance) {
   await app.register(healthRoutes);
   await app.register(systemRoutes, { prefix: '/api/system' });
   await app.register(searchRoutes, { prefix: '/api/search' });
+  await app.register(suggestRoutes, { prefix: '/api/search' });
+  await app.register(parseRoutes, { prefix: '/api/search' });
+  await app.register(searchStreamRoutes, { prefix: '/api/search' });
+  await app.register(clickRoutes, { prefix: '/api/search' });
   await app.register(ingestionRoutes, { prefix: '/api/ingestion' });
+  await app.register(ingestionScheduler);
+  await app.register(providerBreakerStore);
+  await app.register(providerUsageStore);
     await app.register(placesRoutes, { prefix: '/api/places' });
     await app.register(eventsRoutes, { prefix: '/api/events' });
     await app.register(taxonomyRoutes, { prefix: '/api/taxonomy' });
@@ -50,6 +65,7 @@ export default async function registerModules(app: FastifyInstance) {
   await app.register(async (scope) => {
     scope.addHook('onRequest', app.authorize(['USER', 'PARTNER', 'ADMIN']));
     await scope.register(usersRoutes);
+    await scope.register(savedSearchRoutes, { prefix: '/saved-searches' });
   }, { prefix: '/api/users' });
   await app.register(groupsRoutes, { prefix: '/api/groups' });
   await app.register(reviewsRoutes, { prefix: '/api/reviews' });
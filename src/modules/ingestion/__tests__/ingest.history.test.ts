@@ -0,0 +1,78 @@
+import { ingestOutcome, listIngestRuns } from '../ingest.history.js';
+import { runOnlineIngest } from '../ingestion.service.js';
+import { IngestLogger } from '../ingest.logger.js';
+
+const stats = (errors = 0) => ({ total: 0, created: 0, updated: 0, unchanged: 0, errors, warnings: [] });
+const provider = (error?: string) => ({ provider: 'p', source: 'GEOAPIFY' as const, kind: 'place' as const, items: 0, tookMs: 1, error });
+
+describe('ingestOutcome', () => {
+  it('fails when the run threw or every provider failed, is partial on some failure', () => {
+    expect(ingestOutcome({ providers: [provider()], placeStats: stats(), eventStats: stats() })).toBe('succeeded');
+    expect(ingestOutcome({ providers: [provider(), provider('timeout')], placeStats: stats(), eventStats: stats() })).toBe('partial');
+    expect(ingestOutcome({ providers: [provider()], placeStats: stats(1), eventStats: stats() })).toBe('partial');
+    expect(ingestOutcome({ providers: [provider('timeout')], placeStats: stats(), eventStats: stats() })).toBe('failed');
+    expect(ingestOutcome({ providers: [], placeStats: stats(), eventStats: stats(), error: 'db down' })).toBe('failed');
+  });
+});
+
+describe('runOnlineIngest run history', () => {
+  it('stores the query, per-provider counts, outcome and only this run’s log lines', async () => {
+    const create = jest.fn().mockResolvedValue({ id: 'run1' });
+    const prisma: any = { ingestRun: { create }, city: { findMany: jest.fn().mockResolvedValue([]) } };
+    const logger = new IngestLogger({ toConsole: false, toFile: false });
+    logger.log('earlier run');
+
+    await runOnlineIngest(
+      {
+        prisma,
+        logger,
+        run: { trigger: 'batch', jobId: 'job1' },
+        placeProviders: [{ name: 'geoapify', source: 'GEOAPIFY', searchPlaces: async () => ({ items: [], warning: 'no results' }) }],
+        eventProviders: [{ name: 'ticketmaster', source: 'TICKETMASTER', searchEvents: async () => { throw new Error('429 Too Many Requests'); } }],
+      },
+      { q: 'museum', cityId: 'ber', lat: 52.5, lon: 13.4 }
+    );
+
+    const data = create.mock.calls[0][0].data;
+    expect(data).toMatchObject({ trigger: 'batch', jobId: 'job1', cityId: 'ber', outcome: 'partial', sources: ['GEOAPIFY', 'TICKETMASTER'] });
+    expect(data.query).toMatchObject({ q: 'museum', lat: 52.5 });
+    expect(data.providerStats).toEqual([
+      expect.objectContaining({ provider: 'geoapify', kind: 'place', items: 0, warning: 'no results' }),
+      expect.objectContaining({ provider: 'ticketmaster', kind: 'event', error: '429 Too Many Requests' }),
+    ]);
+    expect(data.warnings).toEqual(['geoapify: no results', 'ticketmaster: 429 Too Many Requests']);
+    expect(data.log.some((l: string) => l.includes('earlier run'))).toBe(false);
+    expect(data.log.some((l: string) => l.includes('online-ingest: start'))).toBe(true);
+    expect(data.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('records failed runs and rethrows', async () => {
+    const create = jest.fn().mockResolvedValue({ id: 'run2' });
+    const prisma: any = { ingestRun: { create }, city: { findMany: jest.fn().mockRejectedValue(new Error('db down')) } };
+    const place = { title: 'x', name: 'x', location: { lat: 1, lon: 1 }, source: { source: 'GEOAPIFY', externalId: '1' } };
+
+    await expect(
+      runOnlineIngest(
+        { prisma, eventProviders: [], placeProviders: [{ name: 'geoapify', source: 'GEOAPIFY', searchPlaces: async () => ({ items: [place as any] }) }] },
+        {}
+      )
+    ).rejects.toThrow('db down');
+    expect(create.mock.calls[0][0].data).toMatchObject({ trigger: 'search', outcome: 'failed', error: 'db down' });
+  });
+});
+
+describe('listIngestRuns', () => {
+  it('filters by city, provider and outcome and returns ISO dates', async () => {
+    const at = new Date('2025-06-01T10:00:00Z');
+    const prisma: any = {
+      ingestRun: {
+        count: jest.fn().mockResolvedValue(1),
+        findMany: jest.fn().mockResolvedValue([{ id: 'r', startedAt: at, finishedAt: at }]),
+      },
+    };
+    const result = await listIngestRuns(prisma, { cityId: 'ber', source: 'GOOGLE_PLACES', outcome: 'failed' }, { limit: 10, offset: 0 });
+
+    expect(prisma.ingestRun.findMany.mock.calls[0][0].where).toEqual({ cityId: 'ber', sources: { has: 'GOOGLE_PLACES' }, outcome: 'failed' });
+    expect(result).toEqual({ total: 1, items: [{ id: 'r', startedAt: at.toISOString(), finishedAt: at.toISOString() }] });
+  });
+});
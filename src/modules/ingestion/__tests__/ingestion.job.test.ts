@@ -0,0 +1,142 @@
+jest.mock('../ingestion.service.js', () => ({
+  runOnlineIngest: jest.fn(),
+  emptyStats: () => ({ total: 0, created: 0, updated: 0, unchanged: 0, errors: 0, warnings: [] }),
+  addStats: (into: any, st: any) => {
+    for (const k of ['total', 'created', 'updated', 'unchanged', 'errors']) into[k] += st[k];
+    into.warnings.push(...st.warnings);
+  },
+}));
+jest.mock('../provider.adapters.js', () => ({
+  buildEventProviders: jest.fn().mockReturnValue([{ name: 'ticketmaster', source: 'TICKETMASTER' }]),
+  buildPlaceProviders: jest.fn().mockReturnValue([{ name: 'geoapify', source: 'GEOAPIFY' }]),
+}));
+
+import { runIngestJob } from '../ingestion.job.js';
+import { runOnlineIngest } from '../ingestion.service.js';
+import { claimScheduledRun } from '../ingestion.scheduler.js';
+
+const stats = (created: number) => ({ total: created, created, updated: 0, unchanged: 0, errors: 0, warnings: [] });
+const city = (id: string, name: string) => ({
+  id, name, countryCode: 'DE', lat: 52.52, lng: 13.4, minLat: 52.3, minLng: 13.1, maxLat: 52.7, maxLng: 13.8,
+});
+
+function fakeApp(redisSet: jest.Mock) {
+  return {
+    config: {},
+    log: { warn: jest.fn(), error: jest.fn(), info: jest.fn() },
+    redis: { set: redisSet, eval: jest.fn().mockResolvedValue(1) },
+    prisma: {
+      city: { findMany: jest.fn().mockResolvedValue([city('ber', 'Berlin'), city('muc', 'Munich')]) },
+      importJob: { update: jest.fn().mockResolvedValue({}) },
+    },
+  } as any;
+}
+
+describe('runIngestJob', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('sweeps each unlocked city by category, skips locked ones and records progress on the job', async () => {
+    (runOnlineIngest as jest.Mock).mockImplementation(async (deps: any) => ({
+      placeStats: stats(deps.placeProviders.length ? 2 : 0),
+      eventStats: stats(deps.eventProviders.length ? 1 : 0),
+      warnings: deps.eventProviders.length ? ['ticketmaster: slow'] : [],
+    }));
+    // Munich is locked by another job
+    const app = fakeApp(jest.fn(async (key: string) => (key.includes(':muc:') ? null : 'OK')));
+
+    const { status, log } = await runIngestJob(app, 'job1', {
+      trigger: 'manual',
+      categories: ['place.food_restaurant', 'event.concert_show'],
+      windowDays: 7,
+    });
+
+    expect(status).toBe('partial');
+    const calls = (runOnlineIngest as jest.Mock).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[0][0].eventProviders).toEqual([]);
+    expect(calls[0][1]).toMatchObject({ q: 'Restaurants', cityId: 'ber', cityName: 'Berlin', countryCode: 'DE' });
+    expect(calls[1][0].placeProviders).toEqual([]);
+    expect(Date.parse(calls[1][1].toISO) - Date.parse(calls[1][1].fromISO)).toBe(7 * 24 * 3600 * 1000);
+
+    expect(log.progress).toEqual({ cities: 2, done: 2 });
+    expect(log.cities[0]).toMatchObject({ cityId: 'ber', status: 'done', placeStats: { created: 2 }, eventStats: { created: 1 } });
+    expect(log.cities[0].warnings).toEqual(['event.concert_show: ticketmaster: slow']);
+    expect(log.cities[1]).toMatchObject({ cityId: 'muc', status: 'skipped' });
+    expect(app.redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'ingest:city:ber:lock', 'job1');
+
+    const updates = app.prisma.importJob.update.mock.calls.map((c: any[]) => c[0].data);
+    expect(updates[0].status).toBe('running');
+    expect(updates[updates.length - 1]).toMatchObject({ status: 'partial', finishedAt: expect.any(Date) });
+  });
+
+  it('renews the city lock while a long sweep runs and releases it by job id', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      (runOnlineIngest as jest.Mock).mockImplementation(async () => {
+        // The sweep outlasts the lock TTL (1800 s)
+        await jest.advanceTimersByTimeAsync(2000 * 1000);
+        return { placeStats: stats(0), eventStats: stats(0), warnings: [] };
+      });
+      const app = fakeApp(jest.fn().mockResolvedValue('OK'));
+      app.prisma.city.findMany.mockResolvedValue([city('ber', 'Berlin')]);
+
+      await runIngestJob(app, 'job3', { trigger: 'manual', categories: ['place.food_restaurant'], windowDays: 7 });
+
+      const evals = app.redis.eval.mock.calls;
+      const renewals = evals.filter((c: any[]) => String(c[0]).includes('expire'));
+      expect(renewals.length).toBeGreaterThanOrEqual(3);
+      expect(renewals[0].slice(1)).toEqual([1, 'ingest:city:ber:lock', 'job3', 1800]);
+      expect(evals[evals.length - 1][0]).toContain('del');
+      // No renewal after the release
+      const before = evals.length;
+      await jest.advanceTimersByTimeAsync(2000 * 1000);
+      expect(app.redis.eval.mock.calls.length).toBe(before);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('marks the job failed when the city lookup fails', async () => {
+    const app = fakeApp(jest.fn().mockResolvedValue('OK'));
+    app.prisma.city.findMany.mockRejectedValue(new Error('db down'));
+
+    const { status, log } = await runIngestJob(app, 'job2', { trigger: 'schedule', windowDays: 14 });
+
+    expect(status).toBe('failed');
+    expect(log.error).toBe('db down');
+    expect(app.prisma.importJob.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { id: 'job2' }, data: expect.objectContaining({ status: 'failed' }) })
+    );
+  });
+});
+
+describe('claimScheduledRun', () => {
+  function fakeRedis(initial: Record<string, string> = {}) {
+    const store = new Map(Object.entries(initial));
+    return {
+      store,
+      get: jest.fn(async (k: string) => store.get(k) ?? null),
+      set: jest.fn(async (k: string, v: string, ...args: any[]) => {
+        if (args.includes('NX') && store.has(k)) return null;
+        store.set(k, v);
+        return 'OK';
+      }),
+    } as any;
+  }
+
+  it('lets one caller claim a due run and moves the next run forward', async () => {
+    const redis = fakeRedis();
+    const now = Date.parse('2025-06-01T00:00:00Z');
+
+    expect(await claimScheduledRun(redis, now)).toBe(true);
+    expect(await claimScheduledRun(redis, now)).toBe(false);
+    expect(Number(redis.store.get('ingest:schedule:next'))).toBe(now + 360 * 60 * 1000);
+  });
+
+  it('does not claim before the next run is due', async () => {
+    const now = Date.parse('2025-06-01T00:00:00Z');
+    const redis = fakeRedis({ 'ingest:schedule:next': String(now + 1000) });
+    expect(await claimScheduledRun(redis, now)).toBe(false);
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+});
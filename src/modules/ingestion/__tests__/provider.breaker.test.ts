@@ -0,0 +1,106 @@
+import { ProviderBreaker, providerBreaker } from '../provider.breaker.js';
+import { providerFetch, ProviderUnavailableError } from '../providers/provider.http.js';
+import { runOnlineIngest } from '../ingestion.service.js';
+
+function fakeRedis() {
+  const hashes = new Map<string, Record<string, string>>();
+  const strings = new Map<string, string>();
+  return {
+    hashes,
+    hgetall: jest.fn(async (k: string) => ({ ...(hashes.get(k) ?? {}) })),
+    hincrby: jest.fn(async (k: string, f: string, by: number) => {
+      const h = hashes.get(k) ?? {};
+      h[f] = String((Number(h[f]) || 0) + by);
+      hashes.set(k, h);
+      return Number(h[f]);
+    }),
+    hset: jest.fn(async (k: string, ...kv: string[]) => {
+      const h = hashes.get(k) ?? {};
+      for (let i = 0; i < kv.length; i += 2) h[kv[i]] = kv[i + 1];
+      hashes.set(k, h);
+      return 1;
+    }),
+    expire: jest.fn().mockResolvedValue(1),
+    set: jest.fn(async (k: string, v: string, ...args: any[]) => {
+      if (args.includes('NX') && strings.has(k)) return null;
+      strings.set(k, v);
+      return 'OK';
+    }),
+    del: jest.fn(async (...keys: string[]) => keys.filter((k) => hashes.delete(k) || strings.delete(k)).length),
+  } as any;
+}
+
+const res = (status: number, headers: Record<string, string> = {}) =>
+  ({ ok: status < 400, status, headers: new Headers(headers), json: async () => ({}) }) as any;
+
+describe('ProviderBreaker', () => {
+  it('opens after consecutive failures, half-opens after the cool-down and closes on success', async () => {
+    const redis = fakeRedis();
+    const breaker = new ProviderBreaker(2, 60);
+    breaker.useRedis(redis);
+    const t0 = Date.parse('2025-06-01T10:00:00Z');
+
+    expect(await breaker.recordFailure('TICKETMASTER', 'HTTP 503', t0)).toBe('closed');
+    expect(await breaker.recordFailure('TICKETMASTER', 'HTTP 503', t0)).toBe('open');
+    expect(redis.hashes.get('ingest:breaker:TICKETMASTER')).toMatchObject({ failures: '2', lastError: 'HTTP 503' });
+    expect(await breaker.check('TICKETMASTER', t0 + 1000)).toMatchObject({ allowed: false, state: 'open', openUntil: t0 + 60_000 });
+
+    // Cool-down over: a single trial goes through, concurrent callers keep skipping; its failure re-opens the breaker
+    expect(await breaker.check('TICKETMASTER', t0 + 61_000)).toMatchObject({ allowed: true, state: 'half_open' });
+    expect(await breaker.check('TICKETMASTER', t0 + 61_000)).toMatchObject({ allowed: false, state: 'half_open' });
+    expect(await breaker.peek('TICKETMASTER', t0 + 61_000)).toMatchObject({ state: 'half_open' });
+    expect(await breaker.recordFailure('TICKETMASTER', 'timed out', t0 + 61_000)).toBe('open');
+    expect(await breaker.check('TICKETMASTER', t0 + 62_000)).toMatchObject({ allowed: false });
+
+    // Next cool-down over: the probe was released with the failure, so a new trial can claim it
+    expect(await breaker.check('TICKETMASTER', t0 + 122_000)).toMatchObject({ allowed: true, state: 'half_open' });
+
+    await breaker.recordSuccess('TICKETMASTER');
+    expect(await breaker.check('TICKETMASTER', t0 + 62_000)).toMatchObject({ allowed: true, state: 'closed', failures: 0 });
+    const snapshot = await breaker.snapshot(t0);
+    expect(snapshot.map((s) => s.state)).toEqual(['closed', 'closed', 'closed', 'closed', 'closed']);
+  });
+});
+
+describe('providerFetch', () => {
+  afterEach(async () => {
+    await providerBreaker.reset('GEOAPIFY');
+  });
+
+  it('retries 429 and 5xx responses and returns the first good one', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(res(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(res(503, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(res(200)) as any;
+
+    const r = await providerFetch('GEOAPIFY', 'https://example.test/places');
+    expect(r.status).toBe(200);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect((await providerBreaker.check('GEOAPIFY')).failures).toBe(0);
+  });
+
+  it('does not retry other 4xx and gives up with the last response after the retries', async () => {
+    global.fetch = jest.fn().mockResolvedValue(res(401)) as any;
+    expect((await providerFetch('GEOAPIFY', 'https://example.test/places')).status).toBe(401);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    global.fetch = jest.fn().mockResolvedValue(res(500, { 'retry-after': '0' })) as any;
+    expect((await providerFetch('GEOAPIFY', 'https://example.test/places')).status).toBe(500);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(await providerBreaker.check('GEOAPIFY')).toMatchObject({ allowed: true, failures: 1 });
+  });
+
+  it('throws without a request while the breaker is open, and ingest skips the provider with a warning', async () => {
+    for (let i = 0; i < 5; i++) await providerBreaker.recordFailure('GEOAPIFY', 'HTTP 502');
+    global.fetch = jest.fn() as any;
+
+    await expect(providerFetch('GEOAPIFY', 'https://example.test/places')).rejects.toBeInstanceOf(ProviderUnavailableError);
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const searchPlaces = jest.fn();
+    const prisma: any = { ingestRun: { create: jest.fn().mockResolvedValue({ id: 'r' }) } };
+    const result = await runOnlineIngest({ prisma, eventProviders: [], placeProviders: [{ name: 'geoapify', source: 'GEOAPIFY', searchPlaces }] }, {});
+    expect(searchPlaces).not.toHaveBeenCalled();
+    expect(result.warnings[0]).toMatch(/^geoapify: circuit breaker open after 5 failed requests; skipped until /);
+  });
+});
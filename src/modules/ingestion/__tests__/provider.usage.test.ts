@@ -0,0 +1,79 @@
+import { budgetTier, ProviderUsage, providerUsage } from '../provider.usage.js';
+import { runOnlineIngest } from '../ingestion.service.js';
+
+function fakeRedis() {
+  const hashes = new Map<string, Record<string, string>>();
+  return {
+    hashes,
+    hincrby: jest.fn(async (k: string, f: string, by: number) => {
+      const h = hashes.get(k) ?? {};
+      h[f] = String((Number(h[f]) || 0) + by);
+      hashes.set(k, h);
+      return Number(h[f]);
+    }),
+    hgetall: jest.fn(async (k: string) => ({ ...(hashes.get(k) ?? {}) })),
+    expire: jest.fn().mockResolvedValue(1),
+  } as any;
+}
+
+describe('budgetTier', () => {
+  it('reduces searches and stops batch sweeps near the budget, then goes cache-only', () => {
+    expect(budgetTier(100, 0, 'search')).toBe('full');
+    expect(budgetTier(799, 1000, 'batch')).toBe('full');
+    expect(budgetTier(800, 1000, 'search')).toBe('reduced');
+    expect(budgetTier(800, 1000, 'batch')).toBe('cache_only');
+    expect(budgetTier(1000, 1000, 'stream')).toBe('cache_only');
+  });
+});
+
+describe('ProviderUsage', () => {
+  it('counts requests, calls and items per day and reports them by provider, city and trigger', async () => {
+    const redis = fakeRedis();
+    const usage = new ProviderUsage();
+    usage.useRedis(redis);
+    const day1 = Date.parse('2025-06-01T10:00:00Z');
+    const day2 = Date.parse('2025-06-02T10:00:00Z');
+
+    await usage.countRequest('GOOGLE_PLACES', day1);
+    await usage.countCall('GOOGLE_PLACES', { items: 20, cityId: 'ber', trigger: 'search' }, day1);
+    await usage.countRequest('GOOGLE_PLACES', day2);
+    await usage.countRequest('GOOGLE_PLACES', day2);
+    await usage.countCall('GOOGLE_PLACES', { items: 15, cityId: 'ber', trigger: 'batch' }, day2);
+    await usage.countCall('GOOGLE_PLACES', { items: 5, cityId: 'muc', trigger: 'search' }, day2);
+    expect(redis.hashes.get('ingest:usage:2025-06-02')).toMatchObject({ 'GOOGLE_PLACES:requests': '2', 'GOOGLE_PLACES:city:ber:items': '15' });
+
+    const report = await usage.report(2, day2);
+    expect(report).toMatchObject({ from: '2025-06-01', to: '2025-06-02' });
+    expect(report.providers.find((p) => p.source === 'GOOGLE_PLACES')).toMatchObject({ requests: 3, calls: 3, items: 40, requestsToday: 2, tier: 'full' });
+    expect(report.cities).toEqual([
+      { source: 'GOOGLE_PLACES', cityId: 'ber', calls: 2, items: 35 },
+      { source: 'GOOGLE_PLACES', cityId: 'muc', calls: 1, items: 5 },
+    ]);
+    expect(report.triggers).toEqual([
+      { source: 'GOOGLE_PLACES', trigger: 'search', calls: 2, items: 25 },
+      { source: 'GOOGLE_PLACES', trigger: 'batch', calls: 1, items: 15 },
+    ]);
+  });
+});
+
+describe('runOnlineIngest with provider budgets', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const prisma: any = { ingestRun: { create: jest.fn().mockResolvedValue({ id: 'r' }) }, city: { findMany: jest.fn().mockResolvedValue([]) } };
+
+  it('asks for a smaller page when the budget runs low', async () => {
+    jest.spyOn(providerUsage, 'tier').mockResolvedValue({ tier: 'reduced', used: 2500, budget: 3000 });
+    const searchPlaces = jest.fn().mockResolvedValue({ items: [] });
+    await runOnlineIngest({ prisma, eventProviders: [], placeProviders: [{ name: 'geoapify', source: 'GEOAPIFY', searchPlaces }] }, { cityId: 'ber' });
+    expect(searchPlaces).toHaveBeenCalledWith(expect.objectContaining({ size: 25 }));
+    expect(prisma.ingestRun.create.mock.calls[0][0].data.providerStats[0]).toMatchObject({ budget: 'reduced' });
+  });
+
+  it('skips the provider once the budget is used up', async () => {
+    jest.spyOn(providerUsage, 'tier').mockResolvedValue({ tier: 'cache_only', used: 3000, budget: 3000 });
+    const searchPlaces = jest.fn();
+    const result = await runOnlineIngest({ prisma, eventProviders: [], placeProviders: [{ name: 'geoapify', source: 'GEOAPIFY', searchPlaces }] }, {});
+    expect(searchPlaces).not.toHaveBeenCalled();
+    expect(result.warnings).toEqual(['geoapify: daily budget used up (3000/3000 requests); serving stored results only']);
+  });
+});
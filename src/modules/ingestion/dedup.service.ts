@@ -1,5 +1,6 @@
 import type { PrismaClient, Prisma } from "@prisma/client";
 import type { SourceType } from "../search/search.schemas.js";
+import type { OpeningHours } from "../catalog/places/opening-hours.js";
 
 export type NormalizedPlaceLike = {
   id?: string; // provider-internal
@@ -10,6 +11,7 @@ export type NormalizedPlaceLike = {
   imageUrl?: string | null;
   rating?: number | null;
   reviewCount?: number | null;
+  openingHours?: OpeningHours | null; // normalized weekly periods (see catalog/places/opening-hours)
   cityId?: string | null; // our city identifier, if resolved
   categories?: string[]; // taxonomy slugs
   // raw provider categories for diagnostics/mapping (stored as comma-separated string on canonical)
@@ -0,0 +1,138 @@
+import type { PrismaClient } from '@prisma/client';
+import type { IngestStats } from './persist.service.js';
+import type { SourceType } from '../search/search.schemas.js';
+import type { BudgetTier } from './provider.usage.js';
+
+// Ingest run history: every runOnlineIngest / runOnlineIngestIncremental call is stored as an IngestRun with
+// its query, per-provider counts, stats, outcome and log lines, for the admin endpoints under /api/ingestion/runs.
+
+export type IngestTrigger = 'search' | 'stream' | 'batch';
+export type IngestOutcome = 'succeeded' | 'partial' | 'failed';
+
+export type ProviderRunStats = {
+  provider: string;
+  source: SourceType;
+  kind: 'place' | 'event';
+  // Items the provider returned (after its per-provider limit)
+  items: number;
+  warning?: string;
+  error?: string;
+  // Set when the daily budget shrank the call or skipped it (provider.usage.ts)
+  budget?: Exclude<BudgetTier, 'full'>;
+  tookMs: number;
+};
+
+export type IngestRunRecord = {
+  trigger: IngestTrigger;
+  jobId?: string;
+  query: { cityId?: string } & Record<string, unknown>;
+  providers: ProviderRunStats[];
+  placeStats: IngestStats;
+  eventStats: IngestStats;
+  warnings: string[];
+  error?: string;
+  log: string[];
+  startedAt: Date;
+  finishedAt: Date;
+};
+
+export type IngestRunFilters = {
+  since?: Date;
+  cityId?: string;
+  source?: SourceType;
+  outcome?: IngestOutcome;
+  trigger?: IngestTrigger;
+  jobId?: string;
+};
+
+// Stored per run; a batch sweep can produce long logs
+const MAX_LOG_LINES = 1000;
+const MAX_WARNINGS = 50;
+
+// Failed: the run threw, or every provider failed. Partial: some provider or some item failed.
+export function ingestOutcome(rec: Pick<IngestRunRecord, 'providers' | 'placeStats' | 'eventStats' | 'error'>): IngestOutcome {
+  const failedProviders = rec.providers.filter((p) => p.error).length;
+  if (rec.error || (rec.providers.length > 0 && failedProviders === rec.providers.length)) return 'failed';
+  return failedProviders > 0 || rec.placeStats.errors > 0 || rec.eventStats.errors > 0 ? 'partial' : 'succeeded';
+}
+
+function capStats(s: IngestStats): IngestStats {
+  return { ...s, warnings: s.warnings.slice(0, MAX_WARNINGS) };
+}
+
+// Never throws: a history write must not fail the ingest itself
+export async function recordIngestRun(prisma: PrismaClient, rec: IngestRunRecord): Promise<string | null> {
+  try {
+    const row = await prisma.ingestRun.create({
+      data: {
+        trigger: rec.trigger,
+        jobId: rec.jobId ?? null,
+        cityId: rec.query.cityId ?? null,
+        query: JSON.parse(JSON.stringify(rec.query)),
+        sources: Array.from(new Set(rec.providers.map((p) => p.source))),
+        providerStats: rec.providers as any,
+        placeStats: capStats(rec.placeStats) as any,
+        eventStats: capStats(rec.eventStats) as any,
+        outcome: ingestOutcome(rec),
+        warnings: rec.warnings.slice(0, MAX_WARNINGS),
+        error: rec.error ?? null,
+        log: rec.log.length > MAX_LOG_LINES ? [...rec.log.slice(0, MAX_LOG_LINES - 1), `… ${rec.log.length - MAX_LOG_LINES + 1} more line(s)`] : rec.log,
+        startedAt: rec.startedAt,
+        finishedAt: rec.finishedAt,
+        durationMs: Math.max(0, rec.finishedAt.getTime() - rec.startedAt.getTime()),
+      },
+      select: { id: true },
+    });
+    return row.id;
+  } catch {
+    return null;
+  }
+}
+
+function runsWhere(f: IngestRunFilters) {
+  return {
+    ...(f.since ? { startedAt: { gte: f.since } } : {}),
+    ...(f.cityId ? { cityId: f.cityId } : {}),
+    ...(f.source ? { sources: { has: f.source } } : {}),
+    ...(f.outcome ? { outcome: f.outcome } : {}),
+    ...(f.trigger ? { trigger: f.trigger } : {}),
+    ...(f.jobId ? { jobId: f.jobId } : {}),
+  };
+}
+
+const RUN_SUMMARY_SELECT = {
+  id: true,
+  trigger: true,
+  jobId: true,
+  cityId: true,
+  query: true,
+  sources: true,
+  providerStats: true,
+  placeStats: true,
+  eventStats: true,
+  outcome: true,
+  warnings: true,
+  error: true,
+  startedAt: true,
+  finishedAt: true,
+  durationMs: true,
+} as const;
+
+function toRunDto<T extends { startedAt: Date; finishedAt: Date }>(row: T) {
+  return { ...row, startedAt: row.startedAt.toISOString(), finishedAt: row.finishedAt.toISOString() };
+}
+
+// Newest first, without the log lines
+export async function listIngestRuns(prisma: PrismaClient, filters: IngestRunFilters, page: { limit: number; offset: number }) {
+  const where = runsWhere(filters);
+  const [total, rows] = await Promise.all([
+    prisma.ingestRun.count({ where }),
+    prisma.ingestRun.findMany({ where, orderBy: [{ startedAt: 'desc' }, { id: 'desc' }], skip: page.offset, take: page.limit, select: RUN_SUMMARY_SELECT }),
+  ]);
+  return { total, items: rows.map(toRunDto) };
+}
+
+export async function getIngestRun(prisma: PrismaClient, id: string) {
+  const row = await prisma.ingestRun.findUnique({ where: { id }, select: { ...RUN_SUMMARY_SELECT, log: true } });
+  return row ? toRunDto(row) : null;
+}
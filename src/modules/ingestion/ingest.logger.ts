@@ -3,6 +3,7 @@
  - in-memory lines buffer (always on);
  - console output (guarded by env INGEST_DEBUG_TO_CONSOLE=true);
  - file output of the last request (overwrite), guarded by env INGEST_DEBUG_FILE_LOG=true.
+ Every run's own lines are also kept in IngestRun.log (see ingest.history.ts).
 */
 
 import fs from 'node:fs';
@@ -32,6 +33,11 @@ export class IngestLogger {
 
   lines(): string[] { return [...this.linesBuf]; }
 
+  // Number of lines so far; with linesSince() it cuts one run's lines out of a shared logger
+  size(): number { return this.linesBuf.length; }
+
+  linesSince(start: number): string[] { return this.linesBuf.slice(start); }
+
   summary(max: number): string[] { return this.linesBuf.slice(0, max); }
 
   flushToFile(overwrite = true) {
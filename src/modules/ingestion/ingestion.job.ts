@@ -0,0 +1,255 @@
+import type { FastifyInstance } from 'fastify';
+import type { PrismaClient } from '@prisma/client';
+import { addStats, emptyStats, runOnlineIngest, type BaseQuery } from './ingestion.service.js';
+import type { IngestStats } from './persist.service.js';
+import { buildEventProviders, buildPlaceProviders } from './provider.adapters.js';
+import { IngestLogger } from './ingest.logger.js';
+import { EVENT_CATEGORIES, PLACE_CATEGORIES, type TaxonomyCategory } from '../catalog/taxonomy/taxonomy.constants.js';
+import type { SourceType } from '../search/search.schemas.js';
+import { CacheService } from '../cache/cache.service.js';
+import { haversineKm } from '../../shared/utils.js';
+import { INGEST_CITY_LOCK_TTL_SEC } from '../../config/ingestion.js';
+import { CACHE_INVALIDATE_AFTER_INGEST } from '../../config/cache.js';
+
+// Batch ingest ("sweep") of the seeded cities: each city × taxonomy category goes through runOnlineIngest with
+// the category name as provider keyword; place categories to the place providers, event categories to the
+// event providers for the next windowDays. Progress and per-city outcomes are kept in ImportJob (status + log).
+// A Redis lock per city keeps two jobs (scheduled and manual) from sweeping the same city at once; it is renewed
+// while the sweep runs and only its owner (compare on jobId) may renew or release it.
+
+export type IngestSweepOptions = {
+  trigger: 'manual' | 'schedule';
+  // All cities when omitted
+  cityIds?: string[];
+  // Taxonomy slugs; all place and event categories when omitted
+  categories?: string[];
+  sources?: SourceType[];
+  windowDays: number;
+};
+
+export type IngestJobStatus = 'pending' | 'running' | 'succeeded' | 'partial' | 'failed';
+
+export type IngestCityResult = {
+  cityId: string;
+  name: string;
+  status: 'done' | 'skipped' | 'failed';
+  reason?: string;
+  tookMs?: number;
+  placeStats?: IngestStats;
+  eventStats?: IngestStats;
+  warnings?: string[];
+};
+
+export type IngestJobLog = {
+  progress: { cities: number; done: number };
+  cities: IngestCityResult[];
+  error?: string;
+};
+
+type SweepCity = {
+  id: string;
+  name: string;
+  countryCode: string | null;
+  lat: unknown;
+  lng: unknown;
+  minLat: unknown;
+  minLng: unknown;
+  maxLat: unknown;
+  maxLng: unknown;
+};
+
+const ALL_SOURCES: SourceType[] = ['TICKETMASTER', 'PREDICTHQ', 'GEOAPIFY', 'GOOGLE_PLACES', 'FOURSQUARE'];
+// Providers take a circle of at most this radius
+const MAX_SWEEP_RADIUS_KM = 50;
+// Warnings kept per city in the job log
+const MAX_CITY_WARNINGS = 20;
+// Deletes the lock only while it still belongs to this job
+const RELEASE_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+// Extends the lock only while it still belongs to this job
+const RENEW_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('expire', KEYS[1], ARGV[2]) else return 0 end";
+
+export function cityLockKey(cityId: string): string {
+  return `ingest:city:${cityId}:lock`;
+}
+
+export async function createIngestJob(prisma: PrismaClient, opts: IngestSweepOptions): Promise<string> {
+  const job = await prisma.importJob.create({
+    data: { kind: 'API', status: 'pending' satisfies IngestJobStatus, payload: opts as any },
+    select: { id: true },
+  });
+  return job.id;
+}
+
+// Without Redis there is nothing to coordinate with; a Redis error does not block the sweep either
+async function acquireCityLock(app: FastifyInstance, cityId: string, jobId: string): Promise<boolean> {
+  const redis = (app as any).redis;
+  if (!redis) return true;
+  try {
+    return (await redis.set(cityLockKey(cityId), jobId, 'EX', INGEST_CITY_LOCK_TTL_SEC, 'NX')) === 'OK';
+  } catch (err) {
+    app.log.warn({ err, cityId }, 'ingest city lock unavailable');
+    return true;
+  }
+}
+
+// Keeps the lock alive while a sweep outlasts INGEST_CITY_LOCK_TTL_SEC; returns the function that stops renewing
+function keepCityLock(app: FastifyInstance, cityId: string, jobId: string): () => void {
+  const redis = (app as any).redis;
+  if (!redis) return () => {};
+  const timer = setInterval(() => {
+    redis
+      .eval(RENEW_LOCK_SCRIPT, 1, cityLockKey(cityId), jobId, INGEST_CITY_LOCK_TTL_SEC)
+      .then((renewed: number) => {
+        if (!renewed) app.log.warn({ cityId, jobId }, 'ingest city lock lost during sweep');
+      })
+      .catch((err: unknown) => app.log.warn({ err, cityId, jobId }, 'ingest city lock renewal failed'));
+  }, Math.max(1, Math.floor(INGEST_CITY_LOCK_TTL_SEC / 3)) * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+async function releaseCityLock(app: FastifyInstance, cityId: string, jobId: string): Promise<void> {
+  const redis = (app as any).redis;
+  if (!redis) return;
+  await redis.eval(RELEASE_LOCK_SCRIPT, 1, cityLockKey(cityId), jobId).catch(() => {});
+}
+
+function sweepCategories(slugs?: string[]): TaxonomyCategory[] {
+  const all = [...PLACE_CATEGORIES, ...EVENT_CATEGORIES];
+  if (!slugs?.length) return all;
+  const wanted = new Set(slugs);
+  return all.filter((c) => wanted.has(c.slug));
+}
+
+function cityRect(city: SweepCity) {
+  if (city.minLat == null || city.minLng == null || city.maxLat == null || city.maxLng == null) return undefined;
+  return { minLon: Number(city.minLng), minLat: Number(city.minLat), maxLon: Number(city.maxLng), maxLat: Number(city.maxLat) };
+}
+
+// City center with a radius from the bbox half-diagonal (10 km without a bbox)
+export function citySweepQuery(city: SweepCity, windowDays: number, now: Date): BaseQuery {
+  const center = { lat: Number(city.lat), lon: Number(city.lng) };
+  const rect = cityRect(city);
+  const radiusKm = rect
+    ? Math.max(2, Math.min(MAX_SWEEP_RADIUS_KM, Math.round(haversineKm(center, { lat: rect.maxLat, lon: rect.maxLon }))))
+    : 10;
+  return {
+    lat: center.lat,
+    lon: center.lon,
+    radiusKm,
+    cityId: city.id,
+    cityName: city.name,
+    countryCode: city.countryCode ?? undefined,
+    fromISO: now.toISOString(),
+    toISO: new Date(now.getTime() + windowDays * 24 * 3600 * 1000).toISOString(),
+  };
+}
+
+async function sweepCity(app: FastifyInstance, jobId: string, city: SweepCity, opts: IngestSweepOptions, logger: IngestLogger): Promise<IngestCityResult> {
+  const started = Date.now();
+  const { TICKETMASTER_API_KEY, PREDICTHQ_TOKEN, GEOAPIFY_API_KEY, GOOGLE_PLACES_API_KEY, FOURSQUARE_API_KEY } = app.config;
+  const keys = {
+    ticketmasterApiKey: TICKETMASTER_API_KEY,
+    predicthqToken: PREDICTHQ_TOKEN,
+    geoapifyApiKey: GEOAPIFY_API_KEY,
+    googlePlacesApiKey: GOOGLE_PLACES_API_KEY,
+    foursquareApiKey: FOURSQUARE_API_KEY,
+  };
+  const requested = new Set<SourceType>(opts.sources?.length ? opts.sources : ALL_SOURCES);
+  const placeProviders = buildPlaceProviders(keys, requested, { textSearchCityQuery: city.name, rect: cityRect(city) });
+  const eventProviders = buildEventProviders(keys, requested);
+  const base = citySweepQuery(city, opts.windowDays, new Date());
+
+  const placeStats = emptyStats();
+  const eventStats = emptyStats();
+  const warnings: string[] = [];
+  for (const category of sweepCategories(opts.categories)) {
+    const isPlace = category.type === 'PLACE';
+    if (isPlace ? !placeProviders.length : !eventProviders.length) continue;
+    logger.log(`sweep: city=${city.id} category=${category.slug}`);
+    const result = await runOnlineIngest(
+      {
+        prisma: app.prisma,
+        placeProviders: isPlace ? placeProviders : [],
+        eventProviders: isPlace ? [] : eventProviders,
+        logger,
+        run: { trigger: 'batch', jobId },
+      },
+      { ...base, q: category.name }
+    );
+    addStats(placeStats, result.placeStats);
+    addStats(eventStats, result.eventStats);
+    warnings.push(...result.warnings.map((w) => `${category.slug}: ${w}`));
+  }
+  const trim = (s: IngestStats): IngestStats => ({ ...s, warnings: s.warnings.slice(0, MAX_CITY_WARNINGS) });
+  return {
+    cityId: city.id,
+    name: city.name,
+    status: 'done',
+    tookMs: Date.now() - started,
+    placeStats: trim(placeStats),
+    eventStats: trim(eventStats),
+    warnings: warnings.length ? warnings.slice(0, MAX_CITY_WARNINGS) : undefined,
+  };
+}
+
+function finalStatus(cities: IngestCityResult[]): IngestJobStatus {
+  if (cities.length && cities.every((c) => c.status === 'failed')) return 'failed';
+  return cities.some((c) => c.status !== 'done') ? 'partial' : 'succeeded';
+}
+
+// Runs a job created by createIngestJob; never throws, the outcome is recorded on the job
+export async function runIngestJob(app: FastifyInstance, jobId: string, opts: IngestSweepOptions): Promise<{ status: IngestJobStatus; log: IngestJobLog }> {
+  const log: IngestJobLog = { progress: { cities: 0, done: 0 }, cities: [] };
+  const save = (status: IngestJobStatus, finished = false) =>
+    app.prisma.importJob.update({
+      where: { id: jobId },
+      data: { status, log: log as any, ...(finished ? { finishedAt: new Date() } : {}) },
+    });
+  const logger = new IngestLogger();
+  const cache = new CacheService(app);
+
+  try {
+    const cities: SweepCity[] = await app.prisma.city.findMany({
+      where: opts.cityIds?.length ? { id: { in: opts.cityIds } } : undefined,
+      select: { id: true, name: true, countryCode: true, lat: true, lng: true, minLat: true, minLng: true, maxLat: true, maxLng: true },
+      orderBy: { name: 'asc' },
+    });
+    log.progress.cities = cities.length;
+    await save('running');
+
+    for (const city of cities) {
+      let result: IngestCityResult;
+      if (!(await acquireCityLock(app, city.id, jobId))) {
+        result = { cityId: city.id, name: city.name, status: 'skipped', reason: 'another ingest job holds this city' };
+      } else {
+        const stopRenewing = keepCityLock(app, city.id, jobId);
+        try {
+          result = await sweepCity(app, jobId, city, opts, logger);
+        } catch (e: any) {
+          app.log.warn({ err: e, jobId, cityId: city.id }, 'ingest sweep of city failed');
+          result = { cityId: city.id, name: city.name, status: 'failed', reason: e?.message || 'error' };
+        } finally {
+          stopRenewing();
+          await releaseCityLock(app, city.id, jobId);
+        }
+        if (result.status === 'done' && CACHE_INVALIDATE_AFTER_INGEST && cache.isEnabled()) {
+          try { await cache.invalidateByCity(city.id, ['search', 'catalog:places', 'catalog:events']); } catch {}
+        }
+      }
+      log.cities.push(result);
+      log.progress.done++;
+      await save('running');
+    }
+
+    const status = finalStatus(log.cities);
+    await save(status, true);
+    logger.flushToFile(true);
+    return { status, log };
+  } catch (e: any) {
+    app.log.error({ err: e, jobId }, 'ingest job failed');
+    log.error = e?.message || 'error';
+    await save('failed', true).catch(() => {});
+    return { status: 'failed', log };
+  }
+}
@@ -1,20 +1,296 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
+import { SourceTypeEnum } from '../search/search.schemas.js';
+import { EVENT_CATEGORIES, PLACE_CATEGORIES } from '../catalog/taxonomy/taxonomy.constants.js';
+import { createIngestJob, runIngestJob, type IngestSweepOptions } from './ingestion.job.js';
+import { getIngestRun, listIngestRuns } from './ingest.history.js';
+import { providerBreaker } from './provider.breaker.js';
+import { MAX_REPORT_DAYS, providerUsage } from './provider.usage.js';
+import { AppError, NotFoundError } from '../../shared/errors.js';
+import { INGEST_SWEEP_WINDOW_DAYS } from '../../config/ingestion.js';
+
+const SWEEP_CATEGORY_SLUGS = new Set([...PLACE_CATEGORIES, ...EVENT_CATEGORIES].map((c) => c.slug));
+
+const IngestionRunBodySchema = z
+    .object({
+        // All cities when omitted
+        cityIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+        // Taxonomy slugs (place.* / event.*); all categories when omitted
+        categories: z
+            .array(z.string())
+            .min(1)
+            .optional()
+            .refine((slugs) => !slugs || slugs.every((s) => SWEEP_CATEGORY_SLUGS.has(s)), { message: 'unknown category slug' }),
+        sources: z.array(SourceTypeEnum).min(1).optional(),
+        // Events are fetched for the next N days
+        windowDays: z.number().int().min(1).max(90).optional(),
+    })
+    .optional();
 
 const IngestionRunResponseSchema  = z.object({
     accepted: z.boolean(),
+    jobId: z.string(),
+    status: z.string(),
+});
+
+const IngestStatsSchema = z.object({
+    total: z.number(),
+    created: z.number(),
+    updated: z.number(),
+    unchanged: z.number(),
+    errors: z.number(),
+    warnings: z.array(z.string()),
+});
+
+const ProviderRunStatsSchema = z.object({
+    provider: z.string(),
+    source: SourceTypeEnum,
+    kind: z.enum(['place', 'event']),
+    items: z.number(),
+    warning: z.string().optional(),
+    error: z.string().optional(),
+    budget: z.enum(['reduced', 'cache_only']).optional(),
+    tookMs: z.number(),
+});
+
+const IngestRunSummarySchema = z.object({
+    id: z.string(),
+    trigger: z.string(),
+    jobId: z.string().nullable(),
+    cityId: z.string().nullable(),
+    query: z.record(z.string(), z.unknown()),
+    sources: z.array(z.string()),
+    providerStats: z.array(ProviderRunStatsSchema),
+    placeStats: IngestStatsSchema,
+    eventStats: IngestStatsSchema,
+    outcome: z.string(),
+    warnings: z.array(z.string()),
+    error: z.string().nullable(),
+    startedAt: z.string(),
+    finishedAt: z.string(),
+    durationMs: z.number(),
+});
+
+const IngestRunsQuerySchema = z.object({
+    cityId: z.string().optional(),
+    source: SourceTypeEnum.optional(),
+    outcome: z.enum(['succeeded', 'partial', 'failed']).optional(),
+    trigger: z.enum(['search', 'stream', 'batch']).optional(),
+    jobId: z.string().optional(),
+    days: z.coerce.number().int().min(1).max(90).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+const ImportJobSchema = z.object({
+    id: z.string(),
+    kind: z.string(),
+    status: z.string(),
+    payload: z.unknown().nullable(),
+    log: z.unknown().nullable(),
+    startedAt: z.string(),
+    finishedAt: z.string().nullable(),
+    runs: z.number(),
+});
+
+const ProviderBreakerSchema = z.object({
+    source: SourceTypeEnum,
+    state: z.enum(['closed', 'open', 'half_open']),
+    failures: z.number(),
+    openUntil: z.string().optional(),
+    lastError: z.string().optional(),
+    lastFailureAt: z.string().optional(),
+});
+
+const UsageQuerySchema = z.object({
+    // Today (UTC) by default
+    days: z.coerce.number().int().min(1).max(MAX_REPORT_DAYS).default(1),
+    source: SourceTypeEnum.optional(),
+    cityId: z.string().optional(),
+    // Rows of the per-city breakdown, most calls first
+    limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const UsageCountsSchema = z.object({ calls: z.number(), items: z.number() });
+
+const UsageReportSchema = z.object({
+    from: z.string(),
+    to: z.string(),
+    providers: z.array(UsageCountsSchema.extend({
+        source: SourceTypeEnum,
+        requests: z.number(),
+        budget: z.number(),
+        requestsToday: z.number(),
+        tier: z.enum(['full', 'reduced', 'cache_only']),
+    })),
+    cities: z.array(UsageCountsSchema.extend({ source: SourceTypeEnum, cityId: z.string(), cityName: z.string().nullable() })),
+    triggers: z.array(UsageCountsSchema.extend({ source: SourceTypeEnum, trigger: z.string() })),
 });
 
 export default async function ingestionRoutes(app: FastifyInstance) {
     app.post('/run',  {
             schema: {
-                description: 'Triggers ingestion batch job (placeholder)',
+                description: 'Starts a batch ingest of the seeded cities by category and time window; progress is recorded in ImportJob',
                 tags: ['ingestion'],
+                body: IngestionRunBodySchema,
                 response: {
                     202: IngestionRunResponseSchema,
                 },
             },
+            onRequest: app.authorize(['ADMIN']),
+        },
+        async (req, reply) => {
+            const body: NonNullable<z.infer<typeof IngestionRunBodySchema>> = req.body ?? {};
+            if (body.cityIds?.length) {
+                const known = await app.prisma.city.findMany({ where: { id: { in: body.cityIds } }, select: { id: true } });
+                const missing = body.cityIds.filter((id) => !known.some((c) => c.id === id));
+                if (missing.length) throw new AppError('Unknown city id(s)', 400, { code: 'UNKNOWN_CITY', details: { missing } });
+            }
+            const opts: IngestSweepOptions = {
+                trigger: 'manual',
+                cityIds: body.cityIds,
+                categories: body.categories,
+                sources: body.sources,
+                windowDays: body.windowDays ?? INGEST_SWEEP_WINDOW_DAYS,
+            };
+            const jobId = await createIngestJob(app.prisma, opts);
+            // Runs in the background; the job records its own outcome
+            void runIngestJob(app, jobId, opts).catch((err) => req.log.error({ err, jobId }, 'ingest job crashed'));
+            return reply.code(202).send({ accepted: true, jobId, status: 'pending' });
+        },
+    );
+
+    // Ingest run history: every online (search, stream) and batch ingest run, newest first
+    app.get('/runs', {
+            schema: {
+                description: 'Lists ingest runs, filterable by city, provider, outcome, trigger and batch job (logs omitted)',
+                tags: ['ingestion'],
+                querystring: IngestRunsQuerySchema,
+                response: {
+                    200: z.object({ total: z.number(), items: z.array(IngestRunSummarySchema) }),
+                },
+            },
+            onRequest: app.authorize(['ADMIN']),
+        },
+        async (req) => {
+            const q = req.query as z.infer<typeof IngestRunsQuerySchema>;
+            const since = q.days ? new Date(Date.now() - q.days * 24 * 60 * 60 * 1000) : undefined;
+            return listIngestRuns(
+                app.prisma,
+                { since, cityId: q.cityId, source: q.source, outcome: q.outcome, trigger: q.trigger, jobId: q.jobId },
+                { limit: q.limit, offset: q.offset },
+            ) as any; // Json columns are typed loosely by Prisma
+        },
+    );
+
+    app.get('/runs/:id', {
+            schema: {
+                description: 'One ingest run with its full log',
+                tags: ['ingestion'],
+                params: z.object({ id: z.string() }),
+                response: {
+                    200: IngestRunSummarySchema.extend({ log: z.array(z.string()) }),
+                },
+            },
+            onRequest: app.authorize(['ADMIN']),
+        },
+        async (req) => {
+            const { id } = req.params as { id: string };
+            const run = await getIngestRun(app.prisma, id);
+            if (!run) throw new NotFoundError('Ingest run not found');
+            return run as any;
+        },
+    );
+
+    // Progress of a batch job started by POST /run or the schedule; its runs are listed by /runs?jobId=
+    app.get('/jobs/:id', {
+            schema: {
+                description: 'Status and per-city progress of a batch ingest job',
+                tags: ['ingestion'],
+                params: z.object({ id: z.string() }),
+                response: {
+                    200: ImportJobSchema,
+                },
+            },
+            onRequest: app.authorize(['ADMIN']),
+        },
+        async (req) => {
+            const { id } = req.params as { id: string };
+            const job = await app.prisma.importJob.findUnique({
+                where: { id },
+                select: { id: true, kind: true, status: true, payload: true, log: true, startedAt: true, finishedAt: true, _count: { select: { runs: true } } },
+            });
+            if (!job) throw new NotFoundError('Import job not found');
+            const { _count, ...rest } = job;
+            return {
+                ...rest,
+                startedAt: job.startedAt.toISOString(),
+                finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+                runs: _count.runs,
+            };
+        },
+    );
+
+    // Circuit breakers of the external providers (provider.breaker.ts), shared by all instances
+    app.get('/providers/breakers', {
+            schema: {
+                description: 'Circuit breaker state per provider: closed, open (skipped until openUntil) or half-open',
+                tags: ['ingestion'],
+                response: {
+                    200: z.object({ items: z.array(ProviderBreakerSchema) }),
+                },
+            },
+            onRequest: app.authorize(['ADMIN']),
+        },
+        async () => ({ items: await providerBreaker.snapshot() }),
+    );
+
+    app.post('/providers/:source/breaker/reset', {
+            schema: {
+                description: 'Closes the circuit breaker of a provider, e.g. once its outage is known to be over',
+                tags: ['ingestion'],
+                params: z.object({ source: SourceTypeEnum }),
+                response: {
+                    200: ProviderBreakerSchema,
+                },
+            },
+            onRequest: app.authorize(['ADMIN']),
+        },
+        async (req) => {
+            const { source } = req.params as { source: z.infer<typeof SourceTypeEnum> };
+            await providerBreaker.reset(source);
+            return { source, state: 'closed' as const, failures: 0 };
+        },
+    );
+
+    // Quota usage of the external providers (provider.usage.ts): requests against the daily budget, ingest calls
+    // and items by city and trigger
+    app.get('/usage', {
+            schema: {
+                description: 'Provider usage over the last N days (UTC): requests vs. daily budget, calls and items per city and trigger',
+                tags: ['ingestion'],
+                querystring: UsageQuerySchema,
+                response: {
+                    200: UsageReportSchema,
+                },
+            },
+            onRequest: app.authorize(['ADMIN']),
+        },
+        async (req) => {
+            const q = req.query as z.infer<typeof UsageQuerySchema>;
+            const report = await providerUsage.report(q.days);
+            const keep = <T extends { source: string }>(rows: T[]) => (q.source ? rows.filter((r) => r.source === q.source) : rows);
+            const cities = keep(report.cities).filter((r) => !q.cityId || r.cityId === q.cityId).slice(0, q.limit);
+            const names = await app.prisma.city.findMany({
+                where: { id: { in: Array.from(new Set(cities.map((c) => c.cityId))) } },
+                select: { id: true, name: true },
+            });
+            return {
+                ...report,
+                providers: keep(report.providers),
+                cities: cities.map((c) => ({ ...c, cityName: names.find((n) => n.id === c.cityId)?.name ?? null })),
+                triggers: keep(report.triggers),
+            };
         },
-        async () => ({ accepted: true }),
     );
 }
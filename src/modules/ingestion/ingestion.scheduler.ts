@@ -0,0 +1,52 @@
+import type { FastifyInstance } from 'fastify';
+import type { Redis as RedisClient } from 'ioredis';
+import { createIngestJob, runIngestJob, type IngestSweepOptions } from './ingestion.job.js';
+import { INGEST_SCHEDULE_ENABLED, INGEST_SCHEDULE_INTERVAL_MIN, INGEST_SCHEDULE_TICK_SEC, INGEST_SWEEP_WINDOW_DAYS } from '../../config/ingestion.js';
+
+// Schedule of the batch ingest, shared by all instances through Redis: the time of the next sweep is stored
+// under NEXT_RUN_KEY, and the instance whose tick finds it due claims the run (SET NX) and moves it forward.
+
+const NEXT_RUN_KEY = 'ingest:schedule:next';
+const CLAIM_KEY = 'ingest:schedule:claim';
+
+// True for exactly one caller per due run
+export async function claimScheduledRun(redis: RedisClient, now = Date.now()): Promise<boolean> {
+  const next = Number(await redis.get(NEXT_RUN_KEY));
+  if (Number.isFinite(next) && next > now) return false;
+  const claimed = await redis.set(CLAIM_KEY, String(now), 'EX', Math.max(1, Math.round(INGEST_SCHEDULE_TICK_SEC)), 'NX');
+  if (claimed !== 'OK') return false;
+  await redis.set(NEXT_RUN_KEY, String(now + INGEST_SCHEDULE_INTERVAL_MIN * 60 * 1000));
+  return true;
+}
+
+export default async function ingestionScheduler(app: FastifyInstance) {
+  if (!INGEST_SCHEDULE_ENABLED) return;
+  let timer: NodeJS.Timeout | undefined;
+  // A sweep can outlast many ticks; this instance does not start another one meanwhile
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      if (!(await claimScheduledRun(app.redis))) return;
+      const opts: IngestSweepOptions = { trigger: 'schedule', windowDays: INGEST_SWEEP_WINDOW_DAYS };
+      const jobId = await createIngestJob(app.prisma, opts);
+      app.log.info({ jobId }, 'scheduled ingest started');
+      const { status } = await runIngestJob(app, jobId, opts);
+      app.log.info({ jobId, status }, 'scheduled ingest finished');
+    } catch (err) {
+      app.log.warn({ err }, 'scheduled ingest tick failed');
+    } finally {
+      running = false;
+    }
+  };
+
+  app.addHook('onReady', async () => {
+    timer = setInterval(() => void tick(), INGEST_SCHEDULE_TICK_SEC * 1000);
+    timer.unref();
+  });
+  app.addHook('onClose', async () => {
+    if (timer) clearInterval(timer);
+  });
+}
@@ -1,11 +1,14 @@
 import type { PrismaClient } from "@prisma/client";
-import { GLOBAL_INGEST_LIMIT, PROVIDER_LIMITS } from "../../config/providers.js";
+import { GLOBAL_INGEST_LIMIT, PROVIDER_BUDGET_REDUCED_SIZE, PROVIDER_LIMITS } from "../../config/providers.js";
 import type { NormalizedEventLike, NormalizedPlaceLike } from "./dedup.service.js";
 import { IngestionDedupService } from "./dedup.service.js";
 import { IngestionMergeService } from "./merge.service.js";
 import { IngestionPersistService, type IngestStats } from "./persist.service.js";
 import type { SourceType } from "../search/search.schemas.js";
 import { IngestLogger } from "./ingest.logger.js";
+import { recordIngestRun, type IngestTrigger, type ProviderRunStats } from "./ingest.history.js";
+import { providerBreaker } from "./provider.breaker.js";
+import { providerUsage } from "./provider.usage.js";
 
 export type SearchTimeWindow = { fromISO?: string; toISO?: string };
 export type GeoPoint = { lat?: number; lon?: number; radiusKm?: number };
@@ -32,11 +35,22 @@ export interface PlaceProvider {
   searchPlaces(query: BaseQuery): Promise<{ items: NormalizedPlaceLike[]; total?: number; warning?: string }>;
 }
 
+// API keys of the external providers (from app.config)
+export type ProviderKeys = {
+  ticketmasterApiKey?: string;
+  predicthqToken?: string;
+  geoapifyApiKey?: string;
+  googlePlacesApiKey?: string;
+  foursquareApiKey?: string;
+};
+
 export type OnlineIngestDeps = {
   prisma: PrismaClient;
   eventProviders: EventProvider[];
   placeProviders: PlaceProvider[];
   logger?: IngestLogger;
+  // Recorded with the run history; first-page search when omitted
+  run?: { trigger: IngestTrigger; jobId?: string };
 };
 
 export type OnlineIngestResult = {
@@ -50,61 +64,107 @@ function cap<T>(arr: T[], n: number): T[] {
   return arr.slice(0, n);
 }
 
-// Run online ingest for both places and events with provider limits and global cap.
-export async function runOnlineIngest(
-  deps: OnlineIngestDeps,
-  query: BaseQuery
-): Promise<OnlineIngestResult> {
-  const { prisma, eventProviders, placeProviders, logger } = deps;
-
-  const warnings: string[] = [];
-  logger?.log(`online-ingest: start; query q=${query.q ?? ''} lat=${query.lat ?? ''} lon=${query.lon ?? ''} radiusKm=${query.radiusKm ?? ''} from=${query.fromISO ?? ''} to=${query.toISO ?? ''}`);
+type ProviderFetch<T> = { items: T[]; warning?: string };
 
-  // Fetch from providers in parallel (isolate failures)
-  const placePromises = placeProviders.map(async (p) => {
-    const limit = PROVIDER_LIMITS[p.source] ?? 0;
-    if (limit <= 0) return { items: [] as NormalizedPlaceLike[], warning: undefined as string | undefined };
-    try {
-      logger?.log(`place provider ${p.name} (${p.source}) start; limit=${limit}`);
-      const { items, warning } = await p.searchPlaces({ ...query, size: limit });
-      logger?.log(`place provider ${p.name} returned items=${items.length}${warning ? `; warning=${warning}` : ''}`);
-      if (warning) warnings.push(`${p.name}: ${warning}`);
-      return { items: cap(items, limit) };
-    } catch (e: any) {
-      const msg = `${p.name}: ${e?.message || 'error'}`;
-      warnings.push(msg);
-      logger?.log(`place provider ${p.name} error: ${msg}`);
-      return { items: [] as NormalizedPlaceLike[] };
-    }
-  });
+// Fetch one provider with its per-provider limit; failures become warnings. Each call is reported in `runs`
+// and counted against the provider's daily budget (provider.usage.ts), which may shrink or skip it.
+async function fetchFromProvider<T>(
+  kind: 'place' | 'event',
+  p: { name: string; source: SourceType },
+  fetch: (q: BaseQuery) => Promise<{ items: T[]; warning?: string }>,
+  query: BaseQuery,
+  warnings: string[],
+  runs: ProviderRunStats[],
+  trigger: IngestTrigger,
+  logger?: IngestLogger
+): Promise<ProviderFetch<T>> {
+  let limit = PROVIDER_LIMITS[p.source] ?? 0;
+  if (limit <= 0) return { items: [] };
+  const started = Date.now();
+  const run: ProviderRunStats = { provider: p.name, source: p.source, kind, items: 0, tookMs: 0 };
+  runs.push(run);
+  const quota = await providerUsage.tier(p.source, trigger);
+  if (quota.tier === 'cache_only') {
+    const reason = `${quota.used >= quota.budget ? 'daily budget used up' : 'daily budget nearly used up, kept for searches'} (${quota.used}/${quota.budget} requests); serving stored results only`;
+    const msg = `${p.name}: ${reason}`;
+    warnings.push(msg);
+    logger?.log(`${kind} provider ${p.name} skipped: ${reason}`);
+    Object.assign(run, { budget: quota.tier, warning: reason });
+    return { items: [], warning: msg };
+  }
+  if (quota.tier === 'reduced') {
+    limit = Math.max(1, Math.round(limit * PROVIDER_BUDGET_REDUCED_SIZE));
+    run.budget = quota.tier;
+    logger?.log(`${kind} provider ${p.name}: ${quota.used}/${quota.budget} requests of the daily budget used; limit reduced to ${limit}`);
+  }
+  // Open circuit breaker (provider.breaker.ts): skip the provider for the cool-down instead of waiting on it.
+  // Half-open goes on: providerFetch lets only the trial request through
+  const gate = await providerBreaker.peek(p.source);
+  if (gate.state === 'open') {
+    const reason = `circuit breaker open after ${gate.failures} failed requests; skipped until ${new Date(gate.openUntil!).toISOString()}`;
+    const msg = `${p.name}: ${reason}`;
+    warnings.push(msg);
+    logger?.log(`${kind} provider ${p.name} skipped: ${reason}`);
+    Object.assign(run, { error: reason, tookMs: 0 });
+    return { items: [], warning: msg };
+  }
+  try {
+    logger?.log(`${kind} provider ${p.name} (${p.source}) start; limit=${limit}`);
+    const { items, warning } = await fetch({ ...query, size: limit });
+    logger?.log(`${kind} provider ${p.name} returned items=${items.length}${warning ? `; warning=${warning}` : ''}`);
+    if (warning) warnings.push(`${p.name}: ${warning}`);
+    const capped = cap(items, limit);
+    Object.assign(run, { items: capped.length, warning, tookMs: Date.now() - started });
+    await providerUsage.countCall(p.source, { items: capped.length, cityId: query.cityId, trigger });
+    return { items: capped, warning: warning ? `${p.name}: ${warning}` : undefined };
+  } catch (e: any) {
+    const msg = `${p.name}: ${e?.message || 'error'}`;
+    warnings.push(msg);
+    logger?.log(`${kind} provider ${p.name} error: ${msg}`);
+    Object.assign(run, { error: e?.message || 'error', tookMs: Date.now() - started });
+    await providerUsage.countCall(p.source, { items: 0, cityId: query.cityId, trigger });
+    return { items: [], warning: msg };
+  }
+}
 
-  const eventPromises = eventProviders.map(async (p) => {
-    const limit = PROVIDER_LIMITS[p.source] ?? 0;
-    if (limit <= 0) return { items: [] as NormalizedEventLike[], warning: undefined as string | undefined };
-    try {
-      logger?.log(`event provider ${p.name} (${p.source}) start; limit=${limit}`);
-      const { items, warning } = await p.searchEvents({ ...query, size: limit });
-      logger?.log(`event provider ${p.name} returned items=${items.length}${warning ? `; warning=${warning}` : ''}`);
-      if (warning) warnings.push(`${p.name}: ${warning}`);
-      return { items: cap(items, limit) };
-    } catch (e: any) {
-      const msg = `${p.name}: ${e?.message || 'error'}`;
-      warnings.push(msg);
-      logger?.log(`event provider ${p.name} error: ${msg}`);
-      return { items: [] as NormalizedEventLike[] };
-    }
+// Runs one ingest and stores it in the run history (ingest.history.ts), failed runs included
+async function withRunHistory(
+  deps: OnlineIngestDeps,
+  query: BaseQuery,
+  ingest: (deps: OnlineIngestDeps & { logger: IngestLogger }, runs: ProviderRunStats[]) => Promise<OnlineIngestResult>
+): Promise<OnlineIngestResult> {
+  const logger = deps.logger ?? new IngestLogger();
+  const firstLine = logger.size();
+  const startedAt = new Date();
+  const runs: ProviderRunStats[] = [];
+  let result: OnlineIngestResult | undefined;
+  let error: any;
+  try {
+    result = await ingest({ ...deps, logger }, runs);
+  } catch (e) {
+    error = e;
+  }
+  await recordIngestRun(deps.prisma, {
+    trigger: deps.run?.trigger ?? 'search',
+    jobId: deps.run?.jobId,
+    query,
+    providers: runs,
+    placeStats: result?.placeStats ?? emptyStats(),
+    eventStats: result?.eventStats ?? emptyStats(),
+    warnings: result?.warnings ?? [],
+    error: error ? error?.message || String(error) : undefined,
+    log: logger.linesSince(firstLine),
+    startedAt,
+    finishedAt: new Date(),
   });
+  if (error) throw error;
+  return result!;
+}
 
-  const placeResults = await Promise.all(placePromises);
-  const eventResults = await Promise.all(eventPromises);
+type CityResolver = (lat: number, lon: number) => Promise<string | null>;
 
-  // Merge and cap globally
-  const allPlaces = cap(placeResults.flatMap((r) => r.items), GLOBAL_INGEST_LIMIT);
-  const allEvents = cap(eventResults.flatMap((r) => r.items), GLOBAL_INGEST_LIMIT);
-  logger?.log(`providers merged: places beforeCap=${placeResults.reduce((n,r)=>n+(r.items?.length||0),0)} afterCap=${allPlaces.length}; events beforeCap=${eventResults.reduce((n,r)=>n+(r.items?.length||0),0)} afterCap=${allEvents.length}`);
-
-  // Enrich missing cityId for normalized items before Persist
-  async function resolveCityIdByPoint(lat: number, lon: number): Promise<string | null> {
+function createCityResolver(prisma: PrismaClient): CityResolver {
+  return async function resolveCityIdByPoint(lat: number, lon: number): Promise<string | null> {
     // Load cities once; try match by padded bbox (10% inflate), then fallback by nearest center
     const candidates = await prisma.city.findMany({
       select: { id: true, lat: true, lng: true, minLat: true, minLng: true, maxLat: true, maxLng: true },
@@ -149,105 +209,203 @@ export async function runOnlineIngest(
       if (!best || d < best.d) best = { id: c.id, d };
     }
     return best?.id ?? null;
-  }
+  };
+}
 
-  let enrichedPlaces = 0;
-  let unresolvedPlaces = 0;
-  for (const it of allPlaces) {
+// Fill missing cityId: by coordinates first, then the request's city
+async function enrichCityIds(
+  items: Array<NormalizedPlaceLike | NormalizedEventLike>,
+  resolveCityIdByPoint: CityResolver,
+  query: BaseQuery
+): Promise<{ enriched: number; unresolved: number }> {
+  let enriched = 0;
+  let unresolved = 0;
+  for (const it of items) {
     if (!it.cityId) {
       if (it.location?.lat != null && it.location?.lon != null) {
         // Prefer resolving city by actual coordinates first
         const cid = await resolveCityIdByPoint(it.location.lat, it.location.lon);
         if (cid) {
           it.cityId = cid;
-          enrichedPlaces++;
+          enriched++;
           continue;
         }
       }
       // Fallback: if request had explicit cityId but we couldn't resolve by point (or there are no coords)
       if (query.cityId) {
         it.cityId = query.cityId;
-        enrichedPlaces++;
+        enriched++;
       } else {
-        unresolvedPlaces++;
+        unresolved++;
       }
     }
   }
-  let enrichedEvents = 0;
-  let unresolvedEvents = 0;
-  for (const it of allEvents) {
-    if (!it.cityId) {
-      if (it.location?.lat != null && it.location?.lon != null) {
-        // Prefer resolving by coordinates
-        const cid = await resolveCityIdByPoint(it.location.lat, it.location.lon);
-        if (cid) {
-          it.cityId = cid;
-          enrichedEvents++;
-          continue;
-        }
-      }
-      if (query.cityId) {
-        it.cityId = query.cityId;
-        enrichedEvents++;
-      } else {
-        unresolvedEvents++;
-      }
-    }
+  return { enriched, unresolved };
+}
+
+export function emptyStats(): IngestStats {
+  return { total: 0, created: 0, updated: 0, unchanged: 0, errors: 0, warnings: [] };
+}
+
+export function addStats(into: IngestStats, st: IngestStats) {
+  into.total += st.total;
+  into.created += st.created;
+  into.updated += st.updated;
+  into.unchanged += st.unchanged;
+  into.errors += st.errors;
+  into.warnings.push(...st.warnings);
+}
+
+// Items may come from mixed sources; for stats we pass source per-item to persist methods already.
+// Our Persist API currently expects a single provider SourceType parameter; to keep API stable for now,
+// we split by provider source and run per-chunk, then aggregate stats.
+async function persistBySource(
+  persist: IngestionPersistService,
+  kind: 'place' | 'event',
+  items: Array<NormalizedPlaceLike | NormalizedEventLike>,
+  logger?: IngestLogger
+): Promise<IngestStats> {
+  const stats = emptyStats();
+  const bySource = new Map<SourceType, Array<NormalizedPlaceLike | NormalizedEventLike>>();
+  for (const it of items) {
+    const s = it.source.source as SourceType;
+    const arr = bySource.get(s) ?? [];
+    arr.push(it);
+    bySource.set(s, arr);
+  }
+  for (const [src, arr] of bySource) {
+    logger?.log(`persist ${kind}s for source=${src}: count=${arr.length}`);
+    const st = kind === 'place'
+      ? await persist.ingestPlaces(src, arr as NormalizedPlaceLike[])
+      : await persist.ingestEvents(src, arr as NormalizedEventLike[]);
+    logger?.log(`persist ${kind}s done for source=${src}: total=${st.total} created=${st.created} updated=${st.updated} unchanged=${st.unchanged} errors=${st.errors}`);
+    addStats(stats, st);
   }
-  logger?.log(`city enrichment: places enriched=${enrichedPlaces} unresolved=${unresolvedPlaces}; events enriched=${enrichedEvents} unresolved=${unresolvedEvents}`);
+  return stats;
+}
 
-  // Persist
+function logSummary(placeStats: IngestStats, eventStats: IngestStats, logger?: IngestLogger) {
+  logger?.log(`online-ingest: summary places={total:${placeStats.total}, created:${placeStats.created}, updated:${placeStats.updated}, unchanged:${placeStats.unchanged}, errors:${placeStats.errors}} events={total:${eventStats.total}, created:${eventStats.created}, updated:${eventStats.updated}, unchanged:${eventStats.unchanged}, errors:${eventStats.errors}}`);
+}
+
+function createPersist(prisma: PrismaClient, logger?: IngestLogger): IngestionPersistService {
   const dedup = new IngestionDedupService(prisma);
   const merge = new IngestionMergeService();
-  const persist = new IngestionPersistService(prisma, dedup, merge, undefined, logger);
+  return new IngestionPersistService(prisma, dedup, merge, undefined, logger);
+}
 
-  // Items may come from mixed sources; for stats we pass source per-item to persist methods already.
-  // Our Persist API currently expects a single provider SourceType parameter; to keep API stable for now,
-  // we split by provider source and run per-chunk, then aggregate stats.
+// Run online ingest for both places and events with provider limits and global cap.
+export async function runOnlineIngest(
+  deps: OnlineIngestDeps,
+  query: BaseQuery
+): Promise<OnlineIngestResult> {
+  return withRunHistory(deps, query, (d, runs) => ingestAll(d, query, runs));
+}
 
-  const aggregatePlaceStats: IngestStats = { total: 0, created: 0, updated: 0, unchanged: 0, errors: 0, warnings: [] };
-  const aggregateEventStats: IngestStats = { total: 0, created: 0, updated: 0, unchanged: 0, errors: 0, warnings: [] };
+async function ingestAll(deps: OnlineIngestDeps, query: BaseQuery, runs: ProviderRunStats[]): Promise<OnlineIngestResult> {
+  const { prisma, eventProviders, placeProviders, logger } = deps;
+  const trigger = deps.run?.trigger ?? 'search';
 
-  // Group by source
-  const placeBySource = new Map<SourceType, NormalizedPlaceLike[]>();
-  for (const it of allPlaces) {
-    const s = it.source.source as SourceType;
-    const arr = placeBySource.get(s) ?? [];
-    arr.push(it);
-    placeBySource.set(s, arr);
-  }
+  const warnings: string[] = [];
+  logger?.log(`online-ingest: start; query q=${query.q ?? ''} lat=${query.lat ?? ''} lon=${query.lon ?? ''} radiusKm=${query.radiusKm ?? ''} from=${query.fromISO ?? ''} to=${query.toISO ?? ''}`);
 
-  for (const [src, arr] of placeBySource) {
-    logger?.log(`persist places for source=${src}: count=${arr.length}`);
-    const st = await persist.ingestPlaces(src, arr);
-    logger?.log(`persist places done for source=${src}: total=${st.total} created=${st.created} updated=${st.updated} unchanged=${st.unchanged} errors=${st.errors}`);
-    aggregatePlaceStats.total += st.total;
-    aggregatePlaceStats.created += st.created;
-    aggregatePlaceStats.updated += st.updated;
-    aggregatePlaceStats.unchanged += st.unchanged;
-    aggregatePlaceStats.errors += st.errors;
-    aggregatePlaceStats.warnings.push(...st.warnings);
-  }
+  // Fetch from providers in parallel (isolate failures)
+  const placePromises = placeProviders.map((p) => fetchFromProvider('place', p, (q) => p.searchPlaces(q), query, warnings, runs, trigger, logger));
+  const eventPromises = eventProviders.map((p) => fetchFromProvider('event', p, (q) => p.searchEvents(q), query, warnings, runs, trigger, logger));
 
-  const eventBySource = new Map<SourceType, NormalizedEventLike[]>();
-  for (const it of allEvents) {
-    const s = it.source.source as SourceType;
-    const arr = eventBySource.get(s) ?? [];
-    arr.push(it);
-    eventBySource.set(s, arr);
-  }
+  const placeResults = await Promise.all(placePromises);
+  const eventResults = await Promise.all(eventPromises);
 
-  for (const [src, arr] of eventBySource) {
-    logger?.log(`persist events for source=${src}: count=${arr.length}`);
-    const st = await persist.ingestEvents(src, arr);
-    logger?.log(`persist events done for source=${src}: total=${st.total} created=${st.created} updated=${st.updated} unchanged=${st.unchanged} errors=${st.errors}`);
-    aggregateEventStats.total += st.total;
-    aggregateEventStats.created += st.created;
-    aggregateEventStats.updated += st.updated;
-    aggregateEventStats.unchanged += st.unchanged;
-    aggregateEventStats.errors += st.errors;
-    aggregateEventStats.warnings.push(...st.warnings);
-  }
-  logger?.log(`online-ingest: summary places={total:${aggregatePlaceStats.total}, created:${aggregatePlaceStats.created}, updated:${aggregatePlaceStats.updated}, unchanged:${aggregatePlaceStats.unchanged}, errors:${aggregatePlaceStats.errors}} events={total:${aggregateEventStats.total}, created:${aggregateEventStats.created}, updated:${aggregateEventStats.updated}, unchanged:${aggregateEventStats.unchanged}, errors:${aggregateEventStats.errors}}`);
-  return { placeStats: aggregatePlaceStats, eventStats: aggregateEventStats, warnings };
+  // Merge and cap globally
+  const allPlaces = cap(placeResults.flatMap((r) => r.items), GLOBAL_INGEST_LIMIT);
+  const allEvents = cap(eventResults.flatMap((r) => r.items), GLOBAL_INGEST_LIMIT);
+  logger?.log(`providers merged: places beforeCap=${placeResults.reduce((n,r)=>n+(r.items?.length||0),0)} afterCap=${allPlaces.length}; events beforeCap=${eventResults.reduce((n,r)=>n+(r.items?.length||0),0)} afterCap=${allEvents.length}`);
+
+  // Enrich missing cityId for normalized items before Persist
+  const resolveCityIdByPoint = createCityResolver(prisma);
+  const placeCities = await enrichCityIds(allPlaces, resolveCityIdByPoint, query);
+  const eventCities = await enrichCityIds(allEvents, resolveCityIdByPoint, query);
+  logger?.log(`city enrichment: places enriched=${placeCities.enriched} unresolved=${placeCities.unresolved}; events enriched=${eventCities.enriched} unresolved=${eventCities.unresolved}`);
+
+  // Persist
+  const persist = createPersist(prisma, logger);
+  const placeStats = await persistBySource(persist, 'place', allPlaces, logger);
+  const eventStats = await persistBySource(persist, 'event', allEvents, logger);
+  logSummary(placeStats, eventStats, logger);
+  return { placeStats, eventStats, warnings };
+}
+
+export type IngestBatch = {
+  provider: string;
+  source: SourceType;
+  kind: 'place' | 'event';
+  stats: IngestStats;
+  warning?: string;
+};
+
+// Same ingest, but each provider's items are persisted as soon as the provider answers and reported
+// through `onBatch` (streaming search). Writes are serialized so that dedup never races itself;
+// the global cap is applied first come, first served.
+export async function runOnlineIngestIncremental(
+  deps: OnlineIngestDeps,
+  query: BaseQuery,
+  onBatch: (batch: IngestBatch) => void | Promise<void>
+): Promise<OnlineIngestResult> {
+  return withRunHistory(deps, query, (d, runs) => ingestIncremental(d, query, onBatch, runs));
+}
+
+async function ingestIncremental(
+  deps: OnlineIngestDeps,
+  query: BaseQuery,
+  onBatch: (batch: IngestBatch) => void | Promise<void>,
+  runs: ProviderRunStats[]
+): Promise<OnlineIngestResult> {
+  const { prisma, eventProviders, placeProviders, logger } = deps;
+  const trigger = deps.run?.trigger ?? 'search';
+
+  const warnings: string[] = [];
+  logger?.log(`online-ingest (incremental): start; query q=${query.q ?? ''} lat=${query.lat ?? ''} lon=${query.lon ?? ''} radiusKm=${query.radiusKm ?? ''} from=${query.fromISO ?? ''} to=${query.toISO ?? ''}`);
+
+  const resolveCityIdByPoint = createCityResolver(prisma);
+  const persist = createPersist(prisma, logger);
+  const placeStats = emptyStats();
+  const eventStats = emptyStats();
+  const budget = { place: GLOBAL_INGEST_LIMIT, event: GLOBAL_INGEST_LIMIT };
+  let writes: Promise<void> = Promise.resolve();
+
+  const settle = (kind: 'place' | 'event', p: { name: string; source: SourceType }, fetched: ProviderFetch<NormalizedPlaceLike | NormalizedEventLike>) => {
+    writes = writes.then(async () => {
+      const items = cap(fetched.items, budget[kind]);
+      budget[kind] -= items.length;
+      let stats = emptyStats();
+      let warning = fetched.warning;
+      try {
+        const cities = await enrichCityIds(items, resolveCityIdByPoint, query);
+        logger?.log(`city enrichment: ${kind} provider ${p.name} enriched=${cities.enriched} unresolved=${cities.unresolved}`);
+        stats = await persistBySource(persist, kind, items, logger);
+        addStats(kind === 'place' ? placeStats : eventStats, stats);
+      } catch (e: any) {
+        // One provider's failed write must not hold back the others
+        warning = `${p.name}: persist failed: ${e?.message || 'error'}`;
+        warnings.push(warning);
+        const run = runs.find((r) => r.provider === p.name && r.kind === kind);
+        if (run) run.error = `persist failed: ${e?.message || 'error'}`;
+        logger?.log(`online-ingest: ${warning}`);
+      }
+      try {
+        await onBatch({ provider: p.name, source: p.source, kind, stats, warning });
+      } catch (e: any) {
+        logger?.log(`online-ingest: batch callback failed for ${p.name}: ${e?.message || e}`);
+      }
+    });
+    return writes;
+  };
+
+  await Promise.all([
+    ...placeProviders.map(async (p) => settle('place', p, await fetchFromProvider('place', p, (q) => p.searchPlaces(q), query, warnings, runs, trigger, logger))),
+    ...eventProviders.map(async (p) => settle('event', p, await fetchFromProvider('event', p, (q) => p.searchEvents(q), query, warnings, runs, trigger, logger))),
+  ]);
+  await writes;
+  logSummary(placeStats, eventStats, logger);
+  return { placeStats, eventStats, warnings };
 }
@@ -2,6 +2,7 @@ import crypto from "node:crypto";
 import type { Prisma } from "@prisma/client";
 import type { SourceType } from "../search/search.schemas.js";
 import type { NormalizedPlaceLike, NormalizedEventLike } from "./dedup.service.js";
+import { coerceOpeningHours } from "../catalog/places/opening-hours.js";
 
 export enum SourcePriority {
   MANUAL = 100,
@@ -43,7 +44,7 @@ export function computeChecksum(normalized: unknown): string {
 export class IngestionMergeService {
   // MVP: build minimal updates; extend later per field policies
   buildPlaceUpdate(
-    existing: { name: string | null; address: string | null; imageUrl?: string | null; url?: string | null; rating?: number | null; reviewCount?: number | null },
+    existing: { name: string | null; address: string | null; imageUrl?: string | null; url?: string | null; rating?: number | null; reviewCount?: number | null; openingHours?: unknown },
     normalized: NormalizedPlaceLike,
     sourceType: SourceType,
     sourceUpdatedAt?: Date | null
@@ -82,6 +83,19 @@ export class IngestionMergeService {
       (update as any).reviewCount = Math.max(0, Math.floor(normalized.reviewCount));
     }
 
+    // openingHours: fill when missing; replace only from a source with the same or higher priority
+    const incomingHours = normalized.openingHours;
+    if (incomingHours && incomingHours.periods.length) {
+      const current = coerceOpeningHours(existing.openingHours);
+      const currentPriority = current?.source ? sourcePriorityOf(current.source as SourceType) : SourcePriority.OTHER;
+      const hours = { ...incomingHours, source: sourceType };
+      if (!current || !current.periods.length) {
+        (update as any).openingHours = hours;
+      } else if (sourcePriorityOf(sourceType) >= currentPriority && JSON.stringify(current.periods) !== JSON.stringify(incomingHours.periods)) {
+        (update as any).openingHours = hours;
+      }
+    }
+
     return Object.keys(update).length ? update : null;
   }
 
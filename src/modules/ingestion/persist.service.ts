@@ -89,7 +89,7 @@ export class IngestionPersistService {
         const match = await this.dedup.matchOrCreatePlace(it);
 
         // Fetch existing minimal fields
-        const existing = await this.prisma.place.findUnique({ where: { id: match.id }, select: { id: true, name: true, address: true, url: true, imageUrl: true, lat: true, lng: true, mainCategoryId: true, popularityScore: true, qualityScore: true, freshnessScore: true, providerCategories: true, provider: true } });
+        const existing = await this.prisma.place.findUnique({ where: { id: match.id }, select: { id: true, name: true, address: true, url: true, imageUrl: true, openingHours: true, lat: true, lng: true, mainCategoryId: true, popularityScore: true, qualityScore: true, freshnessScore: true, providerCategories: true, provider: true } });
         if (!existing) {
           stats.errors++;
           stats.warnings.push(`Place not found after match: ${match.id}`);
@@ -99,7 +99,7 @@ export class IngestionPersistService {
 
         // Build canonical update
         const update = this.merge.buildPlaceUpdate(
-          { name: existing.name, address: existing.address, imageUrl: existing.imageUrl, url: existing.url },
+          { name: existing.name, address: existing.address, imageUrl: existing.imageUrl, url: existing.url, openingHours: existing.openingHours },
           it,
           provider,
           it.sourceUpdatedAt ? new Date(it.sourceUpdatedAt) : null
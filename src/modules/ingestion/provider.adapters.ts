@@ -1,6 +1,5 @@
-import type { BaseQuery, EventProvider, PlaceProvider } from "./ingestion.service.js";
+import type { BaseQuery, EventProvider, PlaceProvider, ProviderKeys } from "./ingestion.service.js";
 import type { SourceType } from "../search/search.schemas.js";
-import type { ProviderKeys } from "../search/search.service.js";
 
 // Existing providers
 import { searchTicketmaster } from "./providers/events/ticketmaster.provider.js";
@@ -8,6 +7,7 @@ import { searchPredictHQ } from "./providers/events/predicthq.provider.js";
 import { searchGeoapify } from "./providers/places/geoapify.provider.js";
 import { searchGooglePlaces } from "./providers/places/google-places.provider.js";
 import { searchFoursquarePlaces } from "./providers/places/foursquare.provider.js";
+import { transportKeys } from "./providers/provider.transport.js";
 
 import type { NormalizedEventLike, NormalizedPlaceLike } from "./dedup.service.js";
 import fs from "node:fs";
@@ -138,6 +138,7 @@ function mapPlaceToLike(provider: 'GEOAPIFY' | 'GOOGLE_PLACES' | 'FOURSQUARE', p
     imageUrl: imageUrl ?? null,
     rating: rating ?? null,
     reviewCount: reviewCount ?? null,
+    openingHours: p.openingHours ?? null,
     cityId: undefined,
     categories: categorySlugs && categorySlugs.length ? categorySlugs : undefined,
     providerCategoriesRaw: Array.isArray(p.categoriesRaw) ? p.categoriesRaw : undefined,
@@ -147,6 +148,7 @@ function mapPlaceToLike(provider: 'GEOAPIFY' | 'GOOGLE_PLACES' | 'FOURSQUARE', p
 }
 
 export function buildEventProviders(keys: ProviderKeys, requested: Set<SourceType>): EventProvider[] {
+  keys = transportKeys(keys);
   const providers: EventProvider[] = [];
   if (requested.has('TICKETMASTER')) {
     providers.push({
@@ -197,6 +199,7 @@ export function buildEventProviders(keys: ProviderKeys, requested: Set<SourceTyp
 }
 
 export function buildPlaceProviders(keys: ProviderKeys, requested: Set<SourceType>, options?: { textSearchCityQuery?: string; rect?: { minLon: number; minLat: number; maxLon: number; maxLat: number } }): PlaceProvider[] {
+  keys = transportKeys(keys);
   const providers: PlaceProvider[] = [];
   if (requested.has('GEOAPIFY')) {
     providers.push({
@@ -0,0 +1,177 @@
+import type { FastifyInstance } from 'fastify';
+import type { Redis as RedisClient } from 'ioredis';
+import type { SourceType } from '../search/search.schemas.js';
+import { PROVIDER_BREAKER_COOLDOWN_SEC, PROVIDER_BREAKER_THRESHOLD } from '../../config/providers.js';
+
+// Circuit breaker per provider source. Failed provider requests (after retries, see providers/provider.http.ts)
+// are counted; PROVIDER_BREAKER_THRESHOLD consecutive failures open the breaker and the provider is skipped for
+// PROVIDER_BREAKER_COOLDOWN_SEC. After the cool-down it is half-open: a single trial request (claimed with SET NX on
+// a probe key) goes through while the others keep skipping the provider; its success closes the breaker and its
+// failure re-opens it for another cool-down. The state lives in Redis (hash per source) so that every instance
+// skips the same provider; without Redis it is kept in memory.
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export type BreakerSnapshot = {
+  source: SourceType;
+  state: BreakerState;
+  failures: number;
+  openUntil?: string;
+  lastError?: string;
+  lastFailureAt?: string;
+};
+
+type BreakerRecord = { failures: number; openUntil?: number; lastError?: string; lastFailureAt?: number };
+
+const BREAKER_SOURCES: SourceType[] = ['TICKETMASTER', 'PREDICTHQ', 'GEOAPIFY', 'GOOGLE_PLACES', 'FOURSQUARE'];
+// A breaker nobody touched for this long is forgotten
+const RECORD_TTL_SEC = 24 * 3600;
+
+// A trial that never reports back (crashed instance) frees the probe after this long
+const PROBE_TTL_SEC = 60;
+
+export function breakerKey(source: SourceType): string {
+  return `ingest:breaker:${source}`;
+}
+
+export function breakerProbeKey(source: SourceType): string {
+  return `ingest:breaker:${source}:probe`;
+}
+
+function breakerState(rec: BreakerRecord | null, now: number): BreakerState {
+  if (!rec?.openUntil) return 'closed';
+  return rec.openUntil > now ? 'open' : 'half_open';
+}
+
+export class ProviderBreaker {
+  private redis: RedisClient | null = null;
+  private memory = new Map<SourceType, BreakerRecord>();
+  // In-memory probes: source -> expiry
+  private probes = new Map<SourceType, number>();
+
+  constructor(
+    private threshold = PROVIDER_BREAKER_THRESHOLD,
+    private cooldownSec = PROVIDER_BREAKER_COOLDOWN_SEC
+  ) {}
+
+  useRedis(redis: RedisClient | null) {
+    this.redis = redis;
+  }
+
+  private async read(source: SourceType): Promise<BreakerRecord | null> {
+    if (!this.redis) return this.memory.get(source) ?? null;
+    const h = await this.redis.hgetall(breakerKey(source));
+    if (!h || !Object.keys(h).length) return null;
+    return {
+      failures: Number(h.failures) || 0,
+      openUntil: h.openUntil ? Number(h.openUntil) : undefined,
+      lastError: h.lastError || undefined,
+      lastFailureAt: h.lastFailureAt ? Number(h.lastFailureAt) : undefined,
+    };
+  }
+
+  // Current state without claiming anything; Redis errors read as closed
+  async peek(source: SourceType, now = Date.now()): Promise<{ state: BreakerState; openUntil?: number; failures: number }> {
+    try {
+      const rec = await this.read(source);
+      return { state: breakerState(rec, now), openUntil: rec?.openUntil, failures: rec?.failures ?? 0 };
+    } catch {
+      return { state: 'closed', failures: 0 };
+    }
+  }
+
+  private async claimProbe(source: SourceType, now: number): Promise<boolean> {
+    if (!this.redis) {
+      if ((this.probes.get(source) ?? 0) > now) return false;
+      this.probes.set(source, now + PROBE_TTL_SEC * 1000);
+      return true;
+    }
+    return (await this.redis.set(breakerProbeKey(source), String(now), 'EX', PROBE_TTL_SEC, 'NX')) === 'OK';
+  }
+
+  private async releaseProbe(source: SourceType): Promise<void> {
+    if (!this.redis) this.probes.delete(source);
+    else await this.redis.del(breakerProbeKey(source));
+  }
+
+  // Whether a request to the provider may go out now; when half-open only the caller that claims the trial may.
+  // Redis errors let it through
+  async check(source: SourceType, now = Date.now()): Promise<{ allowed: boolean; state: BreakerState; openUntil?: number; failures: number }> {
+    try {
+      const rec = await this.read(source);
+      const state = breakerState(rec, now);
+      const allowed = state === 'closed' || (state === 'half_open' && (await this.claimProbe(source, now)));
+      return { allowed, state, openUntil: rec?.openUntil, failures: rec?.failures ?? 0 };
+    } catch {
+      return { allowed: true, state: 'closed', failures: 0 };
+    }
+  }
+
+  async recordSuccess(source: SourceType): Promise<void> {
+    if (!this.redis) {
+      this.memory.delete(source);
+      this.probes.delete(source);
+      return;
+    }
+    await this.redis.del(breakerKey(source), breakerProbeKey(source)).catch(() => {});
+  }
+
+  // Returns the state after this failure
+  async recordFailure(source: SourceType, error: string, now = Date.now()): Promise<BreakerState> {
+    try {
+      let failures: number;
+      if (!this.redis) {
+        const rec = this.memory.get(source) ?? { failures: 0 };
+        failures = ++rec.failures;
+        Object.assign(rec, { lastError: error, lastFailureAt: now });
+        this.memory.set(source, rec);
+      } else {
+        const key = breakerKey(source);
+        failures = await this.redis.hincrby(key, 'failures', 1);
+        await this.redis.hset(key, 'lastError', error, 'lastFailureAt', String(now));
+        await this.redis.expire(key, RECORD_TTL_SEC);
+      }
+      if (failures < this.threshold) return 'closed';
+      // Opens, or re-opens after a failed half-open trial
+      const openUntil = now + this.cooldownSec * 1000;
+      if (!this.redis) this.memory.get(source)!.openUntil = openUntil;
+      else await this.redis.hset(breakerKey(source), 'openUntil', String(openUntil));
+      await this.releaseProbe(source);
+      return 'open';
+    } catch {
+      return 'closed';
+    }
+  }
+
+  async reset(source: SourceType): Promise<void> {
+    await this.recordSuccess(source);
+  }
+
+  async snapshot(now = Date.now()): Promise<BreakerSnapshot[]> {
+    return Promise.all(
+      BREAKER_SOURCES.map(async (source) => {
+        const rec = await this.read(source).catch(() => null);
+        return {
+          source,
+          state: breakerState(rec, now),
+          failures: rec?.failures ?? 0,
+          openUntil: rec?.openUntil ? new Date(rec.openUntil).toISOString() : undefined,
+          lastError: rec?.lastError,
+          lastFailureAt: rec?.lastFailureAt ? new Date(rec.lastFailureAt).toISOString() : undefined,
+        };
+      })
+    );
+  }
+}
+
+// Shared by all providers of this process
+export const providerBreaker = new ProviderBreaker();
+
+// Moves the breaker state to Redis once the app has it
+export default async function providerBreakerStore(app: FastifyInstance) {
+  if (!(app as any).redis) return;
+  providerBreaker.useRedis(app.redis);
+  app.addHook('onClose', async () => {
+    providerBreaker.useRedis(null);
+  });
+}
@@ -0,0 +1,153 @@
+import type { FastifyInstance } from 'fastify';
+import type { Redis as RedisClient } from 'ioredis';
+import type { SourceType } from '../search/search.schemas.js';
+import type { IngestTrigger } from './ingest.history.js';
+import { PROVIDER_BUDGET_REDUCE_AT, PROVIDER_DAILY_BUDGETS } from '../../config/providers.js';
+
+// Provider quota accounting per UTC day: HTTP requests per provider (counted by providers/provider.http.ts, what the
+// providers bill), and ingest calls and items per provider, by city and by trigger (counted by fetchFromProvider).
+// One Redis hash per day holds all counters, so every instance spends the same budget; without Redis they are kept
+// in memory. The request count against PROVIDER_DAILY_BUDGETS gives the tier an ingest call runs with.
+
+export type BudgetTier = 'full' | 'reduced' | 'cache_only';
+
+export type ProviderUsageRow = { source: SourceType; requests: number; calls: number; items: number };
+export type ProviderUsageReport = {
+  from: string;
+  to: string;
+  providers: Array<ProviderUsageRow & { budget: number; requestsToday: number; tier: BudgetTier }>;
+  cities: Array<{ source: SourceType; cityId: string; calls: number; items: number }>;
+  triggers: Array<{ source: SourceType; trigger: string; calls: number; items: number }>;
+};
+
+const USAGE_SOURCES: SourceType[] = ['TICKETMASTER', 'PREDICTHQ', 'GEOAPIFY', 'GOOGLE_PLACES', 'FOURSQUARE'];
+// Counters are kept a little longer than the longest report
+const USAGE_TTL_SEC = 35 * 24 * 3600;
+export const MAX_REPORT_DAYS = 31;
+
+export function usageDay(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function usageKey(day: string): string {
+  return `ingest:usage:${day}`;
+}
+
+// Batch sweeps give way to interactive searches: they stop where searches only get smaller pages
+export function budgetTier(used: number, budget: number, trigger: IngestTrigger): BudgetTier {
+  if (budget <= 0) return 'full';
+  if (used >= budget) return 'cache_only';
+  if (used >= budget * PROVIDER_BUDGET_REDUCE_AT) return trigger === 'batch' ? 'cache_only' : 'reduced';
+  return 'full';
+}
+
+export class ProviderUsage {
+  private redis: RedisClient | null = null;
+  private memory = new Map<string, Map<string, number>>();
+
+  useRedis(redis: RedisClient | null) {
+    this.redis = redis;
+  }
+
+  private async incr(day: string, counters: Record<string, number>): Promise<void> {
+    if (!this.redis) {
+      const h = this.memory.get(day) ?? new Map<string, number>();
+      for (const [f, n] of Object.entries(counters)) h.set(f, (h.get(f) ?? 0) + n);
+      this.memory.set(day, h);
+      return;
+    }
+    const key = usageKey(day);
+    await Promise.all(Object.entries(counters).map(([f, n]) => this.redis!.hincrby(key, f, n)));
+    await this.redis.expire(key, USAGE_TTL_SEC);
+  }
+
+  private async read(day: string): Promise<Record<string, number>> {
+    if (!this.redis) return Object.fromEntries(this.memory.get(day) ?? []);
+    const h = await this.redis.hgetall(usageKey(day));
+    return Object.fromEntries(Object.entries(h ?? {}).map(([f, v]) => [f, Number(v) || 0]));
+  }
+
+  // Accounting never fails a provider call
+  async countRequest(source: SourceType, now = Date.now()): Promise<void> {
+    await this.incr(usageDay(now), { [`${source}:requests`]: 1 }).catch(() => {});
+  }
+
+  async countCall(source: SourceType, call: { items: number; cityId?: string; trigger: IngestTrigger }, now = Date.now()): Promise<void> {
+    const counters: Record<string, number> = {
+      [`${source}:calls`]: 1,
+      [`${source}:items`]: call.items,
+      [`${source}:trigger:${call.trigger}:calls`]: 1,
+      [`${source}:trigger:${call.trigger}:items`]: call.items,
+    };
+    if (call.cityId) {
+      counters[`${source}:city:${call.cityId}:calls`] = 1;
+      counters[`${source}:city:${call.cityId}:items`] = call.items;
+    }
+    await this.incr(usageDay(now), counters).catch(() => {});
+  }
+
+  // Full budget when the counters cannot be read
+  async tier(source: SourceType, trigger: IngestTrigger, now = Date.now()): Promise<{ tier: BudgetTier; used: number; budget: number }> {
+    const budget = PROVIDER_DAILY_BUDGETS[source] ?? 0;
+    if (budget <= 0) return { tier: 'full', used: 0, budget };
+    try {
+      const used = (await this.read(usageDay(now)))[`${source}:requests`] ?? 0;
+      return { tier: budgetTier(used, budget, trigger), used, budget };
+    } catch {
+      return { tier: 'full', used: 0, budget };
+    }
+  }
+
+  // Totals over the last `days` UTC days (today included)
+  async report(days: number, now = Date.now()): Promise<ProviderUsageReport> {
+    const dayList = Array.from({ length: Math.min(MAX_REPORT_DAYS, Math.max(1, days)) }, (_, i) => usageDay(now - i * 24 * 3600 * 1000));
+    const totals = new Map<string, number>();
+    const hashes = await Promise.all(dayList.map((d) => this.read(d)));
+    for (const h of hashes) for (const [f, n] of Object.entries(h)) totals.set(f, (totals.get(f) ?? 0) + n);
+    const today = hashes[0];
+
+    const cities = new Map<string, ProviderUsageReport['cities'][number]>();
+    const triggers = new Map<string, ProviderUsageReport['triggers'][number]>();
+    for (const [field, n] of totals) {
+      const m = /^([A-Z_]+):(city|trigger):(.+):(calls|items)$/.exec(field);
+      if (!m) continue;
+      const [, source, dim, id, counter] = m;
+      const into = dim === 'city' ? cities : triggers;
+      const row: any = into.get(`${source}|${id}`) ?? (dim === 'city' ? { source, cityId: id, calls: 0, items: 0 } : { source, trigger: id, calls: 0, items: 0 });
+      row[counter] += n;
+      into.set(`${source}|${id}`, row);
+    }
+
+    return {
+      from: dayList[dayList.length - 1],
+      to: dayList[0],
+      providers: USAGE_SOURCES.map((source) => {
+        const budget = PROVIDER_DAILY_BUDGETS[source] ?? 0;
+        const requestsToday = today[`${source}:requests`] ?? 0;
+        return {
+          source,
+          requests: totals.get(`${source}:requests`) ?? 0,
+          calls: totals.get(`${source}:calls`) ?? 0,
+          items: totals.get(`${source}:items`) ?? 0,
+          budget,
+          requestsToday,
+          tier: budgetTier(requestsToday, budget, 'search'),
+        };
+      }),
+      cities: Array.from(cities.values()).sort((a, b) => b.calls - a.calls || b.items - a.items),
+      triggers: Array.from(triggers.values()).sort((a, b) => a.source.localeCompare(b.source) || b.calls - a.calls),
+    };
+  }
+}
+
+// Shared by all providers of this process
+export const providerUsage = new ProviderUsage();
+
+// Moves the counters to Redis once the app has it
+export default async function providerUsageStore(app: FastifyInstance) {
+  if (!(app as any).redis) return;
+  providerUsage.useRedis(app.redis);
+  app.addHook('onClose', async () => {
+    providerUsage.useRedis(null);
+  });
+}
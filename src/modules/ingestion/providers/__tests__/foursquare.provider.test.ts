@@ -1,23 +1,20 @@
 import { searchFoursquarePlaces } from '../places/foursquare.provider.js';
+import { providerTransport } from '../provider.transport.js';
 
+// Responses are replayed from the recordings under fixtures/providers/FOURSQUARE
 describe('Foursquare provider adapter', () => {
-  beforeEach(() => jest.resetAllMocks());
+  beforeEach(() => {
+    jest.resetAllMocks();
+    providerTransport.mode = 'replay';
+    global.fetch = jest.fn() as any;
+  });
+  afterEach(() => {
+    providerTransport.mode = 'live';
+  });
 
   it('maps id (fsq_id/fsq_place_id), coordinates, address and primaryCategorySlug', async () => {
-    const mock = {
-      results: [
-        {
-          fsq_place_id: '4c5190663940be9a0f2c0f09',
-          geocodes: { main: { latitude: 51.5143, longitude: -0.09053 } },
-          location: { formatted_address: '11 Old Jewry, London' },
-          name: 'Goodman Steakhouse',
-          categories: [{ id: 123, name: 'Steakhouse', short_name: 'Steakhouse' }],
-          website: 'http://site',
-        },
-      ],
-    };
-    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => mock } as any);
     const { items } = await searchFoursquarePlaces({ lat: 51.5, lon: -0.09, radiusKm: 2 }, 'FSQ');
+    expect(global.fetch).not.toHaveBeenCalled();
     expect(items.length).toBe(1);
     const it: any = items[0];
     expect(it.id).toBe('4c5190663940be9a0f2c0f09');
@@ -32,11 +29,16 @@ describe('Foursquare provider adapter', () => {
     // categoriesRaw отражает имена категорий
     expect(Array.isArray(it.categoriesRaw)).toBe(true);
     expect(it.categoriesRaw[0]).toBe('Steakhouse');
+    // hours/timezone are requested through `fields`
+    expect(it.openNow).toBe(true);
+    expect(it.openingHours.timezone).toBe('Europe/London');
+    expect(it.openingHours.periods).toHaveLength(6);
+    expect(it.openingHours.periods).toContainEqual({ weekday: 1, open: '12:00', close: '22:30' });
+    expect(it.openingHours.periods).toContainEqual({ weekday: 6, open: '12:00', close: '01:00' });
   });
 
   it('returns warning and empty items on HTTP error', async () => {
-    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 500 } as any);
-    const { items, warning } = await searchFoursquarePlaces({ lat: 51.5, lon: -0.09, radiusKm: 2 }, 'FSQ');
+    const { items, warning } = await searchFoursquarePlaces({ lat: 51.5, lon: -0.09, radiusKm: 2, q: 'steak' }, 'FSQ');
     expect(items.length).toBe(0);
     expect(typeof warning).toBe('string');
   });
@@ -1,34 +1,20 @@
 import { searchGeoapify } from '../places/geoapify.provider.js';
+import { providerTransport } from '../provider.transport.js';
 
+// Responses are replayed from the recordings under fixtures/providers/GEOAPIFY
 describe('Geoapify Places provider adapter', () => {
   beforeEach(() => {
     jest.resetAllMocks();
+    providerTransport.mode = 'replay';
+    global.fetch = jest.fn() as any;
+  });
+  afterEach(() => {
+    providerTransport.mode = 'live';
   });
 
   it('maps id/title/location/address/url/imageUrl when present', async () => {
-    const mock = {
-      features: [
-        {
-          properties: {
-            place_id: 'gap1',
-            name: 'Cafe Milano',
-            formatted: 'Street 1, Berlin, Germany',
-            website: 'http://site',
-            categories: ['catering.cafe', 'amenity.food'],
-            // Adapter expects lat/lon in properties
-            lat: 52.52,
-            lon: 13.405,
-            // Geoapify sometimes provides photo via fields set or a composed URL in adapter
-            // We provide a representative property; adapter may derive differently
-            datasource: { sourcename: 'openstreetmap' },
-          },
-          geometry: { type: 'Point', coordinates: [13.405, 52.52] },
-        },
-      ],
-    } as any;
-    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => mock } as any);
-
     const { items, warning } = await searchGeoapify({ lat: 52.52, lon: 13.405, radiusKm: 2, q: undefined }, 'API_KEY');
+    expect(global.fetch).not.toHaveBeenCalled();
     expect(warning).toBeUndefined();
     expect(items.length).toBe(1);
     const it: any = items[0];
@@ -44,8 +30,7 @@ describe('Geoapify Places provider adapter', () => {
   });
 
   it('returns warning and empty items on HTTP error', async () => {
-    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 500 } as any);
-    const { items, warning } = await searchGeoapify({ lat: 52.52, lon: 13.405, radiusKm: 2 }, 'API_KEY');
+    const { items, warning } = await searchGeoapify({ lat: 52.52, lon: 13.405, radiusKm: 2, q: 'museum' }, 'API_KEY');
     expect(items.length).toBe(0);
     expect(typeof warning).toBe('string');
   });
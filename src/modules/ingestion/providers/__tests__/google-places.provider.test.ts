@@ -1,29 +1,20 @@
 import { searchGooglePlaces } from '../places/google-places.provider.js';
+import { providerTransport } from '../provider.transport.js';
 
+// Responses are replayed from the recordings under fixtures/providers/GOOGLE_PLACES
 describe('Google Places provider adapter', () => {
   beforeEach(() => {
     jest.resetAllMocks();
+    providerTransport.mode = 'replay';
+    global.fetch = jest.fn() as any;
+  });
+  afterEach(() => {
+    providerTransport.mode = 'live';
   });
 
   it('maps rating, reviewCount, photo imageUrl and types', async () => {
-    // Mock fetch
-    const mockData = {
-      results: [
-        {
-          place_id: 'gp1',
-          name: 'The Bar',
-          vicinity: 'Street 1',
-          geometry: { location: { lat: 51.5, lng: -0.1 } },
-          rating: 4.4,
-          user_ratings_total: 1487,
-          photos: [{ photo_reference: 'PHOTO_REF' }],
-          types: ['bar', 'establishment'],
-        },
-      ],
-    };
-    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => mockData } as any);
-
     const { items } = await searchGooglePlaces({ lat: 51.5, lon: -0.1, radiusKm: 2, q: undefined }, 'KEY');
+    expect(global.fetch).not.toHaveBeenCalled();
     expect(items.length).toBe(1);
     const it = items[0] as any;
     expect(it.id).toBe('gp1');
@@ -40,23 +31,19 @@ describe('Google Places provider adapter', () => {
     }
   });
 
+  it('fills openingHours from Place Details, periods past midnight and 24h places included', async () => {
+    const bar = (await searchGooglePlaces({ lat: 51.5, lon: -0.1, radiusKm: 2, q: undefined }, 'KEY')).items[0];
+    expect(bar.openingHours).toMatchObject({ timezone: '', source: 'GOOGLE_PLACES' });
+    expect(bar.openingHours!.periods).toHaveLength(6);
+    expect(bar.openingHours!.periods).toContainEqual({ weekday: 5, open: '16:00', close: '02:00' });
+    expect(bar.openingHours!.periods.some((p) => p.weekday === 0)).toBe(false);
+
+    const allDay = (await searchGooglePlaces({ lat: 40.0, lon: -3.7, radiusKm: 2 }, 'KEY')).items[0];
+    expect(allDay.openingHours!.periods).toEqual([0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ weekday, open: '00:00', close: '24:00' })));
+  });
+
   it('handles no-photos gracefully and returns warning on HTTP error', async () => {
     // no photos case
-    const mockNoPhoto = {
-      results: [
-        {
-          place_id: 'gp2',
-          name: 'No Photo Place',
-          vicinity: 'Street 2',
-          geometry: { location: { lat: 40.0, lng: -3.7 } },
-          types: ['restaurant'],
-        },
-      ],
-    } as any;
-    global.fetch = jest.fn().mockResolvedValueOnce({ ok: true, json: async () => mockNoPhoto } as any)
-      // next call: HTTP error
-      .mockResolvedValueOnce({ ok: false, status: 403 } as any);
-
     const ok = await searchGooglePlaces({ lat: 40.0, lon: -3.7, radiusKm: 2 }, 'KEY');
     expect(ok.items.length).toBe(1);
     const it2: any = ok.items[0];
@@ -65,7 +52,8 @@ describe('Google Places provider adapter', () => {
     // imageUrl may be undefined/null when no photos
     expect('imageUrl' in it2).toBe(true);
 
-    const bad = await searchGooglePlaces({ lat: 40.0, lon: -3.7, radiusKm: 2 }, 'KEY');
+    // recorded as HTTP 403
+    const bad = await searchGooglePlaces({ lat: 40.0, lon: -3.7, radiusKm: 2, q: 'bar' }, 'KEY');
     expect(bad.items.length).toBe(0);
     expect(typeof bad.warning).toBe('string');
   });
@@ -0,0 +1,99 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { normalizeProviderRequest, providerTransport, transportKeys } from '../provider.transport.js';
+import { searchGeoapify } from '../places/geoapify.provider.js';
+import { buildPlaceProviders } from '../../provider.adapters.js';
+import { runOnlineIngest } from '../../ingestion.service.js';
+
+// The committed recordings (PROVIDER_FIXTURES_DIR)
+const fixturesDir = providerTransport.dir;
+
+describe('provider transport', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'provider-fixtures-'));
+    providerTransport.dir = dir;
+  });
+  afterEach(() => {
+    providerTransport.mode = 'live';
+    providerTransport.dir = fixturesDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keys requests without credentials, with sorted params and the time window as a length', () => {
+    const a = normalizeProviderRequest(
+      'https://app.ticketmaster.com/discovery/v2/events.json?apikey=SECRET&size=20&startDateTime=2025-06-01T10:00:00Z&endDateTime=2025-06-15T10:00:00Z&keyword=jazz'
+    );
+    const b = normalizeProviderRequest(
+      'https://app.ticketmaster.com/discovery/v2/events.json?keyword=jazz&startDateTime=2025-07-03T08:00:00Z&endDateTime=2025-07-17T08:00:00Z&size=20&apikey=OTHER'
+    );
+    expect(a).toEqual({ method: 'GET', url: 'https://app.ticketmaster.com/discovery/v2/events.json?keyword=jazz&size=20&window=14d' });
+    expect(b).toEqual(a);
+  });
+
+  it('replays a recorded response offline, without an API key', async () => {
+    const payload = {
+      features: [{ properties: { place_id: 'gap1', name: 'Cafe Milano', formatted: 'Street 1, Berlin', lat: 52.52, lon: 13.405, categories: ['catering.cafe'] } }],
+    };
+    global.fetch = jest.fn().mockResolvedValue(new Response(JSON.stringify(payload), { status: 200, headers: { 'content-type': 'application/json' } })) as any;
+    providerTransport.mode = 'record';
+    const recorded = await searchGeoapify({ lat: 52.52, lon: 13.405, radiusKm: 2, q: 'cafe' }, 'REAL_KEY');
+    expect(recorded.items.map((i) => i.id)).toEqual(['gap1']);
+    const files = fs.readdirSync(path.join(dir, 'GEOAPIFY'));
+    expect(files).toHaveLength(1);
+    expect(fs.readFileSync(path.join(dir, 'GEOAPIFY', files[0]), 'utf8')).not.toContain('REAL_KEY');
+
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline')) as any;
+    providerTransport.mode = 'replay';
+    const key = transportKeys({}).geoapifyApiKey!;
+    const replayed = await searchGeoapify({ lat: 52.52, lon: 13.405, radiusKm: 2, q: 'cafe' }, key);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(replayed).toEqual(recorded);
+
+    const missing = await searchGeoapify({ lat: 48.1, lon: 11.6, radiusKm: 2, q: 'cafe' }, key);
+    expect(missing.items).toEqual([]);
+    expect(missing.warning).toMatch(/no recorded response for GET/);
+  });
+});
+
+describe('online ingest in replay mode', () => {
+  afterEach(() => {
+    providerTransport.mode = 'live';
+  });
+
+  it('ingests the recorded provider response without network or API keys', async () => {
+    providerTransport.mode = 'replay';
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline')) as any;
+    const prisma: any = {
+      ingestRun: { create: jest.fn().mockResolvedValue({ id: 'r' }) },
+      city: { findMany: jest.fn().mockResolvedValue([]) },
+      // Both places are already known by their source link
+      placeSource: {
+        findUnique: jest.fn(async (args: any) => (args.select ? { placeId: `P-${args.where.source_externalId.externalId}` } : null)),
+        upsert: jest.fn(),
+      },
+      place: {
+        findUnique: jest.fn(async (args: any) => ({ id: args.where.id, name: null, address: null, provider: 'GEOAPIFY', mainCategoryId: 'cafe' })),
+        update: jest.fn(),
+      },
+      placeCategory: { findMany: jest.fn().mockResolvedValue([]), upsert: jest.fn() },
+      placeCategoryLink: { findMany: jest.fn().mockResolvedValue([]), createMany: jest.fn() },
+    };
+
+    const result = await runOnlineIngest(
+      { prisma, eventProviders: [], placeProviders: buildPlaceProviders({}, new Set(['GEOAPIFY'])) },
+      { q: 'cafe', cityId: 'ber', lat: 52.52, lon: 13.405, radiusKm: 2 }
+    );
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.warnings).toEqual([]);
+    expect(result.placeStats).toMatchObject({ total: 2, errors: 0 });
+    const upserts = prisma.placeSource.upsert.mock.calls.map((c: any[]) => c[0].create);
+    expect(upserts.map((u: any) => [u.placeId, u.externalId, u.payload.snapshot.name])).toEqual([
+      ['P-gap1', 'gap1', 'Cafe Milano'],
+      ['P-gap2', 'gap2', 'Kaffeebar Mitte'],
+    ]);
+    expect(prisma.ingestRun.create.mock.calls[0][0].data).toMatchObject({ outcome: 'succeeded', sources: ['GEOAPIFY'] });
+  });
+});
@@ -50,6 +50,7 @@ const PHQ_BASE = 'https://api.predicthq.com/v1/events/';
 import fs from 'node:fs';
 import path from 'node:path';
 import { IngestLogger } from '../../ingest.logger.js';
+import { providerFetch } from '../provider.http.js';
 const SAVE_RAW = process.env.INGEST_SAVE_PROVIDER_RAW_SAMPLES === 'true';
 function saveRawSample(provider: string, firstItem: unknown) {
   if (!SAVE_RAW || !firstItem) return;
@@ -102,7 +103,7 @@ export async function searchPredictHQ(params: EventSearchParams, token?: string)
   } catch {}
 
   try {
-    const res = await fetch(url.toString(), {
+    const res = await providerFetch('PREDICTHQ', url.toString(), {
       headers: { Accept: 'application/json', Authorization: `Bearer ${token}` },
     });
     if (!res.ok) {
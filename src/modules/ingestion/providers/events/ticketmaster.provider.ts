@@ -50,6 +50,7 @@ const TM_BASE = 'https://app.ticketmaster.com/discovery/v2/events.json';
 import fs from 'node:fs';
 import path from 'node:path';
 import { IngestLogger } from '../../ingest.logger.js';
+import { providerFetch } from '../provider.http.js';
 const SAVE_RAW = process.env.INGEST_SAVE_PROVIDER_RAW_SAMPLES === 'true';
 function saveRawSample(provider: string, firstItem: unknown) {
   if (!SAVE_RAW || !firstItem) return;
@@ -104,7 +105,7 @@ export async function searchTicketmaster(params: EventSearchParams, apiKey?: str
     } catch {}
 
     try {
-        const res = await fetch(url.toString(), {headers: {Accept: 'application/json'}});
+        const res = await providerFetch('TICKETMASTER', url.toString(), {headers: {Accept: 'application/json'}});
         if (!res.ok) {
             return {items: [], warning: `Ticketmaster HTTP ${res.status}`};
         }
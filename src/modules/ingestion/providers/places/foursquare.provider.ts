@@ -3,6 +3,7 @@
 
 import type { PlaceQuery } from './geoapify.provider.js';
 import { mapFoursquareCategoriesToPlaceCategory, type FoursquareCategoryLite } from '../../../catalog/taxonomy/mapping.foursquare.js';
+import { normalizeFoursquareHours, type OpeningHours } from '../../../catalog/places/opening-hours.js';
 
 export type FoursquareNormalizedPlace = {
   provider: 'FOURSQUARE';
@@ -16,17 +17,21 @@ export type FoursquareNormalizedPlace = {
   rating?: number | null;
   reviewCount?: number | null;
   openNow?: boolean;
+  openingHours?: OpeningHours | null;
   categoriesLite?: FoursquareCategoryLite[];
   categoriesRaw?: string[];
   primaryCategorySlug?: string | null;
 };
 
 const FSQ_BASE = 'https://places-api.foursquare.com/places/search';
+// Response fields; hours and timezone are only returned when asked for
+const FSQ_FIELDS = 'fsq_place_id,name,latitude,longitude,location,categories,website,hours,timezone';
 
 // Diagnostics: save raw first item
 import fs from 'node:fs';
 import path from 'node:path';
 import { IngestLogger } from '../../ingest.logger.js';
+import { providerFetch } from '../provider.http.js';
 const SAVE_RAW = process.env.INGEST_SAVE_PROVIDER_RAW_SAMPLES === 'true';
 function saveRawSample(provider: string, firstItem: unknown) {
   if (!SAVE_RAW || !firstItem) return;
@@ -49,6 +54,7 @@ export async function searchFoursquarePlaces(query: PlaceQuery, apiKey?: string)
   const url = new URL(FSQ_BASE);
   const limit = Math.min(50, Math.max(1, query.size ?? 20));
   url.searchParams.set('limit', String(limit));
+  url.searchParams.set('fields', FSQ_FIELDS);
 
   // Prefer 'near' (city text) when provided explicitly and there are no explicit coordinates
   if (query.near && !(query.lat != null && query.lon != null)) {
@@ -70,7 +76,7 @@ export async function searchFoursquarePlaces(query: PlaceQuery, apiKey?: string)
   } catch {}
 
   try {
-    const res = await fetch(url.toString(), { headers: { Accept: 'application/json', Authorization: `Bearer ${apiKey}`, 'X-Places-Api-Version': '2025-06-17' } });
+    const res = await providerFetch('FOURSQUARE', url.toString(), { headers: { Accept: 'application/json', Authorization: `Bearer ${apiKey}`, 'X-Places-Api-Version': '2025-06-17' } });
     if (!res.ok) return { items: [], warning: `Foursquare HTTP ${res.status}` };
     const data: any = await res.json();
     const results: any[] = data?.results ?? [];
@@ -106,7 +112,8 @@ export async function searchFoursquarePlaces(query: PlaceQuery, apiKey?: string)
         address: addr,
         rating: null,
         reviewCount: null,
-        openNow: undefined,
+        openNow: r.hours?.open_now ?? undefined,
+        openingHours: normalizeFoursquareHours(r.hours, typeof r.timezone === 'string' ? r.timezone : ''),
         categoriesLite,
         categoriesRaw,
         primaryCategorySlug,
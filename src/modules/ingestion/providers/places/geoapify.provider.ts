@@ -2,6 +2,7 @@
 // Docs: https://apidocs.geoapify.com/docs/places/
 
 import { getGeoapifyCategoriesForPlaceCategories } from '../../../catalog/taxonomy/mapping.geoapify.js';
+import { parseOsmOpeningHours, type OpeningHours } from '../../../catalog/places/opening-hours.js';
 
 export type PlaceQuery = {
   lat?: number;
@@ -32,7 +33,7 @@ export type NormalizedPlace = {
   rating?: number | null;
   reviewCount?: number | null;
   openNow?: boolean;
-  openingHours?: { timezone?: string; periods?: Array<{ weekday: number; open: string; close: string }> } | null;
+  openingHours?: OpeningHours | null;
   categoriesRaw?: string[];
 };
 
@@ -42,6 +43,7 @@ const GEOAPIFY_BASE = 'https://api.geoapify.com/v2/places';
 import fs from 'node:fs';
 import path from 'node:path';
 import { IngestLogger } from '../../ingest.logger.js';
+import { providerFetch } from '../provider.http.js';
 const SAVE_RAW = process.env.INGEST_SAVE_PROVIDER_RAW_SAMPLES === 'true';
 function saveRawSample(provider: string, firstItem: unknown) {
   if (!SAVE_RAW || !firstItem) return;
@@ -98,7 +100,7 @@ export async function searchGeoapify(query: PlaceQuery, apiKey?: string): Promis
   } catch {}
 
   try {
-    const res = await fetch(url.toString(), { headers: { Accept: 'application/json' } });
+    const res = await providerFetch('GEOAPIFY', url.toString(), { headers: { Accept: 'application/json' } });
     if (!res.ok) return { items: [], warning: `Geoapify HTTP ${res.status}` };
     const data: any = await res.json();
     let features: any[] = data?.features ?? [];
@@ -124,7 +126,7 @@ export async function searchGeoapify(query: PlaceQuery, apiKey?: string): Promis
           providersLogger.log(msg2);
           providersLogger.flushToFile(false);
         } catch {}
-        const res2 = await fetch(url2.toString(), { headers: { Accept: 'application/json' } });
+        const res2 = await providerFetch('GEOAPIFY', url2.toString(), { headers: { Accept: 'application/json' } });
         if (res2.ok) {
           const data2: any = await res2.json();
           features = data2?.features ?? [];
@@ -155,7 +157,8 @@ export async function searchGeoapify(query: PlaceQuery, apiKey?: string): Promis
         rating: null,
         reviewCount: null,
         openNow: p.open_now ?? undefined,
-        openingHours: null,
+        // OSM opening_hours string, e.g. "Mo-Fr 08:00-18:00; Sa 10:00-14:00"
+        openingHours: parseOsmOpeningHours(p.opening_hours ?? p.datasource?.raw?.opening_hours, p.timezone?.name ?? ''),
         categoriesRaw,
       } as NormalizedPlace;
     });
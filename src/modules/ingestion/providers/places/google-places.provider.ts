@@ -3,6 +3,7 @@
 
 import type { PlaceQuery } from './geoapify.provider.js';
 import { getGooglePlaceTypesForPlaceCategories } from '../../../catalog/taxonomy/mapping.googlePlaces.js';
+import { normalizeGoogleOpeningHours, type OpeningHours } from '../../../catalog/places/opening-hours.js';
 
 export type GoogleNormalizedPlace = {
   provider: 'GOOGLE_PLACES';
@@ -16,16 +17,21 @@ export type GoogleNormalizedPlace = {
   rating?: number | null;
   reviewCount?: number | null;
   openNow?: boolean;
+  openingHours?: OpeningHours | null;
   categoriesRaw?: string[];
 };
 
 const GP_BASE_NEARBY = 'https://maps.googleapis.com/maps/api/place/nearbysearch/json';
 const GP_BASE_TEXT = 'https://maps.googleapis.com/maps/api/place/textsearch/json';
+const GP_BASE_DETAILS = 'https://maps.googleapis.com/maps/api/place/details/json';
 
 // Diagnostics: save raw first item
 import fs from 'node:fs';
 import path from 'node:path';
 import { IngestLogger } from '../../ingest.logger.js';
+import { providerFetch } from '../provider.http.js';
+import { providerUsage } from '../../provider.usage.js';
+import { GOOGLE_PLACES_DETAILS_LIMIT } from '../../../../config/providers.js';
 const SAVE_RAW = process.env.INGEST_SAVE_PROVIDER_RAW_SAMPLES === 'true';
 function saveRawSample(provider: string, firstItem: unknown) {
   if (!SAVE_RAW || !firstItem) return;
@@ -79,7 +85,7 @@ export async function searchGooglePlaces(query: PlaceQuery, apiKey?: string): Pr
   } catch {}
 
   try {
-    const res = await fetch(url.toString(), { headers: { Accept: 'application/json' } });
+    const res = await providerFetch('GOOGLE_PLACES', url.toString(), { headers: { Accept: 'application/json' } });
     if (!res.ok) return { items: [], warning: `Google Places HTTP ${res.status}` };
     const data: any = await res.json();
     const results: any[] = data?.results ?? [];
@@ -108,11 +114,38 @@ export async function searchGooglePlaces(query: PlaceQuery, apiKey?: string): Pr
         rating,
         reviewCount,
         openNow: r.opening_hours?.open_now ?? undefined,
+        // Nearby Search only has open_now; periods are filled from Place Details below
+        openingHours: normalizeGoogleOpeningHours(r.current_opening_hours ?? r.opening_hours),
         categoriesRaw,
       };
     });
+    await fillOpeningHours(items, apiKey);
     return { items };
   } catch (e: any) {
     return { items: [], warning: `Google Places error: ${e?.message || 'unknown'}` };
   }
 }
+
+// One Place Details request per place (billed per request), so only for the kept results without periods, up to
+// GOOGLE_PLACES_DETAILS_LIMIT and while the daily budget has room. utc_offset is not asked for: it is the offset at
+// request time without DST rules, the hours are evaluated in City.tz instead. A failed lookup leaves the place without hours.
+async function fillOpeningHours(items: GoogleNormalizedPlace[], apiKey: string): Promise<void> {
+  const missing = items.filter((it) => !it.openingHours).slice(0, GOOGLE_PLACES_DETAILS_LIMIT);
+  if (!missing.length) return;
+  const quota = await providerUsage.tier('GOOGLE_PLACES', 'search');
+  if (quota.tier !== 'full') return;
+  await Promise.all(
+    missing.map(async (it) => {
+      const url = new URL(GP_BASE_DETAILS);
+      url.searchParams.set('place_id', it.id);
+      url.searchParams.set('fields', 'opening_hours');
+      url.searchParams.set('key', apiKey);
+      try {
+        const res = await providerFetch('GOOGLE_PLACES', url.toString(), { headers: { Accept: 'application/json' } });
+        if (!res.ok) return;
+        const data: any = await res.json();
+        it.openingHours = normalizeGoogleOpeningHours(data?.result?.opening_hours);
+      } catch {}
+    })
+  );
+}
@@ -0,0 +1,94 @@
+// HTTP transport shared by the provider adapters: per-provider timeout, bounded retries with jittered
+// exponential backoff on 429 / 5xx / timeouts / network errors, the circuit breaker (../provider.breaker.ts) and
+// request accounting for the quota budgets (../provider.usage.ts). Record / replay of responses: provider.transport.ts.
+// Adapters keep their own handling of the final response: a non-ok status still comes back as a Response,
+// network failures and an open breaker are thrown.
+
+import type { SourceType } from '../../search/search.schemas.js';
+import { providerBreaker, type BreakerState } from '../provider.breaker.js';
+import { providerUsage } from '../provider.usage.js';
+import { providerTransport, recordProviderResponse, replayProviderResponse } from './provider.transport.js';
+import { PROVIDER_MAX_RETRIES, PROVIDER_RETRY_BASE_MS, PROVIDER_RETRY_MAX_MS, PROVIDER_TIMEOUTS_MS } from '../../../config/providers.js';
+
+export class ProviderUnavailableError extends Error {
+  constructor(public source: SourceType, public state: BreakerState, public openUntil?: number) {
+    super(
+      state === 'half_open'
+        ? 'circuit breaker half-open, another trial request is in flight'
+        : `circuit breaker open${openUntil ? `, skipped until ${new Date(openUntil).toISOString()}` : ''}`
+    );
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Full jitter: random delay up to base * 2^attempt, capped
+export function backoffDelayMs(attempt: number, random = Math.random): number {
+  return Math.round(random() * Math.min(PROVIDER_RETRY_MAX_MS, PROVIDER_RETRY_BASE_MS * 2 ** attempt));
+}
+
+// Retry-After in seconds or as an HTTP date
+function retryAfterMs(res: Response): number | undefined {
+  const h = res.headers?.get?.('retry-after');
+  if (!h) return undefined;
+  const secs = Number(h);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(h);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : undefined;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (e: any) {
+    if (controller.signal.aborted) throw new Error(`timed out after ${timeoutMs} ms`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function providerFetch(source: SourceType, url: string, init: RequestInit = {}): Promise<Response> {
+  // Recorded responses: no network, so no breaker, retries or quota either
+  if (providerTransport.mode === 'replay') return replayProviderResponse(source, url, init);
+  const done = (res: Response) => (providerTransport.mode === 'record' ? recordProviderResponse(source, url, init, res) : res);
+
+  const gate = await providerBreaker.check(source);
+  if (!gate.allowed) throw new ProviderUnavailableError(source, gate.state, gate.openUntil);
+
+  const timeoutMs = PROVIDER_TIMEOUTS_MS[source];
+  for (let attempt = 0; ; attempt++) {
+    let res: Response | undefined;
+    let error: any;
+    // Every attempt counts against the provider's quota (provider.usage.ts)
+    await providerUsage.countRequest(source);
+    try {
+      res = await fetchWithTimeout(url, init, timeoutMs);
+    } catch (e) {
+      error = e;
+    }
+    // Reached the provider and it answered (a 4xx other than 429 is the request's fault, not the provider's)
+    if (res && !isRetryableStatus(res.status)) {
+      await providerBreaker.recordSuccess(source);
+      return done(res);
+    }
+    const failure = res ? `HTTP ${res.status}` : error?.message || 'network error';
+
+    let delay = backoffDelayMs(attempt);
+    const after = res ? retryAfterMs(res) : undefined;
+    if (after !== undefined) delay = after;
+    if (attempt >= PROVIDER_MAX_RETRIES || delay > PROVIDER_RETRY_MAX_MS) {
+      await providerBreaker.recordFailure(source, failure);
+      if (res) return done(res);
+      throw error;
+    }
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,99 @@
+// Record / replay of provider responses (PROVIDER_TRANSPORT). In record mode every response providerFetch returns
+// is saved as <PROVIDER_FIXTURES_DIR>/<SOURCE>/<key>.json; in replay mode responses are served from there and no
+// request goes out, so search → ingest → persist runs offline and deterministically on real payloads.
+// The key is a hash of the normalized request: credentials dropped, query params sorted, and the event time window
+// reduced to its length in days, so a recording keeps matching the same search on later days.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { SourceType } from '../../search/search.schemas.js';
+import type { ProviderKeys } from '../ingestion.service.js';
+import { PROVIDER_FIXTURES_DIR, PROVIDER_TRANSPORT, type ProviderTransportMode } from '../../../config/providers.js';
+
+export type NormalizedProviderRequest = { method: string; url: string; body?: string };
+
+export type ProviderFixture = {
+  source: SourceType;
+  request: NormalizedProviderRequest;
+  status: number;
+  contentType?: string;
+  body: string;
+  recordedAt: string;
+};
+
+// Credentials (query params; Authorization headers never take part in the key)
+const SECRET_PARAMS = new Set(['apikey', 'apiKey', 'key', 'token']);
+// Event time window: [from, to] param pairs
+const WINDOW_PARAMS: Array<[string, string]> = [['startDateTime', 'endDateTime'], ['start.gte', 'start.lte']];
+// Stands in for missing API keys in replay mode; providers return early without a key
+const REPLAY_KEY = 'replay';
+
+// Mutable so that tests and scripts can switch modes without reloading the config
+export const providerTransport: { mode: ProviderTransportMode; dir: string } = {
+  mode: PROVIDER_TRANSPORT,
+  dir: PROVIDER_FIXTURES_DIR,
+};
+
+export function normalizeProviderRequest(url: string, init: RequestInit = {}): NormalizedProviderRequest {
+  const u = new URL(url);
+  for (const name of Array.from(u.searchParams.keys())) if (SECRET_PARAMS.has(name)) u.searchParams.delete(name);
+  for (const [fromName, toName] of WINDOW_PARAMS) {
+    if (!u.searchParams.has(fromName) && !u.searchParams.has(toName)) continue;
+    const from = Date.parse(u.searchParams.get(fromName) ?? '');
+    const to = Date.parse(u.searchParams.get(toName) ?? '');
+    u.searchParams.delete(fromName);
+    u.searchParams.delete(toName);
+    u.searchParams.set('window', Number.isFinite(from) && Number.isFinite(to) ? `${Math.round((to - from) / 86_400_000)}d` : 'open');
+  }
+  u.searchParams.sort();
+  const body = typeof init.body === 'string' ? init.body : undefined;
+  return { method: (init.method ?? 'GET').toUpperCase(), url: u.toString(), ...(body ? { body } : {}) };
+}
+
+export function fixturePath(source: SourceType, req: NormalizedProviderRequest, dir = providerTransport.dir): string {
+  const key = createHash('sha1').update(JSON.stringify(req)).digest('hex').slice(0, 20);
+  return path.resolve(dir, source, `${key}.json`);
+}
+
+function toResponse(status: number, body: string, contentType?: string): Response {
+  // These statuses must not carry a body
+  const empty = status === 204 || status === 205 || status === 304;
+  return new Response(empty ? null : body, { status, headers: contentType ? { 'content-type': contentType } : undefined });
+}
+
+// Saves the response and hands back an unread copy; a failed write only loses the recording
+export async function recordProviderResponse(source: SourceType, url: string, init: RequestInit, res: Response): Promise<Response> {
+  const request = normalizeProviderRequest(url, init);
+  const body = await res.text();
+  const contentType = res.headers?.get?.('content-type') ?? undefined;
+  const fixture: ProviderFixture = { source, request, status: res.status, contentType, body, recordedAt: new Date().toISOString() };
+  try {
+    const file = fixturePath(source, request);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+  } catch {}
+  return toResponse(res.status, body, contentType);
+}
+
+export function replayProviderResponse(source: SourceType, url: string, init: RequestInit = {}): Response {
+  const request = normalizeProviderRequest(url, init);
+  const file = fixturePath(source, request);
+  if (!fs.existsSync(file)) {
+    throw new Error(`no recorded response for ${request.method} ${request.url} (record it with PROVIDER_TRANSPORT=record)`);
+  }
+  const fixture: ProviderFixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return toResponse(fixture.status, fixture.body, fixture.contentType);
+}
+
+// In replay mode every provider gets a key, so recordings are used even where the real key is not configured
+export function transportKeys(keys: ProviderKeys): ProviderKeys {
+  if (providerTransport.mode !== 'replay') return keys;
+  return {
+    ticketmasterApiKey: keys.ticketmasterApiKey || REPLAY_KEY,
+    predicthqToken: keys.predicthqToken || REPLAY_KEY,
+    geoapifyApiKey: keys.geoapifyApiKey || REPLAY_KEY,
+    googlePlacesApiKey: keys.googlePlacesApiKey || REPLAY_KEY,
+    foursquareApiKey: keys.foursquareApiKey || REPLAY_KEY,
+  };
+}
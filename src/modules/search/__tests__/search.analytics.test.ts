@@ -0,0 +1,82 @@
+import { claimSearchClick, recordSearchQuery, searchFingerprint, topQueries } from '../search.analytics.js';
+
+const keyParts = {
+  target: 'both',
+  sort: 'rank',
+  limit: 20,
+  page: 1,
+  offset: 0,
+  q: 'jazz',
+  cityId: 7,
+  filters: { categories: ['event.concert'] },
+  userId: 'u1',
+};
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+describe('searchFingerprint', () => {
+  it('ignores the user and the page but not the query', () => {
+    const fp = searchFingerprint(keyParts);
+    expect(searchFingerprint({ ...keyParts, userId: undefined, page: 3, offset: 40 })).toBe(fp);
+    expect(searchFingerprint({ ...keyParts, q: 'blues' })).not.toBe(fp);
+  });
+});
+
+describe('recordSearchQuery', () => {
+  it('stores counts, cache state and warnings without the per-user parts', async () => {
+    const create = jest.fn().mockResolvedValue({});
+    recordSearchQuery({ searchQueryLog: { create } } as any, {
+      keyParts,
+      resp: { total: 0, items: [], warnings: ['ingest places: total=0'] },
+      cache: 'miss',
+      tookMs: 812.4,
+    });
+    await flush();
+    const { data } = create.mock.calls[0][0];
+    expect(data).toMatchObject({ q: 'jazz', cityId: '7', categories: ['event.concert'], total: 0, returned: 0, tookMs: 812, cache: 'miss' });
+    expect(data.keyParts).not.toHaveProperty('userId');
+  });
+
+  it('never throws when the log cannot be written', async () => {
+    const warn = jest.fn();
+    expect(() => recordSearchQuery({} as any, { keyParts, resp: {}, cache: 'off', tookMs: 1 }, { warn } as any)).not.toThrow();
+    await flush();
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe('claimSearchClick', () => {
+  it('counts one click per user or IP and hit within the window', async () => {
+    const keys = new Set<string>();
+    const redis: any = {
+      set: jest.fn(async (k: string, _v: string, ...args: any[]) => {
+        if (args.includes('NX') && keys.has(k)) return null;
+        keys.add(k);
+        return 'OK';
+      }),
+    };
+    expect(await claimSearchClick(redis, { type: 'place', id: 'p1', ip: '10.0.0.1' })).toBe(true);
+    expect(await claimSearchClick(redis, { type: 'place', id: 'p1', ip: '10.0.0.1' })).toBe(false);
+    expect(await claimSearchClick(redis, { type: 'place', id: 'p1', ip: '10.0.0.2' })).toBe(true);
+    expect(await claimSearchClick(redis, { type: 'place', id: 'p1', userId: 'u1', ip: '10.0.0.1' })).toBe(true);
+    expect(redis.set).toHaveBeenLastCalledWith('search:click:user:u1:place:p1', '1', 'EX', 1800, 'NX');
+  });
+});
+
+describe('topQueries', () => {
+  it('describes each fingerprint group by its latest logged query', async () => {
+    const prisma = {
+      searchQueryLog: {
+        groupBy: jest.fn().mockResolvedValue([
+          { fingerprint: 'f1', _count: { _all: 5 }, _avg: { total: 12.34, tookMs: 101.6 }, _max: { tookMs: 300, createdAt: new Date('2025-06-01T10:00:00Z') } },
+        ]),
+        findMany: jest.fn().mockResolvedValue([{ fingerprint: 'f1', q: 'jazz', cityId: '7', target: 'both', categories: [], keyParts: { q: 'jazz' } }]),
+      },
+    } as any;
+    const items = await topQueries(prisma, { since: new Date('2025-05-25T00:00:00Z') }, 10);
+    expect(items).toEqual([
+      expect.objectContaining({ fingerprint: 'f1', q: 'jazz', count: 5, avgTotal: 12.3, avgTookMs: 102, maxTookMs: 300, lastSeenAt: '2025-06-01T10:00:00.000Z' }),
+    ]);
+    expect(prisma.searchQueryLog.groupBy.mock.calls[0][0].where.createdAt.gte).toEqual(new Date('2025-05-25T00:00:00Z'));
+  });
+});
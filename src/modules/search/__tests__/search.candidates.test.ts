@@ -0,0 +1,58 @@
+import { Prisma } from '@prisma/client';
+import { candidateBatchSql, candidateCountSql } from '../search.candidates.js';
+import { buildGeoScope } from '../search.geo.js';
+import { parseTextQuery } from '../search.text.js';
+
+describe('candidate SQL', () => {
+  const asOf = new Date('2025-06-05T12:00:00Z');
+  const from = new Date('2025-06-06T00:00:00Z');
+  const to = new Date('2025-06-08T00:00:00Z');
+  const evening = { from: new Date('2025-06-06T17:00:00Z'), to: new Date('2025-06-06T22:00:00Z') };
+  const geoScope = buildGeoScope({ geo: { lat: 52.52, lon: 13.4, radiusKm: 3 } });
+  const filters = {
+    asOf,
+    cityIds: ['ber'],
+    onlyWithPhotos: true,
+    priceTier: 'CHEAP',
+    sources: ['TICKETMASTER'],
+    categorySlugs: ['event.concert_show'],
+    excludedCategorySlugs: ['event.nightlife_party'],
+    maxAgeLimit: 12,
+    occurrences: { from, to, intervals: [evening] },
+    geoScope,
+    text: { query: parseTextQuery('jazz')!, fullText: true },
+  };
+  const order = {
+    distanceFactor: Prisma.sql`1::float8`,
+    rank: Prisma.sql`r."pop"`,
+    rankFloor: Prisma.sql`r."pop"`,
+    keys: [Prisma.sql`coalesce(r."d", 0)`],
+    byRank: true,
+  };
+
+  it('applies every DB filter of the search before the keyset and the LIMIT', () => {
+    const sql = candidateBatchSql(['event'], filters, order, { after: { keys: [1.5], rank: 0.25, id: 'e1' }, limit: 50 });
+    const text = sql.sql.replace(/\s+/g, ' ').trim();
+    const where = text.slice(text.indexOf('FROM "Event" t'), text.lastIndexOf(') c) r'));
+    expect(where).toContain(`t."moderation" = 'APPROVED' AND t."createdAt" <= (?::timestamptz AT TIME ZONE 'UTC')`);
+    expect(where).toContain('t."imageUrl" IS NOT NULL AND t."priceTier"::text = ?');
+    expect(where).toContain('FROM "EventSource" s WHERE s."eventId" = t."id" AND s."source"::text IN (?)');
+    expect(where).toContain('FROM "EventToCategory" l JOIN "EventCategory" c');
+    expect(where).toContain('NOT EXISTS ( SELECT 1 FROM "EventCategory" c WHERE c."id" = t."mainCategoryId"');
+    expect(where).toContain('(t."ageLimit" IS NULL OR t."ageLimit" <= ?)');
+    expect(where).toContain('@@ to_tsquery(\'simple\', ?)');
+    expect(where).toMatch(/FROM "EventOccurrence" o LEFT JOIN "Place" op ON op."id" = o."placeId" .* WHERE o."eventId" = t."id" AND o."startTime" >= /);
+    expect(where).toContain('o."lat" IS NULL OR o."lng" IS NULL) AND (op."lat" BETWEEN');
+    expect(text).toMatch(/WHERE \(s."k0",-s."h",s."id" COLLATE "C"\) > \(\?::float8,\?::float8,\?\) ORDER BY s."k0",-s."h",s."id" COLLATE "C" LIMIT \?$/);
+    expect(sql.values).toEqual(expect.arrayContaining([asOf, 'CHEAP', 'TICKETMASTER', 'event.concert_show', 'event.nightlife_party', 12, from, to, evening.from, evening.to, '1.5', '-0.25', 'e1', 50]));
+  });
+
+  it('counts matching rows per entity and city over the same relation', () => {
+    const sql = candidateCountSql(['event', 'place'], filters);
+    const text = sql.sql.replace(/\s+/g, ' ').trim();
+    expect(text).toMatch(/^SELECT c."type", c."cityId", ci."name" AS "cityName", count\(\*\)::int AS "count" FROM \(\(/);
+    expect(text).toContain(') UNION ALL (');
+    expect(text).toMatch(/GROUP BY c."type", c."cityId", ci."name"$/);
+    expect(text).not.toMatch(/LIMIT \?/);
+  });
+});
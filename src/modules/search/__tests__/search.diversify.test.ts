@@ -0,0 +1,104 @@
+import { diversifySorted, paginateDiversified, resolveDiversifyOptions, type DiversifiableHit } from '../search.diversify.js';
+import { decodeCursor } from '../search.pagination.js';
+
+const place = (id: string, category: string, source = 'GEOAPIFY'): DiversifiableHit => ({
+  id,
+  type: 'place',
+  title: id,
+  primaryCategory: { slug: category },
+  sourceProvider: source,
+});
+
+const event = (id: string, title: string, startsAt: string, source: string, venue?: string): DiversifiableHit => ({
+  id,
+  type: 'event',
+  title,
+  city: { id: 'c1' },
+  primaryCategory: { slug: 'event.concert' },
+  sourceProvider: source,
+  sources: [{ source, externalId: id }],
+  nextOccurrence: { startsAt, place: venue ? { id: venue } : null },
+});
+
+const entries = (hits: DiversifiableHit[]) => hits.map((hit, i) => ({ hit, key: [-(100 - i)] }));
+
+const opts = (over: Partial<ReturnType<typeof resolveDiversifyOptions>> = {}) => ({
+  ...resolveDiversifyOptions({ sort: 'rank', diversify: { enabled: true, maxSameCategory: 2, maxSameVenue: 0, maxSameSource: 0 } }),
+  ...over,
+});
+
+describe('diversifySorted', () => {
+  it('breaks up runs of one category with the next hit that fits, keeping the rest in rank order', () => {
+    const hits = [place('r1', 'food'), place('r2', 'food'), place('r3', 'food'), place('r4', 'food'), place('m1', 'museum'), place('p1', 'park')];
+    const result = diversifySorted(entries(hits), opts());
+
+    expect(result.entries.map((e) => e.hit.id)).toEqual(['r1', 'r2', 'm1', 'r3', 'r4', 'p1']);
+    expect(result.reordered).toBe(1);
+    // Hits keep their original sort keys
+    expect(result.entries.map((e) => e.key)).toEqual([[-100], [-99], [-96], [-98], [-97], [-95]]);
+  });
+
+  it('keeps the ranked order and keys for explicit sorts', () => {
+    const sorted = entries([place('r1', 'food'), place('r2', 'food'), place('r3', 'food'), place('m1', 'museum')]);
+    const result = diversifySorted(sorted, { ...opts(), reorder: false });
+    expect(result.entries).toEqual(sorted);
+  });
+
+  it('collapses near-duplicate events into the best-ranked one and merges their sources', () => {
+    const hits = [
+      event('tm', 'Coldplay – Live!', '2025-06-01T19:00:00Z', 'TICKETMASTER'),
+      event('phq', 'coldplay live', '2025-06-01T19:30:00Z', 'PREDICTHQ'),
+      event('tm2', 'Coldplay Live', '2025-06-02T19:00:00Z', 'TICKETMASTER'),
+      event('jazz1', 'Jazz Night', '2025-06-03T20:00:00Z', 'TICKETMASTER', 'v1'),
+      event('jazz2', 'Jazz night', '2025-06-10T20:00:00Z', 'TICKETMASTER', 'v1'),
+    ];
+    const result = diversifySorted(entries(hits), opts({ reorder: false }));
+
+    expect(result.entries.map((e) => e.hit.id)).toEqual(['tm', 'tm2', 'jazz1']);
+    expect(result.collapsed).toBe(2);
+    expect(result.entries[0].hit.sources?.map((s) => s.source)).toEqual(['TICKETMASTER', 'PREDICTHQ']);
+  });
+
+  it('does nothing when disabled', () => {
+    const sorted = entries([event('a', 'Same', '2025-06-01T19:00:00Z', 'TICKETMASTER'), event('b', 'Same', '2025-06-01T19:00:00Z', 'PREDICTHQ')]);
+    const result = diversifySorted(sorted, resolveDiversifyOptions({ sort: 'rank', diversify: { enabled: false } }));
+    expect(result).toEqual({ entries: sorted, collapsed: 0, reordered: 0 });
+  });
+
+  it('yields the same pages through cursors as in one go', () => {
+    const hits = Array.from({ length: 12 }, (_, i) => place(`h${String(i).padStart(2, '0')}`, i < 8 ? 'food' : `other${i}`));
+    const all = diversifySorted(entries(hits), opts()).entries;
+    const ctx = { sort: 'rank' as const, fingerprint: 'fp' };
+    const asOf = new Date();
+    const first = paginateDiversified(all, { limit: 5, offset: 0, asOf }, ctx, opts());
+    const again = diversifySorted(entries(hits), opts()).entries;
+    const cursor = decodeCursor(first.nextCursor!);
+    const second = paginateDiversified(again, { limit: 5, offset: 0, asOf, cursor }, ctx, opts());
+
+    expect([...first.items, ...second.items].map((h) => h.id)).toEqual(all.slice(0, 10).map((e) => e.hit.id));
+    // The offset path slices the same order
+    const byOffset = paginateDiversified(all, { limit: 5, offset: 5, asOf }, ctx, opts());
+    expect(byOffset.items).toEqual(second.items);
+  });
+
+  it('keeps later pages stable when a score changes between pages', () => {
+    const hits = Array.from({ length: 12 }, (_, i) => place(`h${String(i).padStart(2, '0')}`, i < 8 ? 'food' : `other${i}`));
+    const ctx = { sort: 'rank' as const, fingerprint: 'fp' };
+    const asOf = new Date();
+    const first = paginateDiversified(diversifySorted(entries(hits), opts()).entries, { limit: 5, offset: 0, asOf }, ctx, opts());
+    expect(first.items.map((h) => h.id)).toEqual(['h00', 'h01', 'h08', 'h02', 'h03']);
+
+    // h10 gains rank before page 2: it moves ahead of h09 but stays behind the anchor, nothing else shifts
+    const rescored = entries(hits).map((e) => (e.hit.id === 'h10' ? { ...e, key: [-91.5] } : e));
+    const seen = first.items.map((h) => h.id);
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = paginateDiversified(diversifySorted(rescored, opts()).entries, { limit: 5, offset: 0, asOf, cursor: decodeCursor(cursor) }, ctx, opts());
+      seen.push(...page.items.map((h) => h.id));
+      cursor = page.nextCursor;
+    }
+
+    expect(seen).toEqual(['h00', 'h01', 'h08', 'h02', 'h03', 'h10', 'h04', 'h05', 'h09', 'h06', 'h07', 'h11']);
+    expect(new Set(seen).size).toBe(hits.length);
+  });
+});
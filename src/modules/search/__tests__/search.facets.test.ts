@@ -0,0 +1,46 @@
+import { facetCountSql, facetsFromCounts, type FacetCountRow } from '../search.facets.js';
+
+const rows: FacetCountRow[] = [
+  { facet: 'categories', key: 'event.concert_show', label: null, count: 1 },
+  { facet: 'categories', key: 'place.food_cafe_coffee', label: null, count: 2 },
+  { facet: 'weekday', key: 'sun', label: null, count: 3 },
+  { facet: 'weekday', key: 'fri', label: null, count: 1 },
+  { facet: 'distance', key: '10+', label: null, count: 1 },
+  { facet: 'distance', key: '0-1', label: null, count: 1 },
+  { facet: 'venue', key: 'v1', label: 'Blue Note', count: 1 },
+];
+
+describe('facetsFromCounts', () => {
+  it('sorts ordinal facets by bucket and the others by count', () => {
+    const f = facetsFromCounts(rows);
+    expect(f.categories).toEqual([
+      { key: 'place.food_cafe_coffee', count: 2 },
+      { key: 'event.concert_show', count: 1 },
+    ]);
+    expect(f.weekday).toEqual([{ key: 'fri', count: 1 }, { key: 'sun', count: 3 }]);
+    expect(f.distance).toEqual([{ key: '0-1', count: 1 }, { key: '10+', count: 1 }]);
+    expect(f.venue).toEqual([{ key: 'v1', count: 1, label: 'Blue Note' }]);
+    // every facet is listed, empty ones too
+    expect(f.rating).toEqual([]);
+  });
+
+  it('computes only the requested facets', () => {
+    const f = facetsFromCounts(rows, ['rating', 'free']);
+    expect(Object.keys(f).sort()).toEqual(['free', 'rating']);
+  });
+});
+
+describe('facetCountSql', () => {
+  const filters = { asOf: new Date('2025-06-05T12:00:00Z'), cityIds: ['1'] };
+
+  it('groups the candidate rows of the search per requested facet', () => {
+    const sql = facetCountSql(['event', 'place'], filters, ['weekday', 'venue']);
+    const text = sql.sql.replace(/\s+/g, ' ');
+    expect(text).toMatch(/^ WITH f AS \( SELECT c."type", c."id", c."occId"/);
+    expect(text.match(/GROUP BY/g)).toHaveLength(2);
+    // weekday of the picked occurrence in its own time zone
+    expect(text).toContain(`AT TIME ZONE coalesce(z."name", 'UTC')`);
+    expect(text).toContain('JOIN "EventOccurrence" o ON o."id" = f."occId" JOIN "Place" v ON v."id" = o."placeId"');
+    expect(text).not.toContain('"PlaceSource"');
+  });
+});
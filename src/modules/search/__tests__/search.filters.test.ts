@@ -0,0 +1,61 @@
+import { buildAudienceFilter, describeFilterUsage } from '../search.filters.js';
+
+describe('buildAudienceFilter', () => {
+  it('excludes nightlife and adult-only events for kids', () => {
+    const f = buildAudienceFilter({ who: { companyType: 'kids', kidsAgeGroups: ['4-7', '8-12'] } });
+    expect(f.excludedCategorySlugs).toContain('place.nightlife_club');
+    expect(f.maxAgeLimit).toBe(4);
+    expect(f.evaluate({ type: 'place', categorySlugs: ['place.nightlife_club'] }).exclude).toBe(true);
+    expect(f.evaluate({ type: 'event', categorySlugs: ['event.concert_show'], ageLimit: 12 }).exclude).toBe(true);
+    expect(f.evaluate({ type: 'event', categorySlugs: ['event.kids_family'], ageLimit: 3 }).exclude).toBe(false);
+  });
+
+  it('boosts kids-friendly categories', () => {
+    const f = buildAudienceFilter({ who: { companyType: 'kids' } });
+    const v = f.evaluate({ type: 'place', categorySlugs: ['place.kids_playground'] });
+    expect(v.exclude).toBe(false);
+    expect(v.factor).toBeGreaterThan(1);
+  });
+
+  it('excludes long events and down-ranks long places for UP_TO_2_HOURS', () => {
+    const f = buildAudienceFilter({ timeBudget: 'UP_TO_2_HOURS' });
+    expect(f.evaluate({ type: 'event', categorySlugs: [], durationMin: 180 }).exclude).toBe(true);
+    const place = f.evaluate({ type: 'place', categorySlugs: [], durationMin: 240 });
+    expect(place.exclude).toBe(false);
+    expect(place.factor).toBeLessThan(1);
+    expect(f.evaluate({ type: 'event', categorySlugs: [], durationMin: 90 }).factor).toBe(1);
+  });
+
+  it('requires EVENING events to start in the evening of their timezone', () => {
+    const f = buildAudienceFilter({ timeBudget: 'EVENING' });
+    // 16:00 UTC is 18:00 in Berlin (summer time) but still afternoon in London
+    expect(f.evaluate({ type: 'event', categorySlugs: [], startsAt: '2025-07-01T16:00:00.000Z', timezone: 'Europe/Berlin' }).exclude).toBe(false);
+    expect(f.evaluate({ type: 'event', categorySlugs: [], startsAt: '2025-07-01T14:00:00.000Z', timezone: 'Europe/London' }).exclude).toBe(true);
+  });
+
+  it('applies mood preferences as rank factors', () => {
+    const f = buildAudienceFilter({ mood: 'CALM' });
+    expect(f.evaluate({ type: 'place', categorySlugs: ['place.spa_wellness_sauna'] }).factor).toBeGreaterThan(1);
+    expect(f.evaluate({ type: 'event', categorySlugs: ['event.nightlife_party'] }).factor).toBeLessThan(1);
+  });
+
+  it('is inactive without who/mood/timeBudget', () => {
+    expect(buildAudienceFilter({ mood: 'ANY' }).active).toBe(false);
+  });
+});
+
+describe('describeFilterUsage', () => {
+  it('splits present filters into applied and ignored', () => {
+    const usage = describeFilterUsage({
+      where: { city: { id: 40 } },
+      target: 'both',
+      sort: 'rank',
+      pagination: { limit: 20, offset: 0, page: 1 },
+      mood: 'CALM',
+      timeBudget: 'HALF_DAY',
+      filters: { tags: ['vegan'], categorySlugs: ['place.food_restaurant'] },
+    } as any);
+    expect(usage.applied).toEqual(expect.arrayContaining(['where.city', 'mood', 'timeBudget', 'filters.categorySlugs']));
+    expect(usage.ignored).toEqual(['filters.tags']);
+  });
+});
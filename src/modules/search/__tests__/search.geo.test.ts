@@ -0,0 +1,87 @@
+import { areaBreakdown, buildGeoScope, distanceFromOrigin, distanceToPathKm, latLngWhere } from '../search.geo.js';
+
+describe('buildGeoScope', () => {
+  it('returns undefined without geo or bbox', () => {
+    expect(buildGeoScope({})).toBeUndefined();
+  });
+
+  it('honours radiusKm exactly, not just the bounding square', () => {
+    const scope = buildGeoScope({ geo: { lat: 51.5, lon: -0.12, radiusKm: 2 } })!;
+    expect(scope.userPoint).toEqual({ lat: 51.5, lon: -0.12 });
+    expect(scope.contains({ lat: 51.51, lon: -0.12 })).toBe(true);
+    // Corner of the square around the circle is ~2.5 km away
+    const corner = { lat: scope.latRange.lte - 0.0001, lon: scope.lngRanges[0].lte - 0.0001 };
+    expect(scope.contains(corner)).toBe(false);
+  });
+
+  it('clips to the bbox and orders by its center', () => {
+    const scope = buildGeoScope({ bbox: { south: 50, west: 8, north: 51, east: 9 } })!;
+    expect(scope.userPoint).toBeUndefined();
+    expect(scope.origin).toEqual({ lat: 50.5, lon: 8.5 });
+    expect(scope.contains({ lat: 50.2, lon: 8.9 })).toBe(true);
+    expect(scope.contains({ lat: 51.2, lon: 8.9 })).toBe(false);
+  });
+
+  it('splits boxes crossing the antimeridian', () => {
+    const scope = buildGeoScope({ bbox: { south: -20, west: 170, north: -10, east: -170 } })!;
+    expect(scope.lngRanges).toHaveLength(2);
+    expect(scope.contains({ lat: -15, lon: 179 })).toBe(true);
+    expect(scope.contains({ lat: -15, lon: -175 })).toBe(true);
+    expect(scope.contains({ lat: -15, lon: 0 })).toBe(false);
+    expect(scope.origin.lon).toBe(180);
+    expect(latLngWhere(scope)).toHaveProperty('OR');
+  });
+
+  it('intersects radius and bbox when both are given', () => {
+    const scope = buildGeoScope({ geo: { lat: 50.5, lon: 8.5, radiusKm: 50 }, bbox: { south: 50.4, west: 8.4, north: 50.6, east: 8.6 } })!;
+    expect(scope.latRange).toEqual({ gte: 50.4, lte: 50.6 });
+    expect(scope.contains({ lat: 50.7, lon: 8.5 })).toBe(false);
+  });
+});
+
+describe('route corridors', () => {
+  // Berlin -> Leipzig -> Munich
+  const path = [{ lat: 52.52, lon: 13.405 }, { lat: 51.34, lon: 12.37 }, { lat: 48.14, lon: 11.58 }];
+
+  it('measures the distance to the nearest segment', () => {
+    expect(distanceToPathKm(path, { lat: 51.34, lon: 12.37 })).toBeCloseTo(0, 5);
+    // ~0.1° of longitude east of Leipzig is ~7 km
+    expect(distanceToPathKm(path, { lat: 51.34, lon: 12.47 })).toBeGreaterThan(6);
+    expect(distanceToPathKm(path, { lat: 51.34, lon: 12.47 })).toBeLessThan(8);
+  });
+
+  it('keeps points within the width of the route and orders them by distance from it', () => {
+    const scope = buildGeoScope({ route: { path, widthKm: 10 } })!;
+    expect(scope.origin).toEqual(path[0]);
+    // Halle lies next to the Berlin-Leipzig leg, Dresden far off it
+    expect(scope.contains({ lat: 51.48, lon: 11.97 })).toBe(false);
+    expect(scope.contains({ lat: 51.93, lon: 12.9 })).toBe(true);
+    expect(scope.contains({ lat: 51.05, lon: 13.74 })).toBe(false);
+    expect(distanceFromOrigin(scope, { lat: 51.34, lon: 12.37 })).toBeCloseTo(0, 5);
+    expect(scope.latRange.gte).toBeLessThan(48.14);
+    expect(scope.latRange.lte).toBeGreaterThan(52.52);
+  });
+});
+
+describe('areaBreakdown', () => {
+  const hit = (type: string, cityId?: string, name?: string) => ({ type, city: cityId ? { id: cityId, name } : null });
+
+  it('counts hits per requested city, keeping empty cities', () => {
+    const areas = areaBreakdown({ cities: [1, 2, 3] }, [hit('place', '2', 'Los Angeles'), hit('event', '2'), hit('place', '1')]);
+    expect(areas).toEqual([
+      { cityId: '1', name: 'New York', total: 1, totalPlaces: 1, totalEvents: 0 },
+      { cityId: '2', name: 'Los Angeles', total: 2, totalPlaces: 1, totalEvents: 1 },
+      { cityId: '3', name: 'Chicago', total: 0, totalPlaces: 0, totalEvents: 0 },
+    ]);
+  });
+
+  it('groups route hits by the city they are in, largest first', () => {
+    const route = { path: [{ lat: 0, lon: 0 }, { lat: 1, lon: 1 }], widthKm: 5 };
+    const areas = areaBreakdown({ route }, [hit('place'), hit('place', 'b', 'B'), hit('event', 'a', 'A'), hit('place', 'a', 'A')]);
+    expect(areas!.map((a) => [a.cityId, a.total])).toEqual([['a', 2], ['b', 1], [null, 1]]);
+  });
+
+  it('is left out for single-area searches', () => {
+    expect(areaBreakdown({ city: { id: 1 } }, [hit('place', '1')])).toBeUndefined();
+  });
+});
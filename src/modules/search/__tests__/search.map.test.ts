@@ -0,0 +1,82 @@
+import { assertMapRequest, clusterHits, renderMapResponse } from '../search.map.js';
+
+const hit = (id: string, lat: number, lon: number, over: Record<string, any> = {}) =>
+  ({
+    id,
+    type: 'place',
+    title: `Place ${id}`,
+    primaryCategory: { slug: 'place.museum', type: 'PLACE' },
+    location: { lat, lon },
+    scores: { rank: 0.5 },
+    ...over,
+  }) as any;
+
+const berlin = { south: 52.3, west: 13.0, north: 52.7, east: 13.8 };
+
+describe('clusterHits', () => {
+  const hits = [
+    hit('a', 52.52, 13.4),
+    hit('b', 52.521, 13.401, { type: 'event', primaryCategory: { slug: 'event.concert', type: 'EVENT' } }),
+    hit('c', 52.522, 13.402),
+    hit('far', 52.4, 13.1),
+    hit('outside', 48.1, 11.6),
+  ];
+
+  it('groups nearby points into centroids with type and category breakdowns', () => {
+    const features = clusterHits(hits, 10, berlin);
+    expect(features).toHaveLength(2);
+    const [cluster, single] = features;
+    expect(cluster.properties).toMatchObject({
+      cluster: true,
+      pointCount: 3,
+      types: { place: 2, event: 1 },
+      categories: [{ slug: 'place.museum', count: 2 }, { slug: 'event.concert', count: 1 }],
+    });
+    expect(cluster.geometry.coordinates[0]).toBeCloseTo(13.401);
+    expect(cluster.geometry.coordinates[1]).toBeCloseTo(52.521);
+    expect(single.properties).toMatchObject({ id: 'far', type: 'place' });
+  });
+
+  it('splits clusters as the zoom increases', () => {
+    expect(clusterHits(hits, 18, berlin)).toHaveLength(4);
+  });
+});
+
+describe('renderMapResponse', () => {
+  it('returns one point per located hit for geojson', () => {
+    const resp: any = { queryId: 'q1', total: 3, items: [hit('a', 52.52, 13.4), hit('nowhere', 0, 0, { location: null })] };
+    const out = renderMapResponse({ format: 'geojson', where: { bbox: berlin } } as any, resp);
+    expect(out).toMatchObject({ type: 'FeatureCollection', format: 'geojson', total: 3, bbox: [13.0, 52.3, 13.8, 52.7] });
+    expect(out.features).toEqual([
+      { type: 'Feature', geometry: { type: 'Point', coordinates: [13.4, 52.52] }, properties: expect.objectContaining({ id: 'a', category: 'place.museum' }) },
+    ]);
+  });
+
+  it('draws one point per listed occurrence of an event', () => {
+    const concert = hit('e1', 52.5, 13.3, {
+      type: 'event',
+      nextOccurrence: { id: 'o1', startsAt: '2025-06-06T19:00:00.000Z', place: { id: 'v1' } },
+      occurrences: [
+        { id: 'o1', start: '2025-06-06T19:00:00.000Z', location: { lat: 52.5, lon: 13.3 }, venueId: 'v1' },
+        { id: 'o2', start: '2025-06-07T19:00:00.000Z', location: { lat: 52.45, lon: 13.5 }, venueId: 'v2' },
+        { id: 'o3', start: '2025-06-08T19:00:00.000Z' },
+      ],
+    });
+    const out = renderMapResponse({ format: 'geojson' } as any, { queryId: 'q2', total: 2, items: [concert, hit('a', 52.52, 13.4)] } as any);
+    expect(out.features.map((f) => [f.properties, f.geometry.coordinates])).toEqual([
+      [expect.objectContaining({ id: 'e1', occurrenceId: 'o1', placeId: 'v1' }), [13.3, 52.5]],
+      [expect.objectContaining({ id: 'e1', occurrenceId: 'o2', placeId: 'v2', startsAt: '2025-06-07T19:00:00.000Z' }), [13.5, 52.45]],
+      [expect.objectContaining({ id: 'a' }), [13.4, 52.52]],
+    ]);
+    const clusters = renderMapResponse({ format: 'clusters', zoom: 18, where: { bbox: berlin } } as any, { queryId: 'q3', total: 2, items: [concert] } as any);
+    expect(clusters.features).toHaveLength(2);
+  });
+});
+
+describe('assertMapRequest', () => {
+  it('requires zoom and bbox for clusters', () => {
+    expect(() => assertMapRequest({ format: 'clusters', where: { bbox: berlin } } as any)).toThrow(/zoom/);
+    expect(() => assertMapRequest({ format: 'clusters', zoom: 12, where: { city: { id: 1 } } } as any)).toThrow(/bbox/);
+    expect(() => assertMapRequest({ format: 'clusters', zoom: 12, where: { bbox: berlin } } as any)).not.toThrow();
+  });
+});
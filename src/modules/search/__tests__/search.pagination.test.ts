@@ -0,0 +1,107 @@
+import {
+  compareSortKeys,
+  cursorSql,
+  decodeCursor,
+  paginateSorted,
+  requestFingerprint,
+  readInOrder,
+  resolvePageRequest,
+  sortKeySql,
+} from '../search.pagination.js';
+
+const baseQuery: any = { target: 'places', where: { city: { id: '1' } }, sort: 'rank', pagination: { limit: 2, offset: 0 } };
+
+function rankHits(ranks: Array<[string, number]>) {
+  return ranks
+    .map(([id, rank]) => ({ id, type: 'place', scores: { rank } }))
+    .map((hit) => ({ hit, key: [-hit.scores.rank] }))
+    .sort((a, b) => compareSortKeys({ key: a.key, id: a.hit.id }, { key: b.key, id: b.hit.id }));
+}
+
+describe('search pagination', () => {
+  const opts = { maxCursorAgeSec: 3600 };
+
+  it('walks all hits with cursors without gaps or duplicates', () => {
+    const sorted = rankHits([['a', 0.9], ['b', 0.5], ['c', 0.5], ['d', 0.1], ['e', 0]]);
+    const seen: string[] = [];
+    let query = baseQuery;
+    for (;;) {
+      const req = resolvePageRequest(query, opts);
+      const page = paginateSorted(sorted, req, { sort: 'rank', fingerprint: requestFingerprint(query) });
+      seen.push(...page.items.map((h) => h.id));
+      if (!page.nextCursor) break;
+      query = { ...baseQuery, pagination: { limit: 2, offset: 0, cursor: page.nextCursor } };
+    }
+    expect(seen).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('keeps its position when items are added in front of it', () => {
+    const first = paginateSorted(rankHits([['a', 0.9], ['b', 0.5], ['c', 0.4]]), resolvePageRequest(baseQuery, opts), {
+      sort: 'rank',
+      fingerprint: requestFingerprint(baseQuery),
+    });
+    const next = { ...baseQuery, pagination: { limit: 2, offset: 0, cursor: first.nextCursor! } };
+    const grown = rankHits([['z', 1], ['a', 0.9], ['b', 0.5], ['c', 0.4]]);
+    const page = paginateSorted(grown, resolvePageRequest(next, opts), { sort: 'rank', fingerprint: requestFingerprint(next) });
+    expect(page.items.map((h) => h.id)).toEqual(['c']);
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('pins asOf from the cursor', () => {
+    const sorted = rankHits([['a', 1], ['b', 0.5], ['c', 0.1]]);
+    const asOf = new Date(Date.now() - 60_000);
+    const first = paginateSorted(sorted, { limit: 1, offset: 0, asOf }, { sort: 'rank', fingerprint: requestFingerprint(baseQuery) });
+    const req = resolvePageRequest({ ...baseQuery, pagination: { limit: 1, offset: 0, cursor: first.nextCursor! } }, opts);
+    expect(req.asOf.toISOString()).toBe(asOf.toISOString());
+  });
+
+  it('keeps page and offset working, page taking precedence', () => {
+    expect(resolvePageRequest({ ...baseQuery, pagination: { limit: 10, offset: 0, page: 3 } }, opts).offset).toBe(20);
+    expect(resolvePageRequest({ ...baseQuery, pagination: { limit: 10, offset: 15 } }, opts).offset).toBe(15);
+  });
+
+  it('rejects malformed, foreign and expired cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid cursor');
+    const first = paginateSorted(rankHits([['a', 1], ['b', 0.5]]), { limit: 1, offset: 0, asOf: new Date() }, {
+      sort: 'rank',
+      fingerprint: requestFingerprint(baseQuery),
+    });
+    const other = { ...baseQuery, q: 'jazz', pagination: { limit: 1, offset: 0, cursor: first.nextCursor! } };
+    expect(() => resolvePageRequest(other, opts)).toThrow('Cursor does not match');
+    const same = { ...baseQuery, pagination: { limit: 1, offset: 0, cursor: first.nextCursor! } };
+    expect(() => resolvePageRequest(same, { ...opts, now: new Date(Date.now() + 2 * 3600_000) })).toThrow('Cursor expired');
+  });
+
+  it('sorts unknown prices last in both directions', () => {
+    for (const sort of ['price_asc', 'price_desc'] as const) {
+      const [key] = sortKeySql(sort, { hasScope: false, alias: 'r' }).keys;
+      expect(key.sql).toMatch(/ELSE \?::float8 END\)$/);
+      const weights = key.values.filter((v) => !isNaN(Number(v))).map(Number);
+      expect(weights[weights.length - 1]).toBe(1e300);
+      expect(weights.slice(0, -1).every((w) => Math.abs(w) < 1e300)).toBe(true);
+    }
+  });
+
+  it('keeps rows whose rank may still rise above the cursor', () => {
+    const sql = cursorSql({ key: [-0.5], id: 'b' }, { byRank: true, floorFactors: [0.8], alias: 's' });
+    expect(sql.sql).toBe('(s."hlo" * ?::float8) <= ?::float8');
+    expect(sql.values).toEqual(['0.8', '0.5']);
+    const byDistance = cursorSql({ key: [2.5], id: 'b' }, { byRank: false, floorFactors: [], alias: 's' });
+    expect(byDistance.sql).toBe('(s."k0",s."id" COLLATE "C") >= (?::float8,?)');
+  });
+
+  it('reads batches only as far as needed and orders entries within their bound', async () => {
+    const entry = (id: string, rank: number) => ({ hit: { id }, key: [-rank] });
+    const batches = [
+      // c is read later but ranks above b: b is not final before the bound
+      { entries: [entry('a', 0.9), entry('b', 0.5)], bound: { key: [-0.6], id: 'b', inclusive: false } },
+      { entries: [entry('c', 0.7), entry('d', 0.4)], bound: { key: [-0.3], id: 'd', inclusive: false } },
+      { entries: [entry('e', 0.2)] },
+    ];
+    const next = jest.fn(async () => batches.shift()!);
+    const read = await readInOrder(next, { want: 3, accept: (e) => e.hit.id !== 'a' });
+    expect(read.map((e) => e.hit.id)).toEqual(['c', 'b', 'd']);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
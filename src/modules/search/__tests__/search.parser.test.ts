@@ -0,0 +1,53 @@
+import { applyParsedQuery, parseSearchText } from '../search.parser.js';
+import { searchRequestSchema } from '../search.schemas.js';
+
+// Wednesday 2025-06-04 09:00 UTC
+const now = new Date('2025-06-04T09:00:00Z');
+
+describe('parseSearchText', () => {
+  it('reads the structured parts of a typical query', () => {
+    const p = parseSearchText('something fun with kids tomorrow afternoon under £20 near Camden', { now, timeZone: 'Europe/London' });
+    expect(p.who).toEqual({ companyType: 'kids' });
+    expect(p.when).toEqual({
+      type: 'recurring',
+      days: [4],
+      fromTime: '12:00',
+      toTime: '18:00',
+      from: '2025-06-04T09:00:00.000Z',
+      to: '2025-06-06T09:00:00.000Z',
+    });
+    expect(p.budget).toEqual({ currency: 'GBP', priceRange: { max: 20 } });
+    expect(p.where).toEqual({ near: 'Camden' });
+    expect(p.q).toBeUndefined();
+    expect(p.chips.map((c) => [c.field, c.text])).toEqual([
+      ['budget', 'under £20'],
+      ['where', 'near Camden'],
+      ['when', 'tomorrow afternoon'],
+      ['who', 'with kids'],
+    ]);
+  });
+
+  it('maps taxonomy words, cities, presets and moods', () => {
+    const p = parseSearchText('Romantic dinner and live music in Berlin this weekend, cheap', { now });
+    expect(p.when).toEqual({ type: 'preset', preset: 'this_weekend' });
+    expect(p.mood).toBe('ROMANTIC');
+    expect(p.budget).toEqual({ tier: 'CHEAP' });
+    expect(p.where?.city).toMatchObject({ name: 'Berlin', countryCode: 'DE' });
+    expect(p.categorySlugs).toEqual(expect.arrayContaining(['place.food_restaurant', 'event.concert_show']));
+  });
+
+  it('keeps unrecognized words as the text query', () => {
+    const p = parseSearchText('jazz museums on saturdays', { now });
+    expect(p.categorySlugs).toEqual(expect.arrayContaining(['place.culture_museum_gallery', 'event.museum_exhibition']));
+    expect(p.when).toEqual({ type: 'recurring', days: [6], fromTime: '00:00', toTime: '23:59' });
+    expect(p.q).toBe('jazz');
+  });
+
+  it('produces values the search request schema accepts', () => {
+    const p = parseSearchText('free workshops for toddlers next 7 days', { now });
+    const merged = applyParsedQuery({ q: p.text, where: { city: { id: 40 } }, budget: { tier: 'MODERATE' } } as any, p);
+    expect(merged.budget).toEqual({ tier: 'MODERATE' });
+    expect(merged.who).toEqual({ companyType: 'kids', kidsAgeGroups: ['0-3'] });
+    expect(searchRequestSchema.safeParse(merged).success).toBe(true);
+  });
+});
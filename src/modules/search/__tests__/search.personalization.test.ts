@@ -0,0 +1,46 @@
+import { profileRankFactor, scoreProfileMatch, type PersonalizationProfile } from '../search.personalization.js';
+
+const profile: PersonalizationProfile = {
+  tags: ['jazz', 'museum'],
+  budget: 'CHEAP',
+  companyType: 'couple',
+  home: { lat: 52.52, lon: 13.405 },
+  favoriteIds: new Set(['fav-1']),
+  favoriteCategorySlugs: new Set(['place.culture_museum_gallery']),
+};
+
+describe('scoreProfileMatch', () => {
+  it('prefers items matching tags, budget, company and home area', () => {
+    const good = scoreProfileMatch(profile, {
+      id: 'p1',
+      title: 'Jazz Bar am Museum',
+      categorySlugs: ['place.bar_pub'],
+      priceTier: 'CHEAP',
+      location: { lat: 52.521, lon: 13.41 },
+    });
+    const poor = scoreProfileMatch(profile, {
+      id: 'p2',
+      title: 'Indoor Playground',
+      categorySlugs: ['place.kids_playground'],
+      priceTier: 'EXPENSIVE',
+      location: { lat: 48.14, lon: 11.58 },
+    });
+    expect(good).toBeGreaterThan(0.7);
+    expect(poor).toBeLessThan(0.2);
+    expect(good).toBeLessThanOrEqual(1);
+  });
+
+  it('counts favorites and their categories', () => {
+    const base = { title: 'Somewhere', categorySlugs: ['place.other'] };
+    const onlyFavorites: PersonalizationProfile = { tags: [], favoriteIds: new Set(['fav-1']), favoriteCategorySlugs: new Set(['place.culture_museum_gallery']) };
+    expect(scoreProfileMatch(onlyFavorites, { id: 'fav-1', ...base })).toBe(1);
+    expect(scoreProfileMatch(onlyFavorites, { id: 'x', title: 'Gallery', categorySlugs: ['place.culture_museum_gallery'] })).toBeCloseTo(0.6);
+    expect(scoreProfileMatch(onlyFavorites, { id: 'x', ...base })).toBe(0);
+  });
+
+  it('is neutral without usable signals', () => {
+    const empty: PersonalizationProfile = { tags: [], favoriteIds: new Set(), favoriteCategorySlugs: new Set() };
+    expect(scoreProfileMatch(empty, { id: 'x', categorySlugs: [] })).toBe(0.5);
+    expect(profileRankFactor(0.5)).toBe(1);
+  });
+});
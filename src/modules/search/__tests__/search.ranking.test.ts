@@ -0,0 +1,42 @@
+import { composeRank, DEFAULT_RANKING_WEIGHTS, resolveRankingWeights } from '../search.ranking.js';
+import { matchedFilters } from '../search.filters.js';
+
+describe('composeRank', () => {
+  it('weights static scores, relevance, distance and profile match', () => {
+    const { rank, components } = composeRank(
+      { popularity: 0.5, quality: 1, freshness: 0, distanceKm: 10, relevance: 0.8, profileMatch: 1 },
+      DEFAULT_RANKING_WEIGHTS,
+      { hasGeo: true }
+    );
+    const base = 0.35 * 0.5 + 0.4 * 1;
+    expect(rank).toBeCloseTo((0.6 * 0.8 + 0.4 * base) * Math.exp(-1) * 1.25);
+    expect(components.map((c) => c.name)).toEqual(['popularity', 'quality', 'freshness', 'relevance', 'distance', 'profile']);
+    expect(components.find((c) => c.name === 'quality')).toMatchObject({ value: 1, weight: 0.4 });
+    expect(components.find((c) => c.name === 'quality')!.contribution).toBeCloseTo(0.16);
+    expect(components.find((c) => c.name === 'distance')).toMatchObject({ value: 10, weight: 10 });
+  });
+
+  it('leaves out distance without a geo origin and uses custom weights', () => {
+    const weights = { ...DEFAULT_RANKING_WEIGHTS, popularity: 1, quality: 0, freshness: 0 };
+    const { rank, components } = composeRank({ popularity: 0.3, quality: 0.9 }, weights, { hasGeo: false });
+    expect(rank).toBeCloseTo(0.3);
+    expect(components.some((c) => c.name === 'distance')).toBe(false);
+  });
+});
+
+describe('resolveRankingWeights', () => {
+  it('only lets admins override weights', () => {
+    expect(resolveRankingWeights({})).toBe(DEFAULT_RANKING_WEIGHTS);
+    expect(() => resolveRankingWeights({ rankingWeights: { quality: 1 } }, 'USER')).toThrow(/admin/);
+    expect(resolveRankingWeights({ rankingWeights: { quality: 1 } }, 'ADMIN')).toMatchObject({ quality: 1, popularity: 0.35 });
+  });
+});
+
+describe('matchedFilters', () => {
+  it('keeps the applied filters the hit satisfies', () => {
+    const query: any = { filters: { categorySlugs: ['place.bar_pub'], sources: ['GEOAPIFY'] }, budget: { tier: 'CHEAP' } };
+    const applied = ['q', 'where.city', 'when', 'budget.tier', 'filters.categorySlugs', 'filters.sources'];
+    const hit = { type: 'place' as const, categorySlugs: ['place.bar_pub'], sources: ['FOURSQUARE'], priceTier: 'CHEAP', relevance: 0.4 };
+    expect(matchedFilters(query, applied, hit)).toEqual(['q', 'where.city', 'budget.tier', 'filters.categorySlugs']);
+  });
+});
@@ -0,0 +1,123 @@
+import { searchUnifiedFromDb } from '../search.service.js';
+import { searchRequestSchema } from '../search.schemas.js';
+import { composeRank, DEFAULT_RANKING_WEIGHTS } from '../search.ranking.js';
+
+// A database serving the candidate SQL: no facet buckets, counts for the GROUP BY query, the rows among the ids
+// looked up, rows after the keyset's id (in the order given) for the batch queries, and `data` for the rows'
+// findMany by ids
+function candidateDb(rows: any[], data: Record<string, any>, counts: any[]) {
+  const byIds = async ({ where }: any) => where.id.in.map((id: string) => data[id]).filter(Boolean);
+  return {
+    city: { findUnique: jest.fn(async () => null) },
+    place: { findMany: jest.fn(byIds) },
+    event: { findMany: jest.fn(byIds) },
+    $queryRaw: jest.fn(async (sql: any) => {
+      if (sql.sql.includes('WITH f AS')) return [];
+      if (sql.sql.includes('GROUP BY')) return counts;
+      if (sql.sql.startsWith('SELECT c."type", c."id" FROM')) return rows.filter((r) => sql.values.includes(r.id)).map((r) => ({ type: r.type, id: r.id }));
+      const limit = sql.values[sql.values.length - 1];
+      const afterId = sql.values.slice(0, -1).reverse().find((v: unknown) => rows.some((r) => r.id === v));
+      const start = afterId ? rows.findIndex((r) => r.id === afterId) + 1 : 0;
+      return rows.slice(start, start + limit);
+    }),
+  };
+}
+
+describe('searchUnifiedFromDb', () => {
+  it('totals every matching row and pages through all of them in rank order', async () => {
+    const places = Array.from({ length: 250 }, (_, i) => ({
+      id: `p${String(i).padStart(4, '0')}`,
+      name: `Place ${i}`,
+      lat: 52.52,
+      lng: 13.4,
+      popularityScore: 1 - i / 1000,
+    }));
+    const rows = places.map((p) => {
+      const h = composeRank({ popularity: p.popularityScore, distanceFactor: 1 }, DEFAULT_RANKING_WEIGHTS, { hasGeo: false }).rank;
+      return { type: 'place', id: p.id, cityId: '1', occId: null, d: null, km: null, rel: null, df: 1, h, hlo: h };
+    });
+    const prisma: any = candidateDb(rows, Object.fromEntries(places.map((p) => [p.id, p])), [{ type: 'place', cityId: '1', cityName: 'Berlin', count: 250 }]);
+    const query = searchRequestSchema.parse({ target: 'places', where: { city: { id: 1 } }, pagination: { limit: 100 } });
+
+    const ids: string[] = [];
+    let page = await searchUnifiedFromDb(query, prisma);
+    expect(page.total).toBe(250);
+    expect(page.meta?.totalPlaces).toBe(250);
+    for (;;) {
+      ids.push(...page.items.map((h) => h.id));
+      if (!page.pagination.nextCursor) break;
+      page = await searchUnifiedFromDb({ ...query, pagination: { ...query.pagination, cursor: page.pagination.nextCursor } }, prisma);
+    }
+    expect(ids).toEqual(places.map((p) => p.id));
+    expect(page.pagination.offset).toBe(200);
+    expect(page.pagination.hasMore).toBe(false);
+
+    // an offset page reads the candidates only as far as it needs: to its end, one more and the diversify window
+    prisma.$queryRaw.mockClear();
+    const second = await searchUnifiedFromDb({ ...query, pagination: { ...query.pagination, offset: 100 } } as any, prisma);
+    expect(second.items.map((h) => h.id)).toEqual(places.slice(100, 200).map((p) => p.id));
+    const limits = prisma.$queryRaw.mock.calls.filter(([sql]: any) => !sql.sql.includes('GROUP BY')).map(([sql]: any) => sql.values[sql.values.length - 1]);
+    expect(limits).toEqual([251]);
+  });
+
+  it('tracks the first hits of the ranking along with the page and the previous ones still matching beyond them', async () => {
+    const places = Array.from({ length: 30 }, (_, i) => ({ id: `p${String(i).padStart(2, '0')}`, name: `Place ${i}`, popularityScore: 1 - i / 100 }));
+    const rows = places.map((p) => {
+      const h = composeRank({ popularity: p.popularityScore, distanceFactor: 1 }, DEFAULT_RANKING_WEIGHTS, { hasGeo: false }).rank;
+      return { type: 'place', id: p.id, cityId: '1', occId: null, d: null, km: null, rel: null, df: 1, h, hlo: h };
+    });
+    const prisma: any = candidateDb(rows, Object.fromEntries(places.map((p) => [p.id, p])), [{ type: 'place', cityId: '1', cityName: 'Berlin', count: 30 }]);
+    const query = searchRequestSchema.parse({ target: 'places', where: { city: { id: 1 } }, pagination: { limit: 2 }, diversify: { enabled: false } });
+    const previous = [{ type: 'place' as const, id: 'p01' }, { type: 'place' as const, id: 'p25' }, { type: 'place' as const, id: 'gone' }];
+
+    const res = await searchUnifiedFromDb(query, prisma, { track: { limit: 20, previous } });
+    expect(res.items.map((h) => h.id)).toEqual(['p00', 'p01']);
+    expect(res.tracked!.items.map((h) => h.id)).toEqual(places.slice(0, 20).map((p) => p.id));
+    expect(res.tracked!.truncated).toBe(true);
+    expect(res.tracked!.beyondLimit).toEqual([{ type: 'place', id: 'p25' }]);
+  });
+
+  it('lists every occurrence in the window on event hits for the map formats', async () => {
+    const occurrence = (id: string, day: number, place?: { id: string; lat: number; lng: number }) => ({
+      id,
+      eventId: 'e1',
+      startTime: new Date(Date.UTC(2030, 5, day, 19)),
+      endTime: null,
+      timezone: 'Europe/Berlin',
+      lat: place ? null : 52.5,
+      lng: place ? null : 13.3,
+      place: place ?? null,
+    });
+    const event = { id: 'e1', title: 'Tour', popularityScore: 0.5, occurrences: [occurrence('o1', 6)] };
+    const row = { type: 'event', id: 'e1', cityId: '1', occId: 'o1', d: null, km: null, rel: null, df: 1, h: 0.1, hlo: 0.1 };
+    const prisma: any = {
+      ...candidateDb([row], { e1: event }, [{ type: 'event', cityId: '1', cityName: 'Berlin', count: 1 }]),
+      eventOccurrence: { findMany: jest.fn(async () => [occurrence('o1', 6), occurrence('o2', 7, { id: 'v2', lat: 52.45, lng: 13.5 })]) },
+    };
+    const query = searchRequestSchema.parse({ target: 'events', where: { city: { id: 1 } } });
+
+    const res = await searchUnifiedFromDb(query, prisma, { maxItems: 100, allOccurrences: true });
+    expect((res.items[0] as any).occurrences).toEqual([
+      expect.objectContaining({ id: 'o1', location: { lat: 52.5, lon: 13.3 } }),
+      expect.objectContaining({ id: 'o2', location: { lat: 52.45, lon: 13.5 }, venueId: 'v2' }),
+    ]);
+    const where = prisma.eventOccurrence.findMany.mock.calls[0][0].where;
+    expect(where.AND[1]).toEqual({ eventId: { in: ['e1'] } });
+    // the event is loaded with the occurrence the candidate SQL picked
+    expect(prisma.event.findMany.mock.calls[0][0].select.occurrences.where).toEqual({ id: { in: ['o1'] } });
+
+    prisma.eventOccurrence.findMany.mockClear();
+    const page = await searchUnifiedFromDb(query, prisma);
+    expect(prisma.eventOccurrence.findMany).not.toHaveBeenCalled();
+    expect((page.items[0] as any).occurrences).toBeUndefined();
+  });
+
+  it('reports the weekday of the next occurrence in its own time zone', async () => {
+    // Thursday 23:30 UTC is already Friday in Berlin
+    const occurrence = { id: 'o1', eventId: 'e1', startTime: new Date('2030-06-06T23:30:00Z'), endTime: null, timezone: 'Europe/Berlin', lat: 52.5, lng: 13.3, place: null };
+    const row = { type: 'event', id: 'e1', cityId: '1', occId: 'o1', d: null, km: null, rel: null, df: 1, h: 0, hlo: 0 };
+    const prisma: any = candidateDb([row], { e1: { id: 'e1', title: 'Late show', occurrences: [occurrence] } }, [{ type: 'event', cityId: '1', cityName: 'Berlin', count: 1 }]);
+    const res = await searchUnifiedFromDb(searchRequestSchema.parse({ target: 'events', where: { city: { id: 1 } } }), prisma, { maxItems: 100 });
+    expect((res.items[0] as any).nextOccurrence.weekday).toBe(5);
+  });
+});
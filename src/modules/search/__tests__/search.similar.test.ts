@@ -0,0 +1,104 @@
+import { findSimilarEvents, findSimilarPlaces, isDuplicate, scoreSimilarity } from '../search.similar.js';
+
+const place = (id: string, over: Record<string, any> = {}) => ({
+  id,
+  name: `Place ${id}`,
+  cityId: 'c1',
+  city: { id: 'c1', name: 'Berlin', countryCode: 'DE', codeIATA: 'BER', tz: 'Europe/Berlin' },
+  lat: 52.52,
+  lng: 13.4,
+  mainCategory: { key: 'place.museum', title: 'Museum' },
+  categories: [],
+  priceTier: 'MODERATE',
+  popularityScore: 0.5,
+  tags: [],
+  sources: [],
+  ...over,
+});
+
+const event = (id: string, startTime: string, over: Record<string, any> = {}) => ({
+  id,
+  title: `Event ${id}`,
+  cityId: 'c1',
+  city: { id: 'c1', name: 'Berlin', countryCode: 'DE', codeIATA: 'BER' },
+  mainCategory: { key: 'event.concert', title: 'Concert' },
+  categories: [],
+  priceTier: 'CHEAP',
+  popularityScore: 0.5,
+  sources: [],
+  occurrences: [{ id: `${id}-o`, startTime: new Date(startTime), endTime: null, lat: 52.52, lng: 13.4, place: null }],
+  ...over,
+});
+
+const prismaWith = (model: 'place' | 'event', source: any, candidates: any[]) =>
+  ({
+    [model]: {
+      findFirst: jest.fn().mockResolvedValue(source),
+      findMany: jest.fn().mockResolvedValue(candidates),
+    },
+  }) as any;
+
+describe('scoreSimilarity', () => {
+  it('scores shared categories, price and proximity, ignoring signals one side lacks', () => {
+    const src = { categorySlugs: ['place.museum'], priceTier: 'MODERATE', location: { lat: 52.52, lon: 13.4 } };
+    expect(scoreSimilarity(src, { ...src })).toBeCloseTo(1);
+    const cheaper = scoreSimilarity(src, { ...src, priceTier: 'CHEAP' });
+    const farther = scoreSimilarity(src, { ...src, location: { lat: 52.62, lon: 13.4 } });
+    expect(cheaper).toBeLessThan(1);
+    expect(farther).toBeLessThan(1);
+    expect(scoreSimilarity(src, { categorySlugs: ['place.museum'] })).toBeCloseTo(1);
+    expect(scoreSimilarity(src, { categorySlugs: ['place.park'] })).toBe(0);
+  });
+
+  it('rewards overlapping event times', () => {
+    const h = 3600000;
+    const src = { categorySlugs: ['event.concert'], time: { start: 0, end: 2 * h } };
+    const overlapping = scoreSimilarity(src, { categorySlugs: ['event.concert'], time: { start: h, end: 3 * h } });
+    const later = scoreSimilarity(src, { categorySlugs: ['event.concert'], time: { start: 100 * h, end: 102 * h } });
+    expect(overlapping).toBeCloseTo(1);
+    expect(later).toBeLessThan(overlapping);
+  });
+});
+
+describe('isDuplicate', () => {
+  it('matches places by name within the dedup radius and events by title', () => {
+    const a = { title: 'Pergamon  Museum', location: { lat: 52.5212, lon: 13.3969 } };
+    expect(isDuplicate('place', a, { title: 'pergamon museum', location: { lat: 52.5215, lon: 13.397 } })).toBe(true);
+    expect(isDuplicate('place', a, { title: 'Pergamon Museum', location: { lat: 52.6, lon: 13.4 } })).toBe(false);
+    expect(isDuplicate('event', { title: 'Jazz Night' }, { title: 'jazz night' })).toBe(true);
+    expect(isDuplicate('event', { title: 'Jazz Night' }, { title: 'Jazz Brunch' })).toBe(false);
+  });
+});
+
+describe('findSimilarPlaces', () => {
+  it('ranks same-city candidates by similarity and drops duplicates of the source', async () => {
+    const prisma = prismaWith('place', place('src', { name: 'Old Museum', tags: ['art'] }), [
+      place('far', { lat: 52.7, tags: ['art'] }),
+      place('near', { tags: ['art'] }),
+      place('dup', { name: 'old museum' }),
+      place('pricey', { priceTier: 'EXPENSIVE', tags: ['history'] }),
+    ]);
+    const result = await findSimilarPlaces(prisma, 'src', { limit: 10 });
+    expect(result?.items.map((h) => h.id)).toEqual(['near', 'far', 'pricey']);
+    expect(result?.items[0].distanceKm).toBeCloseTo(0);
+    expect(prisma.place.findMany.mock.calls[0][0].where).toMatchObject({ cityId: 'c1', id: { not: 'src' } });
+  });
+
+  it('returns null for unknown places', async () => {
+    const prisma = prismaWith('place', null, []);
+    expect(await findSimilarPlaces(prisma, 'missing', { limit: 10 })).toBeNull();
+    expect(prisma.place.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('findSimilarEvents', () => {
+  it('prefers events happening around the same time', async () => {
+    const prisma = prismaWith('event', event('src', '2025-06-01T19:00:00Z'), [
+      event('next-month', '2025-07-01T19:00:00Z'),
+      event('same-night', '2025-06-01T20:00:00Z'),
+      event('rerun', '2025-06-08T19:00:00Z', { title: 'Event src' }),
+    ]);
+    const result = await findSimilarEvents(prisma, 'src', { limit: 10, now: new Date('2025-05-01T00:00:00Z') });
+    expect(result?.items.map((h) => h.id)).toEqual(['same-night', 'next-month']);
+  });
+});
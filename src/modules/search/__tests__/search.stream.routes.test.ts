@@ -0,0 +1,105 @@
+jest.mock('../../ingestion/ingestion.service.js', () => ({
+  runOnlineIngestIncremental: jest.fn(),
+}));
+jest.mock('../search.service.js', () => ({
+  searchUnifiedFromDb: jest.fn(),
+}));
+jest.mock('../../ingestion/provider.adapters.js', () => ({
+  buildEventProviders: jest.fn().mockReturnValue([]),
+  buildPlaceProviders: jest.fn().mockReturnValue([]),
+}));
+jest.mock('../../ingestion/ingest.logger.js', () => ({
+  IngestLogger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    flushToFile: jest.fn(),
+    summary: jest.fn().mockReturnValue([]),
+  })),
+}));
+
+const stats = (total: number) => ({ total, created: total, updated: 0, unchanged: 0, errors: 0, warnings: [] });
+const page = (ids: string[], warnings?: string[]) => ({
+  queryId: 'q',
+  total: ids.length,
+  pagination: { limit: 20, offset: 0, page: 1 },
+  warnings,
+  items: ids.map((id) => ({ id, type: 'place', title: id })),
+});
+
+function fakeReply() {
+  const chunks: string[] = [];
+  const raw = {
+    headers: {} as Record<string, string>,
+    writeHead: jest.fn((_status: number, headers: Record<string, string>) => { raw.headers = headers; }),
+    write: jest.fn((chunk: string) => { chunks.push(chunk); }),
+    end: jest.fn(),
+    on: jest.fn(),
+  };
+  return { reply: { raw, hijack: jest.fn(), getHeaders: () => ({}) }, chunks };
+}
+
+describe('POST /api/search/stream', () => {
+  let handler: (req: any, reply: any) => Promise<any>;
+  const log = { warn: jest.fn(), error: jest.fn(), info: jest.fn(), debug: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetModules();
+    jest.clearAllMocks();
+    const app: any = {
+      config: {},
+      prisma: {},
+      post: (_path: string, _opts: any, h: any) => { handler = h; },
+    };
+    const mod = await import('../search.stream.routes.js');
+    await mod.default(app);
+  });
+
+  it('emits DB results, a batch per persisted provider with only new hits, then the final page', async () => {
+    const { searchUnifiedFromDb } = await import('../search.service.js');
+    const { runOnlineIngestIncremental } = await import('../../ingestion/ingestion.service.js');
+    (searchUnifiedFromDb as jest.Mock)
+      .mockResolvedValueOnce(page(['a']))
+      .mockResolvedValueOnce(page(['b', 'a']))
+      .mockResolvedValueOnce(page(['b', 'a', 'c']))
+      .mockResolvedValueOnce(page(['b', 'c', 'a'], ['db warning']));
+    (runOnlineIngestIncremental as jest.Mock).mockImplementation(async (_deps, _q, onBatch) => {
+      await onBatch({ provider: 'geoapify', source: 'GEOAPIFY', kind: 'place', stats: stats(1) });
+      await onBatch({ provider: 'ticketmaster', source: 'TICKETMASTER', kind: 'event', stats: stats(1), warning: 'ticketmaster: slow' });
+      return { placeStats: stats(1), eventStats: stats(1), warnings: ['ticketmaster: slow'] };
+    });
+
+    const { reply, chunks } = fakeReply();
+    await handler({ body: { target: 'both' }, headers: {}, log }, reply);
+
+    expect(reply.hijack).toHaveBeenCalled();
+    expect(reply.raw.headers['content-type']).toMatch(/ndjson/);
+    const events = chunks.map((c) => JSON.parse(c));
+    expect(events.map((e) => e.type)).toEqual(['initial', 'batch', 'batch', 'final']);
+    expect(events[1]).toMatchObject({ provider: 'geoapify', kind: 'place', ingested: { total: 1, created: 1 } });
+    expect(events[1].items.map((h: any) => h.id)).toEqual(['b']);
+    expect(events[2].items.map((h: any) => h.id)).toEqual(['c']);
+    expect(events[2].warning).toBe('ticketmaster: slow');
+    expect(events[3].response.items.map((h: any) => h.id)).toEqual(['b', 'c', 'a']);
+    expect(events[3].response.warnings).toEqual(expect.arrayContaining(['db warning', 'ticketmaster: slow']));
+    expect(reply.raw.end).toHaveBeenCalled();
+  });
+
+  it('uses SSE framing when asked and skips the ingest after the first page', async () => {
+    const { searchUnifiedFromDb } = await import('../search.service.js');
+    const { runOnlineIngestIncremental } = await import('../../ingestion/ingestion.service.js');
+    (searchUnifiedFromDb as jest.Mock).mockResolvedValue(page(['x']));
+
+    const { reply, chunks } = fakeReply();
+    await handler({ body: { target: 'both', pagination: { page: 2, limit: 20 } }, headers: { accept: 'text/event-stream' }, log }, reply);
+
+    expect(runOnlineIngestIncremental).not.toHaveBeenCalled();
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatch(/^event: final\ndata: \{/);
+    expect(chunks[0].endsWith('\n\n')).toBe(true);
+  });
+
+  it('rejects map formats before streaming', async () => {
+    const { reply } = fakeReply();
+    await expect(handler({ body: { target: 'both', format: 'geojson' }, headers: {}, log }, reply)).rejects.toMatchObject({ statusCode: 400 });
+    expect(reply.hijack).not.toHaveBeenCalled();
+  });
+});
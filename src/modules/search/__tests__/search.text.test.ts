@@ -0,0 +1,61 @@
+import { parseTextQuery, queryWithTextMatch, scoreTextMatch, textMatchSql, trigramSimilarity } from '../search.text.js';
+
+describe('parseTextQuery', () => {
+  it('tokenizes, folds case and diacritics and builds a prefix tsquery', () => {
+    const tq = parseTextQuery('  Café  Müller, café! ')!;
+    expect(tq.tokens).toEqual(['cafe', 'muller']);
+    expect(tq.tsQuery).toBe('cafe:* & muller:*');
+  });
+
+  it('drops operators and empty queries', () => {
+    expect(parseTextQuery('jazz & !(blues) | rock:*')!.tsQuery).toBe('jazz:* & blues:* & rock:*');
+    expect(parseTextQuery('  ')).toBeUndefined();
+    expect(parseTextQuery('!!!')).toBeUndefined();
+  });
+});
+
+describe('text relevance', () => {
+  it('keeps SQL scores within 0..1', () => {
+    const { relevance } = textMatchSql(parseTextQuery('jazz')!, 'place', true);
+    expect(relevance!.sql).toMatch(/^least\(1, 0\.7::float8 \* greatest\(0, least\(1, /);
+  });
+
+  it('matches prefixes and tolerates typos in titles', () => {
+    const tq = parseTextQuery('museu')!;
+    expect(scoreTextMatch(tq, { title: 'British Museum' })).toBe(1);
+    expect(trigramSimilarity('musuem', 'museum')).toBeGreaterThan(0.2);
+    expect(scoreTextMatch(parseTextQuery('musem')!, { title: 'British Museum' })).toBeGreaterThan(0.4);
+    expect(scoreTextMatch(parseTextQuery('musem')!, { title: 'Tate Modern' })).toBe(0);
+  });
+
+  it('gives partial credit to description and tag matches', () => {
+    const tq = parseTextQuery('rooftop jazz')!;
+    expect(scoreTextMatch(tq, { title: 'Jazz Cafe', tags: ['Rooftop'] })).toBeCloseTo(0.75);
+    expect(scoreTextMatch(tq, { title: 'Blue Note', description: 'Live jazz on a rooftop terrace' })).toBeCloseTo(0.5);
+  });
+
+  it('builds an ILIKE fallback requiring every token', () => {
+    const { cond, relevance } = textMatchSql(parseTextQuery('live jazz')!, 'event', false);
+    expect(cond.sql).toBe('(t."title" ILIKE ? OR t."description" ILIKE ?) AND (t."title" ILIKE ? OR t."description" ILIKE ?)');
+    expect(cond.values).toEqual(['%live%', '%live%', '%jazz%', '%jazz%']);
+    expect(relevance).toBeUndefined();
+    expect(textMatchSql(parseTextQuery('jazz')!, 'place', false).cond.sql).toContain('OR ? = ANY(t."tags")');
+  });
+});
+
+describe('queryWithTextMatch', () => {
+  it('sets the similarity threshold in the transaction of a full-text query only', async () => {
+    const prisma: any = {
+      $executeRawUnsafe: jest.fn((q) => q),
+      $queryRaw: jest.fn(async () => [{ id: 'p1' }]),
+      $transaction: jest.fn(async (ops: any[]) => [0, await ops[1]]),
+    };
+    const query = textMatchSql(parseTextQuery('jazz')!, 'place', true).cond;
+    expect(await queryWithTextMatch(prisma, query, true)).toEqual([{ id: 'p1' }]);
+    expect(prisma.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL pg_trgm.word_similarity_threshold = 0.4');
+
+    prisma.$transaction.mockClear();
+    await queryWithTextMatch(prisma, query, false);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
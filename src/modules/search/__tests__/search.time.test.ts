@@ -0,0 +1,119 @@
+import { loadSearchCalendar, resolveSearchTimeZone, resolveTimeWindow } from '../search.time.js';
+
+const preset = (p: any) => ({ type: 'preset' as const, preset: p });
+
+describe('resolveSearchTimeZone', () => {
+  it('prefers City.tz, then the catalog city, then the area', () => {
+    expect(resolveSearchTimeZone({ where: { city: { id: 40 } } } as any, 'Europe/Dublin')).toBe('Europe/Dublin');
+    expect(resolveSearchTimeZone({ where: { city: { id: 40 } } } as any, 'UTC')).toBe('Europe/London');
+    expect(resolveSearchTimeZone({ where: { geo: { lat: 52.5, lon: 13.4, radiusKm: 5 } } } as any)).toBe('Europe/Berlin');
+    // Middle of the Pacific: fixed offset from the longitude
+    expect(resolveSearchTimeZone({ where: { geo: { lat: 0, lon: -150, radiusKm: 5 } } } as any)).toBe('Etc/GMT+10');
+    expect(resolveSearchTimeZone({ where: {} } as any)).toBe('UTC');
+  });
+});
+
+describe('loadSearchCalendar', () => {
+  it('reads the tz and country of the searched city from the DB and loads holidays only when needed', async () => {
+    const prisma: any = {
+      city: { findUnique: jest.fn(async () => ({ tz: 'Europe/Dublin', countryCode: 'ie' })) },
+      publicHoliday: { findMany: jest.fn(async () => [{ date: new Date('2025-08-04T00:00:00Z') }]) },
+    };
+    const now = new Date('2025-07-02T09:00:00Z');
+    const plain = await loadSearchCalendar(prisma, { where: { city: { id: 40 } } } as any, now);
+    expect(plain).toEqual({ timeZone: 'Europe/Dublin', holidays: undefined, warnings: [] });
+    expect(prisma.publicHoliday.findMany).not.toHaveBeenCalled();
+
+    const holiday = await loadSearchCalendar(prisma, { where: { city: { id: 40 } }, when: preset('public_holiday') } as any, now);
+    expect(holiday.holidays).toEqual(['2025-08-04']);
+    expect(prisma.publicHoliday.findMany.mock.calls[0][0].where.countryCode).toBe('IE');
+  });
+});
+
+describe('resolveTimeWindow', () => {
+  it('resolves tonight in the city timezone regardless of the server clock', () => {
+    // 10:00 in London (BST)
+    const now = new Date('2025-07-02T09:00:00Z');
+    const w = resolveTimeWindow({ where: { city: { id: 40 } }, when: preset('tonight') } as any, { now });
+    expect(w.timeZone).toBe('Europe/London');
+    expect(w.fromISO).toBe('2025-07-02T17:00:00.000Z');
+    expect(w.toISO).toBe('2025-07-02T22:59:59.999Z');
+  });
+
+  it('uses the local calendar day for tomorrow', () => {
+    // 23:30 on Wednesday in New York is already Thursday in UTC
+    const now = new Date('2025-07-03T03:30:00Z');
+    const w = resolveTimeWindow({ where: { city: { id: 1 } }, when: preset('tomorrow') } as any, { now });
+    expect(w.fromISO).toBe('2025-07-03T04:00:00.000Z');
+    expect(w.toISO).toBe('2025-07-04T03:59:59.999Z');
+  });
+
+  it('handles a DST change inside the weekend', () => {
+    // Thursday 2025-10-23 in Berlin; clocks go back on Sunday 2025-10-26
+    const now = new Date('2025-10-23T10:00:00Z');
+    const w = resolveTimeWindow({ where: { city: { id: 49 } }, when: preset('this_weekend') } as any, { now });
+    expect(w.fromISO).toBe('2025-10-24T16:00:00.000Z'); // Fri 18:00 CEST
+    expect(w.toISO).toBe('2025-10-26T22:59:59.999Z'); // Sun 23:59:59 CET
+  });
+
+  it('starts the weekend at Saturday midnight when called on Sunday', () => {
+    const now = new Date('2025-07-06T12:00:00Z');
+    const w = resolveTimeWindow({ where: { city: { id: 66 } }, when: preset('this_weekend') } as any, { now });
+    // Sunday 22:00 in Sydney: the weekend started Saturday 00:00 AEST
+    expect(w.fromISO).toBe('2025-07-04T14:00:00.000Z');
+    expect(w.toISO).toBe('2025-07-06T13:59:59.999Z');
+  });
+
+  it('passes explicit ranges through', () => {
+    const w = resolveTimeWindow({ where: {}, when: { type: 'range', from: '2025-01-01T00:00:00Z', to: '2025-01-02T00:00:00Z' } } as any);
+    expect(w).toEqual({ fromISO: '2025-01-01T00:00:00Z', toISO: '2025-01-02T00:00:00Z', timeZone: 'UTC' });
+  });
+
+  it('resolves calendar presets up to the end of the local day', () => {
+    // Wednesday 10:00 in London (BST)
+    const now = new Date('2025-07-02T09:00:00Z');
+    const at = (p: string) => resolveTimeWindow({ where: { city: { id: 40 } }, when: preset(p) } as any, { now });
+    expect(at('this_week')).toMatchObject({ fromISO: now.toISOString(), toISO: '2025-07-06T22:59:59.999Z' });
+    expect(at('next_7_days').toISO).toBe('2025-07-08T22:59:59.999Z');
+    expect(at('this_month').toISO).toBe('2025-07-31T22:59:59.999Z');
+  });
+
+  it('skips the coming weekend for next_weekend', () => {
+    const now = new Date('2025-10-23T10:00:00Z');
+    const w = resolveTimeWindow({ where: { city: { id: 49 } }, when: preset('next_weekend') } as any, { now });
+    expect(w.fromISO).toBe('2025-10-31T17:00:00.000Z');
+    expect(w.toISO).toBe('2025-11-02T22:59:59.999Z');
+  });
+
+  it('finds the next holiday and long weekend from the known holidays', () => {
+    const now = new Date('2025-07-02T09:00:00Z');
+    const opts = { now, holidays: ['2025-08-25'] };
+    const holiday = resolveTimeWindow({ where: { city: { id: 40 } }, when: preset('public_holiday') } as any, opts);
+    expect(holiday).toMatchObject({ fromISO: '2025-08-24T23:00:00.000Z', toISO: '2025-08-25T22:59:59.999Z' });
+    // Saturday to bank holiday Monday
+    const long = resolveTimeWindow({ where: { city: { id: 40 } }, when: preset('long_weekend') } as any, opts);
+    expect(long).toMatchObject({ fromISO: '2025-08-22T23:00:00.000Z', toISO: '2025-08-25T22:59:59.999Z' });
+    // Nothing known: empty window
+    const none = resolveTimeWindow({ where: { city: { id: 40 } }, when: preset('long_weekend') } as any, { now });
+    expect(none.intervals).toEqual([]);
+    expect(none.fromISO).toBe(none.toISO);
+  });
+
+  it('expands recurring windows into local-time intervals', () => {
+    const now = new Date('2025-07-02T09:00:00Z');
+    const when = { type: 'recurring', days: [6], fromTime: '13:00', toTime: '18:00' };
+    const w = resolveTimeWindow({ where: { city: { id: 40 } }, when } as any, { now });
+    expect(w.intervals).toHaveLength(4);
+    expect(w.intervals![0]).toEqual({ fromISO: '2025-07-05T12:00:00.000Z', toISO: '2025-07-05T17:00:00.000Z' });
+    expect(w.fromISO).toBe('2025-07-05T12:00:00.000Z');
+    expect(w.toISO).toBe('2025-07-26T17:00:00.000Z');
+  });
+
+  it('clips recurring windows that run past midnight', () => {
+    // 00:30 on Saturday in London, inside Friday's 22:00-02:00 window
+    const now = new Date('2025-07-04T23:30:00Z');
+    const when = { type: 'recurring', days: [5], fromTime: '22:00', toTime: '02:00', to: '2025-07-05T12:00:00Z' };
+    const w = resolveTimeWindow({ where: { city: { id: 40 } }, when } as any, { now });
+    expect(w.intervals).toEqual([{ fromISO: '2025-07-04T23:30:00.000Z', toISO: '2025-07-05T01:00:00.000Z' }]);
+  });
+});
@@ -0,0 +1,84 @@
+import { findEventsStartingSoon, findTrendingPlaces, scoreTrending } from '../search.trending.js';
+import { trendingResponseSchema } from '../search.schemas.js';
+
+const now = new Date('2025-06-04T12:00:00Z');
+const hoursAgo = (h: number) => new Date(now.getTime() - h * 3600 * 1000);
+
+describe('scoreTrending', () => {
+  it('weights signals by kind and halves them every half-life', () => {
+    const scored = scoreTrending(
+      [
+        { id: 'a', kind: 'click', at: now },
+        { id: 'a', kind: 'click', at: now },
+        { id: 'b', kind: 'plan', at: hoursAgo(48) },
+        { id: 'c', kind: 'favorite', at: now },
+      ],
+      { now, halfLifeHours: 48 }
+    );
+    expect(scored.map((s) => [s.id, s.score])).toEqual([['c', 3], ['a', 2], ['b', 2]]);
+    expect(scored[1]).toMatchObject({ clicks: 2, favorites: 0, planAdds: 0, reviews: 0 });
+  });
+});
+
+const placeRow = (id: string) => ({
+  id,
+  name: `Place ${id}`,
+  cityId: 'c1',
+  city: { id: 'c1', name: 'Berlin', countryCode: 'DE', tz: 'Europe/Berlin' },
+  lat: 52.5,
+  lng: 13.4,
+  categories: [],
+  tags: [],
+  popularityScore: 0.5,
+});
+
+describe('findTrendingPlaces', () => {
+  it('ranks listed places of the city by engagement and attaches the signals', async () => {
+    const prisma: any = {
+      favorite: { findMany: jest.fn().mockResolvedValue([{ placeId: 'p2', createdAt: hoursAgo(1) }]) },
+      planItem: { findMany: jest.fn().mockResolvedValue([{ placeId: 'p1', createdAt: hoursAgo(24) }, { placeId: 'gone', createdAt: now }]) },
+      review: { findMany: jest.fn().mockResolvedValue([]) },
+      searchClick: { findMany: jest.fn().mockResolvedValue([{ placeId: 'p2', createdAt: hoursAgo(2) }]) },
+      place: { findMany: jest.fn().mockResolvedValue([placeRow('p1'), placeRow('p2')]) },
+    };
+    const result = await findTrendingPlaces(prisma, 'c1', { windowDays: 7, limit: 10, now });
+
+    const where = prisma.favorite.findMany.mock.calls[0][0].where;
+    expect(where.createdAt.gte).toEqual(new Date('2025-05-28T12:00:00Z'));
+    expect(where.place).toEqual({ is: { cityId: 'c1' } });
+    expect(prisma.review.findMany.mock.calls[0][0].where.status).toEqual({ not: 'REJECTED' });
+    // Truncation drops the oldest signals
+    expect(prisma.searchClick.findMany.mock.calls[0][0]).toMatchObject({ orderBy: { createdAt: 'desc' }, take: 20000 });
+    // "gone" is no longer listed
+    expect(result.items.map((h) => h.id)).toEqual(['p2', 'p1']);
+    expect(result.items[0].trending).toMatchObject({ favorites: 1, clicks: 1 });
+    expect(result.items[0].scores?.rank).toBe(result.items[0].trending.score);
+    expect(trendingResponseSchema.parse({ queryId: 'q', cityId: 'c1', windowDays: 7, total: 2, items: result.items }).items[0]).toHaveProperty('trending');
+  });
+});
+
+describe('findEventsStartingSoon', () => {
+  it('takes the soonest occurrences of the city first and lists their events in that order', async () => {
+    const event = (id: string, startsInH: number) => ({
+      id,
+      title: id,
+      cityId: 'c1',
+      categories: [],
+      popularityScore: 0.9,
+      occurrences: [{ id: `${id}-o`, startTime: new Date(now.getTime() + startsInH * 3600 * 1000), endTime: null }],
+    });
+    const prisma: any = {
+      eventOccurrence: { findMany: jest.fn().mockResolvedValue([{ eventId: 'early' }, { eventId: 'early' }, { eventId: 'late' }]) },
+      event: { findMany: jest.fn().mockResolvedValue([event('late', 2.5), event('early', 0.5)]) },
+    };
+    const result = await findEventsStartingSoon(prisma, 'c1', { hours: 3, limit: 10, now });
+
+    expect(result.items.map((h) => h.id)).toEqual(['early', 'late']);
+    expect(result.to).toBe('2025-06-04T15:00:00.000Z');
+    const occ = prisma.eventOccurrence.findMany.mock.calls[0][0];
+    expect(occ.where.startTime).toEqual({ gte: now, lte: new Date('2025-06-04T15:00:00Z') });
+    expect(occ.where.event).toEqual({ is: { cityId: 'c1', isActive: true, moderation: 'APPROVED' } });
+    expect(occ.orderBy).toEqual([{ startTime: 'asc' }, { id: 'asc' }]);
+    expect(prisma.event.findMany.mock.calls[0][0].where).toEqual({ id: { in: ['early', 'late'] } });
+  });
+});
@@ -0,0 +1,46 @@
+import { prefixMatchScore, suggest } from '../suggest.service.js';
+
+const prismaWith = (places: any[], events: any[] = []) =>
+  ({
+    place: { findMany: jest.fn().mockResolvedValue(places) },
+    event: { findMany: jest.fn().mockResolvedValue(events) },
+  }) as any;
+
+describe('prefixMatchScore', () => {
+  it('prefers label prefixes over word prefixes and ignores infixes', () => {
+    expect(prefixMatchScore('Berlin', 'berlin')).toBe(1);
+    expect(prefixMatchScore('Berlin', 'ber')).toBe(0.95);
+    expect(prefixMatchScore('Café Berlin', 'ber')).toBe(0.8);
+    expect(prefixMatchScore('Café Berlin', 'cafe')).toBe(0.95);
+    expect(prefixMatchScore('Überseering', 'seer')).toBe(0);
+  });
+});
+
+describe('suggest', () => {
+  it('mixes places, categories and cities ranked by match, popularity and proximity', async () => {
+    const prisma = prismaWith([
+      { id: 'p-far', name: 'Museum Island', lat: 48.1, lng: 11.6, popularityScore: 0.9, mainCategory: { title: 'Museum' }, city: { name: 'Munich' } },
+      { id: 'p-near', name: 'Museum of Things', lat: 52.52, lng: 13.4, popularityScore: 0.9, mainCategory: null, city: { name: 'Berlin' } },
+    ]);
+    const { items, warnings } = await suggest(prisma, { q: 'muse', lat: 52.52, lon: 13.4, limit: 10 });
+    expect(warnings).toEqual([]);
+    expect(items[0]).toMatchObject({ type: 'place', id: 'p-near' });
+    expect(items.map((i) => i.id)).toContain('p-far');
+    expect(items.some((i) => i.type === 'category')).toBe(true);
+  });
+
+  it('skips the DB for one-letter queries and honours types', async () => {
+    const prisma = prismaWith([]);
+    const { items } = await suggest(prisma, { q: 'b', types: 'city', limit: 5 });
+    expect(prisma.place.findMany).not.toHaveBeenCalled();
+    expect(items.length).toBeGreaterThan(0);
+    expect(items.every((i) => i.type === 'city')).toBe(true);
+  });
+
+  it('keeps in-memory suggestions when the DB fails', async () => {
+    const prisma = { place: { findMany: jest.fn().mockRejectedValue(new Error('down')) }, event: { findMany: jest.fn().mockResolvedValue([]) } } as any;
+    const { items, warnings } = await suggest(prisma, { q: 'lon', limit: 5 });
+    expect(warnings).toEqual(['place suggestions unavailable']);
+    expect(items.find((i) => i.type === 'city')?.label).toBe('London');
+  });
+});
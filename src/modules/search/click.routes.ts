@@ -0,0 +1,27 @@
+import { FastifyInstance } from 'fastify';
+import { searchClickSchema, type SearchClickInput } from './search.schemas.js';
+import { claimSearchClick, recordSearchClick } from './search.analytics.js';
+
+// Click-through tracking under /api/search/click: clients report the hits users open (feeds the trending rankings,
+// one click per user or IP and hit within SEARCH_CLICK_DEDUP_SEC)
+export default async function clickRoutes(app: FastifyInstance) {
+  app.post(
+    '/click',
+    {
+      schema: {
+        description: 'Records that a search hit was opened; accepted without waiting for the write',
+        tags: ['search'],
+        body: searchClickSchema,
+      },
+      onRequest: app.authenticateOptional,
+    },
+    async (req, reply) => {
+      const body = req.body as SearchClickInput;
+      // Repeats are accepted as well, but not recorded
+      if (await claimSearchClick((app as any).redis, { ...body, userId: req.user?.id, ip: req.ip })) {
+        recordSearchClick(app.prisma, { ...body, userId: req.user?.id }, req.log);
+      }
+      reply.code(202).send();
+    }
+  );
+}
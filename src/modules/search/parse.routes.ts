@@ -0,0 +1,25 @@
+import { FastifyInstance } from 'fastify';
+import { parsedQuerySchema, parseQueryRequestSchema, type ParseQueryRequest } from './search.schemas.js';
+import { parseSearchText } from './search.parser.js';
+import { GEO_CITIES } from '../geo/geo.constants.js';
+import { isValidTimeZone } from '../../shared/timezone.js';
+
+// Free-text interpretation under /api/search/parse: what a `q` with `interpret: true` would search for
+export default async function parseRoutes(app: FastifyInstance) {
+  app.post(
+    '/parse',
+    {
+      schema: {
+        description: 'Reads when, who, budget, mood, categories and a place hint out of free text, returned as editable chips',
+        tags: ['search'],
+        body: parseQueryRequestSchema,
+        response: { 200: parsedQuerySchema },
+      },
+    },
+    async (req) => {
+      const body = req.body as ParseQueryRequest;
+      const cityTz = body.cityId != null ? GEO_CITIES.find((c) => c.id === body.cityId)?.timezone : undefined;
+      return parseSearchText(body.q, { timeZone: cityTz ?? (isValidTimeZone(body.timeZone) ? body.timeZone : undefined) });
+    }
+  );
+}
@@ -0,0 +1,170 @@
+import crypto from 'node:crypto';
+import type { PrismaClient } from '@prisma/client';
+import type { FastifyBaseLogger } from 'fastify';
+import type { Redis as RedisClient } from 'ioredis';
+import { SEARCH_ANALYTICS_ENABLED, SEARCH_CLICK_DEDUP_SEC } from '../../config/search.js';
+import type { SearchClickInput } from './search.schemas.js';
+
+// Search query analytics: every /api/search call is logged to SearchQueryLog (fire-and-forget) and aggregated
+// per query fingerprint for the admin reports (top, zero-result and slowest queries).
+
+export type SearchCacheState = 'hit' | 'stale' | 'miss' | 'off';
+
+export type SearchQueryRecord = {
+  // Key parts built by the search route for CacheService.buildKey
+  keyParts: Record<string, any>;
+  // A SearchResponse, or a map FeatureCollection
+  resp: { total?: number; items?: unknown[]; features?: unknown[]; warnings?: string[] };
+  cache: SearchCacheState;
+  tookMs: number;
+};
+
+export type QueryStats = {
+  fingerprint: string;
+  q: string | null;
+  cityId: string | null;
+  target: string;
+  categories: string[];
+  keyParts: unknown;
+  count: number;
+  avgTotal: number;
+  avgTookMs: number;
+  maxTookMs: number;
+  lastSeenAt: string;
+};
+
+// Per-user and per-page parts of the cache key; the same query on any page by anyone shares a fingerprint
+const NON_QUERY_PARTS = ['userId', 'limit', 'page', 'offset', 'cursor'];
+
+export function queryKeyParts(keyParts: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(keyParts).filter(([k]) => !NON_QUERY_PARTS.includes(k)));
+}
+
+export function searchFingerprint(keyParts: Record<string, any>): string {
+  return crypto.createHash('sha1').update(JSON.stringify(queryKeyParts(keyParts))).digest('hex');
+}
+
+// Never awaited by the route and never throws: analytics must not slow down or break search
+export function recordSearchQuery(prisma: PrismaClient, rec: SearchQueryRecord, log?: FastifyBaseLogger): void {
+  if (!SEARCH_ANALYTICS_ENABLED) return;
+  const parts = queryKeyParts(rec.keyParts);
+  const data = {
+    fingerprint: searchFingerprint(rec.keyParts),
+    keyParts: JSON.parse(JSON.stringify(parts)),
+    q: parts.q ?? null,
+    cityId: parts.cityId != null ? String(parts.cityId) : null,
+    target: String(parts.target ?? 'both'),
+    categories: Array.isArray(parts.filters?.categories) ? parts.filters.categories : [],
+    total: rec.resp.total ?? rec.resp.items?.length ?? 0,
+    returned: (rec.resp.items ?? rec.resp.features)?.length ?? 0,
+    tookMs: Math.max(0, Math.round(rec.tookMs)),
+    cache: rec.cache,
+    warnings: (rec.resp.warnings ?? []).slice(0, 10),
+  };
+  Promise.resolve()
+    .then(() => prisma.searchQueryLog.create({ data }))
+    .catch((err) => log?.warn({ err }, 'search analytics: failed to record query'));
+}
+
+// One click per user (anonymous: per IP) and hit within SEARCH_CLICK_DEDUP_SEC, so that repeated or scripted
+// calls cannot push an item up the trending feeds. True when this click is the first; without Redis or on
+// Redis errors every click counts.
+export async function claimSearchClick(
+  redis: RedisClient | undefined,
+  click: Pick<SearchClickInput, 'type' | 'id'> & { userId?: string; ip?: string }
+): Promise<boolean> {
+  if (!redis) return true;
+  const who = click.userId ? `user:${click.userId}` : `ip:${click.ip ?? 'unknown'}`;
+  try {
+    return (await redis.set(`search:click:${who}:${click.type}:${click.id}`, '1', 'EX', SEARCH_CLICK_DEDUP_SEC, 'NX')) === 'OK';
+  } catch {
+    return true;
+  }
+}
+
+// Click-through on a search hit (a trending signal). Fire-and-forget as well; clicks on unknown ids
+// fail the foreign key and are only logged.
+export function recordSearchClick(prisma: PrismaClient, click: SearchClickInput & { userId?: string }, log?: FastifyBaseLogger): void {
+  const data = {
+    queryId: click.queryId ?? null,
+    userId: click.userId ?? null,
+    placeId: click.type === 'place' ? click.id : null,
+    eventId: click.type === 'event' ? click.id : null,
+    position: click.position ?? null,
+  };
+  Promise.resolve()
+    .then(() => prisma.searchClick.create({ data }))
+    .catch((err) => log?.warn({ err }, 'search analytics: failed to record click'));
+}
+
+type StatsFilter = { since: Date; cityId?: string; zeroResults?: boolean };
+
+async function queryStats(
+  prisma: PrismaClient,
+  filter: StatsFilter,
+  orderBy: 'count' | 'tookMs',
+  limit: number
+): Promise<QueryStats[]> {
+  const where = {
+    createdAt: { gte: filter.since },
+    ...(filter.cityId ? { cityId: filter.cityId } : {}),
+    ...(filter.zeroResults ? { total: 0 } : {}),
+  };
+  const groups: any[] = await (prisma.searchQueryLog.groupBy as any)({
+    by: ['fingerprint'],
+    where,
+    _count: { _all: true },
+    _avg: { total: true, tookMs: true },
+    _max: { tookMs: true, createdAt: true },
+    orderBy: orderBy === 'count' ? { _count: { fingerprint: 'desc' } } : { _avg: { tookMs: 'desc' } },
+    take: limit,
+  });
+  if (!groups.length) return [];
+  // Latest row of each fingerprint describes the query
+  const samples = await prisma.searchQueryLog.findMany({
+    where: { fingerprint: { in: groups.map((g) => g.fingerprint) } },
+    distinct: ['fingerprint'],
+    orderBy: { createdAt: 'desc' },
+    select: { fingerprint: true, q: true, cityId: true, target: true, categories: true, keyParts: true },
+  });
+  const byFingerprint = new Map(samples.map((s) => [s.fingerprint, s]));
+  return groups.map((g) => {
+    const s = byFingerprint.get(g.fingerprint);
+    return {
+      fingerprint: g.fingerprint,
+      q: s?.q ?? null,
+      cityId: s?.cityId ?? null,
+      target: s?.target ?? 'both',
+      categories: s?.categories ?? [],
+      keyParts: s?.keyParts ?? {},
+      count: g._count._all,
+      avgTotal: Math.round((g._avg.total ?? 0) * 10) / 10,
+      avgTookMs: Math.round(g._avg.tookMs ?? 0),
+      maxTookMs: g._max.tookMs ?? 0,
+      lastSeenAt: (g._max.createdAt as Date).toISOString(),
+    };
+  });
+}
+
+export function topQueries(prisma: PrismaClient, filter: Omit<StatsFilter, 'zeroResults'>, limit: number) {
+  return queryStats(prisma, filter, 'count', limit);
+}
+
+export function slowestQueries(prisma: PrismaClient, filter: Omit<StatsFilter, 'zeroResults'>, limit: number) {
+  return queryStats(prisma, filter, 'tookMs', limit);
+}
+
+// Zero-result queries plus the number of zero-result calls per city, the cities lacking ingest coverage first
+export async function zeroResultQueries(prisma: PrismaClient, filter: Omit<StatsFilter, 'zeroResults'>, limit: number) {
+  const [items, cities] = await Promise.all([
+    queryStats(prisma, { ...filter, zeroResults: true }, 'count', limit),
+    (prisma.searchQueryLog.groupBy as any)({
+      by: ['cityId'],
+      where: { createdAt: { gte: filter.since }, total: 0, ...(filter.cityId ? { cityId: filter.cityId } : {}) },
+      _count: { _all: true },
+      orderBy: { _count: { id: 'desc' } },
+      take: limit,
+    }) as Promise<any[]>,
+  ]);
+  return { items, byCity: cities.map((c) => ({ cityId: c.cityId as string | null, count: c._count._all as number })) };
+}
@@ -0,0 +1,278 @@
+import { Prisma } from '@prisma/client';
+import type { GeoScope } from './search.geo.js';
+import { textMatchSql, type TextQuery } from './search.text.js';
+
+// Candidate rows of searchUnifiedFromDb in raw SQL: every DB filter of the search, the exact spatial scope and the
+// text match, as one relation over places and events. Ordering, keyset pages and counts all run on this relation,
+// so every matching row can be reached and counted.
+
+type LatLon = { lat: number; lon: number };
+
+export type CandidateEntity = 'place' | 'event';
+
+// Time window of an event search: occurrences must start inside [from, to] and, if given, inside one of the intervals
+export type OccurrenceWindow = { from?: Date; to?: Date; intervals?: Array<{ from: Date; to: Date }> };
+
+export type CandidateFilters = {
+  // Rows created after the first page's instant are left out (cursor pages)
+  asOf: Date;
+  cityIds?: string[];
+  onlyWithPhotos?: boolean;
+  priceTier?: string;
+  sources?: string[];
+  // Main category or any category among these
+  categorySlugs?: string[];
+  // Main category not among these (audience rules)
+  excludedCategorySlugs?: string[];
+  // Events only
+  maxAgeLimit?: number;
+  occurrences?: OccurrenceWindow;
+  geoScope?: GeoScope;
+  // `q`: full-text + trigram match, or the basic ILIKE match when pg_trgm is unavailable
+  text?: { query: TextQuery; fullText: boolean };
+  // Only these rows
+  ids?: string[];
+};
+
+// Columns of candidatesSql. An event is located by its first occurrence in the window and the scope (occId).
+// d: distance used by sort=distance (from the route, else from the scope's origin); km: the reported and ranked
+// distance (set only with a user point or a route); rel: text relevance from SQL (full-text path only).
+export type CandidateRow = {
+  type: CandidateEntity;
+  id: string;
+  cityId: string | null;
+  occId: string | null;
+  d: number | null;
+  km: number | null;
+  rel: number | null;
+};
+
+const TABLES = {
+  place: { row: 'Place', source: 'PlaceSource', category: 'PlaceCategory', link: 'PlaceToCategory', fk: 'placeId' },
+  event: { row: 'Event', source: 'EventSource', category: 'EventCategory', link: 'EventToCategory', fk: 'eventId' },
+} as const;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEG_LAT = 111.32;
+
+// A float parameter; sent as text so that integral values (and 1e300) are not bound as integers
+export function floatSql(v: number): Prisma.Sql {
+  return Prisma.sql`${String(v)}::float8`;
+}
+
+// A Date as the UTC wall time DateTime columns are stored in (timestamp without time zone)
+export function utcSql(d: Date): Prisma.Sql {
+  return Prisma.sql`(${d}::timestamptz AT TIME ZONE 'UTC')`;
+}
+
+// Inside the scope's bounding box (lat, and one of the lng ranges)
+export function boxSql(scope: GeoScope, alias: string): Prisma.Sql {
+  if (!scope.lngRanges.length) return Prisma.sql`false`;
+  const lat = Prisma.raw(`${alias}."lat"`);
+  const lng = Prisma.raw(`${alias}."lng"`);
+  const lngCond = Prisma.join(
+    scope.lngRanges.map((r) => Prisma.sql`${lng} BETWEEN ${r.gte} AND ${r.lte}`),
+    ' OR '
+  );
+  return Prisma.sql`(${lat} BETWEEN ${scope.latRange.gte} AND ${scope.latRange.lte} AND (${lngCond}))`;
+}
+
+// Longitude difference wrapped once across the antimeridian, as distanceToPathKm
+function wrapLonSql(dLon: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`(CASE WHEN ${dLon} > 180 THEN ${dLon} - 360 WHEN ${dLon} < -180 THEN ${dLon} + 360 ELSE ${dLon} END)`;
+}
+
+// Great-circle distance in km from `p` to the float8 columns lat / lng of `alias` (the haversine of shared/utils)
+export function haversineSql(p: LatLon, alias: string): Prisma.Sql {
+  const lat = Prisma.raw(`${alias}."lat"`);
+  const lng = Prisma.raw(`${alias}."lng"`);
+  const h = Prisma.sql`(power(sin(radians(${lat} - ${floatSql(p.lat)}) / 2), 2)
+    + cos(radians(${floatSql(p.lat)})) * cos(radians(${lat})) * power(sin(radians(${lng} - ${floatSql(p.lon)}) / 2), 2))`;
+  return Prisma.sql`(${2 * EARTH_RADIUS_KM} * atan2(sqrt(${h}), sqrt(1 - ${h})))`;
+}
+
+// Distance in km from the float8 columns lat / lng of `alias` to a polyline: segments are projected onto a local
+// equirectangular plane around the point (the SQL counterpart of distanceToPathKm)
+export function pathDistanceSql(path: LatLon[], alias: string): Prisma.Sql {
+  if (path.length === 1) return haversineSql(path[0], alias);
+  const lat = Prisma.raw(`${alias}."lat"`);
+  const lng = Prisma.raw(`${alias}."lng"`);
+  const segments = Prisma.join(
+    path.slice(1).map((b, i) => Prisma.sql`(${floatSql(path[i].lat)}, ${floatSql(path[i].lon)}, ${floatSql(b.lat)}, ${floatSql(b.lon)})`),
+    ', '
+  );
+  const cos = Prisma.sql`cos(radians(${lat}))`;
+  return Prisma.sql`(
+    SELECT min(sqrt(power(p."ax" + p."t" * p."dx", 2) + power(p."ay" + p."t" * p."dy", 2))) FROM (
+      SELECT q."ax", q."ay", q."dx", q."dy",
+        CASE WHEN q."dx" * q."dx" + q."dy" * q."dy" > 0
+          THEN greatest(0, least(1, -(q."ax" * q."dx" + q."ay" * q."dy") / (q."dx" * q."dx" + q."dy" * q."dy")))
+          ELSE 0 END AS "t"
+      FROM (
+        SELECT a."x" AS "ax", a."y" AS "ay", b."x" - a."x" AS "dx", b."y" - a."y" AS "dy"
+        FROM (VALUES ${segments}) AS s("alat", "alon", "blat", "blon")
+          CROSS JOIN LATERAL (SELECT ${wrapLonSql(Prisma.sql`s."alon" - ${lng}`)} * ${cos} * ${KM_PER_DEG_LAT} AS "x", (s."alat" - ${lat}) * ${KM_PER_DEG_LAT} AS "y") a
+          CROSS JOIN LATERAL (SELECT ${wrapLonSql(Prisma.sql`s."blon" - ${lng}`)} * ${cos} * ${KM_PER_DEG_LAT} AS "x", (s."blat" - ${lat}) * ${KM_PER_DEG_LAT} AS "y") b
+      ) q
+    ) p)`;
+}
+
+// Distance from the route, or from the scope's origin (distanceFromOrigin)
+function scopeDistanceSql(scope: GeoScope, alias: string): Prisma.Sql {
+  return scope.route ? pathDistanceSql(scope.route.path, alias) : haversineSql(scope.origin, alias);
+}
+
+// Exact scope check on the float8 columns lat / lng of `alias` (GeoScope.contains)
+function scopeSql(scope: GeoScope, alias: string): Prisma.Sql {
+  const conds = [boxSql(scope, alias)];
+  if (scope.userPoint && scope.radiusKm != null && !scope.route) {
+    conds.push(Prisma.sql`${haversineSql(scope.userPoint, alias)} <= ${floatSql(scope.radiusKm)}`);
+  }
+  if (scope.route) conds.push(Prisma.sql`${pathDistanceSql(scope.route.path, alias)} <= ${floatSql(scope.route.widthKm)}`);
+  return Prisma.join(conds, ' AND ');
+}
+
+// Conditions on an occurrence `o` (venue `op`) in the time window and, with a scope, with its own coordinates or its
+// venue's inside the scope's box (index-friendly prefilter; the exact check runs on the resolved location)
+function occurrenceConds(window: OccurrenceWindow | undefined, scope: GeoScope | undefined): Prisma.Sql[] {
+  const conds: Prisma.Sql[] = [];
+  if (window?.from) conds.push(Prisma.sql`o."startTime" >= ${utcSql(window.from)}`);
+  if (window?.to) conds.push(Prisma.sql`o."startTime" <= ${utcSql(window.to)}`);
+  if (window?.intervals?.length) {
+    conds.push(Prisma.sql`(${Prisma.join(window.intervals.map((iv) => Prisma.sql`o."startTime" BETWEEN ${utcSql(iv.from)} AND ${utcSql(iv.to)}`), ' OR ')})`);
+  }
+  if (scope) conds.push(Prisma.sql`(${boxSql(scope, 'o')} OR ((o."lat" IS NULL OR o."lng" IS NULL) AND ${boxSql(scope, 'op')}))`);
+  return conds;
+}
+
+// Row conditions shared by both entities, joined with AND (the time window and the scope are applied by candidateSql)
+export function candidateFilterSql(entity: CandidateEntity, f: CandidateFilters): Prisma.Sql {
+  const t = TABLES[entity];
+  const conds: Prisma.Sql[] = [
+    Prisma.sql`t."isActive" = true`,
+    Prisma.sql`t."moderation" = 'APPROVED'`,
+    Prisma.sql`t."createdAt" <= ${utcSql(f.asOf)}`,
+  ];
+  if (f.ids) conds.push(f.ids.length ? Prisma.sql`t."id" IN (${Prisma.join(f.ids)})` : Prisma.sql`false`);
+  if (f.cityIds?.length) conds.push(Prisma.sql`t."cityId" IN (${Prisma.join(f.cityIds)})`);
+  if (f.onlyWithPhotos) conds.push(Prisma.sql`t."imageUrl" IS NOT NULL`);
+  if (f.priceTier) conds.push(Prisma.sql`t."priceTier"::text = ${f.priceTier}`);
+  if (f.sources?.length) {
+    conds.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM ${Prisma.raw(`"${t.source}"`)} s
+      WHERE s.${Prisma.raw(`"${t.fk}"`)} = t."id" AND s."source"::text IN (${Prisma.join(f.sources)}))`);
+  }
+  if (f.categorySlugs?.length) {
+    conds.push(Prisma.sql`(
+      EXISTS (SELECT 1 FROM ${Prisma.raw(`"${t.category}"`)} c WHERE c."id" = t."mainCategoryId" AND c."key" IN (${Prisma.join(f.categorySlugs)}))
+      OR EXISTS (
+        SELECT 1 FROM ${Prisma.raw(`"${t.link}"`)} l JOIN ${Prisma.raw(`"${t.category}"`)} c ON c."id" = l."categoryId"
+        WHERE l.${Prisma.raw(`"${t.fk}"`)} = t."id" AND c."key" IN (${Prisma.join(f.categorySlugs)})))`);
+  }
+  if (f.excludedCategorySlugs?.length) {
+    conds.push(Prisma.sql`NOT EXISTS (
+      SELECT 1 FROM ${Prisma.raw(`"${t.category}"`)} c WHERE c."id" = t."mainCategoryId" AND c."key" IN (${Prisma.join(f.excludedCategorySlugs)}))`);
+  }
+  if (entity === 'event' && f.maxAgeLimit != null) conds.push(Prisma.sql`(t."ageLimit" IS NULL OR t."ageLimit" <= ${f.maxAgeLimit})`);
+  if (f.text) conds.push(textMatchSql(f.text.query, entity, f.text.fullText).cond);
+  return Prisma.join(conds, ' AND ');
+}
+
+// Candidate rows of one entity (columns of CandidateRow plus the ranking and sorting inputs)
+export function candidateSql(entity: CandidateEntity, f: CandidateFilters): Prisma.Sql {
+  const scope = f.geoScope;
+  const rel = f.text?.fullText ? textMatchSql(f.text.query, entity, true).relevance! : Prisma.sql`NULL::float8`;
+  const reported = !!scope && (!!scope.route || !!scope.userPoint);
+  const distance = scope ? scopeDistanceSql(scope, 'l') : Prisma.sql`NULL::float8`;
+  if (entity === 'place') {
+    return Prisma.sql`
+      SELECT 'place'::text AS "type", t."id", t."cityId", NULL::text AS "occId", NULL::timestamp AS "startTime",
+        g."d", ${reported ? Prisma.sql`g."d"` : Prisma.sql`NULL::float8`} AS "km", ${rel} AS "rel",
+        t."popularityScore" AS "pop", t."qualityScore" AS "qual", t."freshnessScore" AS "fresh",
+        t."priceTier"::text AS "priceTier", t."rating"::float8 AS "rating", t."reviewCount"::float8 AS "reviewCount"
+      FROM "Place" t
+        CROSS JOIN LATERAL (SELECT t."lat"::float8 AS "lat", t."lng"::float8 AS "lng") l
+        CROSS JOIN LATERAL (SELECT ${distance}::float8 AS "d") g
+      WHERE ${candidateFilterSql('place', f)}${scope ? Prisma.sql` AND ${boxSql(scope, 't')} AND ${scopeSql(scope, 'l')}` : Prisma.empty}`;
+  }
+  const occ = occurrenceConds(f.occurrences, scope);
+  if (scope) occ.push(scopeSql(scope, 'l'));
+  return Prisma.sql`
+    SELECT 'event'::text AS "type", t."id", t."cityId", n."id" AS "occId", n."startTime",
+      n."d", ${reported ? Prisma.sql`n."d"` : Prisma.sql`NULL::float8`} AS "km", ${rel} AS "rel",
+      t."popularityScore" AS "pop", t."qualityScore" AS "qual", t."freshnessScore" AS "fresh",
+      t."priceTier"::text AS "priceTier", NULL::float8 AS "rating", 0::float8 AS "reviewCount"
+    FROM "Event" t
+      JOIN LATERAL (
+        SELECT o."id", o."startTime", ${distance}::float8 AS "d"
+        FROM "EventOccurrence" o
+          LEFT JOIN "Place" op ON op."id" = o."placeId"
+          CROSS JOIN LATERAL (
+            SELECT (CASE WHEN o."lat" IS NOT NULL AND o."lng" IS NOT NULL THEN o."lat" ELSE op."lat" END)::float8 AS "lat",
+              (CASE WHEN o."lat" IS NOT NULL AND o."lng" IS NOT NULL THEN o."lng" ELSE op."lng" END)::float8 AS "lng"
+          ) l
+        WHERE o."eventId" = t."id"${occ.length ? Prisma.sql` AND ${Prisma.join(occ, ' AND ')}` : Prisma.empty}
+        ORDER BY o."startTime", o."id"
+        LIMIT 1
+      ) n ON true
+    WHERE ${candidateFilterSql('event', f)}`;
+}
+
+// Candidates of the searched entities as one relation
+export function candidatesSql(entities: CandidateEntity[], f: CandidateFilters): Prisma.Sql {
+  return Prisma.join(entities.map((e) => Prisma.sql`(${candidateSql(e, f)})`), ' UNION ALL ');
+}
+
+// Type and id of the candidates (with `ids`: which of these rows match the search)
+export function candidateIdsSql(entities: CandidateEntity[], f: CandidateFilters): Prisma.Sql {
+  return Prisma.sql`SELECT c."type", c."id" FROM (${candidatesSql(entities, f)}) c`;
+}
+
+export type CandidateCountRow = { type: CandidateEntity; cityId: string | null; cityName: string | null; count: number };
+
+// Matching rows per entity and city: totals and the area breakdown of the search
+export function candidateCountSql(entities: CandidateEntity[], f: CandidateFilters): Prisma.Sql {
+  return Prisma.sql`
+    SELECT c."type", c."cityId", ci."name" AS "cityName", count(*)::int AS "count"
+    FROM (${candidatesSql(entities, f)}) c
+      LEFT JOIN "City" ci ON ci."id" = c."cityId"
+    GROUP BY c."type", c."cityId", ci."name"`;
+}
+
+// A candidate row of candidateBatchSql: h is the rank it is ordered by (an upper bound when relevance is scored in
+// memory), hlo its lower bound, df the distance factor, k0.. the sort key (search.pagination.ts)
+export type OrderedCandidateRow = CandidateRow & { df: number; h: number; hlo: number } & Record<`k${number}`, number>;
+
+// One batch of the candidates in sort order: keys ascending, then (byRank) rank descending, then id; after the row
+// `after` of the previous batch and passing `where` (on the ordered row `s`)
+export function candidateBatchSql(
+  entities: CandidateEntity[],
+  f: CandidateFilters,
+  order: {
+    // Over the candidate `r`; the ranks read its distance factor r."df"
+    distanceFactor: Prisma.Sql;
+    rank: Prisma.Sql;
+    rankFloor: Prisma.Sql;
+    keys: Prisma.Sql[];
+    byRank: boolean;
+  },
+  opts: { after?: { keys: number[]; rank: number; id: string }; where?: Prisma.Sql; limit: number }
+): Prisma.Sql {
+  const keyCols = order.keys.map((_, i) => Prisma.raw(`s."k${i}"`));
+  const orderCols = [...keyCols, ...(order.byRank ? [Prisma.sql`-s."h"`] : []), Prisma.sql`s."id" COLLATE "C"`];
+  const conds: Prisma.Sql[] = [];
+  if (opts.after) {
+    const values = [...opts.after.keys.map((v) => floatSql(v)), ...(order.byRank ? [floatSql(-opts.after.rank)] : []), Prisma.sql`${opts.after.id}`];
+    conds.push(Prisma.sql`(${Prisma.join(orderCols)}) > (${Prisma.join(values)})`);
+  }
+  if (opts.where) conds.push(opts.where);
+  return Prisma.sql`
+    SELECT s.* FROM (
+      SELECT r."type", r."id", r."cityId", r."occId", r."d", r."km", r."rel", r."df",
+        ${Prisma.join([Prisma.sql`${order.rank} AS "h"`, Prisma.sql`${order.rankFloor} AS "hlo"`, ...order.keys.map((k, i) => Prisma.sql`${k} AS ${Prisma.raw(`"k${i}"`)}`)])}
+      FROM (SELECT c.*, ${order.distanceFactor} AS "df" FROM (${candidatesSql(entities, f)}) c) r
+    ) s
+    ${conds.length ? Prisma.sql`WHERE ${Prisma.join(conds, ' AND ')}` : Prisma.empty}
+    ORDER BY ${Prisma.join(orderCols)}
+    LIMIT ${opts.limit}`;
+}
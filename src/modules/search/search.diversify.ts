@@ -0,0 +1,232 @@
+import type { SearchRequest, SearchSort } from './search.schemas.js';
+import { compareSortKeys, encodeCursor, type PageRequest, type PageResult, type SortKey } from './search.pagination.js';
+import {
+  SEARCH_DIVERSIFY_ENABLED,
+  SEARCH_DIVERSIFY_MAX_CATEGORY,
+  SEARCH_DIVERSIFY_MAX_SOURCE,
+  SEARCH_DIVERSIFY_MAX_VENUE,
+  SEARCH_DIVERSIFY_WINDOW,
+} from '../../config/search.js';
+
+// Diversification pass over the sorted hits of DB search, before pagination.
+// 1. Near-duplicate events (same normalized title, same venue or start within DUPLICATE_START_WINDOW_MIN)
+//    collapse into the best-ranked one, which takes over the sources of the others.
+// 2. For sort=rank, a hit that would extend a run of the same category / venue / source beyond its limit
+//    is moved down in favour of the next hit (within the lookahead window) that does not; when none fits
+//    the order is kept. Hits keep their original sort key; pages of the reordered list come from
+//    paginateDiversified, whose cursors anchor on those keys.
+
+export type DiversifyOptions = {
+  enabled: boolean;
+  maxSameCategory: number;
+  maxSameVenue: number;
+  maxSameSource: number;
+  collapseDuplicates: boolean;
+  // Reordering applies to sort=rank only; other sorts are an explicit order the client asked for
+  reorder: boolean;
+  window: number;
+};
+
+export type DiversifyResult<T> = {
+  entries: Array<{ hit: T; key: SortKey }>;
+  collapsed: number;
+  reordered: number;
+};
+
+// Shape of a hit the pass reads
+export type DiversifiableHit = {
+  id: string;
+  type: string;
+  title: string;
+  city?: { id: string } | null;
+  primaryCategory?: { slug: string } | null;
+  sourceProvider?: string | null;
+  sources?: Array<{ source: string; externalId: string; url?: string }>;
+  nextOccurrence?: { startsAt?: string; place?: { id: string } | null } | null;
+};
+
+// Events of one title starting this close together are the same listing
+const DUPLICATE_START_WINDOW_MIN = 60;
+
+export function resolveDiversifyOptions(query: Pick<SearchRequest, 'diversify' | 'sort'>): DiversifyOptions {
+  const d = query.diversify ?? {};
+  return {
+    enabled: d.enabled ?? SEARCH_DIVERSIFY_ENABLED,
+    maxSameCategory: d.maxSameCategory ?? SEARCH_DIVERSIFY_MAX_CATEGORY,
+    maxSameVenue: d.maxSameVenue ?? SEARCH_DIVERSIFY_MAX_VENUE,
+    maxSameSource: d.maxSameSource ?? SEARCH_DIVERSIFY_MAX_SOURCE,
+    collapseDuplicates: d.collapseDuplicates ?? true,
+    reorder: (query.sort ?? 'rank') === 'rank',
+    window: SEARCH_DIVERSIFY_WINDOW,
+  };
+}
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// A place is its own venue; an event takes place at its next occurrence's venue
+function venueOf(hit: DiversifiableHit): string | undefined {
+  return hit.type === 'place' ? hit.id : hit.nextOccurrence?.place?.id ?? undefined;
+}
+
+function isDuplicateEvent(a: DiversifiableHit, b: DiversifiableHit): boolean {
+  if (a.city?.id && b.city?.id && a.city.id !== b.city.id) return false;
+  const venueA = venueOf(a);
+  if (venueA && venueA === venueOf(b)) return true;
+  const startA = Date.parse(a.nextOccurrence?.startsAt ?? '');
+  const startB = Date.parse(b.nextOccurrence?.startsAt ?? '');
+  return Number.isFinite(startA) && Number.isFinite(startB) && Math.abs(startA - startB) <= DUPLICATE_START_WINDOW_MIN * 60000;
+}
+
+// Duplicate collapse in sort order: accept() keeps the first (best-sorted) event of each duplicate group and merges
+// the sources of later ones into it, returning false for those
+export function duplicateEventCollapser<T extends DiversifiableHit>(): { accept(hit: T): boolean; collapsed: number } {
+  const kept = new Map<string, T[]>();
+  const collapser = {
+    collapsed: 0,
+    accept(hit: T): boolean {
+      const title = hit.type === 'event' ? normalizeTitle(hit.title) : '';
+      if (!title) return true;
+      const group = kept.get(title) ?? [];
+      const original = group.find((g) => isDuplicateEvent(g, hit));
+      if (!original) {
+        group.push(hit);
+        kept.set(title, group);
+        return true;
+      }
+      collapser.collapsed++;
+      const refs = [...(original.sources ?? [])];
+      for (const s of hit.sources ?? []) {
+        if (!refs.some((r) => r.source === s.source && r.externalId === s.externalId)) refs.push(s);
+      }
+      if (refs.length) original.sources = refs;
+      return false;
+    },
+  };
+  return collapser;
+}
+
+function collapseDuplicateEvents<T extends DiversifiableHit>(entries: Array<{ hit: T; key: SortKey }>): { entries: Array<{ hit: T; key: SortKey }>; collapsed: number } {
+  const collapser = duplicateEventCollapser<T>();
+  const out = entries.filter((e) => collapser.accept(e.hit));
+  return { entries: out, collapsed: collapser.collapsed };
+}
+
+// Per dimension: the value at the tail of the output and the length of its run
+export type RunState = Array<[string | null, number]>;
+
+function runDimensions<T extends DiversifiableHit>(opts: DiversifyOptions) {
+  return [
+    { max: opts.maxSameCategory, valueOf: (h: T) => h.primaryCategory?.slug },
+    { max: opts.maxSameVenue, valueOf: (h: T) => venueOf(h) },
+    { max: opts.maxSameSource, valueOf: (h: T) => h.sourceProvider ?? undefined },
+  ].filter((d) => d.max > 0);
+}
+
+// Emits up to `take` entries in diversified order, continuing the runs left by the previous page;
+// `rest` is what was not emitted, in the incoming order
+function reorderRuns<T extends DiversifiableHit>(
+  entries: Array<{ hit: T; key: SortKey }>,
+  opts: DiversifyOptions,
+  from: { runs?: RunState; take?: number } = {}
+): { entries: Array<{ hit: T; key: SortKey }>; rest: Array<{ hit: T; key: SortKey }>; runs: RunState; reordered: number } {
+  const dimensions = runDimensions<T>(opts);
+  const take = from.take ?? entries.length;
+  if (!dimensions.length) return { entries: entries.slice(0, take), rest: entries.slice(take), runs: [], reordered: 0 };
+
+  // Current run at the tail of the output, per dimension
+  const runs: RunState = from.runs?.length === dimensions.length ? from.runs.map(([v, n]) => [v, n]) : dimensions.map(() => [null, 0]);
+  const fits = (hit: T) =>
+    dimensions.every((d, i) => {
+      const v = d.valueOf(hit);
+      return v == null || runs[i][0] !== v || runs[i][1] < d.max;
+    });
+
+  const pending = [...entries];
+  const out: Array<{ hit: T; key: SortKey }> = [];
+  let reordered = 0;
+  while (pending.length && out.length < take) {
+    const lookahead = Math.min(pending.length, opts.window);
+    let pick = 0;
+    for (let i = 0; i < lookahead; i++) {
+      if (fits(pending[i].hit)) {
+        pick = i;
+        break;
+      }
+    }
+    if (pick > 0) reordered++;
+    const [entry] = pending.splice(pick, 1);
+    dimensions.forEach((d, i) => {
+      const v = d.valueOf(entry.hit) ?? null;
+      runs[i] = v != null && runs[i][0] === v ? [v, runs[i][1] + 1] : [v, 1];
+    });
+    out.push(entry);
+  }
+  return { entries: out, rest: pending, runs, reordered };
+}
+
+export function diversifySorted<T extends DiversifiableHit>(
+  sorted: Array<{ hit: T; key: SortKey }>,
+  opts: DiversifyOptions
+): DiversifyResult<T> {
+  if (!opts.enabled) return { entries: sorted, collapsed: 0, reordered: 0 };
+  const deduped = opts.collapseDuplicates ? collapseDuplicateEvents(sorted) : { entries: sorted, collapsed: 0 };
+  const runs = opts.reorder ? reorderRuns(deduped.entries, opts) : { entries: deduped.entries, reordered: 0 };
+  return { entries: runs.entries, collapsed: deduped.collapsed, reordered: runs.reordered };
+}
+
+// One page of the diversified order. The cursor holds the original sort key + id of the first hit not shown yet
+// (the anchor), the ids past it that were already shown (pulled up by the reordering, at most a window's worth)
+// and the runs at the end of the page. Each page re-derives the order from the anchor, so a score that changes
+// between pages moves that one hit instead of shifting every position after it. `entries` must hold every hit from
+// the anchor on up to a window past the page; reordered counts the hits moved up on the way to the page's end.
+export function paginateDiversified<T extends DiversifiableHit>(
+  entries: Array<{ hit: T; key: SortKey }>,
+  req: PageRequest,
+  ctx: { sort: SearchSort; fingerprint: string },
+  opts: DiversifyOptions
+): PageResult<T> & { reordered: number } {
+  const byKey = [...entries].sort((a, b) => compareSortKeys({ key: a.key, id: a.hit.id }, { key: b.key, id: b.hit.id }));
+  const shown = new Set(req.cursor?.seen ?? []);
+  let pending = byKey;
+  if (req.cursor) {
+    const anchor = { key: req.cursor.key, id: req.cursor.id };
+    pending = byKey.filter((e) => compareSortKeys({ key: e.key, id: e.hit.id }, anchor) >= 0 && !shown.has(e.hit.id));
+  }
+  const skip = req.cursor ? 0 : req.offset;
+  const run = reorderRuns(pending, opts, { runs: req.cursor?.runs, take: skip + req.limit });
+  const slice = run.entries.slice(skip);
+  const offset = req.cursor?.offset ?? byKey.length - pending.length + skip;
+
+  const next = run.rest[0];
+  let nextCursor: string | null = null;
+  if (next && slice.length) {
+    for (const e of run.entries) shown.add(e.hit.id);
+    const anchor = { key: next.key, id: next.hit.id };
+    const seen = byKey.filter((e) => shown.has(e.hit.id) && compareSortKeys({ key: e.key, id: e.hit.id }, anchor) > 0).map((e) => e.hit.id);
+    nextCursor = encodeCursor({
+      sort: ctx.sort,
+      key: next.key,
+      id: next.hit.id,
+      asOf: req.asOf.toISOString(),
+      fp: ctx.fingerprint,
+      seen,
+      runs: run.runs,
+      offset: offset + slice.length,
+    });
+  }
+  return {
+    items: slice.map((e) => e.hit),
+    offset,
+    page: Math.floor(offset / req.limit) + 1,
+    hasMore: run.rest.length > 0,
+    nextCursor,
+    reordered: run.reordered,
+  };
+}
@@ -0,0 +1,129 @@
+import { Prisma } from '@prisma/client';
+import type { FacetName } from './search.schemas.js';
+import { candidatesSql, type CandidateEntity, type CandidateFilters } from './search.candidates.js';
+
+// Facet counts over every row matching the DB filters of a search (before pagination), grouped in SQL
+
+// label: display name of the key, where it is an id (venue)
+export type FacetBucket = { key: string; count: number; label?: string };
+export type Facets = Partial<Record<FacetName, FacetBucket[]>>;
+
+export const ALL_FACETS: FacetName[] = ['categories', 'priceTier', 'source', 'indoorOutdoor', 'weekday', 'distance', 'rating', 'free', 'isOnline', 'venue'];
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// Ordinal facets keep this bucket order; the others are sorted by count
+const ORDER: Partial<Record<FacetName, string[]>> = {
+  priceTier: ['FREE', 'CHEAP', 'MODERATE', 'EXPENSIVE'],
+  weekday: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'],
+  distance: ['0-1', '1-3', '3-5', '5-10', '10+'],
+  rating: ['4.5+', '4-4.5', '3-4', '0-3'],
+  free: ['free', 'paid'],
+  isOnline: ['true', 'false'],
+};
+
+// Upper bounds of the distance and lower bounds of the rating buckets, in bucket order
+const DISTANCE_BUCKETS: Array<[string, number]> = [['0-1', 1], ['1-3', 3], ['3-5', 5], ['5-10', 10]];
+const RATING_BUCKETS: Array<[string, number]> = [['4.5+', 4.5], ['4-4.5', 4], ['3-4', 3]];
+
+// Matching rows of one bucket (label: display name of a venue key)
+export type FacetCountRow = { facet: FacetName; key: string; label: string | null; count: number };
+
+// Distinct sources of the row `f`
+function sourcesSql(): Prisma.Sql {
+  return Prisma.sql`
+    SELECT ps."source"::text AS "key" FROM "PlaceSource" ps WHERE f."type" = 'place' AND ps."placeId" = f."id"
+    UNION SELECT es."source"::text FROM "EventSource" es WHERE f."type" = 'event' AND es."eventId" = f."id"`;
+}
+
+// Bucket keys of the row `f` (and the joins they need) per facet; rows without a key are not counted.
+// Events are bucketed by the occurrence the candidate row picked: its weekday in its own time zone (UTC when
+// missing or unknown), its venue.
+function facetSql(facet: FacetName): Prisma.Sql {
+  const grouped = (key: Prisma.Sql, joins: Prisma.Sql = Prisma.empty) => Prisma.sql`
+    SELECT ${facet}::text AS "facet", x."key", NULL::text AS "label", count(*)::int AS "count"
+    FROM f ${joins} CROSS JOIN LATERAL (SELECT ${key} AS "key") x
+    WHERE x."key" IS NOT NULL
+    GROUP BY x."key"`;
+  switch (facet) {
+    case 'categories':
+      return grouped(
+        Prisma.sql`coalesce(pc."key", ec."key")`,
+        Prisma.sql`LEFT JOIN "PlaceCategory" pc ON f."type" = 'place' AND pc."id" = f."mainCategoryId"
+          LEFT JOIN "EventCategory" ec ON f."type" = 'event' AND ec."id" = f."mainCategoryId"`
+      );
+    case 'priceTier':
+      return grouped(Prisma.sql`f."priceTier"`);
+    case 'source':
+      // The row's sources, else the provider that created it
+      return Prisma.sql`
+        SELECT 'source'::text AS "facet", x."key", NULL::text AS "label", count(*)::int AS "count"
+        FROM f CROSS JOIN LATERAL (
+          ${sourcesSql()}
+          UNION SELECT f."provider" WHERE f."provider" IS NOT NULL AND NOT EXISTS (${sourcesSql()})
+        ) x
+        GROUP BY x."key"`;
+    case 'indoorOutdoor':
+      return grouped(Prisma.sql`(CASE f."venueType" WHEN 'INDOOR' THEN 'indoor' WHEN 'OUTDOOR' THEN 'outdoor' WHEN 'ANY' THEN 'any' END)`);
+    case 'weekday': {
+      const days = Prisma.join(WEEKDAYS.map((d, i) => Prisma.sql`WHEN ${i} THEN ${d}`), ' ');
+      return grouped(
+        Prisma.sql`(CASE extract(dow FROM (o."startTime" AT TIME ZONE 'UTC') AT TIME ZONE coalesce(z."name", 'UTC'))::int ${days} END)`,
+        Prisma.sql`JOIN "EventOccurrence" o ON o."id" = f."occId" LEFT JOIN pg_timezone_names z ON z."name" = o."timezone"`
+      );
+    }
+    case 'distance': {
+      const whens = Prisma.join(DISTANCE_BUCKETS.map(([key, max]) => Prisma.sql`WHEN f."km" < ${max} THEN ${key}`), ' ');
+      return grouped(Prisma.sql`(CASE WHEN f."km" IS NULL THEN NULL ${whens} ELSE '10+' END)`);
+    }
+    case 'rating': {
+      const whens = Prisma.join(RATING_BUCKETS.map(([key, min]) => Prisma.sql`WHEN f."rating" >= ${min} THEN ${key}`), ' ');
+      return grouped(Prisma.sql`(CASE WHEN f."rating" IS NULL THEN NULL ${whens} ELSE '0-3' END)`);
+    }
+    case 'free':
+      return grouped(Prisma.sql`(CASE WHEN f."priceFrom" = 0 OR f."priceTier" = 'FREE' THEN 'free'
+        WHEN f."priceFrom" > 0 OR f."priceTier" IS NOT NULL THEN 'paid' END)`);
+    case 'isOnline':
+      return grouped(Prisma.sql`f."isOnline"::text`);
+    case 'venue':
+      return Prisma.sql`
+        SELECT 'venue'::text AS "facet", v."id" AS "key", v."name" AS "label", count(*)::int AS "count"
+        FROM f JOIN "EventOccurrence" o ON o."id" = f."occId" JOIN "Place" v ON v."id" = o."placeId"
+        GROUP BY v."id", v."name"`;
+  }
+}
+
+function facetNames(requested?: FacetName[]): FacetName[] {
+  return requested?.length ? Array.from(new Set(requested)) : ALL_FACETS;
+}
+
+// Bucket counts of the requested facets (all of them when omitted) over the candidate rows of a search
+export function facetCountSql(entities: CandidateEntity[], filters: CandidateFilters, requested?: FacetName[]): Prisma.Sql {
+  return Prisma.sql`
+    WITH f AS (
+      SELECT c."type", c."id", c."occId", c."km", c."priceTier", c."rating",
+        coalesce(p."mainCategoryId", e."mainCategoryId") AS "mainCategoryId",
+        coalesce(p."venueType", e."venueType")::text AS "venueType",
+        coalesce(p."provider", e."provider")::text AS "provider",
+        e."priceFrom", e."isOnline"
+      FROM (${candidatesSql(entities, filters)}) c
+        LEFT JOIN "Place" p ON c."type" = 'place' AND p."id" = c."id"
+        LEFT JOIN "Event" e ON c."type" = 'event' AND e."id" = c."id"
+    )
+    ${Prisma.join(facetNames(requested).map((name) => Prisma.sql`(${facetSql(name)})`), ' UNION ALL ')}`;
+}
+
+// Facets out of the rows of facetCountSql: ordinal facets in bucket order, the others by count
+export function facetsFromCounts(rows: FacetCountRow[], requested?: FacetName[]): Facets {
+  const out: Facets = {};
+  for (const facet of facetNames(requested)) {
+    const order = ORDER[facet];
+    const buckets: FacetBucket[] = rows
+      .filter((r) => r.facet === facet)
+      .map((r) => (r.label != null ? { key: r.key, count: Number(r.count), label: r.label } : { key: r.key, count: Number(r.count) }));
+    buckets.sort(order
+      ? (a, b) => order.indexOf(a.key) - order.indexOf(b.key)
+      : (a, b) => b.count - a.count || a.key.localeCompare(b.key));
+    out[facet] = buckets;
+  }
+  return out;
+}
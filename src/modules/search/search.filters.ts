@@ -0,0 +1,264 @@
+import type { SearchRequest } from './search.schemas.js';
+import { TAXONOMY_CATEGORIES } from '../catalog/taxonomy/taxonomy.constants.js';
+import { zonedParts } from '../../shared/timezone.js';
+
+// Audience rules for DB-backed search: who / mood / timeBudget shape the candidate set and the rank
+
+// Minimal view of a hit needed to evaluate audience rules
+export type AudienceCandidate = {
+  type: 'place' | 'event';
+  categorySlugs: string[];
+  ageLimit?: number | null;
+  indoorOutdoor?: 'indoor' | 'outdoor' | 'any' | null;
+  durationMin?: number | null;
+  startsAt?: string | null;
+  timezone?: string | null;
+};
+
+export type AudienceVerdict = { exclude: boolean; factor: number; reasons: string[] };
+
+export type AudienceFilter = {
+  // Hard exclusions that can be pushed down into the DB query
+  excludedCategorySlugs: string[];
+  maxAgeLimit?: number;
+  maxDurationMin?: number;
+  active: boolean;
+  // Smallest and largest rank factor evaluate() can return
+  factorRange: [number, number];
+  evaluate(c: AudienceCandidate): AudienceVerdict;
+};
+
+const BOOST = 1.25;
+const PENALTY = 0.6;
+
+const KIDS_EXCLUDED = ['place.nightlife_club', 'place.bar_pub', 'event.nightlife_party'];
+const KIDS_ONLY = ['event.kids_family', 'place.kids_playground'];
+
+// Lower bound of each kids age group: the youngest child decides which age limits fit
+const KIDS_AGE_FLOOR: Record<string, number> = { '0-3': 0, '4-7': 4, '8-12': 8, '13-16': 13 };
+// Without explicit age groups only adult-only items are excluded
+const KIDS_DEFAULT_MAX_AGE_LIMIT = 17;
+
+type Preference = { boost: string[]; penalize: string[] };
+
+const COMPANY_PREFERENCES: Record<string, Preference> = {
+  kids: {
+    boost: ['event.kids_family', 'place.kids_playground', 'place.family_zoo_aqua_theme', 'place.fun_bowling_arcade_escape', 'place.outdoor_park_garden'],
+    penalize: ['event.conference_meetup', 'place.spa_wellness_sauna'],
+  },
+  couple: {
+    boost: ['place.food_restaurant', 'place.bar_pub', 'place.culture_theatre_venue', 'place.spa_wellness_sauna', 'event.theatre_performing_arts', 'event.concert_show'],
+    penalize: KIDS_ONLY,
+  },
+  solo: {
+    boost: ['place.culture_museum_gallery', 'place.food_cafe_coffee', 'place.culture_cinema', 'event.workshop_course', 'event.tour_excursion', 'event.activity_class'],
+    penalize: KIDS_ONLY,
+  },
+  friends: {
+    boost: ['place.bar_pub', 'place.nightlife_club', 'place.fun_bowling_arcade_escape', 'event.concert_show', 'event.festival_city_event', 'event.sport_match_fan'],
+    penalize: KIDS_ONLY,
+  },
+  coworkers: {
+    boost: ['place.food_restaurant', 'place.bar_pub', 'place.fun_bowling_arcade_escape', 'event.workshop_course', 'event.conference_meetup', 'event.activity_class'],
+    penalize: ['place.nightlife_club', 'event.nightlife_party', ...KIDS_ONLY],
+  },
+};
+
+const MOOD_PREFERENCES: Record<string, Preference> = {
+  CALM: {
+    boost: ['place.culture_museum_gallery', 'place.outdoor_park_garden', 'place.spa_wellness_sauna', 'place.food_cafe_coffee', 'place.outdoor_beach_waterfront', 'event.museum_exhibition'],
+    penalize: ['place.nightlife_club', 'event.nightlife_party', 'event.sport_match_fan', 'event.festival_city_event'],
+  },
+  ACTIVE: {
+    boost: ['place.sport_fitness_stadium', 'place.outdoor_nature_hiking', 'place.fun_bowling_arcade_escape', 'event.sport_race_endurance', 'event.activity_class', 'event.tour_excursion'],
+    penalize: ['place.spa_wellness_sauna', 'place.culture_cinema', 'event.cinema_screening'],
+  },
+  ROMANTIC: {
+    boost: ['place.food_restaurant', 'place.bar_pub', 'place.culture_theatre_venue', 'place.outdoor_beach_waterfront', 'event.theatre_performing_arts', 'event.concert_show'],
+    penalize: ['event.conference_meetup', 'event.sport_match_fan', ...KIDS_ONLY],
+  },
+};
+
+const TIME_BUDGET_MAX_MINUTES: Record<string, number | undefined> = {
+  UP_TO_2_HOURS: 120,
+  HALF_DAY: 300,
+  FULL_DAY: undefined,
+  EVENING: 360,
+};
+// Events for EVENING must start at or after this local hour
+const EVENING_START_HOUR = 17;
+
+// How well categories suit a company type: 1 preferred, 0 discouraged, 0.5 neutral
+export function companyAffinity(companyType: string, categorySlugs: string[]): number {
+  const pref = COMPANY_PREFERENCES[companyType];
+  if (!pref) return 0.5;
+  if (pref.boost.some((s) => categorySlugs.includes(s))) return 1;
+  if (pref.penalize.some((s) => categorySlugs.includes(s))) return 0;
+  return 0.5;
+}
+
+export function expectedDurationForCategory(slug?: string | null): number | undefined {
+  if (!slug) return undefined;
+  return TAXONOMY_CATEGORIES.find((c) => c.slug === slug)?.expected_duration;
+}
+
+export function buildAudienceFilter(query: Pick<SearchRequest, 'who' | 'mood' | 'timeBudget'>): AudienceFilter {
+  const companyType = query.who?.companyType;
+  const ageGroups = query.who?.kidsAgeGroups ?? [];
+  const withKids = companyType === 'kids' || ageGroups.length > 0;
+  const mood = query.mood && query.mood !== 'ANY' ? query.mood : undefined;
+  const timeBudget = query.timeBudget;
+
+  const prefs: Preference[] = [];
+  if (companyType) prefs.push(COMPANY_PREFERENCES[companyType]);
+  if (mood) prefs.push(MOOD_PREFERENCES[mood]);
+
+  const excludedCategorySlugs = withKids ? KIDS_EXCLUDED : [];
+  const maxAgeLimit = withKids
+    ? ageGroups.length
+      ? Math.min(...ageGroups.map((g) => KIDS_AGE_FLOOR[g] ?? KIDS_DEFAULT_MAX_AGE_LIMIT))
+      : KIDS_DEFAULT_MAX_AGE_LIMIT
+    : undefined;
+  const maxDurationMin = timeBudget ? TIME_BUDGET_MAX_MINUTES[timeBudget] : undefined;
+
+  const evaluate = (c: AudienceCandidate): AudienceVerdict => {
+    const reasons: string[] = [];
+    let factor = 1;
+    const cats = new Set(c.categorySlugs);
+
+    if (excludedCategorySlugs.some((s) => cats.has(s))) return { exclude: true, factor: 0, reasons: ['who:category'] };
+    if (maxAgeLimit != null && c.ageLimit != null && c.ageLimit > maxAgeLimit) {
+      return { exclude: true, factor: 0, reasons: ['who:ageLimit'] };
+    }
+
+    if (maxDurationMin != null && c.durationMin != null && c.durationMin > maxDurationMin) {
+      // Events have a fixed length; places can be visited for less time, so only down-rank them
+      if (c.type === 'event') return { exclude: true, factor: 0, reasons: ['timeBudget:duration'] };
+      factor *= PENALTY;
+      reasons.push('timeBudget:duration');
+    }
+
+    if (timeBudget === 'EVENING') {
+      if (c.type === 'event' && c.startsAt) {
+        const start = new Date(c.startsAt);
+        if (!isNaN(start.getTime()) && zonedParts(start, c.timezone).hour < EVENING_START_HOUR) {
+          return { exclude: true, factor: 0, reasons: ['timeBudget:evening'] };
+        }
+      }
+      if (c.indoorOutdoor === 'outdoor') {
+        factor *= PENALTY;
+        reasons.push('timeBudget:outdoor');
+      }
+    }
+
+    for (const p of prefs) {
+      if (p.boost.some((s) => cats.has(s))) {
+        factor *= BOOST;
+        reasons.push('preference:boost');
+      } else if (p.penalize.some((s) => cats.has(s))) {
+        factor *= PENALTY;
+        reasons.push('preference:penalty');
+      }
+    }
+
+    if (mood === 'ACTIVE' && c.indoorOutdoor === 'outdoor') {
+      factor *= 1.1;
+      reasons.push('mood:outdoor');
+    }
+
+    return { exclude: false, factor, reasons };
+  };
+
+  // Multiplied up in evaluate()'s order, so the extremes come out as the same floats: every preference can
+  // penalize, as the duration and outdoor rules can; the largest factor boosts for every preference
+  const penalties = prefs.length + (maxDurationMin != null ? 1 : 0) + (timeBudget === 'EVENING' ? 1 : 0);
+  let minFactor = 1;
+  for (let i = 0; i < penalties; i++) minFactor *= PENALTY;
+  let maxFactor = 1;
+  for (let i = 0; i < prefs.length; i++) maxFactor *= BOOST;
+  if (mood === 'ACTIVE') maxFactor *= 1.1;
+  const factorRange: [number, number] = [minFactor, maxFactor];
+
+  return {
+    excludedCategorySlugs,
+    maxAgeLimit,
+    maxDurationMin,
+    active: withKids || prefs.length > 0 || !!timeBudget,
+    factorRange,
+    evaluate,
+  };
+}
+
+// Request filters honoured by searchUnifiedFromDb; anything else present in the request is reported as ignored
+const SUPPORTED_DB_FILTERS = new Set([
+  'q',
+  'where.city',
+  'where.geo',
+  'where.bbox',
+  'where.cities',
+  'where.route',
+  'when',
+  'who.companyType',
+  'who.kidsAgeGroups',
+  'timeBudget',
+  'mood',
+  'budget.tier',
+  'filters.categorySlugs',
+  'filters.sources',
+  'filters.openNowOnly',
+]);
+
+export function describeFilterUsage(query: SearchRequest): { applied: string[]; ignored: string[] } {
+  const present: string[] = [];
+  if (query.q) present.push('q');
+  if (query.where?.city) present.push('where.city');
+  if (query.where?.geo) present.push('where.geo');
+  if (query.where?.bbox) present.push('where.bbox');
+  if (query.where?.cities?.length) present.push('where.cities');
+  if (query.where?.route) present.push('where.route');
+  if (query.when) present.push('when');
+  if (query.who?.companyType) present.push('who.companyType');
+  if (query.who?.kidsAgeGroups?.length) present.push('who.kidsAgeGroups');
+  if (query.timeBudget) present.push('timeBudget');
+  if (query.mood && query.mood !== 'ANY') present.push('mood');
+  if (query.budget?.tier && query.budget.tier !== 'ANY') present.push('budget.tier');
+  if (query.budget?.priceRange) present.push('budget.priceRange');
+  if (query.filters?.categorySlugs?.length) present.push('filters.categorySlugs');
+  if (query.filters?.tags?.length) present.push('filters.tags');
+  if (query.filters?.transport) present.push('filters.transport');
+  if (query.filters?.indoorOutdoor && query.filters.indoorOutdoor !== 'any') present.push('filters.indoorOutdoor');
+  if (query.filters?.openNowOnly) present.push('filters.openNowOnly');
+  if (query.filters?.sources?.length) present.push('filters.sources');
+
+  return {
+    applied: present.filter((f) => SUPPORTED_DB_FILTERS.has(f)),
+    ignored: present.filter((f) => !SUPPORTED_DB_FILTERS.has(f)),
+  };
+}
+
+// Applied filters a hit actually satisfies (explain mode). Audience filters (who / mood / timeBudget) are listed
+// because excluded hits never reach this point; `when` matches events by occurrence and places by opening hours.
+export function matchedFilters(
+  query: SearchRequest,
+  applied: string[],
+  hit: { type: 'place' | 'event'; categorySlugs: string[]; sources: string[]; priceTier?: string | null; relevance?: number; openInWindow?: boolean }
+): string[] {
+  return applied.filter((f) => {
+    switch (f) {
+      case 'q':
+        return (hit.relevance ?? 0) > 0;
+      case 'when':
+        return hit.type === 'event' || hit.openInWindow === true;
+      case 'filters.openNowOnly':
+        return hit.openInWindow === true;
+      case 'budget.tier':
+        return hit.priceTier === query.budget?.tier;
+      case 'filters.categorySlugs':
+        return hit.categorySlugs.some((s) => query.filters?.categorySlugs?.includes(s));
+      case 'filters.sources':
+        return hit.sources.some((s) => (query.filters?.sources as string[] | undefined)?.includes(s));
+      default:
+        return true;
+    }
+  });
+}
@@ -0,0 +1,220 @@
+import type { SearchArea, WhereInput } from './search.schemas.js';
+import { haversineKm } from '../../shared/utils.js';
+import { GEO_CITIES } from '../geo/geo.constants.js';
+
+// Spatial scope of a DB search: radius around where.geo and/or where.bbox, or the corridor along where.route.
+// Prisma has no spatial operators here, so the scope is applied as a lat/lng range prefilter (uses the
+// [lat, lng] indexes) followed by an exact check in memory.
+
+type LatLon = { lat: number; lon: number };
+type Range = { gte: number; lte: number };
+
+export type GeoScope = {
+  // Point candidates are ordered by: the user point, or the bbox center when only a bbox is given
+  origin: LatLon;
+  // Set only when the request carries a user point (distanceKm is reported against it)
+  userPoint?: LatLon;
+  radiusKm?: number;
+  bbox?: { south: number; west: number; north: number; east: number };
+  // Trip corridor: distances are measured from the polyline instead of the origin
+  route?: { path: LatLon[]; widthKm: number };
+  latRange: Range;
+  // Two ranges when the box crosses the antimeridian
+  lngRanges: Range[];
+  contains(loc: LatLon | null | undefined): boolean;
+};
+
+const KM_PER_DEG_LAT = 111.32;
+
+function radiusBox(center: LatLon, radiusKm: number): { latRange: Range; lngRanges: Range[] } {
+  const dLat = radiusKm / KM_PER_DEG_LAT;
+  const cos = Math.cos((center.lat * Math.PI) / 180);
+  // Near the poles the longitude span degenerates: take the full circle
+  const dLon = cos > 1e-6 ? radiusKm / (KM_PER_DEG_LAT * cos) : 180;
+  const latRange = { gte: Math.max(-90, center.lat - dLat), lte: Math.min(90, center.lat + dLat) };
+  if (dLon >= 180) return { latRange, lngRanges: [{ gte: -180, lte: 180 }] };
+  const west = center.lon - dLon;
+  const east = center.lon + dLon;
+  if (west < -180) return { latRange, lngRanges: [{ gte: west + 360, lte: 180 }, { gte: -180, lte: east }] };
+  if (east > 180) return { latRange, lngRanges: [{ gte: west, lte: 180 }, { gte: -180, lte: east - 360 }] };
+  return { latRange, lngRanges: [{ gte: west, lte: east }] };
+}
+
+function bboxRanges(b: { south: number; west: number; north: number; east: number }): { latRange: Range; lngRanges: Range[] } {
+  const latRange = { gte: b.south, lte: b.north };
+  if (b.west <= b.east) return { latRange, lngRanges: [{ gte: b.west, lte: b.east }] };
+  return { latRange, lngRanges: [{ gte: b.west, lte: 180 }, { gte: -180, lte: b.east }] };
+}
+
+function inRanges(v: number, ranges: Range[]): boolean {
+  return ranges.some((r) => v >= r.gte && v <= r.lte);
+}
+
+function intersectRanges(a: Range[], b: Range[]): Range[] {
+  const out: Range[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const gte = Math.max(x.gte, y.gte);
+      const lte = Math.min(x.lte, y.lte);
+      if (gte <= lte) out.push({ gte, lte });
+    }
+  }
+  return out;
+}
+
+// Distance from a point to a polyline; segments are projected onto a local equirectangular plane
+// around the point, which is accurate enough for corridors of up to a few dozen km
+export function distanceToPathKm(path: LatLon[], loc: LatLon): number {
+  if (path.length === 1) return haversineKm(path[0], loc);
+  const cos = Math.cos((loc.lat * Math.PI) / 180);
+  const project = (p: LatLon) => {
+    let dLon = p.lon - loc.lon;
+    if (dLon > 180) dLon -= 360;
+    else if (dLon < -180) dLon += 360;
+    return { x: dLon * cos * KM_PER_DEG_LAT, y: (p.lat - loc.lat) * KM_PER_DEG_LAT };
+  };
+  let best = Number.POSITIVE_INFINITY;
+  for (let i = 1; i < path.length; i++) {
+    const a = project(path[i - 1]);
+    const b = project(path[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    // Closest point of segment a-b to the origin (the point itself)
+    const t = len2 > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / len2)) : 0;
+    best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return best;
+}
+
+// Bounding ranges of the corridor: the path's box padded by the width (paths crossing the antimeridian
+// are not split and end up with a box spanning the other way round)
+function routeScope(route: { path: LatLon[]; widthKm: number }): GeoScope {
+  const { path, widthKm } = route;
+  const lats = path.map((p) => p.lat);
+  const lons = path.map((p) => p.lon);
+  const dLat = widthKm / KM_PER_DEG_LAT;
+  const maxAbsLat = Math.min(89.9, Math.max(...lats.map(Math.abs)) + dLat);
+  const dLon = widthKm / (KM_PER_DEG_LAT * Math.cos((maxAbsLat * Math.PI) / 180));
+  const latRange = { gte: Math.max(-90, Math.min(...lats) - dLat), lte: Math.min(90, Math.max(...lats) + dLat) };
+  const lngRanges = [{ gte: Math.max(-180, Math.min(...lons) - dLon), lte: Math.min(180, Math.max(...lons) + dLon) }];
+  return {
+    origin: path[0],
+    route: { path, widthKm },
+    latRange,
+    lngRanges,
+    contains(loc) {
+      if (!loc || !Number.isFinite(loc.lat) || !Number.isFinite(loc.lon)) return false;
+      if (loc.lat < latRange.gte || loc.lat > latRange.lte || !inRanges(loc.lon, lngRanges)) return false;
+      return distanceToPathKm(path, loc) <= widthKm;
+    },
+  };
+}
+
+export function buildGeoScope(where: Pick<WhereInput, 'geo' | 'bbox' | 'route'> | undefined): GeoScope | undefined {
+  if (where?.route) return routeScope({ path: where.route.path, widthKm: where.route.widthKm ?? 5 });
+  const geo = where?.geo && where.geo.lat != null && where.geo.lon != null ? where.geo : undefined;
+  const bbox = where?.bbox;
+  if (!geo && !bbox) return undefined;
+
+  const userPoint = geo ? { lat: geo.lat, lon: geo.lon } : undefined;
+  const radiusKm = geo ? geo.radiusKm ?? 5 : undefined;
+  const fromRadius = userPoint && radiusKm != null ? radiusBox(userPoint, radiusKm) : undefined;
+  const fromBbox = bbox ? bboxRanges(bbox) : undefined;
+
+  let latRange: Range;
+  let lngRanges: Range[];
+  if (fromRadius && fromBbox) {
+    latRange = { gte: Math.max(fromRadius.latRange.gte, fromBbox.latRange.gte), lte: Math.min(fromRadius.latRange.lte, fromBbox.latRange.lte) };
+    lngRanges = intersectRanges(fromRadius.lngRanges, fromBbox.lngRanges);
+  } else {
+    ({ latRange, lngRanges } = (fromRadius ?? fromBbox)!);
+  }
+
+  let origin: LatLon;
+  if (userPoint) origin = userPoint;
+  else {
+    const b = bbox!;
+    const width = b.west <= b.east ? b.east - b.west : b.east + 360 - b.west;
+    let lon = b.west + width / 2;
+    if (lon > 180) lon -= 360;
+    origin = { lat: (b.south + b.north) / 2, lon };
+  }
+
+  return {
+    origin,
+    userPoint,
+    radiusKm,
+    bbox,
+    latRange,
+    lngRanges,
+    contains(loc) {
+      if (!loc || !Number.isFinite(loc.lat) || !Number.isFinite(loc.lon)) return false;
+      if (loc.lat < latRange.gte || loc.lat > latRange.lte || !inRanges(loc.lon, lngRanges)) return false;
+      if (userPoint && radiusKm != null && haversineKm(userPoint, loc) > radiusKm) return false;
+      return true;
+    },
+  };
+}
+
+// Distance used for ordering: from the origin, or from the route for corridors
+export function distanceFromOrigin(scope: GeoScope, loc: LatLon | null | undefined): number {
+  if (!loc) return Number.POSITIVE_INFINITY;
+  if (scope.route) return distanceToPathKm(scope.route.path, loc);
+  return haversineKm(scope.origin, loc);
+}
+
+// Prisma where fragment for models with lat/lng columns (Place, EventOccurrence)
+export function latLngWhere(scope: GeoScope): Record<string, unknown> {
+  if (!scope.lngRanges.length) return { id: { in: [] } };
+  const lat = { gte: scope.latRange.gte, lte: scope.latRange.lte };
+  if (scope.lngRanges.length === 1) return { lat, lng: { gte: scope.lngRanges[0].gte, lte: scope.lngRanges[0].lte } };
+  return { lat, OR: scope.lngRanges.map((r) => ({ lng: { gte: r.gte, lte: r.lte } })) };
+}
+
+// Occurrence located by its own coordinates or, when missing, by its venue
+export function occurrenceGeoWhere(scope: GeoScope): Record<string, unknown> {
+  return {
+    OR: [
+      latLngWhere(scope),
+      { lat: null, place: { is: latLngWhere(scope) } },
+    ],
+  };
+}
+
+// DB City ids the search is restricted to (where.city and where.cities together)
+export function searchCityIds(where: Pick<WhereInput, 'city' | 'cities'> | undefined): string[] {
+  const ids = [where?.city?.id, ...(where?.cities ?? [])].filter((id): id is number => id != null);
+  return Array.from(new Set(ids.map(String)));
+}
+
+// A hit, or `count` matching rows of one type and city
+type AreaHit = { type: string; city?: { id: string; name?: string } | null; count?: number };
+
+// Matching items per city for multi-area searches (several cities, or a route crossing them); undefined otherwise.
+// Requested cities are listed in request order, even when empty; route areas by size, hits outside any city last.
+export function areaBreakdown(where: Pick<WhereInput, 'city' | 'cities' | 'route'> | undefined, hits: AreaHit[]): SearchArea[] | undefined {
+  const cityIds = searchCityIds(where);
+  if (!where?.route && cityIds.length < 2) return undefined;
+  const areas = new Map<string | null, SearchArea>();
+  const area = (cityId: string | null, name?: string) => {
+    let a = areas.get(cityId);
+    if (!a) {
+      a = { cityId, name, total: 0, totalPlaces: 0, totalEvents: 0 };
+      areas.set(cityId, a);
+    }
+    return a;
+  };
+  for (const id of cityIds) area(id, GEO_CITIES.find((c) => String(c.id) === id)?.name);
+  for (const h of hits) {
+    const a = area(h.city?.id ?? null, h.city?.name);
+    a.name ??= h.city?.name;
+    const n = h.count ?? 1;
+    a.total += n;
+    if (h.type === 'place') a.totalPlaces += n;
+    else a.totalEvents += n;
+  }
+  const list = [...areas.values()];
+  if (cityIds.length) return list;
+  return list.sort((a, b) => (a.cityId == null ? 1 : 0) - (b.cityId == null ? 1 : 0) || b.total - a.total);
+}
@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import type { SourceType } from './search.schemas.js';
+import { eventHitSchema, searchHitSchema } from './search.schemas.js';
+import { resolveExpectedDurationForPlace } from '../catalog/taxonomy/duration.js';
+import type { OpeningHours, OpeningState } from '../catalog/places/opening-hours.js';
+import { zonedParts } from '../../shared/timezone.js';
+
+// DB rows → search hits. Rows must be loaded with placeHitSelect / eventHitSelect; shared by DB search and similar items.
+
+export type SearchHit = z.infer<typeof searchHitSchema>;
+type EventHit = z.infer<typeof eventHitSchema>;
+
+export const placeHitSelect = {
+  id: true,
+  name: true,
+  description: true,
+  cityId: true,
+  city: { select: { id: true, name: true, countryCode: true, codeIATA: true, tz: true } as any },
+  lat: true,
+  lng: true,
+  address: true,
+  url: true,
+  imageUrl: true,
+  mainCategory: { select: { id: true, key: true, title: true } as any },
+  popularityScore: true,
+  qualityScore: true,
+  freshnessScore: true,
+  reviewCount: true,
+  rating: true,
+  priceTier: true,
+  provider: true,
+  providerCategories: true,
+  openingHours: true,
+  venueType: true,
+  tags: true,
+  createdAt: true,
+  sources: { select: { source: true, externalId: true, url: true } as any },
+  categories: { select: { category: { select: { key: true, title: true } as any } } },
+};
+
+// Occurrence columns of event hits (nextOccurrence, and hit.occurrences for the map formats)
+export const occurrenceHitSelect = {
+  id: true,
+  startTime: true,
+  endTime: true,
+  timezone: true,
+  lat: true,
+  lng: true,
+  url: true,
+  place: { select: { id: true, name: true, lat: true, lng: true } as any },
+};
+
+// The first occurrence matching `occurrenceWhere` becomes hit.nextOccurrence
+export function eventHitSelect(occurrenceWhere: any) {
+  return {
+    id: true,
+    title: true,
+    description: true,
+    imageUrl: true,
+    cityId: true,
+    city: { select: { id: true, name: true, countryCode: true, codeIATA: true } as any },
+    mainCategory: { select: { id: true, key: true, title: true } as any },
+    popularityScore: true,
+    qualityScore: true,
+    freshnessScore: true,
+    priceTier: true,
+    priceFrom: true,
+    priceTo: true,
+    currency: true,
+    isOnline: true,
+    ageLimit: true,
+    venueType: true,
+    languages: true,
+    ticketsUrl: true,
+    provider: true,
+    providerCategories: true,
+    createdAt: true,
+    sources: { select: { source: true, externalId: true, url: true } as any },
+    categories: { select: { category: { select: { key: true, title: true } as any } } },
+    occurrences: {
+      where: occurrenceWhere,
+      orderBy: { startTime: 'asc' as const },
+      take: 1,
+      select: occurrenceHitSelect,
+    },
+  };
+}
+
+// Local weekday (0 = Sunday) of a start in the occurrence's time zone (UTC when missing or invalid)
+export function computeWeekday(iso?: string, timeZone?: string | null): number | undefined {
+  if (!iso) return undefined;
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return undefined;
+  return zonedParts(d, timeZone).weekday;
+}
+
+// Location of an occurrence: own coordinates, else its venue
+export function occurrenceLocation(occ?: { lat?: unknown; lng?: unknown; place?: { lat?: unknown; lng?: unknown } | null } | null): { lat: number; lon: number } | null {
+  if (!occ) return null;
+  if (occ.lat != null && occ.lng != null) return { lat: Number(occ.lat), lon: Number(occ.lng) };
+  if (occ.place && occ.place.lat != null && occ.place.lng != null) return { lat: Number(occ.place.lat), lon: Number(occ.place.lng) };
+  return null;
+}
+
+// An occurrence row (occurrenceHitSelect) as an entry of hit.occurrences
+export function occurrenceEntry(occ: any): NonNullable<EventHit['occurrences']>[number] {
+  return {
+    id: occ.id,
+    start: occ.startTime.toISOString(),
+    end: occ.endTime ? occ.endTime.toISOString() : undefined,
+    location: occurrenceLocation(occ) ?? undefined,
+    venueId: occ.place?.id ?? undefined,
+    timezone: occ.timezone ?? undefined,
+  };
+}
+
+export function placeLocation(p: { lat?: unknown; lng?: unknown }): { lat: number; lon: number } | null {
+  return p.lat != null && p.lng != null ? { lat: Number(p.lat), lon: Number(p.lng) } : null;
+}
+
+// Primary category first, then the others
+export function hitCategorySlugs(hit: Pick<SearchHit, 'primaryCategory' | 'categories'>): string[] {
+  return [hit.primaryCategory?.slug, ...(hit.categories ?? []).map((c) => c.slug)].filter(Boolean) as string[];
+}
+
+// Prisma VenueType → response-level indoorOutdoor
+function mapVenueType(v?: string | null): 'indoor' | 'outdoor' | 'any' | undefined {
+  if (v === 'INDOOR') return 'indoor';
+  if (v === 'OUTDOOR') return 'outdoor';
+  if (v === 'ANY') return 'any';
+  return undefined;
+}
+
+// Provider → response-level sourceType
+function mapSourceType(p?: SourceType | null): 'API' | 'PARTNER' | 'MANUAL' | 'INTERNAL' {
+  if (!p) return 'API';
+  if (p === 'PARTNER') return 'PARTNER';
+  if (p === 'MANUAL') return 'MANUAL';
+  // External APIs → API
+  return 'API';
+}
+
+function citySummary(city: any) {
+  return city
+    ? {
+        id: city.id,
+        code: city.codeIATA ?? city.id,
+        name: city.name,
+        countryCode: city.countryCode,
+      }
+    : null;
+}
+
+function sourceRefs(sources: any) {
+  return Array.isArray(sources)
+    ? sources.map((s: any) => ({ source: s.source, externalId: String(s.externalId), url: s.url ?? undefined }))
+    : undefined;
+}
+
+// categoryMeta.raw from providerCategories (comma-separated string)
+function categoryMetaOf(providerCategories: unknown) {
+  const rawCats = typeof providerCategories === 'string' && providerCategories.length
+    ? providerCategories.split(',').map((s: string) => s.trim()).filter((s: string) => s.length)
+    : undefined;
+  return rawCats && rawCats.length ? { raw: rawCats } : undefined;
+}
+
+type HitScores = { rank: number; relevance?: number; profileMatch?: number };
+
+export function placeRowToHit(
+  p: any,
+  extra: HitScores & { distanceKm?: number; hours?: OpeningHours | null; hoursTz?: string; openState?: OpeningState }
+): SearchHit {
+  const primaryCatSlug = (p.mainCategory as any)?.key as string | undefined;
+  const categoriesArr = Array.isArray(p.categories)
+    ? p.categories.map((c: any) => ({ slug: c.category.key as string, type: 'PLACE' as const, name: c.category.title as string | undefined }))
+    : [];
+  // Choose url: use first source url if present
+  const firstSourceUrl: string | undefined = Array.isArray(p.sources) && p.sources.length ? (p.sources[0]?.url ?? undefined) : undefined;
+  const { hours, openState, distanceKm } = extra;
+  return {
+    id: p.id,
+    type: 'place',
+    title: p.name || 'Place',
+    description: p.description ?? null,
+    city: citySummary(p.city),
+    primaryCategory: primaryCatSlug ? { slug: primaryCatSlug, type: 'PLACE', name: (p.mainCategory as any)?.title } : null,
+    categories: categoriesArr,
+    cardType: undefined,
+    address: p.address || undefined,
+    location: placeLocation(p),
+    distanceKm,
+    indoorOutdoor: mapVenueType(p.venueType),
+    priceTier: (p.priceTier as any) ?? null,
+    rating: p.rating ?? null,
+    reviewCount: p.reviewCount ?? null,
+    imageUrl: p.imageUrl ?? null,
+    photos: [],
+    sourceType: mapSourceType(p.provider as SourceType | undefined),
+    sourceProvider: p.provider ?? undefined,
+    sources: sourceRefs(p.sources),
+    url: p.url ?? firstSourceUrl ?? undefined,
+    scores: {
+      rank: extra.rank,
+      popularity: p.popularityScore ?? undefined,
+      quality: p.qualityScore ?? undefined,
+      freshness: p.freshnessScore ?? undefined,
+      relevance: extra.relevance,
+      profileMatch: extra.profileMatch,
+      distance: distanceKm,
+    },
+    openingHours: hours && hours.periods.length ? { timezone: extra.hoursTz, periods: hours.periods } : null,
+    openNow: openState?.openNow,
+    openUntil: openState?.openUntil,
+    expectedDuration: resolveExpectedDurationForPlace(primaryCatSlug ?? 'place.other'),
+    categoryMeta: categoryMetaOf(p.providerCategories),
+  } as any as SearchHit;
+}
+
+export function eventRowToHit(e: any, extra: HitScores & { distanceKm?: number }): SearchHit {
+  const occ = Array.isArray(e.occurrences) && e.occurrences.length ? e.occurrences[0] : undefined;
+  const occLoc = occurrenceLocation(occ);
+  const primaryCatSlug = (e.mainCategory as any)?.key as string | undefined;
+  // Categories array (excluding primary duplication is ok for now)
+  const categoriesArr = Array.isArray(e.categories)
+    ? e.categories
+        .map((c: any) => ({ slug: c.category.key as string, type: 'EVENT' as const, name: c.category.title as string | undefined }))
+    : [];
+  // Choose url/ticketsUrl: prefer occurrence.url, fallback to event.ticketsUrl, then first source url
+  const firstSourceUrl: string | undefined = Array.isArray(e.sources) && e.sources.length ? (e.sources[0]?.url ?? undefined) : undefined;
+  const url = occ?.url ?? e.ticketsUrl ?? firstSourceUrl;
+  const ticketsUrl = url ?? e.ticketsUrl ?? firstSourceUrl;
+  const nextOccurrence = occ
+    ? {
+        id: occ.id,
+        startsAt: occ.startTime.toISOString(),
+        endsAt: occ.endTime ? occ.endTime.toISOString() : undefined,
+        timezone: occ.timezone ?? undefined,
+        weekday: computeWeekday(occ.startTime.toISOString(), occ.timezone),
+        location: occLoc,
+        place: occ.place ? { id: occ.place.id, name: occ.place.name ?? undefined } : null,
+      }
+    : null;
+  return {
+    id: e.id,
+    type: 'event',
+    title: e.title || 'Event',
+    description: e.description ?? null,
+    city: citySummary(e.city),
+    primaryCategory: primaryCatSlug ? { slug: primaryCatSlug, type: 'EVENT', name: (e.mainCategory as any)?.title } : null,
+    categories: categoriesArr,
+    cardType: undefined,
+    address: undefined,
+    location: occLoc,
+    distanceKm: extra.distanceKm,
+    indoorOutdoor: mapVenueType(e.venueType),
+    priceTier: (e.priceTier as any) ?? null,
+    rating: undefined,
+    reviewCount: undefined,
+    imageUrl: e.imageUrl ?? null,
+    photos: [],
+    sourceType: mapSourceType(e.provider as SourceType | undefined),
+    sourceProvider: e.provider ?? undefined,
+    sources: sourceRefs(e.sources),
+    url: url ?? undefined,
+    scores: {
+      rank: extra.rank,
+      popularity: e.popularityScore ?? undefined,
+      quality: e.qualityScore ?? undefined,
+      freshness: e.freshnessScore ?? undefined,
+      relevance: extra.relevance,
+      profileMatch: extra.profileMatch,
+      distance: extra.distanceKm,
+    },
+    isOnline: typeof e.isOnline === 'boolean' ? e.isOnline : undefined,
+    nextOccurrence,
+    occurrences: undefined,
+    priceFrom: e.priceFrom ?? null,
+    priceTo: e.priceTo ?? null,
+    currency: e.currency ?? undefined,
+    isFree: e.priceFrom === 0 ? true : undefined,
+    languages: Array.isArray(e.languages) && e.languages.length ? (e.languages as any) : undefined,
+    ageLimit: typeof e.ageLimit === 'number' ? e.ageLimit : undefined,
+    ticketsUrl: ticketsUrl ?? undefined,
+    categoryMeta: categoryMetaOf(e.providerCategories),
+  } as any as SearchHit;
+}
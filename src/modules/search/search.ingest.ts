@@ -0,0 +1,195 @@
+import type { FastifyInstance } from 'fastify';
+import type { SearchRequest, SourceType } from './search.schemas.js';
+import { loadSearchCalendar, resolveTimeWindow } from './search.time.js';
+import type { BaseQuery, EventProvider, OnlineIngestResult, PlaceProvider } from '../ingestion/ingestion.service.js';
+import { buildEventProviders, buildPlaceProviders } from '../ingestion/provider.adapters.js';
+import type { IngestLogger } from '../ingestion/ingest.logger.js';
+import { GeoService } from '../geo/geo.service.js';
+import { searchCityIds } from './search.geo.js';
+import { haversineKm } from '../../shared/utils.js';
+import { SEARCH_AREA_INGEST_MAX } from '../../config/search.js';
+
+// First-page online ingest of /api/search: the provider query and providers a search request maps to
+
+export type OnlineIngestPlan = {
+  baseQuery: BaseQuery;
+  eventProviders: EventProvider[];
+  placeProviders: PlaceProvider[];
+};
+
+const ALL_SOURCES: SourceType[] = ['TICKETMASTER', 'PREDICTHQ', 'GEOAPIFY', 'GOOGLE_PLACES', 'FOURSQUARE'];
+// Providers take a circle of at most this radius
+const MAX_INGEST_RADIUS_KM = 50;
+
+type LatLon = { lat: number; lon: number };
+
+// Circles covering a route: the path is cut into stretches of equal length, each ingested around its midpoint.
+// Circles are capped at 50 km, so routes longer than maxCircles × 100 km are only partly covered.
+export function routeIngestCircles(path: LatLon[], widthKm: number, maxCircles: number): Array<LatLon & { radiusKm: number }> {
+  const legs = path.slice(1).map((p, i) => haversineKm(path[i], p));
+  const length = legs.reduce((a, b) => a + b, 0);
+  const count = Math.max(1, Math.min(maxCircles, Math.ceil(length / (2 * MAX_INGEST_RADIUS_KM))));
+  const stretch = length / count;
+  const pointAt = (distKm: number): LatLon => {
+    for (let i = 0; i < legs.length; i++) {
+      if (distKm <= legs[i] || i === legs.length - 1) {
+        const t = legs[i] > 0 ? Math.min(1, distKm / legs[i]) : 0;
+        return { lat: path[i].lat + (path[i + 1].lat - path[i].lat) * t, lon: path[i].lon + (path[i + 1].lon - path[i].lon) * t };
+      }
+      distKm -= legs[i];
+    }
+    return path[0];
+  };
+  const radiusKm = Math.min(MAX_INGEST_RADIUS_KM, Math.max(widthKm, stretch / 2));
+  return Array.from({ length: count }, (_, i) => ({ ...pointAt(stretch * (i + 0.5)), radiusKm }));
+}
+
+// One plan per searched area: each city of a multi-city search, or stretches of a route, up to
+// SEARCH_AREA_INGEST_MAX; a single-area search has exactly one plan
+export async function buildOnlineIngestPlans(app: FastifyInstance, query: SearchRequest): Promise<{ plans: OnlineIngestPlan[]; warnings: string[] }> {
+  const warnings: string[] = [];
+  const cityIds = searchCityIds(query.where);
+  let areas: SearchRequest['where'][];
+  if (cityIds.length > 1) {
+    areas = cityIds.map((id) => (query.where?.city && String(query.where.city.id) === id ? { city: query.where.city } : { city: { id: Number(id) } }));
+  } else if (query.where?.route) {
+    const { path, widthKm } = query.where.route;
+    areas = routeIngestCircles(path, widthKm ?? 5, SEARCH_AREA_INGEST_MAX).map(({ lat, lon, radiusKm }) => ({ geo: { lat, lon, radiusKm } }));
+  } else {
+    // A single entry of where.cities stands for where.city
+    const single = cityIds.length && !query.where?.city ? { ...query, where: { ...query.where, city: { id: Number(cityIds[0]) } } } : query;
+    return { plans: [await buildOnlineIngestPlan(app, single)], warnings };
+  }
+  if (areas.length > SEARCH_AREA_INGEST_MAX) {
+    warnings.push(`online ingest limited to the first ${SEARCH_AREA_INGEST_MAX} of ${areas.length} areas`);
+    areas = areas.slice(0, SEARCH_AREA_INGEST_MAX);
+  }
+  const plans: OnlineIngestPlan[] = [];
+  for (const where of areas) plans.push(await buildOnlineIngestPlan(app, { ...query, where }));
+  return { plans, warnings };
+}
+
+export async function buildOnlineIngestPlan(app: FastifyInstance, query: SearchRequest): Promise<OnlineIngestPlan> {
+  // Use validated config exposed on app instance
+  const { TICKETMASTER_API_KEY, PREDICTHQ_TOKEN, GEOAPIFY_API_KEY, GOOGLE_PLACES_API_KEY, FOURSQUARE_API_KEY } = app.config;
+  // Determine requested sources
+  const requestedSources = new Set<SourceType>(
+    query.filters?.sources && query.filters.sources.length ? query.filters.sources : ALL_SOURCES
+  );
+
+  // Build BaseQuery enriched from city when provided; the window is resolved as the DB search resolves it
+  const { timeZone, holidays } = await loadSearchCalendar(app.prisma, query, new Date());
+  const tw = resolveTimeWindow(query, { timeZone, holidays });
+  const baseQuery: BaseQuery = {
+    q: query.q,
+    lat: query.where?.geo?.lat,
+    lon: query.where?.geo?.lon,
+    radiusKm: query.where?.geo?.radiusKm ?? 10,
+    cityId: query.where?.city?.id != null ? String(query.where.city.id) : undefined,
+    fromISO: tw.fromISO,
+    toISO: tw.toISO,
+    size: undefined,
+  };
+
+  // If city.id provided but no explicit geo, enrich lat/lon/radius and city meta
+  try {
+    if (!baseQuery.lat && !baseQuery.lon && query.where?.city?.id != null) {
+      const geo = new GeoService();
+      const cityObj = geo.getCityById(query.where.city.id as any);
+      if (cityObj) {
+        const centerLat = cityObj.coordinates?.lat;
+        const centerLon = cityObj.coordinates?.lon;
+        if (centerLat != null && centerLon != null) {
+          baseQuery.lat = centerLat;
+          baseQuery.lon = centerLon;
+        }
+        // approximate radius from bbox half-diagonal if available
+        if (cityObj.boundingBox) {
+          const south = cityObj.boundingBox.minLat;
+          const west = cityObj.boundingBox.minLon;
+          const north = cityObj.boundingBox.maxLat;
+          const east = cityObj.boundingBox.maxLon;
+          if (
+            typeof south === 'number' && typeof west === 'number' &&
+            typeof north === 'number' && typeof east === 'number' &&
+            typeof centerLat === 'number' && typeof centerLon === 'number'
+          ) {
+            const toRad = (x: number) => (x * Math.PI) / 180;
+            const R = 6371;
+            const dLat = toRad(north - centerLat);
+            const dLon = toRad(east - centerLon);
+            const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(centerLat)) * Math.cos(toRad(north)) * Math.sin(dLon / 2) ** 2;
+            const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+            const halfDiagonalKm = R * c;
+            baseQuery.radiusKm = Math.max(2, Math.min(50, Math.round(halfDiagonalKm)));
+          }
+        }
+        baseQuery.cityName = cityObj.name;
+        baseQuery.countryCode = cityObj.countryCode;
+      }
+    }
+  } catch {
+    // ignore enrichment errors
+  }
+
+  // Optional helpers for city text search and bbox — prefer DB City bbox/name when city.id is provided
+  let rect = query.where?.bbox
+    ? { minLon: query.where.bbox.west, minLat: query.where.bbox.south, maxLon: query.where.bbox.east, maxLat: query.where.bbox.north }
+    : undefined;
+  let textSearchCityQuery = query.where?.city?.name;
+  if (!rect && query.where?.city?.id != null) {
+    try {
+      const cityRow = await app.prisma.city.findUnique({
+        where: { id: String(query.where.city.id) },
+        select: { name: true, countryCode: true, minLat: true, minLng: true, maxLat: true, maxLng: true },
+      });
+      if (cityRow) {
+        textSearchCityQuery ||= cityRow.name;
+        if (
+          cityRow.minLat != null && cityRow.minLng != null &&
+          cityRow.maxLat != null && cityRow.maxLng != null
+        ) {
+          rect = { minLon: Number(cityRow.minLng as any), minLat: Number(cityRow.minLat as any), maxLon: Number(cityRow.maxLng as any), maxLat: Number(cityRow.maxLat as any) };
+        }
+      }
+    } catch {
+      // ignore DB errors here
+    }
+  }
+
+  const keys = {
+    ticketmasterApiKey: TICKETMASTER_API_KEY,
+    predicthqToken: PREDICTHQ_TOKEN,
+    geoapifyApiKey: GEOAPIFY_API_KEY,
+    googlePlacesApiKey: GOOGLE_PLACES_API_KEY,
+    foursquareApiKey: FOURSQUARE_API_KEY,
+  };
+  return {
+    baseQuery,
+    eventProviders: buildEventProviders(keys, requestedSources),
+    placeProviders: buildPlaceProviders(keys, requestedSources, { textSearchCityQuery, rect }),
+  };
+}
+
+// Stats of several areas' ingests added up
+export function mergeIngestResults(results: OnlineIngestResult[]): OnlineIngestResult {
+  const sum = (pick: (r: OnlineIngestResult) => OnlineIngestResult['placeStats']) => ({
+    total: results.reduce((n, r) => n + pick(r).total, 0),
+    created: results.reduce((n, r) => n + pick(r).created, 0),
+    updated: results.reduce((n, r) => n + pick(r).updated, 0),
+    unchanged: results.reduce((n, r) => n + pick(r).unchanged, 0),
+    errors: results.reduce((n, r) => n + pick(r).errors, 0),
+    warnings: results.flatMap((r) => pick(r).warnings ?? []),
+  });
+  return { placeStats: sum((r) => r.placeStats), eventStats: sum((r) => r.eventStats), warnings: results.flatMap((r) => r.warnings ?? []) };
+}
+
+// Short warnings merged into the search response (at most 10)
+export function ingestWarnings(result: OnlineIngestResult, logger: IngestLogger): string[] {
+  return [
+    `ingest places: total=${result.placeStats.total} created=${result.placeStats.created} updated=${result.placeStats.updated} unchanged=${result.placeStats.unchanged} errors=${result.placeStats.errors}`,
+    `ingest events: total=${result.eventStats.total} created=${result.eventStats.created} updated=${result.eventStats.updated} unchanged=${result.eventStats.unchanged} errors=${result.eventStats.errors}`,
+    ...result.warnings.slice(0, 5),
+    ...logger.summary(5),
+  ].slice(0, 10);
+}
@@ -0,0 +1,153 @@
+import type { MapFeature, SearchFormat, SearchMapResponse, SearchRequest, SearchResponse } from './search.schemas.js';
+import type { SearchHit } from './search.hits.js';
+import { AppError } from '../../shared/errors.js';
+import { SEARCH_MAP_MAX_FEATURES } from '../../config/search.js';
+
+// Map formats of /api/search: the ranked hits of searchUnifiedFromDb rendered as a GeoJSON FeatureCollection,
+// either one point per place / event occurrence in the window and the area (geojson) or grid clusters for a zoom level (clusters).
+
+export type MapFormat = Exclude<SearchFormat, 'hits'>;
+
+const TILE_SIZE_PX = 256;
+// Points closer than this on screen (at the requested zoom) share a cluster
+const CLUSTER_RADIUS_PX = 60;
+
+export function mapFormatOf(query: Pick<SearchRequest, 'format'>): MapFormat | undefined {
+  return query.format === 'geojson' || query.format === 'clusters' ? query.format : undefined;
+}
+
+export function assertMapRequest(query: SearchRequest): void {
+  if (query.format !== 'clusters') return;
+  if (query.zoom == null || !query.where?.bbox) {
+    throw new AppError('format=clusters requires zoom and where.bbox', 400, { code: 'INVALID_MAP_REQUEST' });
+  }
+}
+
+type Bbox = { south: number; west: number; north: number; east: number };
+
+function inBbox(b: Bbox, p: { lat: number; lon: number }): boolean {
+  if (p.lat < b.south || p.lat > b.north) return false;
+  // west > east crosses the antimeridian
+  return b.west <= b.east ? p.lon >= b.west && p.lon <= b.east : p.lon >= b.west || p.lon <= b.east;
+}
+
+// Web Mercator world pixel coordinates at a zoom level
+function worldPixel(p: { lat: number; lon: number }, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE_PX * 2 ** zoom;
+  const sin = Math.min(0.9999, Math.max(-0.9999, Math.sin((p.lat * Math.PI) / 180)));
+  return {
+    x: ((p.lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+// A point on the map: a place, or one occurrence of an event (its next one when the occurrences aren't listed)
+type MapPoint = {
+  hit: SearchHit;
+  location: { lat: number; lon: number };
+  occurrence?: { id?: string; startsAt?: string; placeId?: string };
+};
+
+// Event hits carrying `occurrences` (every occurrence in the window and the area) give one point per located occurrence
+export function hitPoints(hit: SearchHit): MapPoint[] {
+  const occurrences = hit.type === 'event' ? (hit as any).occurrences : undefined;
+  if (Array.isArray(occurrences) && occurrences.length) {
+    return occurrences
+      .filter((o: any) => o.location)
+      .map((o: any) => ({ hit, location: o.location, occurrence: { id: o.id, startsAt: o.start, placeId: o.venueId } }));
+  }
+  if (!hit.location) return [];
+  const next = hit.type === 'event' ? (hit as any).nextOccurrence : undefined;
+  return [{ hit, location: hit.location, occurrence: next ? { id: next.id, startsAt: next.startsAt, placeId: next.place?.id } : undefined }];
+}
+
+function pointFeature({ hit, location, occurrence }: MapPoint): MapFeature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [location.lon, location.lat] },
+    properties: {
+      id: hit.id,
+      type: hit.type,
+      title: hit.title,
+      category: hit.primaryCategory?.slug ?? null,
+      priceTier: hit.priceTier ?? null,
+      rating: hit.rating ?? null,
+      rank: hit.scores?.rank,
+      occurrenceId: occurrence?.id,
+      startsAt: occurrence?.startsAt,
+      placeId: occurrence?.placeId,
+    },
+  };
+}
+
+// Grid clustering in screen space; single points stay plain hit features
+export function clusterHits(hits: SearchHit[], zoom: number, bbox: Bbox): MapFeature[] {
+  return clusterPoints(hits.flatMap(hitPoints), zoom, bbox);
+}
+
+function clusterPoints(points: MapPoint[], zoom: number, bbox: Bbox): MapFeature[] {
+  const cells = new Map<string, MapPoint[]>();
+  for (const point of points) {
+    if (!inBbox(bbox, point.location)) continue;
+    const px = worldPixel(point.location, zoom);
+    const key = `${zoom}/${Math.floor(px.x / CLUSTER_RADIUS_PX)}/${Math.floor(px.y / CLUSTER_RADIUS_PX)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  }
+  const features: MapFeature[] = [];
+  for (const [clusterId, members] of cells) {
+    if (members.length === 1) {
+      features.push(pointFeature(members[0]));
+      continue;
+    }
+    const categories = new Map<string, number>();
+    let lat = 0;
+    let lon = 0;
+    let places = 0;
+    for (const { hit, location } of members) {
+      lat += location.lat;
+      lon += location.lon;
+      if (hit.type === 'place') places++;
+      const slug = hit.primaryCategory?.slug;
+      if (slug) categories.set(slug, (categories.get(slug) ?? 0) + 1);
+    }
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [lon / members.length, lat / members.length] },
+      properties: {
+        cluster: true,
+        clusterId,
+        pointCount: members.length,
+        types: { place: places, event: members.length - places },
+        categories: [...categories.entries()]
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .map(([slug, count]) => ({ slug, count })),
+      },
+    });
+  }
+  // Biggest clusters first, so that clients drawing in order keep them on top
+  const size = (f: MapFeature) => ('pointCount' in f.properties ? f.properties.pointCount : 1);
+  return features.sort((a, b) => size(b) - size(a));
+}
+
+// `resp` must come from searchUnifiedFromDb with maxItems and allOccurrences, i.e. hold every ranked hit
+export function renderMapResponse(query: SearchRequest, resp: SearchResponse): SearchMapResponse {
+  const format = mapFormatOf(query) ?? 'geojson';
+  const hits = resp.items as SearchHit[];
+  const bbox = query.where?.bbox;
+  // Points in rank order, an event's occurrences together; capped like the hits
+  const points = hits.flatMap(hitPoints).slice(0, SEARCH_MAP_MAX_FEATURES);
+  const features = format === 'clusters' ? clusterPoints(points, query.zoom ?? 0, bbox!) : points.map(pointFeature);
+  return {
+    type: 'FeatureCollection',
+    format,
+    queryId: resp.queryId,
+    total: resp.total,
+    tookMs: resp.tookMs,
+    warnings: resp.warnings,
+    zoom: format === 'clusters' ? query.zoom : undefined,
+    bbox: bbox ? [bbox.west, bbox.south, bbox.east, bbox.north] : undefined,
+    features,
+  };
+}
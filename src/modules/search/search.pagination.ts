@@ -0,0 +1,225 @@
+import crypto from 'node:crypto';
+import { Prisma } from '@prisma/client';
+import { AppError } from '../../shared/errors.js';
+import type { PaginationInput, SearchRequest, SearchSort } from './search.schemas.js';
+import { floatSql } from './search.candidates.js';
+
+// Pagination for DB-backed search.
+// Hits are ordered by a numeric sort key plus id, so "after the last item" is well defined for a cursor.
+// The key is computed in SQL over the candidate rows (sortKeySql), whose ordered batches are read only as far as
+// the page needs (readInOrder); a cursor page starts its read at the cursor.
+// A cursor also pins `asOf`: later pages skip rows created after the first page and evaluate time windows
+// and opening hours at the same instant, so ingest running in between does not shift results.
+
+export type SortKey = number[];
+
+export type SearchCursor = {
+  v: number;
+  sort: SearchSort;
+  key: SortKey;
+  id: string;
+  asOf: string;
+  // Fingerprint of the request the cursor belongs to
+  fp: string;
+  // Diversified order (search.diversify.ts): ids past the anchor already shown, runs at the end of the page
+  seen?: string[];
+  runs?: Array<[string | null, number]>;
+  // Position of the next page's first hit (absent in older cursors)
+  offset?: number;
+};
+
+export type PageRequest = {
+  limit: number;
+  // Resolved position: from the cursor, page or offset (in that order of precedence)
+  cursor?: SearchCursor;
+  offset: number;
+  asOf: Date;
+};
+
+export type PageResult<T> = {
+  items: T[];
+  offset: number;
+  page: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+};
+
+const CURSOR_VERSION = 1;
+const MAX_LIMIT = 100;
+// JSON has no Infinity: missing values sort last through a large finite sentinel
+const LAST = 1e300;
+const PRICE_WEIGHT: Record<string, number> = { FREE: 1, CHEAP: 2, MODERATE: 3, EXPENSIVE: 4 };
+
+// Ascending sort key of a candidate row `alias` (search.candidates.ts) without its rank part.
+// byRank: rank (descending) breaks ties, as the last key element -rank of the hit; the distance sort with a scope
+// orders by distance and id only.
+export function sortKeySql(sort: SearchSort, opts: { hasScope: boolean; alias: string }): { keys: Prisma.Sql[]; byRank: boolean } {
+  const col = (name: string) => Prisma.raw(`${opts.alias}."${name}"`);
+  const last = floatSql(LAST);
+  switch (sort) {
+    case 'distance':
+      return opts.hasScope ? { keys: [Prisma.sql`coalesce(${col('d')}, ${last})`], byRank: false } : { keys: [], byRank: true };
+    case 'start_time':
+      return {
+        keys: [Prisma.sql`(CASE WHEN ${col('type')} = 'event' AND ${col('startTime')} IS NOT NULL
+          THEN round(extract(epoch from ${col('startTime')}) * 1000)::float8 ELSE ${last} END)`],
+        byRank: true,
+      };
+    case 'price_asc':
+    case 'price_desc': {
+      // Unknown price goes last in both directions
+      const sign = sort === 'price_asc' ? 1 : -1;
+      const whens = Object.entries(PRICE_WEIGHT).map(([tier, w]) => Prisma.sql`WHEN ${tier} THEN ${floatSql(sign * w)}`);
+      return { keys: [Prisma.sql`(CASE ${col('priceTier')} ${Prisma.join(whens, ' ')} ELSE ${last} END)`], byRank: true };
+    }
+    case 'rating':
+      return { keys: [Prisma.sql`-coalesce(${col('rating')}, -1)`, Prisma.sql`-coalesce(${col('reviewCount')}, 0)`], byRank: true };
+    default:
+      return { keys: [], byRank: true };
+  }
+}
+
+// Condition on an ordered candidate row `alias` (columns k0.., id and the rank floor "hlo") keeping every row that
+// may sort at or after `after`. A superset when ranks still change in memory (`floorFactors`: the smallest factors
+// a rank can be multiplied by there, in that order); the exact position is checked on the hits.
+export function cursorSql(
+  after: { key: SortKey; id: string },
+  opts: { byRank: boolean; floorFactors: number[]; alias: string }
+): Prisma.Sql {
+  const n = opts.byRank ? after.key.length - 1 : after.key.length;
+  const keys = Array.from({ length: n }, (_, i) => Prisma.raw(`${opts.alias}."k${i}"`));
+  const values = after.key.slice(0, n).map((v) => floatSql(v));
+  const id = Prisma.raw(`${opts.alias}."id" COLLATE "C"`);
+  if (!opts.byRank) return Prisma.sql`(${Prisma.join([...keys, id])}) >= (${Prisma.join([...values, Prisma.sql`${after.id}`])})`;
+  const floor = opts.floorFactors.reduce((acc, f) => Prisma.sql`(${acc} * ${floatSql(f)})`, Prisma.raw(`${opts.alias}."hlo"`));
+  const rank = Prisma.sql`${floor} <= ${floatSql(-after.key[n])}`;
+  if (!n) return rank;
+  return Prisma.sql`((${Prisma.join(keys)}) > (${Prisma.join(values)}) OR ((${Prisma.join(keys)}) = (${Prisma.join(values)}) AND ${rank}))`;
+}
+
+export function compareSortKeys(a: { key: SortKey; id: string }, b: { key: SortKey; id: string }): number {
+  const n = Math.max(a.key.length, b.key.length);
+  for (let i = 0; i < n; i++) {
+    const d = (a.key[i] ?? 0) - (b.key[i] ?? 0);
+    if (d !== 0) return d;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Fingerprint of everything but pagination: a cursor is only valid for the request that produced it
+export function requestFingerprint(query: SearchRequest): string {
+  const { pagination: _pagination, ...rest } = query;
+  return crypto.createHash('sha1').update(JSON.stringify(rest)).digest('hex').slice(0, 16);
+}
+
+export function encodeCursor(c: Omit<SearchCursor, 'v'>): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, ...c }), 'utf8').toString('base64url');
+}
+
+export function decodeCursor(raw: string): SearchCursor {
+  let c: any;
+  try {
+    c = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new AppError('Invalid cursor', 400, { code: 'INVALID_CURSOR' });
+  }
+  const valid =
+    c && c.v === CURSOR_VERSION &&
+    typeof c.sort === 'string' && typeof c.id === 'string' && typeof c.fp === 'string' &&
+    Array.isArray(c.key) && c.key.every((k: unknown) => typeof k === 'number' && Number.isFinite(k)) &&
+    typeof c.asOf === 'string' && !isNaN(Date.parse(c.asOf)) &&
+    (c.seen === undefined || (Array.isArray(c.seen) && c.seen.every((id: unknown) => typeof id === 'string'))) &&
+    (c.runs === undefined || (Array.isArray(c.runs) && c.runs.every((r: unknown) =>
+      Array.isArray(r) && (r[0] === null || typeof r[0] === 'string') && typeof r[1] === 'number'))) &&
+    (c.offset === undefined || (Number.isInteger(c.offset) && c.offset >= 0));
+  if (!valid) throw new AppError('Invalid cursor', 400, { code: 'INVALID_CURSOR' });
+  return c as SearchCursor;
+}
+
+export function resolvePageRequest(
+  query: SearchRequest,
+  opts: { now?: Date; maxCursorAgeSec: number }
+): PageRequest {
+  const p: Partial<PaginationInput> = query.pagination ?? {};
+  const now = opts.now ?? new Date();
+  const limit = Math.min(MAX_LIMIT, Math.max(1, p.limit ?? MAX_LIMIT));
+  const sort = query.sort ?? 'rank';
+
+  if (p.cursor) {
+    const cursor = decodeCursor(p.cursor);
+    if (cursor.sort !== sort || cursor.fp !== requestFingerprint(query)) {
+      throw new AppError('Cursor does not match this search request', 400, { code: 'INVALID_CURSOR' });
+    }
+    const asOf = new Date(cursor.asOf);
+    if (now.getTime() - asOf.getTime() > opts.maxCursorAgeSec * 1000) {
+      throw new AppError('Cursor expired, restart the search', 400, { code: 'CURSOR_EXPIRED' });
+    }
+    return { limit, cursor, offset: 0, asOf };
+  }
+
+  const offset = p.page != null ? (Math.max(1, p.page) - 1) * limit : Math.max(0, p.offset ?? 0);
+  return { limit, offset, asOf: now };
+}
+
+// Slice one page out of the ordered hits and build the cursor for the next one
+export function paginateSorted<T extends { id: string }>(
+  sorted: Array<{ hit: T; key: SortKey }>,
+  req: PageRequest,
+  ctx: { sort: SearchSort; fingerprint: string }
+): PageResult<T> {
+  let start = req.offset;
+  let offset = start;
+  if (req.cursor) {
+    const after = { key: req.cursor.key, id: req.cursor.id };
+    const idx = sorted.findIndex((s) => compareSortKeys({ key: s.key, id: s.hit.id }, after) > 0);
+    start = idx < 0 ? sorted.length : idx;
+    offset = req.cursor.offset ?? start;
+  }
+  const slice = sorted.slice(start, start + req.limit);
+  const hasMore = start + slice.length < sorted.length;
+  const last = slice[slice.length - 1];
+  return {
+    items: slice.map((s) => s.hit),
+    offset,
+    page: Math.floor(offset / req.limit) + 1,
+    hasMore,
+    nextCursor: hasMore && last
+      ? encodeCursor({ sort: ctx.sort, key: last.key, id: last.hit.id, asOf: req.asOf.toISOString(), fp: ctx.fingerprint, offset: offset + slice.length })
+      : null,
+  };
+}
+
+// One batch of an ordered source. No later batch holds an entry sorting before `bound`; with `inclusive`, entries
+// equal to its key that come first by id are final too. No bound: the source is exhausted.
+export type OrderedBatch<T> = {
+  entries: Array<{ hit: T; key: SortKey }>;
+  bound?: { key: SortKey; id: string; inclusive: boolean };
+};
+
+// Entries of a batched source in final order, up to `want` of them passing `accept` (called in that order).
+// Batches may come out of order within their bound, e.g. when ranks change after the rows were read.
+export async function readInOrder<T extends { id: string }>(
+  next: () => Promise<OrderedBatch<T>>,
+  opts: { want: number; accept?: (e: { hit: T; key: SortKey }) => boolean }
+): Promise<Array<{ hit: T; key: SortKey }>> {
+  const out: Array<{ hit: T; key: SortKey }> = [];
+  let buffer: Array<{ hit: T; key: SortKey }> = [];
+  while (out.length < opts.want) {
+    const batch = await next();
+    buffer = [...buffer, ...batch.entries].sort((a, b) => compareSortKeys({ key: a.key, id: a.hit.id }, { key: b.key, id: b.hit.id }));
+    const bound = batch.bound;
+    const final = bound
+      ? buffer.findIndex((e) =>
+          bound.inclusive
+            ? compareSortKeys({ key: e.key, id: e.hit.id }, bound) > 0
+            : compareSortKeys({ key: e.key, id: '' }, { key: bound.key, id: '' }) >= 0)
+      : -1;
+    for (const e of buffer.splice(0, final < 0 ? buffer.length : final)) {
+      if (opts.accept && !opts.accept(e)) continue;
+      out.push(e);
+      if (out.length >= opts.want) break;
+    }
+    if (!bound) break;
+  }
+  return out;
+}
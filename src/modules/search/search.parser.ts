@@ -0,0 +1,352 @@
+import type { BudgetInput, ParsedQuery, QueryChip, SearchRequest, WhenInput, WhoInput } from './search.schemas.js';
+import { TAXONOMY_CATEGORIES } from '../catalog/taxonomy/taxonomy.constants.js';
+import { GEO_CITIES } from '../geo/geo.constants.js';
+import { zonedParts } from '../../shared/timezone.js';
+
+// Rule-based reading of free text ("something fun with kids tomorrow afternoon under £20 near Camden") into
+// SearchRequest fields. Rules run in a fixed order over a masked copy of the text: a recognized phrase is blanked
+// out so that later rules (and the leftover `q`) don't see it again. Within a field the first matching rule wins.
+
+const DAY_MS = 24 * 3600 * 1000;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Local HH:MM windows for parts of the day; night runs past midnight
+const DAY_PARTS: Record<string, { fromTime: string; toTime: string }> = {
+  morning: { fromTime: '08:00', toTime: '12:00' },
+  afternoon: { fromTime: '12:00', toTime: '18:00' },
+  evening: { fromTime: '18:00', toTime: '23:00' },
+  night: { fromTime: '20:00', toTime: '03:00' },
+};
+const WHOLE_DAY = { fromTime: '00:00', toTime: '23:59' };
+
+const CURRENCIES: Array<[RegExp, string]> = [
+  [/^(£|gbp|pounds?|quid)$/, 'GBP'],
+  [/^(\$|usd|dollars?|bucks)$/, 'USD'],
+  [/^(€|eur|euros?)$/, 'EUR'],
+];
+
+// Words that carry no search meaning once the structured parts are gone
+const FILLER = new Set([
+  'a', 'an', 'the', 'some', 'any', 'something', 'anything', 'stuff', 'thing', 'things', 'to', 'do', 'go', 'out', 'fun',
+  'nice', 'good', 'great', 'cool', 'interesting', 'with', 'for', 'and', 'or', 'in', 'at', 'on', 'of', 'near', 'around',
+  'under', 'me', 'my', 'we', 'us', 'our', 'i', 'what', 'where', 'ideas', 'idea', 'place', 'places', 'event', 'events',
+  'activities', 'find', 'show', 'looking', 'want', 'please', 'this', 'next', 'every',
+]);
+
+// Extra words for taxonomy categories; they replace what the words of the names would map to
+const CATEGORY_SYNONYMS: Record<string, string[]> = {
+  park: ['place.outdoor_park_garden'],
+  club: ['place.nightlife_club', 'event.nightlife_party'],
+  'live music': ['event.concert_show'],
+  gig: ['event.concert_show'],
+  music: ['event.concert_show'],
+  comedy: ['event.concert_show'],
+  movie: ['event.cinema_screening', 'place.culture_cinema'],
+  film: ['event.cinema_screening', 'place.culture_cinema'],
+  play: ['event.theatre_performing_arts'],
+  musical: ['event.theatre_performing_arts'],
+  opera: ['event.theatre_performing_arts'],
+  ballet: ['event.theatre_performing_arts'],
+  exhibition: ['event.museum_exhibition', 'place.culture_museum_gallery'],
+  art: ['place.culture_museum_gallery', 'event.museum_exhibition'],
+  football: ['event.sport_match_fan'],
+  marathon: ['event.sport_race_endurance'],
+  yoga: ['event.activity_class'],
+  lesson: ['event.activity_class'],
+  meetup: ['event.conference_meetup'],
+  party: ['event.nightlife_party'],
+  clubbing: ['event.nightlife_party', 'place.nightlife_club'],
+  dinner: ['place.food_restaurant'],
+  lunch: ['place.food_restaurant'],
+  brunch: ['place.food_restaurant', 'place.food_cafe_coffee'],
+  'fine dining': ['place.food_restaurant'],
+  coffee: ['place.food_cafe_coffee'],
+  'ice cream': ['place.food_dessert_bakery'],
+  'street food': ['place.food_fast_street'],
+  drinks: ['place.bar_pub'],
+  beer: ['place.bar_pub'],
+  cocktail: ['place.bar_pub'],
+  aquarium: ['place.family_zoo_aqua_theme'],
+  'theme park': ['place.family_zoo_aqua_theme'],
+  'escape room': ['place.fun_bowling_arcade_escape'],
+  picnic: ['place.outdoor_park_garden'],
+  hike: ['place.outdoor_nature_hiking'],
+  lake: ['place.outdoor_beach_waterfront'],
+  swimming: ['place.outdoor_beach_waterfront', 'place.sport_fitness_stadium'],
+  gym: ['place.sport_fitness_stadium'],
+  massage: ['place.spa_wellness_sauna'],
+  shopping: ['place.shopping_mall_department', 'place.shopping_market_souvenir'],
+  sightseeing: ['place.sight_landmark_historic'],
+  castle: ['place.sight_landmark_historic'],
+  church: ['place.sight_religion_worship'],
+  cathedral: ['place.sight_religion_worship'],
+};
+
+// Name words that don't identify a category on their own
+const GENERIC_NAME_WORDS = new Set([
+  'and', 'other', 'event', 'place', 'spot', 'site', 'venue', 'shop', 'store', 'center', 'opening', 'series', 'short',
+  'city', 'fan', 'food', 'department', 'activity', 'room', 'play', 'cultural', 'performing', 'kid', 'family', 'online',
+  'show', 'fast', 'street', 'theme',
+]);
+
+export function singularize(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(sses|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) return word.slice(0, -1);
+  return word;
+}
+
+// keyword (singular, lower case; may be a phrase) -> category slugs, longest keywords first
+const CATEGORY_KEYWORDS: Array<[string, string[]]> = (() => {
+  const known = new Set(TAXONOMY_CATEGORIES.map((c) => c.slug));
+  const index = new Map<string, Set<string>>();
+  for (const c of TAXONOMY_CATEGORIES) {
+    for (const w of c.name.toLowerCase().split(/[^a-z]+/)) {
+      const kw = singularize(w);
+      if (kw.length < 3 || GENERIC_NAME_WORDS.has(kw)) continue;
+      if (!index.has(kw)) index.set(kw, new Set());
+      index.get(kw)!.add(c.slug);
+    }
+  }
+  for (const [kw, slugs] of Object.entries(CATEGORY_SYNONYMS)) index.set(kw, new Set(slugs.filter((s) => known.has(s))));
+  return [...index.entries()]
+    .map(([kw, slugs]): [string, string[]] => [kw, [...slugs]])
+    .sort((a, b) => b[0].length - a[0].length || a[0].localeCompare(b[0]));
+})();
+
+type Rule<T> = { re: RegExp; value: (m: RegExpExecArray) => T | undefined; label: (v: T, m: RegExpExecArray) => string };
+
+class Reader {
+  readonly chips: QueryChip[] = [];
+  // Lower-cased text with consumed phrases blanked out (same length as the input)
+  masked: string;
+
+  constructor(readonly text: string) {
+    const lower = text.toLowerCase();
+    this.masked = lower.length === text.length ? lower : text;
+  }
+
+  // First rule that matches wins; its phrase is consumed and recorded as a chip
+  first<T>(field: QueryChip['field'], rules: Array<Rule<T>>): T | undefined {
+    for (const rule of rules) {
+      const m = rule.re.exec(this.masked);
+      if (!m) continue;
+      const value = rule.value(m);
+      if (value === undefined) continue;
+      this.consume(field, m.index, m[0].length, rule.label(value, m), value);
+      return value;
+    }
+    return undefined;
+  }
+
+  consume(field: QueryChip['field'], index: number, length: number, label: string, value: unknown): void {
+    const raw = this.text.slice(index, index + length);
+    this.chips.push({ field, label, text: raw.trim(), value });
+    this.masked = this.masked.slice(0, index) + ' '.repeat(length) + this.masked.slice(index + length);
+  }
+
+  // Leftover words, minus fillers and punctuation
+  rest(): string | undefined {
+    const words = this.masked
+      .split(/[^\p{L}\p{N}'-]+/u)
+      .map((w) => w.replace(/^['-]+|['-]+$/g, ''))
+      .filter((w) => w && !FILLER.has(w));
+    return words.length ? words.join(' ') : undefined;
+  }
+}
+
+const cap = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+function currencyOf(token?: string): string | undefined {
+  if (!token) return undefined;
+  return CURRENCIES.find(([re]) => re.test(token.trim()))?.[1];
+}
+
+function readBudget(r: Reader): BudgetInput | undefined {
+  const cur = '(£|\\$|€|eur|euros?|usd|dollars?|bucks|gbp|pounds?|quid)';
+  const amount = '(\\d+(?:[.,]\\d{1,2})?)';
+  const num = (s: string) => Number(s.replace(',', '.'));
+  const range = r.first<BudgetInput>('budget', [
+    {
+      re: new RegExp(`\\b(?:under|below|less than|up to|max(?:imum)?|no more than|cheaper than)\\s*${cur}?\\s*${amount}\\s*${cur}?(?![\\w])`),
+      value: (m) => ({ currency: currencyOf(m[1] ?? m[3]), priceRange: { max: num(m[2]) } }),
+      label: (v) => `Up to ${v.priceRange!.max}${v.currency ? ` ${v.currency}` : ''}`,
+    },
+    {
+      re: new RegExp(`\\b(?:between\\s*)?${cur}?\\s*${amount}\\s*(?:-|–|to|and)\\s*${cur}?\\s*${amount}\\s*${cur}?(?![\\w])`),
+      value: (m) => {
+        const currency = currencyOf(m[1] ?? m[3] ?? m[5]);
+        // Bare number ranges ("2-3") are too ambiguous without a currency
+        return currency ? { currency, priceRange: { min: num(m[2]), max: num(m[4]) } } : undefined;
+      },
+      label: (v) => `${v.priceRange!.min}–${v.priceRange!.max} ${v.currency}`,
+    },
+  ]);
+  const tier = r.first<BudgetInput['tier']>('budget', [
+    { re: /\b(free of charge|free entry|no cost|free)\b/, value: () => 'FREE', label: () => 'Free' },
+    { re: /\b(cheap|budget|inexpensive|affordable)\b/, value: () => 'CHEAP', label: () => 'Cheap' },
+    { re: /\b(fancy|upscale|luxury|luxurious|posh)\b/, value: () => 'EXPENSIVE', label: () => 'Upscale' },
+  ]);
+  if (!range && !tier) return undefined;
+  return { ...(range ?? {}), ...(tier ? { tier } : {}) };
+}
+
+function readWhen(r: Reader, now: Date, timeZone: string): WhenInput | undefined {
+  const preset = (re: RegExp, preset: any, label: string): Rule<WhenInput> => ({ re, value: () => ({ type: 'preset', preset }), label: () => label });
+  const todayDow = zonedParts(now, timeZone).weekday;
+  // A single upcoming day (daysAhead from today) or, with `weekly`, every such day for the default period
+  const dayWindow = (dow: number, daysAhead: number, part: string | undefined, weekly: boolean): WhenInput => ({
+    type: 'recurring',
+    days: [dow],
+    ...(part ? DAY_PARTS[part] : WHOLE_DAY),
+    ...(weekly ? {} : { from: now.toISOString(), to: new Date(now.getTime() + (daysAhead + 1) * DAY_MS).toISOString() }),
+  });
+  const part = '(?:\\s+(?:in the\\s+)?(morning|afternoon|evening|night))?';
+  const days = WEEKDAYS.join('|');
+  return r.first<WhenInput>('when', [
+    preset(/\b(right now|now)\b/, 'now', 'Now'),
+    preset(/\btonight\b/, 'tonight', 'Tonight'),
+    preset(/\b(this|today) evening\b/, 'today_evening', 'This evening'),
+    preset(/\blong weekend\b/, 'long_weekend', 'Long weekend'),
+    preset(/\bnext weekend\b/, 'next_weekend', 'Next weekend'),
+    preset(/\b(this )?weekend\b/, 'this_weekend', 'This weekend'),
+    preset(/\b(next 7 days|next seven days|next week|coming week)\b/, 'next_7_days', 'Next 7 days'),
+    preset(/\bthis week\b/, 'this_week', 'This week'),
+    preset(/\bthis month\b/, 'this_month', 'This month'),
+    preset(/\b(public|bank) holiday\b/, 'public_holiday', 'Public holiday'),
+    {
+      re: new RegExp(`\\b(today|tomorrow)${part}\\b`),
+      value: (m) => {
+        const ahead = m[1] === 'tomorrow' ? 1 : 0;
+        if (!m[2] && ahead) return { type: 'preset', preset: 'tomorrow' };
+        return dayWindow((todayDow + ahead) % 7, ahead, m[2], false);
+      },
+      label: (_v, m) => [cap(m[1]), m[2]].filter(Boolean).join(' '),
+    },
+    {
+      re: new RegExp(`\\b(every\\s+)?(?:on\\s+|this\\s+|next\\s+)?(${days})(s)?${part}\\b`),
+      value: (m) => {
+        const dow = WEEKDAYS.indexOf(m[2]);
+        return dayWindow(dow, (dow - todayDow + 7) % 7, m[4], !!(m[1] || m[3]));
+      },
+      label: (_v, m) => [m[1] || m[3] ? `Every ${cap(m[2])}` : cap(m[2]), m[4]].filter(Boolean).join(' '),
+    },
+    preset(/\b(in the )?evening\b/, 'today_evening', 'This evening'),
+    {
+      re: /\b(?:in the )?(morning|afternoon|night)\b/,
+      value: (m) => dayWindow(todayDow, 0, m[1], false),
+      label: (_v, m) => `Today ${m[1]}`,
+    },
+  ]);
+}
+
+function readWho(r: Reader): WhoInput | undefined {
+  return r.first<WhoInput>('who', [
+    {
+      re: /\b(?:with (?:the |my |our )?)?(kids|children|child|family|toddlers?|bab(?:y|ies)|teens?|teenagers?)\b/,
+      value: (m) => {
+        const group = /^(toddler|bab)/.test(m[1]) ? '0-3' : /^teen/.test(m[1]) ? '13-16' : undefined;
+        return { companyType: 'kids', ...(group ? { kidsAgeGroups: [group] } : {}) } as WhoInput;
+      },
+      label: (v) => (v.kidsAgeGroups ? `With kids (${v.kidsAgeGroups[0]})` : 'With kids'),
+    },
+    {
+      re: /\b(date night|a date|with my (?:partner|wife|husband|girlfriend|boyfriend)|for two|couples?)\b/,
+      value: () => ({ companyType: 'couple' }),
+      label: () => 'Couple',
+    },
+    { re: /\b(?:with )?(?:my )?(friends|mates|buddies)\b/, value: () => ({ companyType: 'friends' }), label: () => 'With friends' },
+    { re: /\b(alone|solo|by myself|on my own)\b/, value: () => ({ companyType: 'solo' }), label: () => 'Solo' },
+    { re: /\b(?:with )?(?:my )?(colleagues|coworkers|co-workers|team)\b/, value: () => ({ companyType: 'coworkers' }), label: () => 'With colleagues' },
+  ]);
+}
+
+function readMood(r: Reader): ParsedQuery['mood'] {
+  return r.first<ParsedQuery['mood']>('mood', [
+    { re: /\bromantic\b/, value: () => 'ROMANTIC', label: () => 'Romantic' },
+    { re: /\b(relaxing|relaxed|calm|quiet|chill|chilled|cozy|cosy|peaceful)\b/, value: () => 'CALM', label: () => 'Calm' },
+    { re: /\b(active|sporty|energetic|adventurous|adventure|outdoorsy)\b/, value: () => 'ACTIVE', label: () => 'Active' },
+  ]);
+}
+
+function escapeRe(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function readWhere(r: Reader): ParsedQuery['where'] {
+  const where: NonNullable<ParsedQuery['where']> = {};
+  // Longest names first ("New York" before "York")
+  const cities = [...GEO_CITIES].sort((a, b) => b.name.length - a.name.length);
+  for (const c of cities) {
+    const m = new RegExp(`\\b(?:(?:in|near|around|at)\\s+)?${escapeRe(c.name.toLowerCase())}\\b`).exec(r.masked);
+    if (!m) continue;
+    where.city = { id: c.id, name: c.name, countryCode: c.countryCode };
+    r.consume('where', m.index, m[0].length, c.name, where.city);
+    break;
+  }
+  const me = /\b(near me|nearby|close to me|around me|close by)\b/.exec(r.masked);
+  if (me) {
+    where.nearMe = true;
+    r.consume('where', me.index, me[0].length, 'Near me', { nearMe: true });
+  }
+  // "near Camden", "around Shoreditch": up to three words, stopping at the next known keyword or filler
+  const near = /\b(?:near|around|close to)\s+([\p{L}'-]+(?:\s+[\p{L}'-]+){0,2})/u.exec(r.masked);
+  if (near) {
+    const words: string[] = [];
+    for (const w of near[1].split(/\s+/)) {
+      if (FILLER.has(w) || CATEGORY_KEYWORDS.some(([kw]) => kw === singularize(w))) break;
+      words.push(w);
+    }
+    if (words.length) {
+      const start = near.index;
+      const length = near[0].indexOf(near[1]) + words.join(' ').length;
+      where.near = r.text.slice(start, start + length).replace(/^(near|around|close to)\s+/i, '').trim();
+      r.consume('where', start, length, `Near ${where.near}`, { near: where.near });
+    }
+  }
+  return Object.keys(where).length ? where : undefined;
+}
+
+function readCategories(r: Reader): string[] | undefined {
+  const slugs = new Set<string>();
+  for (const [kw, kwSlugs] of CATEGORY_KEYWORDS) {
+    // Keywords are singular; allow the plural forms singularize() undoes
+    const re = new RegExp(`\\b${escapeRe(kw).replace(/y$/, '(?:y|ies)')}(?:s|es)?\\b`);
+    const m = re.exec(r.masked);
+    if (!m) continue;
+    kwSlugs.forEach((s) => slugs.add(s));
+    const names = kwSlugs.map((s) => TAXONOMY_CATEGORIES.find((c) => c.slug === s)!.name).join(' / ');
+    r.consume('category', m.index, m[0].length, names, kwSlugs);
+  }
+  return slugs.size ? [...slugs] : undefined;
+}
+
+// `timeZone` decides what "today" and "saturday" mean; default UTC
+export function parseSearchText(text: string, opts: { now?: Date; timeZone?: string } = {}): ParsedQuery {
+  const r = new Reader(text);
+  const now = opts.now ?? new Date();
+  // Money first: "under £20" must not leave "20" for the other rules
+  const budget = readBudget(r);
+  const where = readWhere(r);
+  const when = readWhen(r, now, where?.city ? GEO_CITIES.find((c) => c.id === where.city!.id)!.timezone : opts.timeZone ?? 'UTC');
+  const mood = readMood(r);
+  const who = readWho(r);
+  const categorySlugs = readCategories(r);
+  return { text, q: r.rest(), when, who, budget, mood, categorySlugs, where, chips: r.chips };
+}
+
+// Interpretation merged into a request: fields set explicitly in the request win
+export function applyParsedQuery(query: SearchRequest, parsed: ParsedQuery): SearchRequest {
+  return {
+    ...query,
+    q: parsed.q,
+    when: query.when ?? parsed.when,
+    who: query.who ?? parsed.who,
+    budget: query.budget ?? parsed.budget,
+    mood: query.mood ?? parsed.mood,
+    filters: parsed.categorySlugs && !query.filters?.categorySlugs?.length
+      ? { ...query.filters, categorySlugs: parsed.categorySlugs }
+      : query.filters,
+  };
+}
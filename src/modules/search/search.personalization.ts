@@ -0,0 +1,125 @@
+import type { PrismaClient } from '@prisma/client';
+import { companyAffinity } from './search.filters.js';
+import { haversineKm } from '../../shared/utils.js';
+
+// Profile-based personalization of DB search: a profileMatch score (0..1) per hit, blended into the rank
+
+export type PersonalizationProfile = {
+  tags: string[];
+  budget?: string | null;
+  // Request-level company type (kids, couple, ...), mapped from Profile.preferredMode
+  companyType?: string;
+  home?: { lat: number; lon: number };
+  favoriteIds: Set<string>;
+  favoriteCategorySlugs: Set<string>;
+};
+
+export type ProfileCandidate = {
+  id: string;
+  title?: string | null;
+  categorySlugs: string[];
+  categoryNames?: string[];
+  tags?: string[] | null;
+  priceTier?: string | null;
+  location?: { lat: number; lon: number } | null;
+};
+
+const PREFERRED_MODE_TO_COMPANY: Record<string, string> = {
+  KIDS: 'kids',
+  COUPLE: 'couple',
+  SOLO: 'solo',
+  FRIENDS: 'friends',
+  COLLEAGUES: 'coworkers',
+};
+
+const PRICE_ORDER = ['FREE', 'CHEAP', 'MODERATE', 'EXPENSIVE'];
+
+// Relative weight of each signal; signals without data are left out and the rest renormalized
+const WEIGHTS = { tags: 0.35, favorites: 0.2, budget: 0.2, company: 0.15, home: 0.1 };
+
+// Profile tags matched to reach full tag score
+const TAG_MATCHES_FOR_FULL_SCORE = 3;
+const HOME_DISTANCE_SCALE_KM = 15;
+const MAX_FAVORITES = 200;
+
+function terms(values: Array<string | null | undefined>): Set<string> {
+  const out = new Set<string>();
+  for (const v of values) {
+    for (const t of String(v ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u)) if (t) out.add(t);
+  }
+  return out;
+}
+
+export async function loadPersonalizationProfile(prisma: PrismaClient, userId: string): Promise<PersonalizationProfile | undefined> {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    select: { tags: true, budget: true, preferredMode: true, homeLat: true, homeLng: true },
+  });
+  const favorites = await prisma.favorite.findMany({
+    where: { userId },
+    select: {
+      placeId: true,
+      eventId: true,
+      place: { select: { mainCategory: { select: { key: true } } } },
+      event: { select: { mainCategory: { select: { key: true } } } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_FAVORITES,
+  });
+  if (!profile && !favorites.length) return undefined;
+
+  const favoriteIds = new Set<string>();
+  const favoriteCategorySlugs = new Set<string>();
+  for (const f of favorites) {
+    if (f.placeId) favoriteIds.add(f.placeId);
+    if (f.eventId) favoriteIds.add(f.eventId);
+    const slug = f.place?.mainCategory?.key ?? f.event?.mainCategory?.key;
+    if (slug) favoriteCategorySlugs.add(slug);
+  }
+  return {
+    tags: Array.from(terms(profile?.tags ?? [])),
+    budget: profile?.budget ?? null,
+    companyType: profile?.preferredMode ? PREFERRED_MODE_TO_COMPANY[profile.preferredMode] : undefined,
+    home: profile?.homeLat != null && profile?.homeLng != null ? { lat: Number(profile.homeLat), lon: Number(profile.homeLng) } : undefined,
+    favoriteIds,
+    favoriteCategorySlugs,
+  };
+}
+
+// 0..1; 0.5 means "no opinion" (also returned when the profile has no usable signal for the item)
+export function scoreProfileMatch(profile: PersonalizationProfile, c: ProfileCandidate): number {
+  const parts: Array<[number, number]> = [];
+
+  if (profile.tags.length) {
+    const itemTerms = terms([c.title, ...c.categorySlugs, ...(c.categoryNames ?? []), ...(c.tags ?? [])]);
+    const matched = profile.tags.filter((t) => itemTerms.has(t)).length;
+    parts.push([WEIGHTS.tags, Math.min(1, matched / Math.min(TAG_MATCHES_FOR_FULL_SCORE, profile.tags.length))]);
+  }
+
+  if (profile.favoriteIds.size || profile.favoriteCategorySlugs.size) {
+    const fav = profile.favoriteIds.has(c.id) ? 1 : c.categorySlugs.some((s) => profile.favoriteCategorySlugs.has(s)) ? 0.6 : 0;
+    parts.push([WEIGHTS.favorites, fav]);
+  }
+
+  const budgetIdx = profile.budget ? PRICE_ORDER.indexOf(profile.budget) : -1;
+  const priceIdx = c.priceTier ? PRICE_ORDER.indexOf(c.priceTier) : -1;
+  if (budgetIdx >= 0 && priceIdx >= 0) {
+    const over = priceIdx - budgetIdx;
+    parts.push([WEIGHTS.budget, over <= 0 ? 1 : over === 1 ? 0.4 : 0]);
+  }
+
+  if (profile.companyType) parts.push([WEIGHTS.company, companyAffinity(profile.companyType, c.categorySlugs)]);
+
+  if (profile.home && c.location) {
+    parts.push([WEIGHTS.home, Math.exp(-haversineKm(profile.home, c.location) / HOME_DISTANCE_SCALE_KM)]);
+  }
+
+  const weight = parts.reduce((s, [w]) => s + w, 0);
+  if (!weight) return 0.5;
+  return parts.reduce((s, [w, v]) => s + w * v, 0) / weight;
+}
+
+// Rank multiplier: 1 ± strength/2, i.e. 0.75 for a poor match, 1 for neutral, 1.25 for a perfect one by default
+export function profileRankFactor(profileMatch: number, strength = 0.5): number {
+  return 1 + strength * (profileMatch - 0.5);
+}
@@ -0,0 +1,99 @@
+import { Prisma } from '@prisma/client';
+import type { RankingWeights, SearchRequest } from './search.schemas.js';
+import { profileRankFactor } from './search.personalization.js';
+import { floatSql } from './search.candidates.js';
+import { AppError } from '../../shared/errors.js';
+
+// Rank of DB search hits: weighted static scores, blended with text relevance, scaled by distance and profile match
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  popularity: 0.35,
+  quality: 0.4,
+  freshness: 0.25,
+  relevance: 0.6,
+  distanceScaleKm: 10,
+  personalization: 0.5,
+};
+
+export type RankInput = {
+  popularity?: number | null;
+  quality?: number | null;
+  freshness?: number | null;
+  distanceKm?: number;
+  // Distance factor computed in SQL with the candidate row (distanceFactorSql), so both sides rank alike
+  distanceFactor?: number;
+  relevance?: number;
+  profileMatch?: number;
+};
+
+export type RankComponent = {
+  name: 'popularity' | 'quality' | 'freshness' | 'relevance' | 'distance' | 'profile' | 'audience';
+  value: number | null;
+  weight?: number;
+  contribution?: number;
+  factor?: number;
+};
+
+// Distance used for hits without a location when the search has a geo origin
+const UNKNOWN_DISTANCE_KM = 9999;
+
+// Per-request overrides are for ranking tuning by admins only
+export function resolveRankingWeights(query: Pick<SearchRequest, 'rankingWeights'>, role?: string): RankingWeights {
+  if (!query.rankingWeights) return DEFAULT_RANKING_WEIGHTS;
+  if (role !== 'ADMIN') throw new AppError('rankingWeights requires an admin token', 403, { code: 'FORBIDDEN' });
+  return { ...DEFAULT_RANKING_WEIGHTS, ...query.rankingWeights };
+}
+
+export function composeRank(
+  input: RankInput,
+  weights: RankingWeights,
+  opts: { hasGeo: boolean }
+): { rank: number; components: RankComponent[] } {
+  const hasRelevance = input.relevance != null;
+  // With q, text relevance takes its share and the static scores split the rest
+  const staticShare = hasRelevance ? 1 - weights.relevance : 1;
+  const components: RankComponent[] = (['popularity', 'quality', 'freshness'] as const).map((name) => {
+    const value = input[name] ?? 0;
+    return { name, value, weight: weights[name], contribution: staticShare * weights[name] * value };
+  });
+  if (hasRelevance) {
+    components.push({ name: 'relevance', value: input.relevance!, weight: weights.relevance, contribution: weights.relevance * input.relevance! });
+  }
+  let rank = components.reduce((s, c) => s + (c.contribution ?? 0), 0);
+
+  if (opts.hasGeo) {
+    const km = input.distanceKm ?? UNKNOWN_DISTANCE_KM;
+    const factor = input.distanceFactor ?? Math.exp(-km / weights.distanceScaleKm);
+    components.push({ name: 'distance', value: input.distanceKm ?? null, weight: weights.distanceScaleKm, factor });
+    rank *= factor;
+  }
+  if (input.profileMatch != null) {
+    const factor = profileRankFactor(input.profileMatch, weights.personalization);
+    components.push({ name: 'profile', value: input.profileMatch, weight: weights.personalization, factor });
+    rank *= factor;
+  }
+  return { rank, components };
+}
+
+// composeRank's distance factor for a candidate row `alias` (search.candidates.ts), from its km column
+export function distanceFactorSql(weights: RankingWeights, opts: { hasGeo: boolean; alias: string }): Prisma.Sql {
+  if (!opts.hasGeo) return Prisma.sql`1::float8`;
+  const km = Prisma.raw(`${opts.alias}."km"`);
+  return Prisma.sql`exp(-coalesce(${km}, ${floatSql(UNKNOWN_DISTANCE_KM)}) / ${floatSql(weights.distanceScaleKm)})`;
+}
+
+// composeRank without the profile factor, in SQL over a candidate row `alias` with its distance factor in "df".
+// The terms are summed in the same order and with the same products as in memory, so both give the same float.
+// `relevance` is the row's text relevance, or a bound of it when relevance is scored in memory (null: no q).
+export function rankSql(weights: RankingWeights, opts: { relevance: Prisma.Sql | null; alias: string }): Prisma.Sql {
+  const col = (name: string) => Prisma.raw(`${opts.alias}."${name}"`);
+  const staticShare = opts.relevance ? 1 - weights.relevance : 1;
+  const terms = [
+    Prisma.sql`${floatSql(staticShare * weights.popularity)} * coalesce(${col('pop')}, 0)`,
+    Prisma.sql`${floatSql(staticShare * weights.quality)} * coalesce(${col('qual')}, 0)`,
+    Prisma.sql`${floatSql(staticShare * weights.freshness)} * coalesce(${col('fresh')}, 0)`,
+  ];
+  if (opts.relevance) terms.push(Prisma.sql`${floatSql(weights.relevance)} * ${opts.relevance}`);
+  const sum = terms.slice(1).reduce((acc, t) => Prisma.sql`(${acc} + ${t})`, Prisma.sql`(${terms[0]})`);
+  return Prisma.sql`(${sum} * ${col('df')})`;
+}
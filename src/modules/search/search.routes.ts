@@ -1,12 +1,18 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { searchRequestSchema, searchResponseSchema, type SearchRequest, type SourceType } from './search.schemas.js';
-import { searchUnifiedFromDb, resolveTimeWindow } from './search.service.js';
-import { runOnlineIngest, type BaseQuery } from '../ingestion/ingestion.service.js';
-import { buildEventProviders, buildPlaceProviders } from '../ingestion/provider.adapters.js';
+import { searchMapResponseSchema, searchRequestSchema, searchResponseSchema, type SearchRequest } from './search.schemas.js';
+import { searchUnifiedFromDb } from './search.service.js';
+import { resolveSearchTimeZone } from './search.time.js';
+import { resolveRankingWeights } from './search.ranking.js';
+import { recordSearchQuery, type SearchCacheState } from './search.analytics.js';
+import { assertMapRequest, mapFormatOf, renderMapResponse } from './search.map.js';
+import { applyParsedQuery, parseSearchText } from './search.parser.js';
+import { buildOnlineIngestPlans, ingestWarnings, mergeIngestResults } from './search.ingest.js';
+import { searchCityIds } from './search.geo.js';
+import { runOnlineIngest } from '../ingestion/ingestion.service.js';
 import { IngestLogger } from '../ingestion/ingest.logger.js';
-import { GeoService } from '../geo/geo.service.js';
 import { CacheService, normalizeArray, roundGeo } from '../cache/cache.service.js';
+import { SEARCH_MAP_MAX_FEATURES, SEARCH_PERSONALIZATION_ENABLED } from '../../config/search.js';
 import { CACHE_ENABLED, CACHE_TTL_SEARCH_FIRST, CACHE_TTL_SEARCH_PAGES, CACHE_SWR_SEARCH, CACHE_INVALIDATE_AFTER_INGEST } from '../../config/cache.js';
 
 // Search routes under /api/search using Zod schemas and service layer
@@ -18,21 +24,35 @@ export default async function searchRoutes(app: FastifyInstance) {
         description: 'Unified search for places and events. Supports multiple data sources and filtering options.',
         tags: ['search'],
         body: searchRequestSchema,
-        response: { 200: searchResponseSchema },
+        response: { 200: z.union([searchResponseSchema, searchMapResponseSchema]) },
       },
+      // Public endpoint; a valid token enables personalized ranking
+      onRequest: app.authenticateOptional,
     },
     async (req) => {
-      const query = req.body as z.infer<typeof searchRequestSchema> as SearchRequest;
-      // Use validated config exposed on app instance
-      const { TICKETMASTER_API_KEY, PREDICTHQ_TOKEN, GEOAPIFY_API_KEY, GOOGLE_PLACES_API_KEY, FOURSQUARE_API_KEY } = app.config;
+      const startedAt = Date.now();
+      const body = req.body as z.infer<typeof searchRequestSchema> as SearchRequest;
+      // Interpret mode: when / who / budget / mood / categories read out of `q`, explicit fields win
+      const interpretation = body.interpret && body.q ? parseSearchText(body.q, { timeZone: resolveSearchTimeZone(body) }) : undefined;
+      const query = interpretation ? applyParsedQuery(body, interpretation) : body;
 
       // Try cache first
       const cache = new CacheService(app);
-      // Derive effective pagination: frontend uses page (1-based), may omit offset entirely
+      // Derive effective pagination: cursor wins, then page (1-based), then offset
       const effLimit = query.pagination?.limit ?? 100;
-      const effPage = query.pagination?.page ?? 1;
-      const effOffset = Math.max(0, (effPage - 1) * effLimit);
-      const isFirstPage = effPage <= 1;
+      const cursor = query.pagination?.cursor;
+      const effOffset = query.pagination?.page != null
+        ? Math.max(0, (query.pagination.page - 1) * effLimit)
+        : Math.max(0, query.pagination?.offset ?? 0);
+      const effPage = Math.floor(effOffset / effLimit) + 1;
+      const isFirstPage = !cursor && effOffset === 0;
+      const userId = SEARCH_PERSONALIZATION_ENABLED && query.personalize !== false ? req.user?.id || undefined : undefined;
+      // Admins may tune ranking weights per request
+      const rankingWeights = resolveRankingWeights(query, req.user?.role);
+      // Map formats render every ranked hit (up to the cap) instead of a page
+      assertMapRequest(query);
+      const mapFormat = mapFormatOf(query);
+      const maxItems = mapFormat ? SEARCH_MAP_MAX_FEATURES : undefined;
 
       // Build normalized cache key
       const keyParts = {
@@ -41,6 +61,8 @@ export default async function searchRoutes(app: FastifyInstance) {
         limit: effLimit,
         page: effPage,
         offset: effOffset,
+        cursor,
+        q: query.q,
         // where
         cityId: query.where?.city?.id ?? undefined,
         bbox: query.where?.bbox
@@ -54,25 +76,49 @@ export default async function searchRoutes(app: FastifyInstance) {
         geo: query.where?.geo
           ? { lat: roundGeo(query.where.geo.lat), lon: roundGeo(query.where.geo.lon), radiusKm: Math.round((query.where.geo.radiusKm ?? 5) * 2) / 2 }
           : undefined,
+        cities: normalizeArray(query.where?.cities?.map(String)),
+        route: query.where?.route
+          ? { path: query.where.route.path.map((p) => ({ lat: roundGeo(p.lat, 3), lon: roundGeo(p.lon, 3) })), widthKm: query.where.route.widthKm }
+          : undefined,
         // when (do not over-normalize presets)
-        when: query.when?.type === 'preset' ? query.when : query.when?.type === 'range' ? { type: 'range', from: query.when.from.slice(0, 13), to: query.when.to.slice(0, 13) } : undefined,
+        when: query.when?.type === 'range' ? { type: 'range', from: query.when.from.slice(0, 13), to: query.when.to.slice(0, 13) } : query.when,
         // filters
         filters: {
           categories: normalizeArray(query.filters?.categorySlugs),
           sources: normalizeArray(query.filters?.sources),
           priceTier: query.budget?.tier && query.budget.tier !== 'ANY' ? query.budget.tier : undefined,
+          openNowOnly: query.filters?.openNowOnly || undefined,
         },
+        who: query.who,
+        mood: query.mood,
+        timeBudget: query.timeBudget,
+        facets: normalizeArray(query.facets),
+        explain: query.explain || undefined,
+        rankingWeights: query.rankingWeights,
+        diversify: query.diversify,
+        format: mapFormat,
+        // Chips echo the original text
+        text: interpretation ? body.q : undefined,
+        zoom: mapFormat === 'clusters' ? query.zoom : undefined,
+        // Personalized results are per user
+        userId,
       };
       const cacheKey = cache.buildKey('search', keyParts);
+      // Query analytics (fire-and-forget), whichever way the response is produced
+      const track = (resp: any, cacheState: SearchCacheState) =>
+        recordSearchQuery(app.prisma, { keyParts, resp, cache: cacheState, tookMs: Date.now() - startedAt }, req.log);
 
       if (cache.isEnabled()) {
         const cached = await cache.getJSONWithSWR<any>(cacheKey);
         if (cached) {
-          if (!cached.stale) return cached.data;
+          if (!cached.stale) {
+            track(cached.data, 'hit');
+            return cached.data;
+          }
           // SWR: refresh in background under lock, return stale immediately
           const refreshTtl = isFirstPage ? CACHE_TTL_SEARCH_FIRST : CACHE_TTL_SEARCH_PAGES;
           const tags: string[] = [];
-          if (query.where?.city?.id != null) tags.push(`city:${query.where.city.id}:search`);
+          for (const cityId of searchCityIds(query.where)) tags.push(`city:${cityId}:search`);
           const lockKey = `${cacheKey}:lock`;
           // Background task
           void cache.withLock(lockKey, async () => {
@@ -81,226 +127,70 @@ export default async function searchRoutes(app: FastifyInstance) {
               const recompute = await (async () => {
                 // Duplicate the main flow in a contained scope
                 let warnings: string[] | undefined;
+                let ingestedSince: Date | undefined;
                 try {
                   if (isFirstPage) {
-                    const ingestLogger = new IngestLogger();
-                    const requestedSources = new Set<SourceType>(
-                      (query.filters?.sources && query.filters.sources.length
-                        ? query.filters.sources
-                        : (['TICKETMASTER', 'PREDICTHQ', 'GEOAPIFY', 'GOOGLE_PLACES', 'FOURSQUARE'] as SourceType[]))
-                    );
-                    const tw = resolveTimeWindow(query as any);
-                    const baseQuery: BaseQuery = {
-                      q: query.q,
-                      lat: query.where?.geo?.lat,
-                      lon: query.where?.geo?.lon,
-                      radiusKm: query.where?.geo?.radiusKm ?? 10,
-                      cityId: query.where?.city?.id != null ? String(query.where.city.id) : undefined,
-                      fromISO: tw.fromISO,
-                      toISO: tw.toISO,
-                      size: undefined,
-                    };
-                    try {
-                      if (!baseQuery.lat && !baseQuery.lon && query.where?.city?.id != null) {
-                        const geoSvc = new GeoService();
-                        const cityObj = geoSvc.getCityById(query.where.city.id as any);
-                        if (cityObj) {
-                          const centerLat = cityObj.coordinates?.lat;
-                          const centerLon = cityObj.coordinates?.lon;
-                          if (centerLat != null && centerLon != null) {
-                            baseQuery.lat = centerLat; baseQuery.lon = centerLon;
-                          }
-                          if (cityObj.boundingBox && centerLat != null && centerLon != null) {
-                            const south = cityObj.boundingBox.minLat; const west = cityObj.boundingBox.minLon;
-                            const north = cityObj.boundingBox.maxLat; const east = cityObj.boundingBox.maxLon;
-                            const toRad = (x: number) => (x * Math.PI) / 180; const R = 6371;
-                            const dLat = toRad(north - centerLat); const dLon = toRad(east - centerLon);
-                            const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(centerLat)) * Math.cos(toRad(north)) * Math.sin(dLon / 2) ** 2;
-                            const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-                            const halfDiagonalKm = R * c; baseQuery.radiusKm = Math.max(2, Math.min(50, Math.round(halfDiagonalKm)));
-                          }
-                          baseQuery.cityName = cityObj.name; baseQuery.countryCode = cityObj.countryCode;
-                        }
-                      }
-                    } catch {}
-                    // requestedSources already defined above
-                    const rect = query.where?.bbox
-                      ? { minLon: query.where.bbox.west, minLat: query.where.bbox.south, maxLon: query.where.bbox.east, maxLat: query.where.bbox.north }
-                      : undefined;
-                    const textSearchCityQuery = query.where?.city?.name;
-                    const eventProviders = buildEventProviders({
-                      ticketmasterApiKey: app.config.TICKETMASTER_API_KEY,
-                      predicthqToken: app.config.PREDICTHQ_TOKEN,
-                      geoapifyApiKey: app.config.GEOAPIFY_API_KEY,
-                      googlePlacesApiKey: app.config.GOOGLE_PLACES_API_KEY,
-                      foursquareApiKey: app.config.FOURSQUARE_API_KEY,
-                    }, requestedSources);
-                    const placeProviders = buildPlaceProviders({
-                      ticketmasterApiKey: app.config.TICKETMASTER_API_KEY,
-                      predicthqToken: app.config.PREDICTHQ_TOKEN,
-                      geoapifyApiKey: app.config.GEOAPIFY_API_KEY,
-                      googlePlacesApiKey: app.config.GOOGLE_PLACES_API_KEY,
-                      foursquareApiKey: app.config.FOURSQUARE_API_KEY,
-                    }, requestedSources, { textSearchCityQuery, rect });
+                    const { plans } = await buildOnlineIngestPlans(app, query);
                     const swrIngestLogger = new IngestLogger();
-                    const res = await runOnlineIngest({ prisma: app.prisma, eventProviders, placeProviders, logger: swrIngestLogger }, baseQuery);
+                    ingestedSince = new Date();
+                    const results = [];
+                    for (const plan of plans) {
+                      results.push(await runOnlineIngest({ prisma: app.prisma, eventProviders: plan.eventProviders, placeProviders: plan.placeProviders, logger: swrIngestLogger }, plan.baseQuery));
+                    }
                     swrIngestLogger.flushToFile(true);
+                    const res = mergeIngestResults(results);
                     warnings = [
                       `ingest places: total=${res.placeStats.total} created=${res.placeStats.created} updated=${res.placeStats.updated} unchanged=${res.placeStats.unchanged} errors=${res.placeStats.errors}`,
                       `ingest events: total=${res.eventStats.total} created=${res.eventStats.created} updated=${res.eventStats.updated} unchanged=${res.eventStats.unchanged} errors=${res.eventStats.errors}`,
                     ];
                   }
                 } catch {}
-                const freshResp = await searchUnifiedFromDb(query, app.prisma);
+                const freshResp = await searchUnifiedFromDb(query, app.prisma, { userId, rankingWeights, ingestedSince, maxItems, allOccurrences: !!mapFormat });
                 if (warnings && warnings.length) (freshResp as any).warnings = [ ...(freshResp.warnings ?? []), ...warnings ].slice(0, 10);
-                return freshResp;
+                if (interpretation && freshResp.meta) freshResp.meta.interpretation = interpretation;
+                return mapFormat ? renderMapResponse(query, freshResp) : freshResp;
               })();
               const ttl = isFirstPage ? CACHE_TTL_SEARCH_FIRST : CACHE_TTL_SEARCH_PAGES;
               await cache.setJSONWithSWR(cacheKey, recompute, ttl, CACHE_SWR_SEARCH, tags);
             } catch {}
           });
           // Return stale cached immediately
+          track(cached.data, 'stale');
           return cached.data;
         }
       }
 
       // Trigger online ingest only on the first page
+      let ingestedSince: Date | undefined;
       try {
         if (isFirstPage) {
           const ingestLogger = new IngestLogger();
-          // Determine requested sources
-          const requestedSources = new Set<SourceType>(
-            (query.filters?.sources && query.filters.sources.length
-              ? query.filters.sources
-              : (['TICKETMASTER', 'PREDICTHQ', 'GEOAPIFY', 'GOOGLE_PLACES', 'FOURSQUARE'] as SourceType[]))
-          );
-
-          // Build a minimal BaseQuery for providers
-          // Build BaseQuery enriched from city when provided
-          const tw = resolveTimeWindow(query as any);
-          const baseQuery: BaseQuery = {
-            q: query.q,
-            lat: query.where?.geo?.lat,
-            lon: query.where?.geo?.lon,
-            radiusKm: query.where?.geo?.radiusKm ?? 10,
-            cityId: query.where?.city?.id != null ? String(query.where.city.id) : undefined,
-            fromISO: tw.fromISO,
-            toISO: tw.toISO,
-            size: undefined,
-          };
+          // One ingest per searched area (a single one unless where.cities / where.route)
+          const { plans, warnings: planWarnings } = await buildOnlineIngestPlans(app, query);
 
-          // If city.id provided but no explicit geo, enrich lat/lon/radius and city meta
-          try {
-            if (!baseQuery.lat && !baseQuery.lon && query.where?.city?.id != null) {
-              const geo = new GeoService();
-              const cityObj = geo.getCityById(query.where.city.id as any);
-              if (cityObj) {
-                const centerLat = cityObj.coordinates?.lat;
-                const centerLon = cityObj.coordinates?.lon;
-                if (centerLat != null && centerLon != null) {
-                  baseQuery.lat = centerLat;
-                  baseQuery.lon = centerLon;
-                }
-                // approximate radius from bbox half-diagonal if available
-                if (cityObj.boundingBox) {
-                  const south = cityObj.boundingBox.minLat;
-                  const west = cityObj.boundingBox.minLon;
-                  const north = cityObj.boundingBox.maxLat;
-                  const east = cityObj.boundingBox.maxLon;
-                  if (
-                    typeof south === 'number' && typeof west === 'number' &&
-                    typeof north === 'number' && typeof east === 'number' &&
-                    typeof centerLat === 'number' && typeof centerLon === 'number'
-                  ) {
-                    const toRad = (x: number) => (x * Math.PI) / 180;
-                    const R = 6371;
-                    const dLat = toRad(north - centerLat);
-                    const dLon = toRad(east - centerLon);
-                    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(centerLat)) * Math.cos(toRad(north)) * Math.sin(dLon / 2) ** 2;
-                    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-                    const halfDiagonalKm = R * c;
-                    baseQuery.radiusKm = Math.max(2, Math.min(50, Math.round(halfDiagonalKm)));
-                  }
-                }
-                baseQuery.cityName = cityObj.name;
-                baseQuery.countryCode = cityObj.countryCode;
-              }
-            }
-          } catch {
-            // ignore enrichment errors
+          ingestedSince = new Date();
+          const results = [];
+          for (const { baseQuery, eventProviders, placeProviders } of plans) {
+            results.push(await runOnlineIngest(
+              {
+                prisma: app.prisma,
+                eventProviders,
+                placeProviders,
+                logger: ingestLogger,
+              },
+              baseQuery
+            ));
           }
-
-          // Optional helpers for city text search and bbox — prefer DB City bbox/name when city.id is provided
-          let rect = query.where?.bbox
-            ? { minLon: query.where.bbox.west, minLat: query.where.bbox.south, maxLon: query.where.bbox.east, maxLat: query.where.bbox.north }
-            : undefined;
-          let textSearchCityQuery = query.where?.city?.name;
-          if (!rect && query.where?.city?.id != null) {
-            try {
-              const cityRow = await app.prisma.city.findUnique({
-                where: { id: String(query.where.city.id) },
-                select: { name: true, countryCode: true, minLat: true, minLng: true, maxLat: true, maxLng: true },
-              });
-              if (cityRow) {
-                textSearchCityQuery ||= cityRow.name;
-                if (
-                  cityRow.minLat != null && cityRow.minLng != null &&
-                  cityRow.maxLat != null && cityRow.maxLng != null
-                ) {
-                  rect = { minLon: Number(cityRow.minLng as any), minLat: Number(cityRow.minLat as any), maxLon: Number(cityRow.maxLng as any), maxLat: Number(cityRow.maxLat as any) };
-                }
-              }
-            } catch {
-              // ignore DB errors here
-            }
-          }
-
-          const eventProviders = buildEventProviders(
-            {
-              ticketmasterApiKey: TICKETMASTER_API_KEY,
-              predicthqToken: PREDICTHQ_TOKEN,
-              geoapifyApiKey: GEOAPIFY_API_KEY,
-              googlePlacesApiKey: GOOGLE_PLACES_API_KEY,
-              foursquareApiKey: FOURSQUARE_API_KEY,
-            },
-            requestedSources
-          );
-          const placeProviders = buildPlaceProviders(
-            {
-              ticketmasterApiKey: TICKETMASTER_API_KEY,
-              predicthqToken: PREDICTHQ_TOKEN,
-              geoapifyApiKey: GEOAPIFY_API_KEY,
-              googlePlacesApiKey: GOOGLE_PLACES_API_KEY,
-              foursquareApiKey: FOURSQUARE_API_KEY,
-            },
-            requestedSources,
-            { textSearchCityQuery, rect }
-          );
-
-          const ingestResult = await runOnlineIngest(
-            {
-              prisma: app.prisma,
-              eventProviders,
-              placeProviders,
-              logger: ingestLogger,
-            },
-            baseQuery
-          );
+          const ingestResult = results.length === 1 ? results[0] : mergeIngestResults(results);
           // Flush full debug log to file if enabled
           ingestLogger.flushToFile(true);
           // Attach short warnings to request object for later merging into response
-          (req as any)._ingestWarnings = [
-            `ingest places: total=${ingestResult.placeStats.total} created=${ingestResult.placeStats.created} updated=${ingestResult.placeStats.updated} unchanged=${ingestResult.placeStats.unchanged} errors=${ingestResult.placeStats.errors}`,
-            `ingest events: total=${ingestResult.eventStats.total} created=${ingestResult.eventStats.created} updated=${ingestResult.eventStats.updated} unchanged=${ingestResult.eventStats.unchanged} errors=${ingestResult.eventStats.errors}`,
-            ...ingestResult.warnings.slice(0, 5),
-            ...ingestLogger.summary(5),
-          ].slice(0, 10);
+          (req as any)._ingestWarnings = [...planWarnings, ...ingestWarnings(ingestResult, ingestLogger)].slice(0, 10);
 
           // Invalidate city cache after ingest (search + catalog) if cityId is known
           // Optional: invalidate per-city caches (disabled by default to keep first heavy response for full TTL)
-          if (CACHE_INVALIDATE_AFTER_INGEST) {
-            const cityIdForInvalidation = baseQuery.cityId ?? (query.where?.city?.id != null ? String(query.where.city.id) : undefined);
-            if (cityIdForInvalidation && cache.isEnabled()) {
+          if (CACHE_INVALIDATE_AFTER_INGEST && cache.isEnabled()) {
+            for (const cityIdForInvalidation of new Set(plans.map((p) => p.baseQuery.cityId).filter(Boolean))) {
               try { await cache.invalidateByCity(String(cityIdForInvalidation), ['search', 'catalog:places', 'catalog:events']); } catch {}
             }
           }
@@ -310,21 +200,24 @@ export default async function searchRoutes(app: FastifyInstance) {
         req.log.warn({ err: e }, 'online ingest failed');
       }
       // After (possible) ingest, return results from our DB with ranking
-      const resp = await searchUnifiedFromDb(query, app.prisma);
+      const dbResp = await searchUnifiedFromDb(query, app.prisma, { userId, rankingWeights, ingestedSince, maxItems, allOccurrences: !!mapFormat });
       // Merge short warnings from ingest into response (limit total number)
       const shortIngestWarnings: string[] | undefined = (req as any)._ingestWarnings;
       if (shortIngestWarnings && shortIngestWarnings.length) {
-        const merged = [...(resp.warnings ?? []), ...shortIngestWarnings].slice(0, 10);
-        (resp as any).warnings = merged;
+        const merged = [...(dbResp.warnings ?? []), ...shortIngestWarnings].slice(0, 10);
+        (dbResp as any).warnings = merged;
       }
+      if (interpretation && dbResp.meta) dbResp.meta.interpretation = interpretation;
+      const resp = mapFormat ? renderMapResponse(query, dbResp) : dbResp;
 
       // Save to cache
       if (cache.isEnabled()) {
         const ttl = isFirstPage ? CACHE_TTL_SEARCH_FIRST : CACHE_TTL_SEARCH_PAGES;
         const tags: string[] = [];
-        if (query.where?.city?.id != null) tags.push(`city:${query.where.city.id}:search`);
+        for (const cityId of searchCityIds(query.where)) tags.push(`city:${cityId}:search`);
         try { await cache.setJSONWithSWR(cacheKey, resp, ttl, CACHE_SWR_SEARCH, tags); } catch {}
       }
+      track(resp, cache.isEnabled() ? 'miss' : 'off');
       return resp;
     }
   );
@@ -30,15 +30,53 @@ export const whereSchema = z
       })
       .optional(),
     bbox: BoundingBoxSchema.optional(),
+    // Several cities searched (and ranked) together, e.g. for a weekend trip
+    cities: z.array(z.number()).min(1).max(10).optional(),
+    // Trip corridor: everything within widthKm of the polyline through `path`
+    route: z
+      .object({
+        path: z.array(z.object({ lat: z.number().min(-90).max(90), lon: z.number().min(-180).max(180) })).min(2).max(500),
+        widthKm: z.number().min(0.5).max(50).default(5),
+      })
+      .optional(),
+  })
+  .refine((v) => !!v.city || !!v.geo || !!v.bbox || !!v.cities?.length || !!v.route, {
+    message: 'Either city, cities, geo, bbox or route must be provided',
   })
-  .refine((v) => !!v.city || !!v.geo || !!v.bbox, { message: 'Either city, geo or bbox must be provided' });
+  .refine((v) => !v.route || (!v.geo && !v.bbox), { message: 'route cannot be combined with geo or bbox' });
 
 export type WhereInput = z.infer<typeof whereSchema>;
 
-export const whenPresetEnum = z.enum(['now', 'today_evening', 'tonight', 'tomorrow', 'this_weekend']);
+export const whenPresetEnum = z.enum([
+  'now',
+  'today_evening',
+  'tonight',
+  'tomorrow',
+  'this_weekend',
+  'next_weekend',
+  'this_week',
+  'next_7_days',
+  'this_month',
+  'public_holiday',
+  'long_weekend',
+]);
 export const whenPresetSchema = z.object({ type: z.literal('preset'), preset: whenPresetEnum });
 export const whenRangeSchema = z.object({ type: z.literal('range'), from: z.iso.datetime(), to: z.iso.datetime() });
-export const whenSchema = z.union([whenPresetSchema, whenRangeSchema]);
+const localTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+// Weekly local-time window, e.g. Saturdays 13:00-18:00; toTime <= fromTime runs past midnight.
+// Repeats from `from` (default: now) until `to` (default: four weeks later)
+export const whenRecurringSchema = z
+  .object({
+    type: z.literal('recurring'),
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+    fromTime: localTimeSchema,
+    toTime: localTimeSchema,
+    from: z.iso.datetime().optional(),
+    to: z.iso.datetime().optional(),
+  })
+  .refine((v) => v.fromTime !== v.toTime, { message: 'fromTime and toTime must differ' })
+  .refine((v) => !v.from || !v.to || Date.parse(v.from) < Date.parse(v.to), { message: 'from must be before to' });
+export const whenSchema = z.union([whenPresetSchema, whenRangeSchema, whenRecurringSchema]);
 export type WhenInput = z.infer<typeof whenSchema>;
 
 export const companyTypeEnum = z.enum(['kids', 'couple', 'solo', 'friends', 'coworkers']);
@@ -79,12 +117,62 @@ export const extraFiltersSchema = z.object({
 });
 export type ExtraFiltersInput = z.infer<typeof extraFiltersSchema>;
 
-export const paginationSchema = z.object({ limit: z.number().int().min(1).max(100).default(20), offset: z.number().int().min(0).default(0), page: z.number() });
+// Position precedence: cursor, then page (1-based), then offset
+export const paginationSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+  page: z.number().int().min(1).optional(),
+  // Opaque cursor from a previous response's pagination.nextCursor
+  cursor: z.string().min(1).optional(),
+});
 export type PaginationInput = z.infer<typeof paginationSchema>;
 
+export const paginationResultSchema = z.object({
+  limit: z.number().int(),
+  offset: z.number().int().nonnegative(),
+  page: z.number().int(),
+  // Cursor of the next page; null when this is the last one
+  nextCursor: z.string().nullable().optional(),
+  hasMore: z.boolean().optional(),
+});
+
 export const sortEnum = z.enum(['rank', 'distance', 'start_time', 'price_asc', 'price_desc', 'rating']);
 export type SearchSort = z.infer<typeof sortEnum>;
 
+// Rank = (popularity·w + quality·w + freshness·w), blended with relevance for q, × distance decay × profile factor
+export const rankingWeightsSchema = z.object({
+  popularity: z.number().min(0).max(1),
+  quality: z.number().min(0).max(1),
+  freshness: z.number().min(0).max(1),
+  // Share of text relevance in the blended score when q is given
+  relevance: z.number().min(0).max(1),
+  // e-folding distance of the exponential distance decay
+  distanceScaleKm: z.number().min(0.1).max(1000),
+  // Profile factor ranges over 1 ± personalization/2
+  personalization: z.number().min(0).max(1),
+});
+export type RankingWeights = z.infer<typeof rankingWeightsSchema>;
+
+// hits: paginated SearchResponse; geojson: FeatureCollection of all matches; clusters: grid clusters for a map view
+export const searchFormatEnum = z.enum(['hits', 'geojson', 'clusters']);
+export type SearchFormat = z.infer<typeof searchFormatEnum>;
+
+// Diversification of the ranked list; omitted fields fall back to the server defaults.
+// Consecutive limits reorder sort=rank results only, duplicate events collapse in every sort.
+export const diversifySchema = z.object({
+  enabled: z.boolean().optional(),
+  // Max consecutive hits sharing a primary category / venue / source; 0 disables that limit
+  maxSameCategory: z.number().int().min(0).max(50).optional(),
+  maxSameVenue: z.number().int().min(0).max(50).optional(),
+  maxSameSource: z.number().int().min(0).max(50).optional(),
+  // Merge events with the same title at the same venue or start time (e.g. listed by several providers)
+  collapseDuplicates: z.boolean().optional(),
+});
+export type DiversifyInput = z.infer<typeof diversifySchema>;
+
+export const facetNameEnum = z.enum(['categories', 'priceTier', 'source', 'indoorOutdoor', 'weekday', 'distance', 'rating', 'free', 'isOnline', 'venue']);
+export type FacetName = z.infer<typeof facetNameEnum>;
+
 export const searchRequestSchema = z.object({
   q: z.string().trim().min(1).optional(),
   where: whereSchema,
@@ -97,6 +185,22 @@ export const searchRequestSchema = z.object({
   filters: extraFiltersSchema.optional(),
   pagination: paginationSchema.default({ limit: 100, offset: 0, page: 1 }),
   sort: sortEnum.default('rank'),
+  // Facets to compute; all of them when omitted
+  facets: z.array(facetNameEnum).optional(),
+  // Profile-based ranking for authenticated users; set false to opt out
+  personalize: z.boolean().optional(),
+  // Attach ranking diagnostics (hit.explain, meta.rankingWeights)
+  explain: z.boolean().optional(),
+  // Admin only: override ranking weights for this request
+  rankingWeights: rankingWeightsSchema.partial().optional(),
+  // Response format; geojson and clusters ignore pagination and facets
+  format: searchFormatEnum.optional(),
+  // Map zoom level for format=clusters (requires where.bbox)
+  zoom: z.number().int().min(0).max(22).optional(),
+  // Read when / who / budget / mood / categories out of `q`; explicit fields win, the rest of `q` stays as text
+  interpret: z.boolean().optional(),
+  // Limit runs of similar hits and collapse duplicate events
+  diversify: diversifySchema.optional(),
 });
 export type SearchRequest = z.infer<typeof searchRequestSchema>;
 
@@ -143,8 +247,31 @@ export const searchHitBaseSchema = z.object({
       rank: z.number().optional(),
       popularity: z.number().optional(),
       quality: z.number().optional(),
+      freshness: z.number().optional(),
+      // Text relevance of the hit for `q` (0..1)
+      relevance: z.number().optional(),
       distance: z.number().optional(),
       profileMatch: z.number().optional() }).optional(),
+  explain: z
+    .object({
+      // Rank factors in evaluation order; the rank is the weighted sum times every factor
+      components: z.array(
+        z.object({
+          name: z.enum(['popularity', 'quality', 'freshness', 'relevance', 'distance', 'profile', 'audience']),
+          value: z.number().nullable(),
+          weight: z.number().optional(),
+          contribution: z.number().optional(),
+          factor: z.number().optional(),
+        })
+      ),
+      matchedFilters: z.array(z.string()),
+      // How the hit entered the candidate set: the DB stage that selected it and whether this request's ingest added it
+      admittedBy: z.object({
+        stage: z.enum(['db_filter', 'online_ingest']),
+        selection: z.enum(['filters', 'text_match', 'geo_scan']),
+      }),
+    })
+    .optional(),
 });
 
 export const placeHitSchema = searchHitBaseSchema.extend({
@@ -172,7 +299,7 @@ export const eventHitSchema = searchHitBaseSchema.extend({
   isOnline: z.boolean().optional(),
   nextOccurrence: eventOccurrenceSummarySchema.nullable(),
   occurrences: z
-    .array(z.object({ start: z.string(), end: z.string().optional(), location: coordinatesSchema.optional(), venueId: z.string().optional(), timezone: z.string().optional(), url: z.string().url().optional() }))
+    .array(z.object({ id: z.string().optional(), start: z.string(), end: z.string().optional(), location: coordinatesSchema.optional(), venueId: z.string().optional(), timezone: z.string().optional(), url: z.string().url().optional() }))
     .optional(),
   priceFrom: z.number().min(0).nullable().optional(),
   priceTo: z.number().min(0).nullable().optional(),
@@ -187,20 +314,111 @@ export const eventHitSchema = searchHitBaseSchema.extend({
 
 export const searchHitSchema = z.union([placeHitSchema, eventHitSchema]);
 
-export const FacetBucketSchema = z.object({ key: z.string(), count: z.number().int().nonnegative() });
-export const FacetsSchema = z.object({ categories: z.array(FacetBucketSchema).optional(), priceTier: z.array(FacetBucketSchema).optional() }).optional();
+export const FacetBucketSchema = z.object({ key: z.string(), count: z.number().int().nonnegative(), label: z.string().optional() });
+export const FacetsSchema = z
+  .object({
+    categories: z.array(FacetBucketSchema).optional(),
+    priceTier: z.array(FacetBucketSchema).optional(),
+    source: z.array(FacetBucketSchema).optional(),
+    indoorOutdoor: z.array(FacetBucketSchema).optional(),
+    // Day of week of nextOccurrence in the event's timezone: mon..sun
+    weekday: z.array(FacetBucketSchema).optional(),
+    // Distance from the user point in km: 0-1, 1-3, 3-5, 5-10, 10+
+    distance: z.array(FacetBucketSchema).optional(),
+    // Rating buckets: 4.5+, 4-4.5, 3-4, 0-3
+    rating: z.array(FacetBucketSchema).optional(),
+    free: z.array(FacetBucketSchema).optional(),
+    isOnline: z.array(FacetBucketSchema).optional(),
+    // Venue of nextOccurrence (events): key is the place id, label its name
+    venue: z.array(FacetBucketSchema).optional(),
+  })
+  .optional();
+
+// Free text interpreted into SearchRequest fields; each chip is one recognized phrase the UI can show and edit
+export const queryChipFieldEnum = z.enum(['when', 'who', 'budget', 'mood', 'category', 'where']);
+export const queryChipSchema = z.object({
+  field: queryChipFieldEnum,
+  label: z.string(),
+  // The phrase of the input it was read from
+  text: z.string(),
+  value: z.unknown(),
+});
+export type QueryChip = z.infer<typeof queryChipSchema>;
+
+export const parsedQuerySchema = z.object({
+  text: z.string(),
+  // What is left of the text once recognized phrases and filler words are removed
+  q: z.string().optional(),
+  when: whenSchema.optional(),
+  who: whoSchema.optional(),
+  budget: budgetSchema.optional(),
+  mood: moodEnum.optional(),
+  categorySlugs: z.array(z.string()).optional(),
+  where: z
+    .object({
+      city: z.object({ id: z.number(), name: z.string(), countryCode: z.string().length(2) }).optional(),
+      // Unresolved place name ("near Camden") for the client to geocode
+      near: z.string().optional(),
+      nearMe: z.boolean().optional(),
+    })
+    .optional(),
+  chips: z.array(queryChipSchema),
+});
+export type ParsedQuery = z.infer<typeof parsedQuerySchema>;
+
+// One area of a multi-area search; cityId is null for hits outside every known city
+export const searchAreaSchema = z.object({
+  cityId: z.string().nullable(),
+  name: z.string().optional(),
+  total: z.number().int().nonnegative(),
+  totalPlaces: z.number().int().nonnegative(),
+  totalEvents: z.number().int().nonnegative(),
+});
+export type SearchArea = z.infer<typeof searchAreaSchema>;
 
 export const searchMetaSchema = z.object({
   target: targetEnum,
   totalPlaces: z.number().int().nonnegative().optional(),
   totalEvents: z.number().int().nonnegative().optional(),
-  effectiveFilters: z.object({ when: whenSchema.optional(), budget: budgetSchema.optional(), mood: moodEnum.optional(), transport: transportEnum.optional() }).optional(),
+  effectiveFilters: z
+    .object({
+      when: whenSchema.optional(),
+      // Absolute window the `when` resolved to, and the timezone presets were evaluated in
+      window: z
+        .object({
+          from: z.string().optional(),
+          to: z.string().optional(),
+          timeZone: z.string(),
+          // Sub-windows of recurring / holiday windows; results fall into one of them
+          intervals: z.array(z.object({ from: z.string(), to: z.string() })).optional(),
+        })
+        .optional(),
+      who: whoSchema.optional(),
+      timeBudget: timeBudgetEnum.optional(),
+      budget: budgetSchema.optional(),
+      mood: moodEnum.optional(),
+      transport: transportEnum.optional(),
+    })
+    .optional(),
+  // Multi-area searches (where.cities / where.route): ranked hits per city
+  areas: z.array(searchAreaSchema).optional(),
+  // Request filters that shaped the result set vs. those accepted but not supported by this search path
+  appliedFilters: z.array(z.string()).optional(),
+  ignoredFilters: z.array(z.string()).optional(),
+  // Whether scores.profileMatch was blended into the rank
+  personalized: z.boolean().optional(),
+  // Effective ranking weights (explain mode)
+  rankingWeights: rankingWeightsSchema.optional(),
+  // How `q` was read (interpret mode)
+  interpretation: parsedQuerySchema.optional(),
+  // Diversification pass: duplicate events merged into a higher-ranked hit, hits moved down to break up runs
+  diversification: z.object({ collapsed: z.number().int().nonnegative(), reordered: z.number().int().nonnegative() }).optional(),
 });
 
 export const searchResponseSchema = z.object({
   queryId: z.string(),
   total: z.number().int().nonnegative(),
-  pagination: paginationSchema,
+  pagination: paginationResultSchema,
   tookMs: z.number().int().nonnegative().optional(),
   warnings: z.array(z.string()).optional(),
   meta: searchMetaSchema.optional(),
@@ -210,3 +428,224 @@ export const searchResponseSchema = z.object({
 });
 
 export type SearchResponse = z.infer<typeof searchResponseSchema>;
+
+// Streaming search (POST /api/search/stream): one event per NDJSON line or SSE message.
+// `initial` is the DB-only page, `batch` follows every provider that finished and was persisted
+// (items: ranked hits not sent before), `final` is the ranked page after the whole ingest.
+export const searchStreamBatchSchema = z.object({
+  type: z.literal('batch'),
+  provider: z.string(),
+  source: SourceTypeEnum,
+  kind: z.enum(['place', 'event']),
+  ingested: z.object({
+    total: z.number().int().nonnegative(),
+    created: z.number().int().nonnegative(),
+    updated: z.number().int().nonnegative(),
+    errors: z.number().int().nonnegative(),
+  }),
+  warning: z.string().optional(),
+  total: z.number().int().nonnegative(),
+  items: z.array(searchHitSchema),
+});
+
+export const searchStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('initial'), response: searchResponseSchema }),
+  searchStreamBatchSchema,
+  z.object({ type: z.literal('final'), response: searchResponseSchema }),
+  z.object({ type: z.literal('error'), message: z.string(), code: z.string().optional() }),
+]);
+
+export type SearchStreamEvent = z.infer<typeof searchStreamEventSchema>;
+
+// Typeahead suggestions (GET /api/search/suggest)
+export const suggestionTypeEnum = z.enum(['place', 'event', 'category', 'city']);
+export type SuggestionType = z.infer<typeof suggestionTypeEnum>;
+
+export const suggestQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lon: z.coerce.number().min(-180).max(180).optional(),
+  cityId: z.string().optional().describe('restrict places and events to a city'),
+  types: z.string().optional().describe('comma-separated subset of place,event,category,city'),
+  limit: z.coerce.number().int().min(1).max(20).default(10),
+});
+export type SuggestQuery = z.infer<typeof suggestQuerySchema>;
+
+export const suggestionSchema = z.object({
+  type: suggestionTypeEnum,
+  // Place / event id, category slug or geo city id
+  id: z.string(),
+  label: z.string(),
+  // Secondary line: category, city or country
+  sublabel: z.string().optional(),
+  score: z.number(),
+  location: coordinatesSchema.nullable().optional(),
+  distanceKm: z.number().optional(),
+});
+export type Suggestion = z.infer<typeof suggestionSchema>;
+
+export const suggestResponseSchema = z.object({
+  queryId: z.string(),
+  tookMs: z.number().int().nonnegative().optional(),
+  warnings: z.array(z.string()).optional(),
+  items: z.array(suggestionSchema),
+});
+export type SuggestResponse = z.infer<typeof suggestResponseSchema>;
+
+// "More like this" for a place or event; hits are ordered by similarity (scores.rank, 0..1)
+export const similarQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+});
+export type SimilarQuery = z.infer<typeof similarQuerySchema>;
+
+export const similarResponseSchema = z.object({
+  queryId: z.string(),
+  sourceId: z.string(),
+  total: z.number().int().nonnegative(),
+  tookMs: z.number().int().nonnegative().optional(),
+  items: z.array(searchHitSchema),
+});
+export type SimilarResponse = z.infer<typeof similarResponseSchema>;
+
+// Trending feeds per city (engagement over a sliding window) and events starting soon
+export const trendingQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(30).optional().describe('sliding window; TRENDING_WINDOW_DAYS by default'),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+});
+export type TrendingQuery = z.infer<typeof trendingQuerySchema>;
+
+export const trendingSignalsSchema = z.object({
+  // Time-decayed weighted sum of the signals below
+  score: z.number(),
+  favorites: z.number().int().nonnegative(),
+  planAdds: z.number().int().nonnegative(),
+  reviews: z.number().int().nonnegative(),
+  clicks: z.number().int().nonnegative(),
+});
+export type TrendingSignals = z.infer<typeof trendingSignalsSchema>;
+
+export const trendingResponseSchema = z.object({
+  queryId: z.string(),
+  cityId: z.string(),
+  windowDays: z.number().int(),
+  total: z.number().int().nonnegative(),
+  tookMs: z.number().int().nonnegative().optional(),
+  items: z.array(searchHitSchema.and(z.object({ trending: trendingSignalsSchema }))),
+});
+
+export const startingSoonQuerySchema = z.object({
+  hours: z.coerce.number().min(0.5).max(12).default(3),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+});
+export type StartingSoonQuery = z.infer<typeof startingSoonQuerySchema>;
+
+export const startingSoonResponseSchema = z.object({
+  queryId: z.string(),
+  cityId: z.string(),
+  from: z.string(),
+  to: z.string(),
+  total: z.number().int().nonnegative(),
+  tookMs: z.number().int().nonnegative().optional(),
+  items: z.array(searchHitSchema),
+});
+
+// Click-through on a search hit (POST /api/search/click)
+export const searchClickSchema = z.object({
+  type: z.enum(['place', 'event']),
+  id: z.string().min(1),
+  queryId: z.string().max(100).optional(),
+  position: z.number().int().min(0).optional(),
+});
+export type SearchClickInput = z.infer<typeof searchClickSchema>;
+
+// Admin search analytics (SearchQueryLog aggregated per query fingerprint)
+export const searchAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+  cityId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+export type SearchAnalyticsQuery = z.infer<typeof searchAnalyticsQuerySchema>;
+
+export const queryStatsSchema = z.object({
+  fingerprint: z.string(),
+  q: z.string().nullable(),
+  cityId: z.string().nullable(),
+  target: z.string(),
+  categories: z.array(z.string()),
+  keyParts: z.unknown(),
+  count: z.number().int(),
+  avgTotal: z.number(),
+  avgTookMs: z.number().int(),
+  maxTookMs: z.number().int(),
+  lastSeenAt: z.string(),
+});
+
+export const queryStatsResponseSchema = z.object({
+  since: z.string(),
+  items: z.array(queryStatsSchema),
+});
+
+export const zeroResultStatsResponseSchema = queryStatsResponseSchema.extend({
+  byCity: z.array(z.object({ cityId: z.string().nullable(), count: z.number().int() })),
+});
+
+// Map output of /api/search (format=geojson | clusters)
+const geoJsonPointSchema = z.object({
+  type: z.literal('Point'),
+  // [lon, lat]
+  coordinates: z.tuple([z.number(), z.number()]),
+});
+
+export const mapHitPropertiesSchema = z.object({
+  id: z.string(),
+  type: z.enum(['place', 'event']),
+  title: z.string(),
+  category: z.string().nullable(),
+  priceTier: z.string().nullable().optional(),
+  rating: z.number().nullable().optional(),
+  rank: z.number().optional(),
+  // Events: the occurrence the point stands for
+  occurrenceId: z.string().optional(),
+  startsAt: z.string().optional(),
+  placeId: z.string().optional(),
+});
+
+export const mapClusterPropertiesSchema = z.object({
+  cluster: z.literal(true),
+  clusterId: z.string(),
+  pointCount: z.number().int().positive(),
+  types: z.object({ place: z.number().int().nonnegative(), event: z.number().int().nonnegative() }),
+  // Primary categories of the members, most frequent first
+  categories: z.array(z.object({ slug: z.string(), count: z.number().int().positive() })),
+});
+
+export const mapFeatureSchema = z.object({
+  type: z.literal('Feature'),
+  geometry: geoJsonPointSchema,
+  properties: z.union([mapClusterPropertiesSchema, mapHitPropertiesSchema]),
+});
+export type MapFeature = z.infer<typeof mapFeatureSchema>;
+
+export const searchMapResponseSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  format: searchFormatEnum.exclude(['hits']),
+  queryId: z.string(),
+  // Matching items, including those without coordinates or past the feature cap
+  total: z.number().int().nonnegative(),
+  tookMs: z.number().int().nonnegative().optional(),
+  warnings: z.array(z.string()).optional(),
+  zoom: z.number().int().optional(),
+  // [west, south, east, north]
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+  features: z.array(mapFeatureSchema),
+});
+export type SearchMapResponse = z.infer<typeof searchMapResponseSchema>;
+
+// Query interpretation preview for the search box
+export const parseQueryRequestSchema = z.object({
+  q: z.string().trim().min(1).max(300),
+  // Catalog city of the search, for weekday phrases in its local time
+  cityId: z.number().optional(),
+  timeZone: z.string().optional(),
+});
+export type ParseQueryRequest = z.infer<typeof parseQueryRequestSchema>;
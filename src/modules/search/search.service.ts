@@ -1,6 +1,6 @@
 import { z } from 'zod';
-import type { PrismaClient } from '@prisma/client';
-import type { SearchRequest } from './search.schemas.js';
+import { Prisma, type PrismaClient } from '@prisma/client';
+import type { RankingWeights, SearchRequest } from './search.schemas.js';
 import {
   searchResponseSchema,
   type SearchResponse,
@@ -18,105 +18,48 @@ import { EVENT_TO_TICKETMASTER } from '../catalog/taxonomy/mapping.ticketmaster.
 import { EVENT_TO_PREDICTHQ } from '../catalog/taxonomy/mapping.predicthq.js';
 import type { SourceType } from './search.schemas.js';
 import { GeoService } from '../geo/geo.service.js';
+import { buildAudienceFilter, describeFilterUsage, expectedDurationForCategory, matchedFilters } from './search.filters.js';
+import { coerceOpeningHours, evaluateOpeningHours } from '../catalog/places/opening-hours.js';
+import { areaBreakdown, buildGeoScope, occurrenceGeoWhere, searchCityIds, type GeoScope } from './search.geo.js';
+import { SEARCH_CURSOR_MAX_AGE_SEC, SEARCH_MAP_MAX_FEATURES, SEARCH_PERSONALIZATION_ENABLED } from '../../config/search.js';
+import { parseTextQuery, queryWithTextMatch, scoreTextMatch } from './search.text.js';
+import {
+  candidateBatchSql,
+  candidateCountSql,
+  candidateIdsSql,
+  type CandidateCountRow,
+  type CandidateEntity,
+  type CandidateFilters,
+  type OccurrenceWindow,
+  type OrderedCandidateRow,
+} from './search.candidates.js';
+import { facetCountSql, facetsFromCounts, type FacetCountRow } from './search.facets.js';
+import { loadSearchCalendar, resolveTimeWindow } from './search.time.js';
+import { loadPersonalizationProfile, profileRankFactor, scoreProfileMatch, type PersonalizationProfile } from './search.personalization.js';
+import { composeRank, DEFAULT_RANKING_WEIGHTS, distanceFactorSql, rankSql } from './search.ranking.js';
+import { computeWeekday, eventHitSelect, eventRowToHit, hitCategorySlugs, occurrenceEntry, occurrenceHitSelect, occurrenceLocation, placeHitSelect, placeRowToHit, type SearchHit } from './search.hits.js';
+import {
+  compareSortKeys,
+  cursorSql,
+  paginateSorted,
+  readInOrder,
+  requestFingerprint,
+  resolvePageRequest,
+  sortKeySql,
+  type OrderedBatch,
+  type SortKey,
+} from './search.pagination.js';
+import { duplicateEventCollapser, paginateDiversified, resolveDiversifyOptions } from './search.diversify.js';
+import type { ProviderKeys } from '../ingestion/ingestion.service.js';
 
 // Config: return only items that have photos (imageUrl)
 const SEARCH_ONLY_WITH_PHOTOS = process.env.SEARCH_ONLY_WITH_PHOTOS === 'true';
 
-export type ProviderKeys = {
-  ticketmasterApiKey?: string;
-  predicthqToken?: string;
-  geoapifyApiKey?: string;
-  googlePlacesApiKey?: string;
-  foursquareApiKey?: string;
-};
-
-export function resolveTimeWindow(query: SearchRequest): { fromISO?: string; toISO?: string } {
-  const now = new Date();
-  let fromISO: string | undefined;
-  let toISO: string | undefined;
-  if (!query.when) {
-    // default to next 14 days from now
-    const start = new Date(now);
-    const end = new Date(now);
-    end.setDate(end.getDate() + 10);
-    fromISO = start.toISOString();
-    toISO = end.toISOString();
-    return { fromISO, toISO };
-  }
-  if (query.when.type === 'range') {
-    fromISO = query.when.from;
-    toISO = query.when.to;
-    return { fromISO, toISO };
-  }
+// Rows per candidate batch of the DB search: the first batch fits the page, later ones double up to the max
+const MIN_CANDIDATE_BATCH = 50;
+const MAX_CANDIDATE_BATCH = 1000;
 
-  // Presets
-  const start = new Date(now);
-  const end = new Date(now);
-  switch (query.when.preset) {
-    case 'now':
-      end.setHours(end.getHours() + 6);
-      break;
-    case 'today_evening':
-    case 'tonight': {
-      const d = new Date(now);
-      d.setHours(18, 0, 0, 0);
-      start.setTime(d.getTime());
-      const endTonight = new Date(d);
-      endTonight.setHours(23, 59, 59, 999);
-      end.setTime(endTonight.getTime());
-      break;
-    }
-    case 'tomorrow': {
-      const d = new Date(now);
-      d.setDate(d.getDate() + 1);
-      d.setHours(0, 0, 0, 0);
-      start.setTime(d.getTime());
-      const e = new Date(d);
-      e.setHours(23, 59, 59, 999);
-      end.setTime(e.getTime());
-      break;
-    }
-    case 'this_weekend': {
-      // Mon–Fri: upcoming Friday 18:00 → Sunday 23:59
-      // Sat/Sun: current Saturday 00:00 → this Sunday 23:59
-      const d = new Date(now);
-      const day = d.getDay(); // 0 Sun .. 6 Sat
-
-      if (day === 6 || day === 0) {
-        // Weekend case
-        const saturday = new Date(d);
-        if (day === 6) {
-          // today is Saturday – start today 00:00
-          saturday.setHours(0, 0, 0, 0);
-        } else {
-          // today is Sunday – start from yesterday (Saturday) 00:00
-          saturday.setDate(d.getDate() - 1);
-          saturday.setHours(0, 0, 0, 0);
-        }
-        const sunday = new Date(saturday);
-        sunday.setDate(saturday.getDate() + 1);
-        sunday.setHours(23, 59, 59, 999);
-        start.setTime(saturday.getTime());
-        end.setTime(sunday.getTime());
-      } else {
-        // Weekday case – next Friday evening to Sunday late night
-        const daysUntilFriday = (5 - day + 7) % 7; // 5 = Friday
-        const friday = new Date(d);
-        friday.setDate(d.getDate() + daysUntilFriday);
-        friday.setHours(18, 0, 0, 0);
-        const sunday = new Date(friday);
-        sunday.setDate(friday.getDate() + 2);
-        sunday.setHours(23, 59, 59, 999);
-        start.setTime(friday.getTime());
-        end.setTime(sunday.getTime());
-      }
-      break;
-    }
-  }
-  fromISO = start.toISOString();
-  toISO = end.toISOString();
-  return { fromISO, toISO };
-}
+export type { ProviderKeys };
 
 // Utilities
 function safeISO(dateStr?: string | null): string | undefined {
@@ -125,13 +68,6 @@ function safeISO(dateStr?: string | null): string | undefined {
   return isNaN(d.getTime()) ? undefined : d.toISOString();
 }
 
-function computeWeekday(iso?: string): number | undefined {
-  if (!iso) return undefined;
-  const d = new Date(iso);
-  if (isNaN(d.getTime())) return undefined;
-  return d.getDay(); // 0..6
-}
-
 function haversineKm(a?: { lat: number; lon: number } | null, b?: { lat: number; lon: number } | null): number | undefined {
   if (!a || !b) return undefined;
   const R = 6371; // km
@@ -462,7 +398,7 @@ export async function searchUnified(
                 startsAt,
                 endsAt,
                 timezone: next?.timezone,
-                weekday: computeWeekday(startsAt),
+                weekday: computeWeekday(startsAt, next?.timezone),
                 location: ev.location ?? null,
                 place: ev.venueId ? { id: '00000000-0000-0000-0000-000000000000', name: ev.venueName || undefined } : null,
               };
@@ -715,393 +651,449 @@ export async function searchUnified(
   return searchResponseSchema.parse(response);
 }
 
+// Hits tracked by searchUnifiedFromDb (opts.track): the first `limit` of the ranking, whether more hits match, and
+// which of the `previous` items missing from them still match the search (ranked beyond the limit)
+export type TrackedHits = {
+  items: SearchHit[];
+  truncated: boolean;
+  beyondLimit: Array<{ type: CandidateEntity; id: string }>;
+};
+
 // New: DB-backed search using ingested data
 export async function searchUnifiedFromDb(
   query: SearchRequest,
-  prisma: PrismaClient
-): Promise<SearchResponse> {
+  prisma: PrismaClient,
+  // rankingWeights: resolved (and authorized) by the caller; ingestedSince: start of this request's online ingest;
+  // maxItems: return up to this many ranked hits in one go instead of a page (map formats);
+  // allOccurrences: list every occurrence in the window and the area on event hits (hit.occurrences, map formats);
+  // track: also return the first `limit` hits of the ranking (saved search snapshots, see TrackedHits)
+  opts: {
+    userId?: string;
+    rankingWeights?: RankingWeights;
+    ingestedSince?: Date;
+    maxItems?: number;
+    allOccurrences?: boolean;
+    track?: { limit: number; previous?: Array<{ type: CandidateEntity; id: string }> };
+  } = {}
+): Promise<SearchResponse & { tracked?: TrackedHits }> {
   const started = Date.now();
   const warnings: string[] = [];
 
-  const { fromISO, toISO } = resolveTimeWindow(query);
+  // Cursor pages reuse the first page's instant: same time window, same snapshot of rows
+  const sortMode = query.sort ?? 'rank';
+  const pageRequest = opts.maxItems
+    ? { limit: opts.maxItems, offset: 0, asOf: new Date() }
+    : resolvePageRequest(query, { maxCursorAgeSec: SEARCH_CURSOR_MAX_AGE_SEC });
+  const asOf = pageRequest.asOf;
+  const dbCityIds = searchCityIds(query.where);
+  const calendar = await loadSearchCalendar(prisma, query, asOf);
+  warnings.push(...calendar.warnings);
+  const { timeZone, holidays } = calendar;
+  const { fromISO, toISO, intervals } = resolveTimeWindow(query, { now: asOf, timeZone, holidays });
 
   const shouldQueryEvents = query.target === 'events' || query.target === 'both';
   const shouldQueryPlaces = query.target === 'places' || query.target === 'both';
+  const entities: CandidateEntity[] = [...(shouldQueryEvents ? ['event' as const] : []), ...(shouldQueryPlaces ? ['place' as const] : [])];
 
   // Resolve location for distance
   const hasGeo = !!query.where.geo && query.where.geo.lat != null && query.where.geo.lon != null;
-  const center = hasGeo ? { lat: query.where.geo!.lat, lon: query.where.geo!.lon } : undefined;
 
   // Extract basic filters
   const filterCategories = query.filters?.categorySlugs && query.filters.categorySlugs.length ? Array.from(new Set(query.filters.categorySlugs)) : undefined;
   const filterSources = query.filters?.sources && query.filters.sources.length ? Array.from(new Set(query.filters.sources)) : undefined;
   const filterPriceTier = query.budget?.tier && query.budget.tier !== 'ANY' ? query.budget.tier : undefined;
-  // Note: openNowOnly and other advanced filters are not applied yet in MVP
-
-  // Fetch candidates from DB
-  const dbCityId = query.where?.city?.id != null ? String(query.where.city.id) : undefined;
-  const candidatesPlaces = shouldQueryPlaces
-    ? await prisma.place.findMany({
-        where: {
-          isActive: true,
-          moderation: 'APPROVED' as any,
-          ...(dbCityId ? { cityId: dbCityId } : {}),
-          ...(SEARCH_ONLY_WITH_PHOTOS ? { imageUrl: { not: null } as any } : {}),
-          ...(filterPriceTier ? { priceTier: filterPriceTier as any } : {}),
-          ...(filterSources ? { sources: { some: { source: { in: filterSources as any } } } } : {}),
-          ...(filterCategories
-            ? {
-                OR: [
-                  { mainCategory: { is: { key: { in: filterCategories as any } } } as any },
-                  { categories: { some: { category: { key: { in: filterCategories as any } } } } },
-                ],
-              }
-            : {}),
-        },
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          cityId: true,
-          city: { select: { id: true, name: true, countryCode: true, codeIATA: true } as any },
-          lat: true,
-          lng: true,
-          address: true,
-          url: true,
-          imageUrl: true,
-          mainCategory: { select: { id: true, key: true, title: true } as any },
-          popularityScore: true,
-          qualityScore: true,
-          freshnessScore: true,
-          reviewCount: true,
-          rating: true,
-          priceTier: true,
-          provider: true,
-          providerCategories: true,
-          openingHours: true,
-          sources: { select: { source: true, externalId: true, url: true } as any },
-          categories: { select: { category: { select: { key: true, title: true } as any } } },
-        },
-        take: 100,
-      })
-    : [];
-
+  // who / mood / timeBudget: hard exclusions go to the DB query, the rest is applied after mapping
+  const audience = buildAudienceFilter(query);
+  const audienceExcluded = audience.excludedCategorySlugs.length ? audience.excludedCategorySlugs : undefined;
+  const geoScope = buildGeoScope(query.where);
+
+  // Time window of event occurrences
+  const occurrences: OccurrenceWindow = {
+    from: fromISO ? new Date(fromISO) : undefined,
+    to: toISO ? new Date(toISO) : undefined,
+    intervals: intervals?.map((iv) => ({ from: new Date(iv.fromISO), to: new Date(iv.toISO) })),
+  };
+  // The same window (and the scope's box) for the occurrences listed on map hits
   const timeWhere: any = {};
   if (fromISO) timeWhere.gte = new Date(fromISO);
   if (toISO) timeWhere.lte = new Date(toISO);
-
-  const candidatesEvents = shouldQueryEvents
-    ? await prisma.event.findMany({
-        where: {
-          isActive: true,
-          moderation: 'APPROVED' as any,
-          occurrences: { some: { startTime: timeWhere } },
-          ...(dbCityId ? { cityId: dbCityId } : {}),
-          ...(SEARCH_ONLY_WITH_PHOTOS ? { imageUrl: { not: null } as any } : {}),
-          ...(filterPriceTier ? { priceTier: filterPriceTier as any } : {}),
-          ...(filterSources ? { sources: { some: { source: { in: filterSources as any } } } } : {}),
-          ...(filterCategories
-            ? {
-                OR: [
-                  { mainCategory: { is: { key: { in: filterCategories as any } } } as any },
-                  { categories: { some: { category: { key: { in: filterCategories as any } } } } },
-                ],
-              }
-            : {}),
-        },
-        select: {
-          id: true,
-          title: true,
-          description: true,
-          imageUrl: true,
-          cityId: true,
-          city: { select: { id: true, name: true, countryCode: true, codeIATA: true } as any },
-          mainCategory: { select: { id: true, key: true, title: true } as any },
-          popularityScore: true,
-          qualityScore: true,
-          freshnessScore: true,
-          priceTier: true,
-          priceFrom: true,
-          priceTo: true,
-          currency: true,
-          isOnline: true,
-          ageLimit: true,
-          languages: true,
-          ticketsUrl: true,
-          provider: true,
-          providerCategories: true,
-          sources: { select: { source: true, externalId: true, url: true } as any },
-          categories: { select: { category: { select: { key: true, title: true } as any } } },
-          occurrences: {
-            where: { startTime: timeWhere },
-            orderBy: { startTime: 'asc' },
-            take: 1,
-            select: {
-              id: true,
-              startTime: true,
-              endTime: true,
-              timezone: true,
-              lat: true,
-              lng: true,
-              url: true,
-              place: { select: { id: true, name: true, lat: true, lng: true } as any },
-            },
-          },
-        },
-        take: 100,
-      })
-    : [];
-
-  // Ranking params
-  const composeRank = (pop?: number | null, qual?: number | null, fresh?: number | null, distanceKm?: number) => {
-    const popularity = pop ?? 0;
-    const quality = qual ?? 0;
-    const freshness = fresh ?? 0;
-    const base = 0.35 * popularity + 0.4 * quality + 0.25 * freshness;
-    const dist = distanceKm ?? (hasGeo ? 9999 : 0);
-    const distanceFactor = hasGeo ? Math.exp(-(dist) / 10) : 1; // penalty by ~10km scale
-    return base * distanceFactor;
+  const occurrenceAnd: any[] = [];
+  if (intervals?.length) {
+    occurrenceAnd.push({ OR: intervals.map((iv) => ({ startTime: { gte: new Date(iv.fromISO), lte: new Date(iv.toISO) } })) });
+  }
+  if (geoScope) occurrenceAnd.push(occurrenceGeoWhere(geoScope));
+  const occurrenceWhere: any = { startTime: timeWhere, ...(occurrenceAnd.length ? { AND: occurrenceAnd } : {}) };
+
+  // Every DB filter of the search, the exact scope and the text match, as SQL over places and events
+  const textQuery = parseTextQuery(query.q);
+  const candidateFilters: CandidateFilters = {
+    asOf,
+    cityIds: dbCityIds,
+    onlyWithPhotos: SEARCH_ONLY_WITH_PHOTOS,
+    priceTier: filterPriceTier,
+    sources: filterSources,
+    categorySlugs: filterCategories,
+    excludedCategorySlugs: audienceExcluded,
+    maxAgeLimit: audience.maxAgeLimit,
+    occurrences,
+    geoScope,
+    text: textQuery ? { query: textQuery, fullText: true } : undefined,
   };
 
-  // Map places to hits
+  // Matching rows per entity and city (total, meta.areas); without pg_trgm fall back to ILIKE matching for q
+  let counts: CandidateCountRow[];
+  try {
+    counts = await queryWithTextMatch<CandidateCountRow>(prisma, candidateCountSql(entities, candidateFilters), !!textQuery);
+  } catch (err) {
+    if (!textQuery) throw err;
+    candidateFilters.text = { query: textQuery, fullText: false };
+    warnings.push('full-text search unavailable, using basic text matching');
+    counts = await prisma.$queryRaw<CandidateCountRow[]>(candidateCountSql(entities, candidateFilters));
+  }
+  const fullText = !!candidateFilters.text?.fullText;
+  const countOf = (type: CandidateEntity) => counts.filter((c) => c.type === type).reduce((n, c) => n + Number(c.count), 0);
+
+  // Personalization for authenticated users (a company type given in the request wins over the profile's)
+  let profile: PersonalizationProfile | undefined;
+  if (opts.userId && SEARCH_PERSONALIZATION_ENABLED && query.personalize !== false) {
+    try {
+      profile = await loadPersonalizationProfile(prisma, opts.userId);
+      if (profile && query.who?.companyType) profile.companyType = undefined;
+    } catch {
+      warnings.push('personalization skipped: profile could not be loaded');
+    }
+  }
+
+  // Ranking and explain mode
+  const rankingWeights = opts.rankingWeights ?? DEFAULT_RANKING_WEIGHTS;
+  const explain = query.explain === true;
+  const filterUsage = describeFilterUsage(query);
+  const admittedBy = (row: { createdAt?: Date }, selection: 'filters' | 'text_match' | 'geo_scan') => ({
+    stage: opts.ingestedSince && row.createdAt && row.createdAt >= opts.ingestedSince ? ('online_ingest' as const) : ('db_filter' as const),
+    selection,
+  });
+  const selection = geoScope ? 'geo_scan' : textQuery ? 'text_match' : 'filters';
+
+  // Opening hours are evaluated at the start of the window (but not in the past);
+  // for "now" queries the place must be open at that instant, otherwise at any moment of the window
+  const nowDate = asOf;
+  const windowFrom = occurrences.from;
+  const windowTo = occurrences.to;
+  const hoursAt = windowFrom && windowFrom.getTime() > nowDate.getTime() ? windowFrom : nowDate;
+  const isNowQuery = !query.when || (query.when.type === 'preset' && query.when.preset === 'now');
+  const openNowOnly = query.filters?.openNowOnly === true;
+
+  // Place rows to hits (undefined: closed while openNowOnly)
   type Hit = z.infer<typeof searchHitSchema>;
-  const placeHits: Hit[] = candidatesPlaces.map((p: any) => {
+  let placesClosed = 0;
+  let placesWithoutHours = 0;
+  const placeHit = (p: any, row: OrderedCandidateRow): Hit | undefined => {
+    const hours = coerceOpeningHours(p.openingHours);
+    const hoursTz = hours?.timezone || (p.city?.tz && p.city.tz !== 'UTC' ? p.city.tz : timeZone);
+    const openState = hours && hours.periods.length
+      ? evaluateOpeningHours(hours, { at: isNowQuery ? nowDate : hoursAt, from: windowFrom, to: windowTo, intervals: occurrences.intervals }, hoursTz)
+      : undefined;
+    if (openNowOnly) {
+      if (!openState) placesWithoutHours++;
+      else if (!(isNowQuery ? openState.openNow : openState.openInWindow)) {
+        placesClosed++;
+        return undefined;
+      }
+    }
     const loc = p.lat != null && p.lng != null ? { lat: Number(p.lat), lon: Number(p.lng) } : null;
-    const distanceKm = center && loc ? (haversineKm(center, loc) || undefined) : undefined;
-    const rank = composeRank(p.popularityScore, p.qualityScore, p.freshnessScore, distanceKm);
-    const primaryCatSlug = (p.mainCategory as any)?.key as string | undefined;
-    const expectedDuration = resolveExpectedDurationForPlace(primaryCatSlug ?? 'place.other');
-    // City object
-    const cityObj = p.city
-      ? {
-          id: p.city.id,
-          code: p.city.codeIATA ?? p.city.id,
-          name: p.city.name,
-          countryCode: p.city.countryCode,
-        }
-      : null;
-    // Categories array
-    const categoriesArr = Array.isArray(p.categories)
-      ? p.categories.map((c: any) => ({ slug: c.category.key as string, type: 'PLACE' as const, name: c.category.title as string | undefined }))
-      : [];
-    // Sources array
-    const sourcesArr = Array.isArray(p.sources)
-      ? p.sources.map((s: any) => ({ source: s.source, externalId: String(s.externalId), url: s.url ?? undefined }))
+    const distanceKm = row.km ?? undefined;
+    const relevance = textQuery
+      ? fullText ? Number(row.rel) : scoreTextMatch(textQuery, { title: p.name, description: p.description, tags: p.tags })
       : undefined;
-    // Choose url: use first source url if present
-    const firstSourceUrl: string | undefined = Array.isArray(p.sources) && p.sources.length ? (p.sources[0]?.url ?? undefined) : undefined;
-    const placeUrl: string | undefined = p.url ?? undefined;
-    // categoryMeta.raw from providerCategories
-    const rawCats = typeof p.providerCategories === 'string' && p.providerCategories.length
-      ? p.providerCategories.split(',').map((s: string) => s.trim()).filter((s: string) => s.length)
+    const primaryCatSlug = (p.mainCategory as any)?.key as string | undefined;
+    const profileMatch = profile
+      ? scoreProfileMatch(profile, {
+          id: p.id,
+          title: p.name,
+          categorySlugs: [primaryCatSlug, ...(p.categories ?? []).map((c: any) => c.category.key)].filter(Boolean),
+          categoryNames: (p.categories ?? []).map((c: any) => c.category.title),
+          tags: p.tags,
+          priceTier: p.priceTier,
+          location: loc,
+        })
       : undefined;
-    const categoryMeta = rawCats && rawCats.length ? { raw: rawCats } : undefined;
-    const sourceType = mapSourceType(p.provider as SourceType | undefined);
-    return {
-      id: p.id,
-      type: 'place',
-      title: p.name || 'Place',
-      description: p.description ?? null,
-      city: cityObj,
-      primaryCategory: primaryCatSlug ? { slug: primaryCatSlug, type: 'PLACE', name: (p.mainCategory as any)?.title } : null,
-      categories: categoriesArr,
-      cardType: undefined,
-      address: p.address || undefined,
-      location: loc,
-      distanceKm,
-      indoorOutdoor: undefined,
-      priceTier: (p.priceTier as any) ?? null,
-      rating: p.rating ?? null,
-      reviewCount: p.reviewCount ?? null,
-      imageUrl: p.imageUrl ?? null,
-      photos: [],
-      sourceType,
-      sourceProvider: p.provider ?? undefined,
-      sources: sourcesArr,
-      url: placeUrl ?? firstSourceUrl ?? undefined,
-      scores: { rank, popularity: p.popularityScore ?? undefined, quality: p.qualityScore ?? undefined, distance: distanceKm },
-      openingHours: undefined,
-      openNow: undefined,
-      openUntil: undefined,
-      expectedDuration,
-      categoryMeta,
-    } as any as Hit;
-  });
-
-  // Helper: map provider to response-level sourceType (use function declaration to avoid TDZ issues)
-  function mapSourceType(p?: SourceType | null): 'API' | 'PARTNER' | 'MANUAL' | 'INTERNAL' {
-    if (!p) return 'API';
-    if (p === 'PARTNER') return 'PARTNER';
-    if (p === 'MANUAL') return 'MANUAL';
-    // External APIs → API
-    return 'API';
-  }
+    const ranked = composeRank(
+      { popularity: p.popularityScore, quality: p.qualityScore, freshness: p.freshnessScore, distanceKm, distanceFactor: row.df, relevance, profileMatch },
+      rankingWeights,
+      { hasGeo }
+    );
+    const hit = placeRowToHit(p, { distanceKm, rank: ranked.rank, relevance, profileMatch, hours, hoursTz, openState });
+    if (explain) {
+      hit.explain = {
+        components: ranked.components,
+        matchedFilters: matchedFilters(query, filterUsage.applied, {
+          type: 'place',
+          categorySlugs: hitCategorySlugs(hit),
+          sources: (hit.sources ?? []).map((s) => s.source),
+          priceTier: p.priceTier,
+          relevance,
+          openInWindow: openState ? (isNowQuery ? openState.openNow : openState.openInWindow) : undefined,
+        }),
+        admittedBy: admittedBy(p, selection),
+      };
+    }
+    return hit;
+  };
 
-  // Map events to hits
-  const eventHits: Hit[] = candidatesEvents.map((e: any) => {
+  // Event rows (loaded with the occurrence picked by the candidate SQL) to hits
+  const eventHit = (e: any, row: OrderedCandidateRow): Hit => {
     const occ = Array.isArray(e.occurrences) && e.occurrences.length ? e.occurrences[0] : undefined;
-    const occLoc = occ
-      ? (occ.lat != null && occ.lng != null
-          ? { lat: Number(occ.lat), lon: Number(occ.lng) }
-          : (occ.place && occ.place.lat != null && occ.place.lng != null
-              ? { lat: Number(occ.place.lat), lon: Number(occ.place.lng) }
-              : null))
-      : null;
-    const distanceKm = center && occLoc ? (haversineKm(center, occLoc) || undefined) : undefined;
-    const rank = composeRank(e.popularityScore, e.qualityScore, e.freshnessScore, distanceKm);
-    const primaryCatSlug = (e.mainCategory as any)?.key as string | undefined;
-    // City object
-    const cityObj = e.city
-      ? {
-          id: e.city.id,
-          code: e.city.codeIATA ?? e.city.id,
-          name: e.city.name,
-          countryCode: e.city.countryCode,
-        }
-      : null;
-    // Categories array (excluding primary duplication is ok for now)
-    const categoriesArr = Array.isArray(e.categories)
-      ? e.categories
-          .map((c: any) => ({ slug: c.category.key as string, type: 'EVENT' as const, name: c.category.title as string | undefined }))
-      : [];
-    // Sources array
-    const sourcesArr = Array.isArray(e.sources)
-      ? e.sources.map((s: any) => ({ source: s.source, externalId: String(s.externalId), url: s.url ?? undefined }))
-      : undefined;
-    // Choose url/ticketsUrl: prefer occurrence.url, fallback to event.ticketsUrl, then first source url
-    const firstSourceUrl: string | undefined = Array.isArray(e.sources) && e.sources.length ? (e.sources[0]?.url ?? undefined) : undefined;
-    const url = occ?.url ?? e.ticketsUrl ?? firstSourceUrl;
-    const ticketsUrl = url ?? e.ticketsUrl ?? firstSourceUrl;
-    // categoryMeta.raw from providerCategories (comma-separated string)
-    const rawCats = typeof e.providerCategories === 'string' && e.providerCategories.length
-      ? e.providerCategories.split(',').map((s: string) => s.trim()).filter((s: string) => s.length)
+    const occLoc = occurrenceLocation(occ);
+    const distanceKm = row.km ?? undefined;
+    const relevance = textQuery
+      ? fullText ? Number(row.rel) : scoreTextMatch(textQuery, { title: e.title, description: e.description })
       : undefined;
-    const categoryMeta = rawCats && rawCats.length ? { raw: rawCats } : undefined;
-    const sourceType = mapSourceType(e.provider as SourceType | undefined);
-    const nextOccurrence = occ
-      ? {
-          id: occ.id,
-          startsAt: occ.startTime.toISOString(),
-          endsAt: occ.endTime ? occ.endTime.toISOString() : undefined,
-          timezone: occ.timezone ?? undefined,
-          weekday: computeWeekday(occ.startTime.toISOString()),
+    const primaryCatSlug = (e.mainCategory as any)?.key as string | undefined;
+    const profileMatch = profile
+      ? scoreProfileMatch(profile, {
+          id: e.id,
+          title: e.title,
+          categorySlugs: [primaryCatSlug, ...(e.categories ?? []).map((c: any) => c.category.key)].filter(Boolean),
+          categoryNames: (e.categories ?? []).map((c: any) => c.category.title),
+          priceTier: e.priceTier,
           location: occLoc,
-          place: occ.place ? { id: occ.place.id, name: occ.place.name ?? undefined } : null,
-        }
-      : null;
-    return {
-      id: e.id,
-      type: 'event',
-      title: e.title || 'Event',
-      description: e.description ?? null,
-      city: cityObj,
-      primaryCategory: primaryCatSlug ? { slug: primaryCatSlug, type: 'EVENT', name: (e.mainCategory as any)?.title } : null,
-      categories: categoriesArr,
-      cardType: undefined,
-      address: undefined,
-      location: occLoc,
-      distanceKm,
-      indoorOutdoor: undefined,
-      priceTier: (e.priceTier as any) ?? null,
-      rating: undefined,
-      reviewCount: undefined,
-      imageUrl: e.imageUrl ?? null,
-      photos: [],
-      sourceType,
-      sourceProvider: e.provider ?? undefined,
-      sources: sourcesArr,
-      url: url ?? undefined,
-      scores: { rank, popularity: e.popularityScore ?? undefined, quality: e.qualityScore ?? undefined, distance: distanceKm },
-      isOnline: typeof e.isOnline === 'boolean' ? e.isOnline : undefined,
-      nextOccurrence,
-      occurrences: undefined,
-      priceFrom: e.priceFrom ?? null,
-      priceTo: e.priceTo ?? null,
-      currency: e.currency ?? undefined,
-      isFree: e.priceFrom === 0 ? true : undefined,
-      languages: Array.isArray(e.languages) && e.languages.length ? (e.languages as any) : undefined,
-      ageLimit: typeof e.ageLimit === 'number' ? e.ageLimit : undefined,
-      ticketsUrl: ticketsUrl ?? undefined,
-      categoryMeta,
-    } as any as Hit;
-  });
-
-  let hits: Hit[] = [];
-  if (query.target === 'events') hits = eventHits;
-  else if (query.target === 'places') hits = placeHits;
-  else hits = [...eventHits, ...placeHits];
+        })
+      : undefined;
+    const ranked = composeRank(
+      { popularity: e.popularityScore, quality: e.qualityScore, freshness: e.freshnessScore, distanceKm, distanceFactor: row.df, relevance, profileMatch },
+      rankingWeights,
+      { hasGeo }
+    );
+    const hit = eventRowToHit(e, { distanceKm, rank: ranked.rank, relevance, profileMatch });
+    if (explain) {
+      hit.explain = {
+        components: ranked.components,
+        matchedFilters: matchedFilters(query, filterUsage.applied, {
+          type: 'event',
+          categorySlugs: hitCategorySlugs(hit),
+          sources: (hit.sources ?? []).map((s) => s.source),
+          priceTier: e.priceTier,
+          relevance,
+        }),
+        admittedBy: admittedBy(e, selection),
+      };
+    }
+    return hit;
+  };
 
-  // Sorting
-  const sortMode = query.sort ?? 'rank';
-  const priceWeight: Record<string, number> = { FREE: 1, CHEAP: 2, MODERATE: 3, EXPENSIVE: 4 };
-  if (sortMode === 'distance' && hasGeo) {
-    hits.sort((a: any, b: any) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity));
-  } else if (sortMode === 'start_time') {
-    // Events by nextOccurrence.startsAt asc; places fallback by rank
-    const timeOf = (h: any) => (h.type === 'event' && h.nextOccurrence?.startsAt ? Date.parse(h.nextOccurrence.startsAt) : Number.POSITIVE_INFINITY);
-    hits.sort((a: any, b: any) => {
-      const ta = timeOf(a);
-      const tb = timeOf(b);
-      if (ta !== tb) return ta - tb;
-      return (b.scores?.rank ?? 0) - (a.scores?.rank ?? 0);
-    });
-  } else if (sortMode === 'price_asc' || sortMode === 'price_desc') {
-    const dir = sortMode === 'price_asc' ? 1 : -1;
-    hits.sort((a: any, b: any) => {
-      const wa = a.priceTier ? priceWeight[a.priceTier] ?? Number.POSITIVE_INFINITY : Number.POSITIVE_INFINITY;
-      const wb = b.priceTier ? priceWeight[b.priceTier] ?? Number.POSITIVE_INFINITY : Number.POSITIVE_INFINITY;
-      if (wa !== wb) return dir * (wa - wb);
-      return (b.scores?.rank ?? 0) - (a.scores?.rank ?? 0);
+  // Audience rules: drop items that don't fit, scale rank for the rest
+  let audienceExcludedCount = 0;
+  const fitsAudience = (h: any): boolean => {
+    if (!audience.active) return true;
+    const slugs = [h.primaryCategory?.slug, ...(h.categories ?? []).map((c: any) => c.slug)].filter(Boolean) as string[];
+    const occ = h.type === 'event' ? h.nextOccurrence : undefined;
+    const durationMin = h.type === 'place'
+      ? h.expectedDuration
+      : occ?.endsAt
+        ? Math.round((Date.parse(occ.endsAt) - Date.parse(occ.startsAt)) / 60000)
+        : expectedDurationForCategory(h.primaryCategory?.slug);
+    const verdict = audience.evaluate({
+      type: h.type,
+      categorySlugs: slugs,
+      ageLimit: h.ageLimit,
+      indoorOutdoor: h.indoorOutdoor,
+      durationMin,
+      startsAt: occ?.startsAt,
+      timezone: occ?.timezone,
     });
-  } else if (sortMode === 'rating') {
-    hits.sort((a: any, b: any) => {
-      const ra = a.rating ?? -1;
-      const rb = b.rating ?? -1;
-      if (rb !== ra) return rb - ra;
-      const rca = a.reviewCount ?? 0;
-      const rcb = b.reviewCount ?? 0;
-      if (rcb !== rca) return rcb - rca;
-      return (b.scores?.rank ?? 0) - (a.scores?.rank ?? 0);
-    });
-  } else {
-    // rank
-    hits.sort((a: any, b: any) => (b.scores?.rank ?? 0) - (a.scores?.rank ?? 0));
-  }
+    if (verdict.exclude) {
+      audienceExcludedCount++;
+      return false;
+    }
+    if (h.scores && verdict.factor !== 1) {
+      h.scores.rank = (h.scores.rank ?? 0) * verdict.factor;
+      h.explain?.components.push({ name: 'audience', value: null, factor: verdict.factor });
+    }
+    return true;
+  };
 
-  const total = hits.length;
-  const limit = Math.min(100, query.pagination?.limit ?? 100);
-  const page = Math.max(1, query.pagination?.page ?? 1);
-  const offset = (page - 1) * limit;
-  const pageItems = hits.slice(offset, offset + limit);
+  // Sorting: every mode orders by a numeric key with id as the final tie-breaker, which makes cursors stable.
+  // The candidates are read in that order from SQL, in keyset batches, only as far as the page needs. Ranks still
+  // change in memory (profile, audience factors; relevance without full text), within known factor ranges, so a
+  // batch's last row bounds the keys of the rows not read yet and only hits before that bound are final.
+  const profileRange = profile
+    ? [profileRankFactor(0, rankingWeights.personalization), profileRankFactor(1, rankingWeights.personalization)]
+    : [1, 1];
+  const audienceRange = audience.active ? audience.factorRange : [1, 1];
+  const relevanceInMemory = !!textQuery && !fullText;
+  const exactRank = !relevanceInMemory && [...profileRange, ...audienceRange].every((f) => f === 1);
+  const sortKey = sortKeySql(sortMode, { hasScope: !!geoScope, alias: 'r' });
+  const order = {
+    distanceFactor: distanceFactorSql(rankingWeights, { hasGeo, alias: 'c' }),
+    rank: rankSql(rankingWeights, { relevance: textQuery ? (relevanceInMemory ? Prisma.sql`1` : Prisma.sql`r."rel"`) : null, alias: 'r' }),
+    rankFloor: rankSql(rankingWeights, { relevance: textQuery ? (relevanceInMemory ? Prisma.sql`0` : Prisma.sql`r."rel"`) : null, alias: 'r' }),
+    ...sortKey,
+  };
+  const cursor = pageRequest.cursor;
+  const cursorWhere = cursor
+    ? cursorSql(cursor, { byRank: sortKey.byRank, floorFactors: [profileRange[0], audienceRange[0]], alias: 's' })
+    : undefined;
+  const keyOf = (row: OrderedCandidateRow): SortKey => sortKey.keys.map((_, i) => Number(row[`k${i}`]));
+
+  // Collapse duplicate events and break up runs of similar hits; pages of a reordered list anchor on the original
+  // keys. Duplicates collapse among the hits read for this page (an event duplicating one on an earlier page stays).
+  const diversifyOptions = resolveDiversifyOptions(query);
+  const reorder = diversifyOptions.enabled && diversifyOptions.reorder;
+  const collapser = diversifyOptions.enabled && diversifyOptions.collapseDuplicates ? duplicateEventCollapser<any>() : undefined;
+  const seen = new Set(cursor?.seen ?? []);
+  // Everything up to the end of the page, one more for hasMore, and a window beyond it for the reordering
+  // (or the tracked hits and one more)
+  const want = Math.max(
+    (cursor ? 0 : pageRequest.offset) + pageRequest.limit + 1 + (reorder ? diversifyOptions.window : 0),
+    opts.track ? opts.track.limit + 1 : 0
+  );
 
-  // Facets from all hits (pre-paginated)
-  const categoryCounts = new Map<string, number>();
-  const priceCounts = new Map<string, number>();
-  for (const h of hits as any[]) {
-    const cat = h.primaryCategory?.slug;
-    if (cat) categoryCounts.set(cat, (categoryCounts.get(cat) ?? 0) + 1);
-    const pt = h.priceTier;
-    if (pt) priceCounts.set(pt, (priceCounts.get(pt) ?? 0) + 1);
+  let after: { keys: number[]; rank: number; id: string } | undefined;
+  let batchSize = 0;
+  const nextBatch = async (): Promise<OrderedBatch<Hit>> => {
+    batchSize = batchSize ? Math.min(MAX_CANDIDATE_BATCH, batchSize * 2) : Math.min(MAX_CANDIDATE_BATCH, Math.max(MIN_CANDIDATE_BATCH, want));
+    const rows = await queryWithTextMatch<OrderedCandidateRow>(
+      prisma,
+      candidateBatchSql(entities, candidateFilters, order, { after, where: cursorWhere, limit: batchSize }),
+      fullText
+    );
+    const placeIds = rows.filter((r) => r.type === 'place').map((r) => r.id);
+    const eventRows = rows.filter((r) => r.type === 'event');
+    const [places, events] = await Promise.all([
+      placeIds.length ? prisma.place.findMany({ where: { id: { in: placeIds } }, select: placeHitSelect }) : [],
+      eventRows.length
+        ? prisma.event.findMany({ where: { id: { in: eventRows.map((r) => r.id) } }, select: eventHitSelect({ id: { in: eventRows.map((r) => r.occId!) } }) })
+        : [],
+    ]);
+    const byId = new Map<string, any>([...places, ...events].map((r: any) => [r.id, r]));
+    const entries: OrderedBatch<Hit>['entries'] = [];
+    for (const row of rows) {
+      const data = byId.get(row.id);
+      // Gone since the candidate query
+      if (!data) continue;
+      const hit = row.type === 'place' ? placeHit(data, row) : eventHit(data, row);
+      if (!hit || !fitsAudience(hit)) continue;
+      entries.push({ hit, key: sortKey.byRank ? [...keyOf(row), -(hit.scores?.rank ?? 0)] : keyOf(row) });
+    }
+    const last = rows[rows.length - 1];
+    if (!last || rows.length < batchSize) return { entries };
+    after = { keys: keyOf(last), rank: last.h, id: last.id };
+    const bound = sortKey.byRank ? [...keyOf(last), -((last.h * profileRange[1]) * audienceRange[1])] : keyOf(last);
+    return { entries, bound: { key: bound, id: last.id, inclusive: !sortKey.byRank || exactRank || last.h === 0 } };
+  };
+
+  const read = await readInOrder(nextBatch, {
+    want,
+    accept: (e) => {
+      if (cursor) {
+        const c = compareSortKeys({ key: e.key, id: e.hit.id }, { key: cursor.key, id: cursor.id });
+        if (reorder ? c < 0 || seen.has(e.hit.id) : c <= 0) return false;
+      }
+      return !collapser || collapser.accept(e.hit);
+    },
+  });
+  if (placesClosed) warnings.push(`openNowOnly excluded ${placesClosed} closed place(s)`);
+  if (placesWithoutHours) warnings.push(`openNowOnly: ${placesWithoutHours} place(s) without known opening hours were kept`);
+  if (audienceExcludedCount) warnings.push(`audience filters excluded ${audienceExcludedCount} item(s)`);
+
+  const pageContext = { sort: sortMode, fingerprint: requestFingerprint(query) };
+  const pageResult = reorder
+    ? paginateDiversified(read as any[], pageRequest, pageContext, diversifyOptions)
+    : paginateSorted(read, pageRequest, pageContext);
+  const pageItems = pageResult.items;
+  if (opts.allOccurrences) await attachOccurrences(prisma, pageItems as any[], occurrenceWhere, geoScope);
+
+  // total counts every row passing the DB filters; hits dropped in memory (openNowOnly, audience) are only
+  // known for the rows read
+  const total = countOf('place') + countOf('event');
+  const reordered = 'reordered' in pageResult ? pageResult.reordered : 0;
+  const collapsed = collapser?.collapsed ?? 0;
+
+  // Facets over every row passing the DB filters, like total
+  const facets = facetsFromCounts(
+    await queryWithTextMatch<FacetCountRow>(prisma, facetCountSql(entities, candidateFilters, query.facets), fullText),
+    query.facets
+  );
+
+  let tracked: TrackedHits | undefined;
+  if (opts.track) {
+    const items = read.slice(0, opts.track.limit).map((e) => e.hit);
+    const truncated = read.length > opts.track.limit;
+    const listed = new Set(items.map((h) => `${h.type}:${h.id}`));
+    const missing = (opts.track.previous ?? []).filter((i) => !listed.has(`${i.type}:${i.id}`));
+    const beyondLimit = truncated && missing.length
+      ? await queryWithTextMatch<{ type: CandidateEntity; id: string }>(
+          prisma,
+          candidateIdsSql(entities, { ...candidateFilters, ids: Array.from(new Set(missing.map((i) => i.id))) }),
+          fullText
+        )
+      : [];
+    tracked = { items, truncated, beyondLimit: beyondLimit.filter((r) => missing.some((i) => i.type === r.type && i.id === r.id)) };
   }
-  const facets = {
-    categories: Array.from(categoryCounts.entries()).map(([key, count]) => ({ key, count })),
-    priceTier: Array.from(priceCounts.entries()).map(([key, count]) => ({ key, count })),
-  } as any;
 
   const tookMs = Date.now() - started;
-  const resp: SearchResponse = {
+  const resp: SearchResponse & { tracked?: TrackedHits } = {
     queryId: `${Date.now()}`,
     total,
-    pagination: { limit, offset, page },
+    pagination: {
+      limit: pageRequest.limit,
+      offset: pageResult.offset,
+      page: pageResult.page,
+      nextCursor: pageResult.nextCursor,
+      hasMore: pageResult.hasMore,
+    },
     tookMs,
     warnings: warnings.length ? warnings : undefined,
     meta: {
       target: query.target,
-      totalPlaces: placeHits.length,
-      totalEvents: eventHits.length,
+      totalPlaces: countOf('place'),
+      totalEvents: countOf('event'),
+      areas: areaBreakdown(
+        query.where,
+        counts.map((c) => ({ type: c.type, city: c.cityId ? { id: c.cityId, name: c.cityName ?? undefined } : null, count: Number(c.count) }))
+      ),
+      effectiveFilters: {
+        when: query.when,
+        window: { from: fromISO, to: toISO, timeZone, ...(intervals ? { intervals: intervals.map((iv) => ({ from: iv.fromISO, to: iv.toISO })) } : {}) },
+        who: query.who,
+        timeBudget: query.timeBudget,
+        budget: query.budget,
+        mood: query.mood,
+        transport: query.filters?.transport,
+      },
+      appliedFilters: filterUsage.applied,
+      ignoredFilters: filterUsage.ignored,
+      personalized: !!profile,
+      rankingWeights: explain ? rankingWeights : undefined,
+      diversification: collapsed || reordered ? { collapsed, reordered } : undefined,
     },
     facets,
     items: pageItems as any,
+    ...(tracked ? { tracked } : {}),
   } as any;
   return resp;
 }
+
+// Fills hit.occurrences of event hits with their occurrences matching `occurrenceWhere` (clipped exactly to the
+// scope), earliest first; at most SEARCH_MAP_MAX_FEATURES in total, events left without any keep nextOccurrence only
+async function attachOccurrences(prisma: PrismaClient, hits: any[], occurrenceWhere: any, scope: GeoScope | undefined): Promise<void> {
+  const events = hits.filter((h) => h.type === 'event');
+  if (!events.length) return;
+  const rows = await prisma.eventOccurrence.findMany({
+    where: { AND: [occurrenceWhere, { eventId: { in: events.map((h) => h.id) } }] },
+    select: { eventId: true, ...occurrenceHitSelect },
+    orderBy: [{ startTime: 'asc' }, { id: 'asc' }],
+    take: SEARCH_MAP_MAX_FEATURES,
+  });
+  const byEvent = new Map<string, any[]>();
+  for (const r of rows as any[]) {
+    if (scope && !scope.contains(occurrenceLocation(r))) continue;
+    const list = byEvent.get(r.eventId);
+    if (list) list.push(occurrenceEntry(r));
+    else byEvent.set(r.eventId, [occurrenceEntry(r)]);
+  }
+  for (const h of events) {
+    const list = byEvent.get(h.id);
+    if (list) h.occurrences = list;
+  }
+}
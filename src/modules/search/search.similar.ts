@@ -0,0 +1,171 @@
+import type { PrismaClient } from '@prisma/client';
+import { eventHitSelect, eventRowToHit, hitCategorySlugs, placeHitSelect, placeRowToHit, type SearchHit } from './search.hits.js';
+import { coerceOpeningHours } from '../catalog/places/opening-hours.js';
+import { haversineKm } from '../../shared/utils.js';
+
+// "More like this" for a place or event: same-city items sharing categories, tags and price tier, nearby and,
+// for events, at overlapping times. The source item and its duplicates (as matched by ingestion dedup) are excluded.
+
+export type SimilarityFeatures = {
+  categorySlugs: string[];
+  tags?: string[] | null;
+  priceTier?: string | null;
+  location?: { lat: number; lon: number } | null;
+  time?: { start: number; end: number };
+};
+
+export type SimilarResult = { sourceId: string; cityId: string; items: SearchHit[] };
+
+// Relative weight of each signal; signals missing on either side are left out and the rest renormalized
+const WEIGHTS = { categories: 0.4, tags: 0.15, price: 0.15, proximity: 0.2, time: 0.2 };
+const PRICE_ORDER = ['FREE', 'CHEAP', 'MODERATE', 'EXPENSIVE'];
+const PROXIMITY_SCALE_KM = 5;
+const TIME_GAP_SCALE_HOURS = 48;
+// Events without an end time are assumed to last this long
+const DEFAULT_EVENT_HOURS = 2;
+// Rows scored per request
+const CANDIDATE_LIMIT = 200;
+// Same-named places closer than this are one venue (the ingestion dedup radius)
+const DUPLICATE_RADIUS_KM = 0.1;
+
+function jaccard(a: string[], b: string[]): number {
+  const sa = new Set(a);
+  const sb = new Set(b);
+  let shared = 0;
+  for (const x of sa) if (sb.has(x)) shared++;
+  const union = sa.size + sb.size - shared;
+  return union ? shared / union : 0;
+}
+
+// 0..1
+export function scoreSimilarity(source: SimilarityFeatures, c: SimilarityFeatures): number {
+  const parts: Array<[number, number]> = [];
+  if (source.categorySlugs.length) parts.push([WEIGHTS.categories, jaccard(source.categorySlugs, c.categorySlugs)]);
+  if (source.tags?.length) {
+    const norm = (tags: string[]) => tags.map((t) => t.toLowerCase());
+    parts.push([WEIGHTS.tags, jaccard(norm(source.tags), norm(c.tags ?? []))]);
+  }
+  const a = source.priceTier ? PRICE_ORDER.indexOf(source.priceTier) : -1;
+  const b = c.priceTier ? PRICE_ORDER.indexOf(c.priceTier) : -1;
+  if (a >= 0 && b >= 0) parts.push([WEIGHTS.price, a === b ? 1 : Math.abs(a - b) === 1 ? 0.5 : 0]);
+  if (source.location && c.location) {
+    parts.push([WEIGHTS.proximity, Math.exp(-haversineKm(source.location, c.location) / PROXIMITY_SCALE_KM)]);
+  }
+  if (source.time && c.time) {
+    const gapMs = Math.max(0, c.time.start - source.time.end, source.time.start - c.time.end);
+    parts.push([WEIGHTS.time, Math.exp(-gapMs / 3600000 / TIME_GAP_SCALE_HOURS)]);
+  }
+  const weight = parts.reduce((s, [w]) => s + w, 0);
+  return weight ? parts.reduce((s, [w, v]) => s + w * v, 0) / weight : 0;
+}
+
+function normalizeTitle(s?: string | null): string {
+  return (s ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Same rules as IngestionDedupService: places by name within the dedup radius, events by title within the city
+export function isDuplicate(
+  type: 'place' | 'event',
+  source: { title?: string | null; location?: { lat: number; lon: number } | null },
+  c: { title?: string | null; location?: { lat: number; lon: number } | null }
+): boolean {
+  const title = normalizeTitle(source.title);
+  if (!title || title !== normalizeTitle(c.title)) return false;
+  if (type === 'event') return true;
+  return !!source.location && !!c.location && haversineKm(source.location, c.location) <= DUPLICATE_RADIUS_KM;
+}
+
+function featuresOf(hit: SearchHit, tags?: string[] | null): SimilarityFeatures {
+  const occ = hit.type === 'event' ? (hit as any).nextOccurrence : undefined;
+  const start = occ ? Date.parse(occ.startsAt) : NaN;
+  const end = occ?.endsAt ? Date.parse(occ.endsAt) : start + DEFAULT_EVENT_HOURS * 3600000;
+  return {
+    categorySlugs: hitCategorySlugs(hit),
+    tags,
+    priceTier: hit.priceTier,
+    location: hit.location,
+    time: Number.isFinite(start) ? { start, end } : undefined,
+  };
+}
+
+function categoryWhere(slugs: string[]) {
+  return slugs.length
+    ? {
+        OR: [
+          { mainCategory: { is: { key: { in: slugs } } } as any },
+          { categories: { some: { category: { key: { in: slugs } } } } },
+        ],
+      }
+    : {};
+}
+
+// Candidates ranked by similarity (scores.rank); popularity and id break ties
+function rankSimilar(
+  type: 'place' | 'event',
+  source: SearchHit,
+  sourceTags: string[] | null | undefined,
+  candidates: Array<{ hit: SearchHit; tags?: string[] | null }>,
+  limit: number
+): SearchHit[] {
+  const features = featuresOf(source, sourceTags);
+  return candidates
+    .filter(({ hit }) => !isDuplicate(type, source, hit))
+    .map(({ hit, tags }) => {
+      const distanceKm = source.location && hit.location ? haversineKm(source.location, hit.location) : undefined;
+      return {
+        ...hit,
+        distanceKm,
+        scores: { ...hit.scores, rank: scoreSimilarity(features, featuresOf(hit, tags)), distance: distanceKm },
+      };
+    })
+    .sort((a, b) =>
+      (b.scores.rank ?? 0) - (a.scores.rank ?? 0) ||
+      (b.scores.popularity ?? 0) - (a.scores.popularity ?? 0) ||
+      a.id.localeCompare(b.id)
+    )
+    .slice(0, limit);
+}
+
+export async function findSimilarPlaces(prisma: PrismaClient, id: string, opts: { limit: number }): Promise<SimilarResult | null> {
+  const row: any = await prisma.place.findFirst({ where: { id, isActive: true }, select: placeHitSelect });
+  if (!row) return null;
+  const toHit = (p: any) => {
+    const hours = coerceOpeningHours(p.openingHours);
+    return placeRowToHit(p, { rank: 0, hours, hoursTz: hours?.timezone || p.city?.tz });
+  };
+  const source = toHit(row);
+  const candidates = await prisma.place.findMany({
+    where: { isActive: true, moderation: 'APPROVED' as any, cityId: row.cityId, id: { not: id }, ...categoryWhere(hitCategorySlugs(source)) },
+    select: placeHitSelect,
+    orderBy: [{ popularityScore: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+    take: CANDIDATE_LIMIT,
+  });
+  return { sourceId: id, cityId: row.cityId, items: rankSimilar('place', source, row.tags, candidates.map((p: any) => ({ hit: toHit(p), tags: p.tags })), opts.limit) };
+}
+
+export async function findSimilarEvents(
+  prisma: PrismaClient,
+  id: string,
+  opts: { limit: number; now?: Date }
+): Promise<SimilarResult | null> {
+  // Only upcoming occurrences count, for the source (time overlap) and for the candidates
+  const upcoming = { startTime: { gte: opts.now ?? new Date() } };
+  const select = eventHitSelect(upcoming);
+  const row: any = await prisma.event.findFirst({ where: { id, isActive: true }, select });
+  if (!row) return null;
+  const source = eventRowToHit(row, { rank: 0 });
+  const candidates = await prisma.event.findMany({
+    where: {
+      isActive: true,
+      moderation: 'APPROVED' as any,
+      cityId: row.cityId,
+      id: { not: id },
+      occurrences: { some: upcoming },
+      ...categoryWhere(hitCategorySlugs(source)),
+    },
+    select,
+    orderBy: [{ popularityScore: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+    take: CANDIDATE_LIMIT,
+  });
+  return { sourceId: id, cityId: row.cityId, items: rankSimilar('event', source, undefined, candidates.map((e: any) => ({ hit: eventRowToHit(e, { rank: 0 }) })), opts.limit) };
+}
@@ -0,0 +1,140 @@
+import { FastifyInstance } from 'fastify';
+import { searchRequestSchema, type SearchRequest, type SearchResponse, type SearchStreamEvent } from './search.schemas.js';
+import { searchUnifiedFromDb } from './search.service.js';
+import { resolveSearchTimeZone } from './search.time.js';
+import { resolveRankingWeights } from './search.ranking.js';
+import { mapFormatOf } from './search.map.js';
+import { applyParsedQuery, parseSearchText } from './search.parser.js';
+import { buildOnlineIngestPlans, ingestWarnings, mergeIngestResults } from './search.ingest.js';
+import { runOnlineIngestIncremental, type OnlineIngestResult } from '../ingestion/ingestion.service.js';
+import { IngestLogger } from '../ingestion/ingest.logger.js';
+import { CacheService } from '../cache/cache.service.js';
+import { AppError } from '../../shared/errors.js';
+import { SEARCH_PERSONALIZATION_ENABLED } from '../../config/search.js';
+import { CACHE_INVALIDATE_AFTER_INGEST } from '../../config/cache.js';
+
+// Streaming variant of POST /api/search: DB results right away, then a batch per provider as the
+// first-page online ingest persists it, then the final ranked page. NDJSON by default,
+// Server-Sent Events when the client accepts text/event-stream. Not cached; use /api/search for that.
+export default async function searchStreamRoutes(app: FastifyInstance) {
+  app.post(
+    '/stream',
+    {
+      schema: {
+        description: 'Unified search streamed as NDJSON or SSE: initial DB results, per-provider batches while online ingest runs, final ranked page',
+        tags: ['search'],
+        body: searchRequestSchema,
+      },
+      // Public endpoint; a valid token enables personalized ranking
+      onRequest: app.authenticateOptional,
+    },
+    async (req, reply) => {
+      const body = req.body as SearchRequest;
+      const interpretation = body.interpret && body.q ? parseSearchText(body.q, { timeZone: resolveSearchTimeZone(body) }) : undefined;
+      const query = interpretation ? applyParsedQuery(body, interpretation) : body;
+      if (mapFormatOf(query)) {
+        throw new AppError('streaming search supports format=hits only', 400, { code: 'STREAM_FORMAT_UNSUPPORTED' });
+      }
+      // Online ingest only runs for the first page (page wins over offset, as in /api/search)
+      const pageIndex = query.pagination?.page != null ? query.pagination.page - 1 : query.pagination?.offset ?? 0;
+      const isFirstPage = !query.pagination?.cursor && pageIndex <= 0;
+      const userId = SEARCH_PERSONALIZATION_ENABLED && query.personalize !== false ? req.user?.id || undefined : undefined;
+      const rankingWeights = resolveRankingWeights(query, req.user?.role);
+      const search = async (ingestedSince?: Date): Promise<SearchResponse> => {
+        const resp = await searchUnifiedFromDb(query, app.prisma, { userId, rankingWeights, ingestedSince });
+        if (interpretation && resp.meta) resp.meta.interpretation = interpretation;
+        return resp;
+      };
+
+      // Fail as a plain HTTP error while nothing has been written yet
+      const initial = await search();
+
+      const sse = /text\/event-stream/.test(String(req.headers.accept ?? ''));
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'content-type': sse ? 'text/event-stream; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'cache-control': 'no-cache',
+        'x-accel-buffering': 'no',
+      });
+      let closed = false;
+      // The response closes early when the client disconnects
+      reply.raw.on('close', () => { closed = true; });
+      const send = (event: SearchStreamEvent) => {
+        if (closed) return;
+        reply.raw.write(sse ? `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n` : `${JSON.stringify(event)}\n`);
+      };
+
+      try {
+        if (!isFirstPage) {
+          send({ type: 'final', response: initial });
+          return;
+        }
+        send({ type: 'initial', response: initial });
+        const sent = new Set(initial.items.map((h) => `${h.type}:${h.id}`));
+
+        const ingestLogger = new IngestLogger();
+        const ingestedSince = new Date();
+        let ingestResult: OnlineIngestResult | undefined;
+        let planWarnings: string[] = [];
+        const cityIds = new Set<string>();
+        try {
+          const built = await buildOnlineIngestPlans(app, query);
+          planWarnings = built.warnings;
+          const results: OnlineIngestResult[] = [];
+          // Areas one after the other; within an area, providers report as they finish
+          for (const { baseQuery, eventProviders, placeProviders } of built.plans) {
+            if (baseQuery.cityId) cityIds.add(baseQuery.cityId);
+            results.push(await runOnlineIngestIncremental(
+              { prisma: app.prisma, eventProviders, placeProviders, logger: ingestLogger, run: { trigger: 'stream' } },
+              baseQuery,
+              async (batch) => {
+                // The client is gone; the ingest still runs to the end
+                if (closed) return;
+                const resp = await search(ingestedSince);
+                const items = resp.items.filter((h) => !sent.has(`${h.type}:${h.id}`));
+                for (const h of items) sent.add(`${h.type}:${h.id}`);
+                send({
+                  type: 'batch',
+                  provider: batch.provider,
+                  source: batch.source,
+                  kind: batch.kind,
+                  ingested: { total: batch.stats.total, created: batch.stats.created, updated: batch.stats.updated, errors: batch.stats.errors },
+                  warning: batch.warning,
+                  total: resp.total,
+                  items,
+                });
+              }
+            ));
+          }
+          ingestResult = results.length === 1 ? results[0] : mergeIngestResults(results);
+          ingestLogger.flushToFile(true);
+        } catch (e) {
+          req.log.warn({ err: e }, 'online ingest failed');
+        }
+
+        if (ingestResult && CACHE_INVALIDATE_AFTER_INGEST && cityIds.size) {
+          const cache = new CacheService(app);
+          if (cache.isEnabled()) {
+            for (const cityId of cityIds) {
+              try { await cache.invalidateByCity(cityId, ['search', 'catalog:places', 'catalog:events']); } catch {}
+            }
+          }
+        }
+
+        const final = await search(ingestedSince);
+        if (ingestResult) {
+          let short: string[] = [];
+          try { short = [...planWarnings, ...ingestWarnings(ingestResult, ingestLogger)].slice(0, 10); } catch {}
+          if (short.length) final.warnings = [...(final.warnings ?? []), ...short].slice(0, 10);
+        }
+        send({ type: 'final', response: final });
+      } catch (e: any) {
+        req.log.error({ err: e }, 'streaming search failed');
+        send({ type: 'error', message: e?.message || 'search failed', code: e?.code });
+      } finally {
+        reply.raw.end();
+      }
+    }
+  );
+}
@@ -0,0 +1,113 @@
+import { Prisma, type PrismaClient } from '@prisma/client';
+
+// Full-text matching for `q` in DB-backed search.
+// Primary path (Postgres + pg_trgm): prefix full-text match over name/title, description and tags, plus
+// trigram word similarity on name/title for typos. Without pg_trgm a plain ILIKE match is used instead.
+
+export type TextQuery = {
+  raw: string;
+  tokens: string[];
+  // to_tsquery('simple', ...) input: every token as a prefix, all required
+  tsQuery: string;
+};
+
+export type TextEntity = 'place' | 'event';
+
+const MAX_TOKENS = 8;
+// Minimal word similarity (0..1) for a name/title to count as a fuzzy match
+const WORD_SIMILARITY_THRESHOLD = 0.4;
+// Weight of name/title similarity vs. full-text rank in the relevance score
+const NAME_WEIGHT = 0.7;
+
+export function parseTextQuery(q?: string | null): TextQuery | undefined {
+  const raw = (q ?? '').trim();
+  if (!raw) return undefined;
+  const words = raw
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+  const tokens = Array.from(new Set(words)).slice(0, MAX_TOKENS);
+  if (!tokens.length) return undefined;
+  return { raw, tokens, tsQuery: tokens.map((t) => `${t}:*`).join(' & ') };
+}
+
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word} `;
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) out.add(padded.slice(i, i + 3));
+  return out;
+}
+
+// Trigram similarity of two words, as pg_trgm's similarity()
+export function trigramSimilarity(a: string, b: string): number {
+  const ta = trigrams(a);
+  const tb = trigrams(b);
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  const union = ta.size + tb.size - shared;
+  return union ? shared / union : 0;
+}
+
+// In-memory relevance used when the full-text stage is unavailable.
+// Per token: prefix of a title word = 1, close typo of a title word = its similarity, found in description/tags = 0.5.
+export function scoreTextMatch(
+  tq: TextQuery,
+  fields: { title?: string | null; description?: string | null; tags?: string[] | null }
+): number {
+  const words = (s?: string | null) => parseTextQuery(s)?.tokens ?? [];
+  const titleWords = words(fields.title);
+  const otherWords = [...words(fields.description), ...(fields.tags ?? []).flatMap((t) => words(t))];
+  let sum = 0;
+  for (const token of tq.tokens) {
+    let best = 0;
+    for (const w of titleWords) {
+      const s = w.startsWith(token) ? 1 : trigramSimilarity(token, w);
+      if (s > best) best = s;
+    }
+    if (best < WORD_SIMILARITY_THRESHOLD) best = otherWords.some((w) => w.startsWith(token)) ? 0.5 : 0;
+    sum += best;
+  }
+  return sum / tq.tokens.length;
+}
+
+// SQL match of `q` on the row `t` (search.candidates.ts).
+// Full text: prefix full-text match over name/title, description (and tags), or a fuzzy name/title match; relevance
+// in [0, 1] blends name/title word similarity with ts_rank_cd (normalized with flag 32, so already < 1).
+// Basic: every token in one of the text fields (ILIKE); relevance is then scored in memory (scoreTextMatch).
+export function textMatchSql(tq: TextQuery, entity: TextEntity, fullText: boolean): { cond: Prisma.Sql; relevance?: Prisma.Sql } {
+  const title = Prisma.raw(entity === 'place' ? 't."name"' : 't."title"');
+  if (!fullText) {
+    return {
+      cond: Prisma.join(
+        tq.tokens.map((tok) => {
+          const like = `%${tok}%`;
+          const tags = entity === 'place' ? Prisma.sql` OR ${tok} = ANY(t."tags")` : Prisma.empty;
+          return Prisma.sql`(${title} ILIKE ${like} OR t."description" ILIKE ${like}${tags})`;
+        }),
+        ' AND '
+      ),
+    };
+  }
+  const document = entity === 'place'
+    ? Prisma.sql`to_tsvector('simple', t."name" || ' ' || coalesce(t."description", '') || ' ' || array_to_string(t."tags", ' '))`
+    : Prisma.sql`to_tsvector('simple', t."title" || ' ' || coalesce(t."description", ''))`;
+  const tsQuery = Prisma.sql`to_tsquery('simple', ${tq.tsQuery})`;
+  const sim = Prisma.sql`greatest(0, least(1, coalesce(word_similarity(${tq.raw}, ${title}), 0)::float8))`;
+  const fts = Prisma.sql`greatest(0, least(1, 2 * coalesce(ts_rank_cd(${document}, ${tsQuery}, 32), 0)::float8))`;
+  return {
+    cond: Prisma.sql`(${tq.raw} <% ${title} OR ${document} @@ ${tsQuery})`,
+    relevance: Prisma.sql`least(1, ${Prisma.raw(`${NAME_WEIGHT}::float8`)} * ${sim} + ${Prisma.raw(`${1 - NAME_WEIGHT}::float8`)} * ${fts})`,
+  };
+}
+
+// Runs a query holding a full-text match with its word similarity threshold. SET LOCAL only lasts for this
+// transaction, so the threshold doesn't leak into pooled connections. Throws when pg_trgm is unavailable.
+export async function queryWithTextMatch<T>(prisma: PrismaClient, query: Prisma.Sql, fullText: boolean): Promise<T[]> {
+  if (!fullText) return prisma.$queryRaw<T[]>(query);
+  const [, rows] = await prisma.$transaction([
+    prisma.$executeRawUnsafe(`SET LOCAL pg_trgm.word_similarity_threshold = ${WORD_SIMILARITY_THRESHOLD}`),
+    prisma.$queryRaw<T[]>(query),
+  ]);
+  return rows;
+}
@@ -0,0 +1,285 @@
+import type { PrismaClient } from '@prisma/client';
+import type { SearchRequest } from './search.schemas.js';
+import { GEO_CITIES } from '../geo/geo.constants.js';
+import type { GeoCity } from '../geo/geo.types.js';
+import { haversineKm } from '../../shared/utils.js';
+import { isValidTimeZone, zonedParts, zonedTimeToUtc } from '../../shared/timezone.js';
+import { listHolidayDates } from '../catalog/holidays/holidays.service.js';
+import { searchCityIds } from './search.geo.js';
+
+// `when` resolution for search: presets are wall-clock ranges ("tonight" = 18:00-24:00) in the timezone of the
+// searched area, converted to absolute UTC instants (DST-aware).
+
+export type TimeInterval = { fromISO: string; toISO: string };
+// [fromISO, toISO] is the hull; recurring and holiday windows narrow it down to `intervals`
+export type TimeWindow = { fromISO?: string; toISO?: string; timeZone: string; intervals?: TimeInterval[] };
+
+// A point closer than this to a known city uses the city's timezone
+const NEAREST_CITY_MAX_KM = 200;
+const DEFAULT_WINDOW_DAYS = 10;
+const NOW_WINDOW_HOURS = 6;
+const EVENING_START_HOUR = 18;
+const RECURRING_DEFAULT_DAYS = 28;
+const RECURRING_MAX_DAYS = 62;
+const MAX_WINDOW_INTERVALS = 100;
+// How far ahead holiday presets look for the next holiday / long weekend
+export const HOLIDAY_HORIZON_DAYS = 120;
+const DAY_MS = 24 * 3600 * 1000;
+
+function nearestCity(point: { lat: number; lon: number }): GeoCity | undefined {
+  let best: { city: GeoCity; d: number } | undefined;
+  for (const c of GEO_CITIES) {
+    const d = haversineKm(point, c.coordinates);
+    if (d <= NEAREST_CITY_MAX_KM && (!best || d < best.d)) best = { city: c, d };
+  }
+  return best?.city;
+}
+
+// Fixed-offset zone from the longitude (no DST) for points far from every known city
+function longitudeTimeZone(lon: number): string {
+  const hours = Math.max(-12, Math.min(14, Math.round(lon / 15)));
+  // Etc/GMT signs are inverted: Etc/GMT-2 is UTC+2
+  return hours === 0 ? 'UTC' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+}
+
+function bboxCenterLon(west: number, east: number): number {
+  // Boxes crossing the antimeridian have west > east
+  const lon = west <= east ? (west + east) / 2 : (west + east + 360) / 2;
+  return lon > 180 ? lon - 360 : lon;
+}
+
+function catalogCity(query: Pick<SearchRequest, 'where'>): GeoCity | undefined {
+  // Multi-city searches use the first city
+  const cityId = query.where?.city?.id ?? query.where?.cities?.[0];
+  return cityId != null ? GEO_CITIES.find((c) => String(c.id) === String(cityId)) : undefined;
+}
+
+// Geo point, start of the route or bbox center of the search area
+function searchPoint(query: Pick<SearchRequest, 'where'>): { lat: number; lon: number } | undefined {
+  const geo = query.where?.geo;
+  const bbox = query.where?.bbox;
+  if (geo && geo.lat != null && geo.lon != null) return { lat: geo.lat, lon: geo.lon };
+  if (query.where?.route) return query.where.route.path[0];
+  return bbox ? { lat: (bbox.south + bbox.north) / 2, lon: bboxCenterLon(bbox.west, bbox.east) } : undefined;
+}
+
+// Timezone of the searched area: City.tz, the catalog city, then the geo point / bbox center.
+// City.tz = 'UTC' is treated as unknown (rows seeded before cities carried a timezone).
+export function resolveSearchTimeZone(query: Pick<SearchRequest, 'where'>, cityTz?: string | null): string {
+  if (isValidTimeZone(cityTz) && cityTz !== 'UTC') return cityTz;
+  const city = catalogCity(query);
+  if (city) return city.timezone;
+  const point = searchPoint(query);
+  if (point) return nearestCity(point)?.timezone ?? longitudeTimeZone(point.lon);
+  return isValidTimeZone(cityTz) ? cityTz : 'UTC';
+}
+
+// ISO country of the searched area (for public holidays): City.countryCode, the catalog city, then the nearest city
+export function resolveSearchCountryCode(query: Pick<SearchRequest, 'where'>, cityCountryCode?: string | null): string | undefined {
+  if (cityCountryCode) return cityCountryCode.toUpperCase();
+  const city = catalogCity(query);
+  if (city) return city.countryCode;
+  const point = searchPoint(query);
+  return point ? nearestCity(point)?.countryCode : undefined;
+}
+
+export function needsHolidays(when: SearchRequest['when']): boolean {
+  return when?.type === 'preset' && (when.preset === 'public_holiday' || when.preset === 'long_weekend');
+}
+
+// Local calendar dates ("YYYY-MM-DD") holiday presets may look at
+export function holidayLookupRange(now: Date, timeZone: string): { from: string; to: string } {
+  return { from: localDateKey(now, -7, timeZone), to: localDateKey(now, HOLIDAY_HORIZON_DAYS + 7, timeZone) };
+}
+
+// Time zone and public holidays a DB search resolves its time window with. Presets are read in the searched city's
+// (or area's) local time, the first city's for multi-city searches; holidays are loaded only when `when` needs them.
+export async function loadSearchCalendar(
+  prisma: PrismaClient,
+  query: SearchRequest,
+  asOf: Date
+): Promise<{ timeZone: string; holidays?: string[]; warnings: string[] }> {
+  const warnings: string[] = [];
+  const cityIds = searchCityIds(query.where);
+  let cityRow: { tz: string | null; countryCode: string | null } | null = null;
+  try {
+    if (cityIds.length) cityRow = await prisma.city.findUnique({ where: { id: cityIds[0] }, select: { tz: true, countryCode: true } });
+  } catch {
+    // fall back to the static city data
+  }
+  const timeZone = resolveSearchTimeZone(query, cityRow?.tz);
+  let holidays: string[] | undefined;
+  if (needsHolidays(query.when)) {
+    const countryCode = resolveSearchCountryCode(query, cityRow?.countryCode);
+    const range = holidayLookupRange(asOf, timeZone);
+    holidays = countryCode ? await listHolidayDates(prisma, countryCode, range.from, range.to).catch(() => []) : [];
+    if (!holidays.length) warnings.push(`no public holidays known for ${countryCode ?? 'this area'}; sync them via /api/system/holidays/sync`);
+  }
+  return { timeZone, holidays, warnings };
+}
+
+// Local midnight of the calendar day `offsetDays` after the local day of `now`
+function localDayStart(now: Date, offsetDays: number, tz: string): Date {
+  const p = zonedParts(now, tz);
+  return zonedTimeToUtc(p.year, p.month, p.day + offsetDays, 0, 0, tz);
+}
+
+function localTime(now: Date, offsetDays: number, hour: number, tz: string): Date {
+  const p = zonedParts(now, tz);
+  return zonedTimeToUtc(p.year, p.month, p.day + offsetDays, hour, 0, tz);
+}
+
+// Last millisecond of the local day `offsetDays` after today
+function localDayEnd(now: Date, offsetDays: number, tz: string): Date {
+  return new Date(localDayStart(now, offsetDays + 1, tz).getTime() - 1);
+}
+
+// Local calendar date `offsetDays` after today, as a UTC-midnight Date (for weekday / date key arithmetic)
+function localDate(now: Date, offsetDays: number, tz: string): Date {
+  const p = zonedParts(now, tz);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day + offsetDays));
+}
+
+function localDateKey(now: Date, offsetDays: number, tz: string): string {
+  return localDate(now, offsetDays, tz).toISOString().slice(0, 10);
+}
+
+function minutesOf(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// Occurrences of a weekly local-time window between `from` and `to`, clipped to that range
+function recurringIntervals(
+  rule: { days: number[]; fromTime: string; toTime: string },
+  from: Date,
+  to: Date,
+  tz: string
+): Array<[Date, Date]> {
+  const open = minutesOf(rule.fromTime);
+  const close = minutesOf(rule.toTime);
+  const days = new Set(rule.days);
+  const out: Array<[Date, Date]> = [];
+  // Start a day early for windows that began yesterday and run past midnight
+  const count = Math.ceil((to.getTime() - from.getTime()) / DAY_MS) + 2;
+  for (let i = -1; i < count && out.length < MAX_WINDOW_INTERVALS; i++) {
+    const d = localDate(from, i, tz);
+    if (!days.has(d.getUTCDay())) continue;
+    const y = d.getUTCFullYear();
+    const mo = d.getUTCMonth() + 1;
+    const day = d.getUTCDate();
+    const start = zonedTimeToUtc(y, mo, day, 0, open, tz);
+    const end = zonedTimeToUtc(y, mo, close > open ? day : day + 1, 0, close, tz);
+    const s = start < from ? from : start;
+    const e = end > to ? to : end;
+    if (s < e) out.push([s, e]);
+  }
+  return out;
+}
+
+// Next public holiday (local day) within the horizon; today counts
+function nextHoliday(now: Date, holidays: Set<string>, tz: string): [Date, Date] | undefined {
+  for (let i = 0; i <= HOLIDAY_HORIZON_DAYS; i++) {
+    if (holidays.has(localDateKey(now, i, tz))) return [localDayStart(now, i, tz), localDayEnd(now, i, tz)];
+  }
+  return undefined;
+}
+
+// Next run of 3+ consecutive days off (weekends and holidays) that includes a holiday; a run in progress counts
+function nextLongWeekend(now: Date, holidays: Set<string>, tz: string): [Date, Date] | undefined {
+  const isHoliday = (i: number) => holidays.has(localDateKey(now, i, tz));
+  const isOff = (i: number) => {
+    const wd = localDate(now, i, tz).getUTCDay();
+    return wd === 0 || wd === 6 || isHoliday(i);
+  };
+  let i = 0;
+  if (isOff(0)) while (i > -7 && isOff(i - 1)) i--;
+  while (i <= HOLIDAY_HORIZON_DAYS) {
+    if (!isOff(i)) {
+      i++;
+      continue;
+    }
+    let j = i;
+    let withHoliday = false;
+    while (isOff(j) && j - i < 14) {
+      if (isHoliday(j)) withHoliday = true;
+      j++;
+    }
+    if (j - i >= 3 && withHoliday) return [localDayStart(now, i, tz), localDayEnd(now, j - 1, tz)];
+    i = j;
+  }
+  return undefined;
+}
+
+export function resolveTimeWindow(
+  query: Pick<SearchRequest, 'when' | 'where'>,
+  opts: { now?: Date; timeZone?: string; holidays?: string[] } = {}
+): TimeWindow {
+  const now = opts.now ?? new Date();
+  const timeZone = opts.timeZone ?? resolveSearchTimeZone(query);
+  const window = (from: Date, to: Date): TimeWindow => ({ fromISO: from.toISOString(), toISO: to.toISOString(), timeZone });
+
+  if (!query.when) {
+    return window(now, new Date(now.getTime() + DEFAULT_WINDOW_DAYS * DAY_MS));
+  }
+  if (query.when.type === 'range') {
+    return { fromISO: query.when.from, toISO: query.when.to, timeZone };
+  }
+  if (query.when.type === 'recurring') {
+    const requestedFrom = query.when.from ? new Date(query.when.from) : now;
+    const from = requestedFrom > now ? requestedFrom : now;
+    const maxTo = new Date(from.getTime() + RECURRING_MAX_DAYS * DAY_MS);
+    const requestedTo = query.when.to ? new Date(query.when.to) : new Date(from.getTime() + RECURRING_DEFAULT_DAYS * DAY_MS);
+    const to = requestedTo < maxTo ? requestedTo : maxTo;
+    const intervals = recurringIntervals(query.when, from, to, timeZone);
+    if (!intervals.length) return { ...window(from, from), intervals: [] };
+    return {
+      ...window(intervals[0][0], intervals[intervals.length - 1][1]),
+      intervals: intervals.map(([s, e]) => ({ fromISO: s.toISOString(), toISO: e.toISOString() })),
+    };
+  }
+
+  switch (query.when.preset) {
+    case 'now':
+      return window(now, new Date(now.getTime() + NOW_WINDOW_HOURS * 3600 * 1000));
+    case 'today_evening':
+    case 'tonight':
+      return window(localTime(now, 0, EVENING_START_HOUR, timeZone), localDayEnd(now, 0, timeZone));
+    case 'tomorrow':
+      return window(localDayStart(now, 1, timeZone), localDayEnd(now, 1, timeZone));
+    case 'this_weekend': {
+      // Mon–Fri: upcoming Friday 18:00 → Sunday 23:59; Sat/Sun: this Saturday 00:00 → Sunday 23:59
+      const day = zonedParts(now, timeZone).weekday; // 0 Sun .. 6 Sat
+      if (day === 6) return window(localDayStart(now, 0, timeZone), localDayEnd(now, 1, timeZone));
+      if (day === 0) return window(localDayStart(now, -1, timeZone), localDayEnd(now, 0, timeZone));
+      const daysUntilFriday = 5 - day;
+      return window(localTime(now, daysUntilFriday, EVENING_START_HOUR, timeZone), localDayEnd(now, daysUntilFriday + 2, timeZone));
+    }
+    case 'next_weekend': {
+      // The weekend after this_weekend: Friday 18:00 → Sunday 23:59
+      const day = zonedParts(now, timeZone).weekday;
+      const daysUntilFriday = day === 6 ? 6 : day === 0 ? 5 : 12 - day;
+      return window(localTime(now, daysUntilFriday, EVENING_START_HOUR, timeZone), localDayEnd(now, daysUntilFriday + 2, timeZone));
+    }
+    case 'this_week': {
+      // Until Sunday 23:59 (weeks start on Monday)
+      const day = zonedParts(now, timeZone).weekday;
+      return window(now, localDayEnd(now, (7 - day) % 7, timeZone));
+    }
+    case 'next_7_days':
+      return window(now, localDayEnd(now, 6, timeZone));
+    case 'this_month': {
+      const p = zonedParts(now, timeZone);
+      const daysInMonth = new Date(Date.UTC(p.year, p.month, 0)).getUTCDate();
+      return window(now, localDayEnd(now, daysInMonth - p.day, timeZone));
+    }
+    case 'public_holiday':
+    case 'long_weekend': {
+      const holidays = new Set(opts.holidays ?? []);
+      const range = query.when.preset === 'public_holiday' ? nextHoliday(now, holidays, timeZone) : nextLongWeekend(now, holidays, timeZone);
+      // No known holiday ahead: an empty window rather than silently searching some other period
+      return range ? window(range[0], range[1]) : { ...window(now, now), intervals: [] };
+    }
+  }
+  return window(now, now);
+}
@@ -0,0 +1,174 @@
+import type { PrismaClient } from '@prisma/client';
+import { eventHitSelect, eventRowToHit, placeHitSelect, placeRowToHit, type SearchHit } from './search.hits.js';
+import type { TrendingSignals } from './search.schemas.js';
+import { coerceOpeningHours } from '../catalog/places/opening-hours.js';
+import { TRENDING_HALF_LIFE_HOURS } from '../../config/search.js';
+
+// Trending places and events of a city from real engagement: favorites, plan additions, reviews and
+// search click-through within a sliding window, each weighted by kind and decayed by age.
+// Plus the "starting soon" feed: events with an occurrence starting within the next hours.
+
+export type TrendingSignalKind = 'favorite' | 'plan' | 'review' | 'click';
+export type TrendingSignal = { id: string; kind: TrendingSignalKind; at: Date };
+export type TrendingHit = SearchHit & { trending: TrendingSignals };
+export type TrendingResult = { cityId: string; windowDays: number; items: TrendingHit[] };
+
+// A plan addition says more about intent than a favorite, a favorite more than a review or a click
+const SIGNAL_WEIGHTS: Record<TrendingSignalKind, number> = { plan: 4, favorite: 3, review: 2, click: 1 };
+const COUNT_FIELDS: Record<TrendingSignalKind, 'planAdds' | 'favorites' | 'reviews' | 'clicks'> = {
+  plan: 'planAdds',
+  favorite: 'favorites',
+  review: 'reviews',
+  click: 'clicks',
+};
+// Signal rows read per kind and request; past the cap the oldest (least weighted) ones are dropped
+const SIGNAL_ROW_LIMIT = 20000;
+const NEWEST_FIRST = { createdAt: 'desc' } as const;
+// Occurrences scanned for the starting-soon feed, soonest first
+const SOON_OCCURRENCE_LIMIT = 500;
+
+const HOUR_MS = 3600 * 1000;
+
+// Scores per item id, highest first (id as tie-breaker)
+export function scoreTrending(
+  signals: TrendingSignal[],
+  opts: { now: Date; halfLifeHours?: number }
+): Array<{ id: string } & TrendingSignals> {
+  const halfLifeMs = (opts.halfLifeHours ?? TRENDING_HALF_LIFE_HOURS) * HOUR_MS;
+  const byId = new Map<string, { id: string } & TrendingSignals>();
+  for (const s of signals) {
+    let acc = byId.get(s.id);
+    if (!acc) {
+      acc = { id: s.id, score: 0, favorites: 0, planAdds: 0, reviews: 0, clicks: 0 };
+      byId.set(s.id, acc);
+    }
+    const ageMs = Math.max(0, opts.now.getTime() - s.at.getTime());
+    acc.score += SIGNAL_WEIGHTS[s.kind] * 0.5 ** (ageMs / halfLifeMs);
+    acc[COUNT_FIELDS[s.kind]]++;
+  }
+  return [...byId.values()]
+    .map((t) => ({ ...t, score: Math.round(t.score * 1000) / 1000 }))
+    .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+function signalsOf(rows: Array<{ id: string | null | undefined; createdAt: Date }>, kind: TrendingSignalKind): TrendingSignal[] {
+  return rows.filter((r) => !!r.id).map((r) => ({ id: r.id!, kind, at: r.createdAt }));
+}
+
+// Trending items in score order; rows no longer listed (inactive, not approved, no upcoming occurrence) drop out
+function rankTrending(scored: Array<{ id: string } & TrendingSignals>, hits: SearchHit[], limit: number): TrendingHit[] {
+  const byId = new Map(hits.map((h) => [h.id, h]));
+  const items: TrendingHit[] = [];
+  for (const { id, ...trending } of scored) {
+    const hit = byId.get(id);
+    if (!hit) continue;
+    items.push({ ...hit, scores: { ...hit.scores, rank: trending.score }, trending });
+    if (items.length >= limit) break;
+  }
+  return items;
+}
+
+export async function findTrendingPlaces(
+  prisma: PrismaClient,
+  cityId: string,
+  opts: { windowDays: number; limit: number; now?: Date }
+): Promise<TrendingResult> {
+  const now = opts.now ?? new Date();
+  const since = new Date(now.getTime() - opts.windowDays * 24 * HOUR_MS);
+  const recent = { createdAt: { gte: since }, placeId: { not: null }, place: { is: { cityId } } };
+  const select = { placeId: true, createdAt: true } as const;
+  const [favorites, planItems, reviews, clicks] = await Promise.all([
+    prisma.favorite.findMany({ where: recent, select, orderBy: NEWEST_FIRST, take: SIGNAL_ROW_LIMIT }),
+    prisma.planItem.findMany({ where: recent, select, orderBy: NEWEST_FIRST, take: SIGNAL_ROW_LIMIT }),
+    prisma.review.findMany({ where: { ...recent, status: { not: 'REJECTED' as any } }, select, orderBy: NEWEST_FIRST, take: SIGNAL_ROW_LIMIT }),
+    prisma.searchClick.findMany({ where: recent, select, orderBy: NEWEST_FIRST, take: SIGNAL_ROW_LIMIT }),
+  ]);
+  const toSignals = (rows: Array<{ placeId: string | null; createdAt: Date }>, kind: TrendingSignalKind) =>
+    signalsOf(rows.map((r) => ({ id: r.placeId, createdAt: r.createdAt })), kind);
+  const scored = scoreTrending(
+    [...toSignals(favorites, 'favorite'), ...toSignals(planItems, 'plan'), ...toSignals(reviews, 'review'), ...toSignals(clicks, 'click')],
+    { now }
+  );
+  // A few spare ids make up for rows that are no longer listed
+  const ids = scored.slice(0, opts.limit * 2).map((s) => s.id);
+  const rows: any[] = ids.length
+    ? await prisma.place.findMany({ where: { id: { in: ids }, isActive: true, moderation: 'APPROVED' as any }, select: placeHitSelect })
+    : [];
+  const hits = rows.map((p) => {
+    const hours = coerceOpeningHours(p.openingHours);
+    return placeRowToHit(p, { rank: 0, hours, hoursTz: hours?.timezone || p.city?.tz });
+  });
+  return { cityId, windowDays: opts.windowDays, items: rankTrending(scored, hits, opts.limit) };
+}
+
+export async function findTrendingEvents(
+  prisma: PrismaClient,
+  cityId: string,
+  opts: { windowDays: number; limit: number; now?: Date }
+): Promise<TrendingResult> {
+  const now = opts.now ?? new Date();
+  const since = new Date(now.getTime() - opts.windowDays * 24 * HOUR_MS);
+  const recent = { createdAt: { gte: since }, eventId: { not: null }, event: { is: { cityId } } };
+  const select = { eventId: true, createdAt: true } as const;
+  const [favorites, planItems, reviews, clicks] = await Promise.all([
+    prisma.favorite.findMany({ where: recent, select, orderBy: NEWEST_FIRST, take: SIGNAL_ROW_LIMIT }),
+    // Plans reference occurrences
+    prisma.planItem.findMany({
+      where: { createdAt: { gte: since }, occurrence: { is: { event: { cityId } } } },
+      select: { createdAt: true, occurrence: { select: { eventId: true } } },
+      orderBy: NEWEST_FIRST,
+      take: SIGNAL_ROW_LIMIT,
+    }),
+    prisma.review.findMany({ where: { ...recent, status: { not: 'REJECTED' as any } }, select, orderBy: NEWEST_FIRST, take: SIGNAL_ROW_LIMIT }),
+    prisma.searchClick.findMany({ where: recent, select, orderBy: NEWEST_FIRST, take: SIGNAL_ROW_LIMIT }),
+  ]);
+  const toSignals = (rows: Array<{ eventId: string | null; createdAt: Date }>, kind: TrendingSignalKind) =>
+    signalsOf(rows.map((r) => ({ id: r.eventId, createdAt: r.createdAt })), kind);
+  const scored = scoreTrending(
+    [
+      ...toSignals(favorites, 'favorite'),
+      ...signalsOf(planItems.map((r: any) => ({ id: r.occurrence?.eventId, createdAt: r.createdAt })), 'plan'),
+      ...toSignals(reviews, 'review'),
+      ...toSignals(clicks, 'click'),
+    ],
+    { now }
+  );
+  // Only events that still have an upcoming occurrence are listed
+  const upcoming = { startTime: { gte: now } };
+  const ids = scored.slice(0, opts.limit * 2).map((s) => s.id);
+  const rows: any[] = ids.length
+    ? await prisma.event.findMany({
+        where: { id: { in: ids }, isActive: true, moderation: 'APPROVED' as any, occurrences: { some: upcoming } },
+        select: eventHitSelect(upcoming),
+      })
+    : [];
+  const hits = rows.map((e) => eventRowToHit(e, { rank: 0 }));
+  return { cityId, windowDays: opts.windowDays, items: rankTrending(scored, hits, opts.limit) };
+}
+
+// Events with an occurrence starting in [now, now + hours], soonest first
+export async function findEventsStartingSoon(
+  prisma: PrismaClient,
+  cityId: string,
+  opts: { hours: number; limit: number; now?: Date }
+): Promise<{ cityId: string; from: string; to: string; items: SearchHit[] }> {
+  const from = opts.now ?? new Date();
+  const to = new Date(from.getTime() + opts.hours * HOUR_MS);
+  const window = { startTime: { gte: from, lte: to } };
+  // Soonest occurrences first, so that the cap never cuts the events starting next
+  const occurrences = await prisma.eventOccurrence.findMany({
+    where: { ...window, event: { is: { cityId, isActive: true, moderation: 'APPROVED' as any } } },
+    select: { eventId: true },
+    orderBy: [{ startTime: 'asc' }, { id: 'asc' }],
+    take: SOON_OCCURRENCE_LIMIT,
+  });
+  const ids = Array.from(new Set(occurrences.map((o) => o.eventId))).slice(0, opts.limit);
+  const rows: any[] = ids.length
+    ? await prisma.event.findMany({ where: { id: { in: ids } }, select: eventHitSelect(window) })
+    : [];
+  const order = new Map(ids.map((id, i) => [id, i]));
+  const items = rows
+    .map((e) => eventRowToHit(e, { rank: 0 }))
+    .sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+  return { cityId, from: from.toISOString(), to: to.toISOString(), items };
+}
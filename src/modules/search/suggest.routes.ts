@@ -0,0 +1,51 @@
+import { FastifyInstance } from 'fastify';
+import { suggestQuerySchema, suggestResponseSchema, type SuggestQuery } from './search.schemas.js';
+import { parseSuggestTypes, suggest } from './suggest.service.js';
+import { CacheService, roundGeo } from '../cache/cache.service.js';
+import { CACHE_TTL_SUGGEST } from '../../config/cache.js';
+
+// Typeahead for the search box under /api/search/suggest
+export default async function suggestRoutes(app: FastifyInstance) {
+  app.get(
+    '/suggest',
+    {
+      schema: {
+        description: 'Typed suggestions (places, events, categories, cities) for a partial query, ranked by prefix match, popularity and proximity.',
+        tags: ['search'],
+        querystring: suggestQuerySchema,
+        response: { 200: suggestResponseSchema },
+      },
+    },
+    async (req) => {
+      const startedAt = Date.now();
+      const query = req.query as SuggestQuery;
+      const cache = new CacheService(app);
+      // Coarse origin (~1 km) so that nearby keystrokes share cache entries
+      const cacheKey = cache.buildKey('suggest', {
+        q: query.q.trim().toLowerCase(),
+        lat: roundGeo(query.lat, 2),
+        lon: roundGeo(query.lon, 2),
+        cityId: query.cityId,
+        types: parseSuggestTypes(query.types),
+        limit: query.limit,
+      });
+      if (cache.isEnabled()) {
+        const cached = await cache.getJSON<any>(cacheKey).catch(() => null);
+        if (cached) return { ...cached, queryId: `${startedAt}`, tookMs: Date.now() - startedAt };
+      }
+
+      const { items, warnings } = await suggest(app.prisma, query);
+      const resp = {
+        queryId: `${startedAt}`,
+        tookMs: Date.now() - startedAt,
+        warnings: warnings.length ? warnings : undefined,
+        items,
+      };
+      // Partial results (a DB lookup failed) are not cached
+      if (cache.isEnabled() && !warnings.length) {
+        try { await cache.setJSON(cacheKey, resp, { ttlSeconds: CACHE_TTL_SUGGEST }); } catch {}
+      }
+      return resp;
+    }
+  );
+}
@@ -0,0 +1,183 @@
+import type { PrismaClient } from '@prisma/client';
+import type { SuggestQuery, Suggestion, SuggestionType } from './search.schemas.js';
+import { TAXONOMY_CATEGORIES } from '../catalog/taxonomy/taxonomy.constants.js';
+import { GEO_CITIES } from '../geo/geo.constants.js';
+import { haversineKm } from '../../shared/utils.js';
+
+// Typeahead over place names, event titles, taxonomy categories and cities.
+// Candidates match the query as a prefix of the label or of one of its words; they are scored by match quality,
+// popularity and, with an origin, proximity.
+
+const ALL_TYPES: SuggestionType[] = ['place', 'event', 'category', 'city'];
+// Shorter queries only match the in-memory lists (categories, cities)
+const DB_MIN_CHARS = 2;
+// Rows per entity fetched from the DB before scoring
+const DB_CANDIDATES = 30;
+const PROXIMITY_SCALE_KM = 25;
+// Popularity of categories and cities, which carry none
+const NEUTRAL_POPULARITY = 0.5;
+
+export function normalizeLabel(s: string): string {
+  return s.normalize('NFKD').replace(/\p{M}+/gu, '').toLowerCase().trim();
+}
+
+// 1 for an exact match, 0.95 for a prefix of the label, 0.8 for a prefix of a later word, 0 otherwise
+export function prefixMatchScore(label: string, q: string): number {
+  const l = normalizeLabel(label);
+  const n = normalizeLabel(q);
+  if (!n || !l) return 0;
+  if (l === n) return 1;
+  if (l.startsWith(n)) return 0.95;
+  const words = l.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return words.slice(1).some((w) => w.startsWith(n)) || l.includes(` ${n}`) ? 0.8 : 0;
+}
+
+export function scoreSuggestion(match: number, popularity: number, distanceKm?: number): number {
+  if (distanceKm == null) return 0.7 * match + 0.3 * popularity;
+  return 0.6 * match + 0.25 * popularity + 0.15 * Math.exp(-distanceKm / PROXIMITY_SCALE_KM);
+}
+
+export function parseSuggestTypes(types?: string): SuggestionType[] {
+  if (!types) return ALL_TYPES;
+  const wanted = new Set(types.split(',').map((t) => t.trim().toLowerCase()));
+  const out = ALL_TYPES.filter((t) => wanted.has(t));
+  return out.length ? out : ALL_TYPES;
+}
+
+type Candidate = { type: SuggestionType; id: string; label: string; sublabel?: string; popularity?: number | null; location?: { lat: number; lon: number } | null };
+
+function toSuggestion(c: Candidate, q: string, origin?: { lat: number; lon: number }): Suggestion | undefined {
+  const match = prefixMatchScore(c.label, q);
+  if (!match) return undefined;
+  const distanceKm = origin && c.location ? haversineKm(origin, c.location) : undefined;
+  return {
+    type: c.type,
+    id: c.id,
+    label: c.label,
+    sublabel: c.sublabel,
+    score: scoreSuggestion(match, c.popularity ?? NEUTRAL_POPULARITY, distanceKm),
+    location: c.location ?? null,
+    distanceKm,
+  };
+}
+
+// Case-insensitive "label or one of its words starts with q" (served by the trigram indexes on name / title)
+function wordPrefixWhere(field: 'name' | 'title', q: string) {
+  return {
+    OR: [
+      { [field]: { startsWith: q, mode: 'insensitive' as const } },
+      { [field]: { contains: ` ${q}`, mode: 'insensitive' as const } },
+    ],
+  };
+}
+
+async function placeCandidates(prisma: PrismaClient, q: string, cityId?: string): Promise<Candidate[]> {
+  const rows = await prisma.place.findMany({
+    where: { isActive: true, moderation: 'APPROVED' as any, ...(cityId ? { cityId } : {}), ...wordPrefixWhere('name', q) },
+    select: { id: true, name: true, lat: true, lng: true, popularityScore: true, mainCategory: { select: { title: true } }, city: { select: { name: true } } },
+    orderBy: [{ popularityScore: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+    take: DB_CANDIDATES,
+  });
+  return rows.map((p: any) => ({
+    type: 'place' as const,
+    id: p.id,
+    label: p.name,
+    sublabel: [p.mainCategory?.title, p.city?.name].filter(Boolean).join(' · ') || undefined,
+    popularity: p.popularityScore,
+    location: p.lat != null && p.lng != null ? { lat: Number(p.lat), lon: Number(p.lng) } : null,
+  }));
+}
+
+async function eventCandidates(prisma: PrismaClient, q: string, now: Date, cityId?: string): Promise<Candidate[]> {
+  const rows = await prisma.event.findMany({
+    where: {
+      isActive: true,
+      moderation: 'APPROVED' as any,
+      ...(cityId ? { cityId } : {}),
+      // Only events that still happen
+      occurrences: { some: { startTime: { gte: now } } },
+      ...wordPrefixWhere('title', q),
+    },
+    select: {
+      id: true,
+      title: true,
+      popularityScore: true,
+      mainCategory: { select: { title: true } },
+      city: { select: { name: true } },
+      occurrences: {
+        where: { startTime: { gte: now } },
+        orderBy: { startTime: 'asc' },
+        take: 1,
+        select: { lat: true, lng: true, place: { select: { lat: true, lng: true } } },
+      },
+    },
+    orderBy: [{ popularityScore: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+    take: DB_CANDIDATES,
+  });
+  return rows.map((e: any) => {
+    const occ = e.occurrences?.[0];
+    const lat = occ?.lat ?? occ?.place?.lat;
+    const lng = occ?.lng ?? occ?.place?.lng;
+    return {
+      type: 'event' as const,
+      id: e.id,
+      label: e.title,
+      sublabel: [e.mainCategory?.title, e.city?.name].filter(Boolean).join(' · ') || undefined,
+      popularity: e.popularityScore,
+      location: lat != null && lng != null ? { lat: Number(lat), lon: Number(lng) } : null,
+    };
+  });
+}
+
+function categoryCandidates(): Candidate[] {
+  return TAXONOMY_CATEGORIES.map((c) => ({
+    type: 'category' as const,
+    id: c.slug,
+    label: c.name,
+    sublabel: c.type === 'EVENT' ? 'Event category' : c.type === 'PLACE' ? 'Place category' : 'Tag',
+  }));
+}
+
+function cityCandidates(): Candidate[] {
+  return GEO_CITIES.map((c) => ({ type: 'city' as const, id: String(c.id), label: c.name, sublabel: c.countryName, location: c.coordinates }));
+}
+
+export async function suggest(
+  prisma: PrismaClient,
+  query: SuggestQuery,
+  opts: { now?: Date } = {}
+): Promise<{ items: Suggestion[]; warnings: string[] }> {
+  const q = query.q.trim();
+  const types = new Set(parseSuggestTypes(query.types));
+  const origin = query.lat != null && query.lon != null ? { lat: query.lat, lon: query.lon } : undefined;
+  const warnings: string[] = [];
+  const useDb = normalizeLabel(q).length >= DB_MIN_CHARS;
+
+  const [places, events] = await Promise.all([
+    types.has('place') && useDb
+      ? placeCandidates(prisma, q, query.cityId).catch(() => {
+          warnings.push('place suggestions unavailable');
+          return [];
+        })
+      : Promise.resolve([]),
+    types.has('event') && useDb
+      ? eventCandidates(prisma, q, opts.now ?? new Date(), query.cityId).catch(() => {
+          warnings.push('event suggestions unavailable');
+          return [];
+        })
+      : Promise.resolve([]),
+  ]);
+  const candidates: Candidate[] = [
+    ...places,
+    ...events,
+    ...(types.has('category') ? categoryCandidates() : []),
+    ...(types.has('city') ? cityCandidates() : []),
+  ];
+
+  const items = candidates
+    .map((c) => toSuggestion(c, q, origin))
+    .filter((s): s is Suggestion => !!s)
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label) || a.id.localeCompare(b.id))
+    .slice(0, query.limit);
+  return { items, warnings };
+}
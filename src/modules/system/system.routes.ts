@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { TAXONOMY_CATEGORIES } from '../catalog/taxonomy/taxonomy.constants.js';
 import { GEO_CITIES } from '../geo/geo.constants.js';
 import { CACHE_NAMESPACE_VERSION } from '../../config/cache.js';
+import { syncPublicHolidays } from '../catalog/holidays/holidays.service.js';
 
 const PingResponseSchema = z.object({
     pong: z.string(),
@@ -183,6 +184,7 @@ export default async function systemRoutes(app: FastifyInstance) {
                             minLng: c.boundingBox?.minLon ?? null,
                             maxLat: c.boundingBox?.maxLat ?? null,
                             maxLng: c.boundingBox?.maxLon ?? null,
+                            tz: c.timezone,
                         },
                         create: {
                             id: String(c.id),
@@ -196,7 +198,7 @@ export default async function systemRoutes(app: FastifyInstance) {
                             minLng: c.boundingBox?.minLon ?? null,
                             maxLat: c.boundingBox?.maxLat ?? null,
                             maxLng: c.boundingBox?.maxLon ?? null,
-                            tz: 'UTC',
+                            tz: c.timezone,
                         },
                     });
                     upserted++;
@@ -247,4 +249,48 @@ export default async function systemRoutes(app: FastifyInstance) {
             return { ok: true, deleted: totalDeleted } as const;
         }
     );
+
+    // Imports public holidays (Nager.Date) used by the public_holiday / long_weekend search presets
+    // Usage: POST /api/system/holidays/sync?countryCode=DE&year=2026
+    const HolidaysSyncResponse = z.object({
+        ok: z.boolean(),
+        synced: z.array(z.object({ countryCode: z.string(), year: z.number(), holidays: z.number() })),
+        errors: z.array(z.object({ countryCode: z.string(), year: z.number(), message: z.string() })),
+    });
+    app.post(
+        '/holidays/sync',
+        {
+            schema: {
+                description:
+                    'Imports public holidays from Nager.Date for a country (default: all countries of the geo dataset), for the given year or the current and next one.',
+                tags: ['system'],
+                querystring: z.object({
+                    countryCode: z.string().length(2).optional(),
+                    year: z.coerce.number().int().min(2000).max(2100).optional(),
+                }),
+                response: { 200: HolidaysSyncResponse },
+            },
+        },
+        async (req) => {
+            const q = req.query as { countryCode?: string; year?: number };
+            const countries = q.countryCode
+                ? [q.countryCode.toUpperCase()]
+                : Array.from(new Set(GEO_CITIES.map((c) => c.countryCode)));
+            const thisYear = new Date().getUTCFullYear();
+            const years = q.year ? [q.year] : [thisYear, thisYear + 1];
+
+            const synced: Array<{ countryCode: string; year: number; holidays: number }> = [];
+            const errors: Array<{ countryCode: string; year: number; message: string }> = [];
+            for (const countryCode of countries) {
+                for (const year of years) {
+                    try {
+                        synced.push({ countryCode, year, holidays: await syncPublicHolidays(app.prisma, countryCode, year) });
+                    } catch (err: any) {
+                        errors.push({ countryCode, year, message: err?.message ?? String(err) });
+                    }
+                }
+            }
+            return { ok: errors.length === 0, synced, errors };
+        }
+    );
 }
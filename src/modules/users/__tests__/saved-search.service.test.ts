@@ -0,0 +1,115 @@
+import { searchUnifiedFromDb } from '../../search/search.service.js';
+import { diffSnapshots, runSavedSearch } from '../saved-search.service.js';
+import { SavedSearchCreateBodySchema } from '../saved-search.schemas.js';
+
+jest.mock('../../search/search.service.js', () => ({
+  searchUnifiedFromDb: jest.fn(),
+}));
+
+const item = (id: string, over: Record<string, any> = {}) => ({
+  id,
+  type: 'event' as const,
+  title: `Event ${id}`,
+  priceTier: 'CHEAP',
+  priceFrom: 10,
+  priceTo: 20,
+  startsAt: '2025-06-06T18:00:00.000Z',
+  endsAt: null,
+  ...over,
+});
+
+const prismaWith = (row: any) =>
+  ({
+    savedSearch: {
+      findFirst: jest.fn().mockResolvedValue(row),
+      update: jest.fn().mockResolvedValue(row),
+    },
+  }) as any;
+
+describe('diffSnapshots', () => {
+  it('reports added, removed, re-priced and re-scheduled items', () => {
+    const changes = diffSnapshots(
+      [item('kept'), item('gone'), item('repriced'), item('moved')],
+      [item('kept'), item('new'), item('repriced', { priceFrom: 15 }), item('moved', { startsAt: '2025-06-07T18:00:00.000Z' })]
+    );
+    expect(changes.added.map((i) => i.id)).toEqual(['new']);
+    expect(changes.removed.map((i) => i.id)).toEqual(['gone']);
+    expect(changes.changed).toEqual([
+      expect.objectContaining({ id: 'repriced', price: { before: expect.objectContaining({ priceFrom: 10 }), after: expect.objectContaining({ priceFrom: 15 }) }, time: undefined }),
+      expect.objectContaining({ id: 'moved', price: undefined, time: { before: expect.objectContaining({ startsAt: '2025-06-06T18:00:00.000Z' }), after: expect.objectContaining({ startsAt: '2025-06-07T18:00:00.000Z' }) } }),
+    ]);
+  });
+
+  it('treats every hit as added on the first run', () => {
+    expect(diffSnapshots([], [item('a')]).added.map((i) => i.id)).toEqual(['a']);
+  });
+});
+
+describe('runSavedSearch', () => {
+  const hit = (id: string, priceFrom: number) => ({ id, type: 'event', title: `Event ${id}`, priceFrom, nextOccurrence: { startsAt: '2025-06-06T18:00:00.000Z' } });
+
+  it('re-validates the stored request, stores the new snapshot and diffs against the previous one', async () => {
+    // One search: the tracked hits for the snapshot, one page for the response
+    (searchUnifiedFromDb as jest.Mock).mockResolvedValue({
+      total: 3,
+      items: [hit('a', 12)],
+      tracked: { items: [hit('a', 12), hit('b', 5), hit('c', 7)], truncated: false, beyondLimit: [] },
+    });
+    const prisma = prismaWith({
+      id: 's1',
+      request: { where: { city: { id: 1 } }, target: 'events', pagination: { limit: 1 } },
+      lastRunAt: new Date('2025-06-01T00:00:00Z'),
+      lastResult: [item('a', { priceTier: null, priceFrom: 10, priceTo: null, endsAt: null }), item('c', { priceTier: null, priceFrom: 7, priceTo: null, endsAt: null })],
+    });
+    const res = await runSavedSearch(prisma, { id: 'u1', role: 'USER' }, 's1', { now: new Date('2025-06-02T00:00:00Z') });
+
+    expect(searchUnifiedFromDb).toHaveBeenCalledTimes(1);
+    const [[query, , opts]] = (searchUnifiedFromDb as jest.Mock).mock.calls;
+    expect(query).toMatchObject({ target: 'events', sort: 'rank', pagination: { limit: 1 } });
+    expect(opts.track).toEqual({ limit: 1000, previous: [expect.objectContaining({ id: 'a' }), expect.objectContaining({ id: 'c' })] });
+    expect(opts.maxItems).toBeUndefined();
+    expect(res.previousRunAt).toBe('2025-06-01T00:00:00.000Z');
+    // c is past the first page, yet neither added nor removed
+    expect(res.changes.added.map((i) => i.id)).toEqual(['b']);
+    expect(res.changes.removed).toEqual([]);
+    expect(res.changes.changed.map((c) => c.id)).toEqual(['a']);
+    expect(res.snapshot).toEqual({ items: 3, truncated: false });
+    expect(res.results.items.map((h) => h.id)).toEqual(['a']);
+    expect((res.results as any).tracked).toBeUndefined();
+    expect(prisma.savedSearch.update.mock.calls[0][0].data.lastResult).toHaveLength(3);
+  });
+
+  it('does not report previous hits still matching beyond the cap as removed', async () => {
+    (searchUnifiedFromDb as jest.Mock).mockResolvedValue({
+      total: 1500,
+      items: [hit('a', 12)],
+      tracked: { items: [hit('a', 12)], truncated: true, beyondLimit: [{ type: 'event', id: 'far' }] },
+    });
+    const prisma = prismaWith({
+      id: 's1',
+      request: { where: { city: { id: 1 } }, target: 'events' },
+      lastRunAt: new Date('2025-06-01T00:00:00Z'),
+      lastResult: [item('a', { priceFrom: 12, startsAt: null, endsAt: null }), item('far'), item('gone')],
+    });
+    const res = await runSavedSearch(prisma, { id: 'u1' }, 's1');
+    expect(res.changes.removed.map((i) => i.id)).toEqual(['gone']);
+    expect(res.snapshot).toEqual({ items: 1, truncated: true });
+  });
+
+  it('rejects stored requests the current schema no longer accepts', async () => {
+    const prisma = prismaWith({ id: 's1', request: { where: { city: { id: 1 } }, target: 'everything' }, lastRunAt: null, lastResult: null });
+    await expect(runSavedSearch(prisma, { id: 'u1' }, 's1')).rejects.toMatchObject({ statusCode: 422, code: 'SAVED_SEARCH_INVALID' });
+  });
+
+  it('does not run other users’ searches', async () => {
+    await expect(runSavedSearch(prismaWith(null), { id: 'u1' }, 's1')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('SavedSearchCreateBodySchema', () => {
+  it('validates the request against the search schema but keeps it as sent', () => {
+    const request = { where: { city: { id: 1 } }, target: 'events' };
+    expect(SavedSearchCreateBodySchema.parse({ name: 'Fridays', request }).request).toEqual(request);
+    expect(SavedSearchCreateBodySchema.safeParse({ name: 'Fridays', request: { ...request, target: 'everything' } }).success).toBe(false);
+  });
+});
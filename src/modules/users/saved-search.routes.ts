@@ -0,0 +1,118 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import {
+  SavedSearchCreateBodySchema,
+  SavedSearchIdParamSchema,
+  SavedSearchListResponseSchema,
+  SavedSearchRunResponseSchema,
+  SavedSearchSchema,
+  SavedSearchUpdateBodySchema,
+  type SavedSearchCreateBody,
+  type SavedSearchUpdateBody,
+} from './saved-search.schemas.js';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  listSavedSearches,
+  runSavedSearch,
+  updateSavedSearch,
+} from './saved-search.service.js';
+
+// Saved searches of the current user under /api/users/saved-searches (authenticated scope)
+export default async function savedSearchRoutes(app: FastifyInstance) {
+  app.get(
+    '/',
+    {
+      schema: {
+        description: 'Lists saved searches of the current user',
+        tags: ['users'],
+        response: { 200: SavedSearchListResponseSchema },
+      },
+    },
+    async (req) => ({ items: await listSavedSearches(app.prisma, req.user!.id) })
+  );
+
+  app.post(
+    '/',
+    {
+      schema: {
+        description: 'Saves a search request under a name',
+        tags: ['users'],
+        body: SavedSearchCreateBodySchema,
+        response: { 201: SavedSearchSchema },
+      },
+    },
+    async (req, reply) => {
+      const saved = await createSavedSearch(app.prisma, req.user!.id, req.body as SavedSearchCreateBody);
+      reply.code(201);
+      return saved;
+    }
+  );
+
+  app.get(
+    '/:id',
+    {
+      schema: {
+        description: 'Returns a saved search',
+        tags: ['users'],
+        params: SavedSearchIdParamSchema,
+        response: { 200: SavedSearchSchema },
+      },
+    },
+    async (req) => {
+      const params = req.params as z.infer<typeof SavedSearchIdParamSchema>;
+      return getSavedSearch(app.prisma, req.user!.id, params.id);
+    }
+  );
+
+  app.patch(
+    '/:id',
+    {
+      schema: {
+        description: 'Renames a saved search or replaces its request (which resets change detection)',
+        tags: ['users'],
+        params: SavedSearchIdParamSchema,
+        body: SavedSearchUpdateBodySchema,
+        response: { 200: SavedSearchSchema },
+      },
+    },
+    async (req) => {
+      const params = req.params as z.infer<typeof SavedSearchIdParamSchema>;
+      return updateSavedSearch(app.prisma, req.user!.id, params.id, req.body as SavedSearchUpdateBody);
+    }
+  );
+
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        description: 'Deletes a saved search',
+        tags: ['users'],
+        params: SavedSearchIdParamSchema,
+      },
+    },
+    async (req, reply) => {
+      const params = req.params as z.infer<typeof SavedSearchIdParamSchema>;
+      await deleteSavedSearch(app.prisma, req.user!.id, params.id);
+      reply.code(204).send();
+    }
+  );
+
+  app.post(
+    '/:id/run',
+    {
+      schema: {
+        description:
+          'Re-runs a saved search against the catalog and reports new, disappeared and re-priced or re-scheduled items since the previous run',
+        tags: ['users'],
+        params: SavedSearchIdParamSchema,
+        response: { 200: SavedSearchRunResponseSchema },
+      },
+    },
+    async (req) => {
+      const params = req.params as z.infer<typeof SavedSearchIdParamSchema>;
+      return runSavedSearch(app.prisma, req.user!, params.id);
+    }
+  );
+}
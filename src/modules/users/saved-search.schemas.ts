@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { searchRequestSchema, searchResponseSchema } from '../search/search.schemas.js';
+
+export const SavedSearchIdParamSchema = z.object({ id: z.string() });
+
+// Validated against searchRequestSchema but stored as sent, so that every run applies the defaults of the schema
+// in force at that time rather than those of the day it was saved
+const storedRequestSchema = z.record(z.string(), z.unknown()).superRefine((value, ctx) => {
+  const parsed = searchRequestSchema.safeParse(value);
+  if (parsed.success) return;
+  for (const issue of parsed.error.issues) ctx.addIssue({ code: 'custom', message: issue.message, path: issue.path });
+});
+
+export const SavedSearchCreateBodySchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  request: storedRequestSchema,
+});
+export type SavedSearchCreateBody = z.infer<typeof SavedSearchCreateBodySchema>;
+
+export const SavedSearchUpdateBodySchema = SavedSearchCreateBodySchema.partial().refine(
+  (b) => b.name !== undefined || b.request !== undefined,
+  { message: 'Nothing to update' }
+);
+export type SavedSearchUpdateBody = z.infer<typeof SavedSearchUpdateBodySchema>;
+
+// `request` is returned as stored: it may predate the current SearchRequest schema
+export const SavedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  request: z.record(z.string(), z.unknown()),
+  lastRunAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
+
+export const SavedSearchListResponseSchema = z.object({ items: z.array(SavedSearchSchema) });
+
+// What a run remembers of each hit, enough to detect price and time changes
+export const SavedSearchSnapshotItemSchema = z.object({
+  id: z.string(),
+  type: z.enum(['place', 'event']),
+  title: z.string(),
+  priceTier: z.string().nullable().optional(),
+  priceFrom: z.number().nullable().optional(),
+  priceTo: z.number().nullable().optional(),
+  startsAt: z.string().nullable().optional(),
+  endsAt: z.string().nullable().optional(),
+});
+export type SavedSearchSnapshotItem = z.infer<typeof SavedSearchSnapshotItemSchema>;
+
+const priceStateSchema = SavedSearchSnapshotItemSchema.pick({ priceTier: true, priceFrom: true, priceTo: true });
+const timeStateSchema = SavedSearchSnapshotItemSchema.pick({ startsAt: true, endsAt: true });
+
+export const SavedSearchChangesSchema = z.object({
+  added: z.array(SavedSearchSnapshotItemSchema),
+  removed: z.array(SavedSearchSnapshotItemSchema),
+  changed: z.array(
+    z.object({
+      id: z.string(),
+      type: z.enum(['place', 'event']),
+      title: z.string(),
+      price: z.object({ before: priceStateSchema, after: priceStateSchema }).optional(),
+      time: z.object({ before: timeStateSchema, after: timeStateSchema }).optional(),
+    })
+  ),
+});
+export type SavedSearchChanges = z.infer<typeof SavedSearchChangesSchema>;
+
+export const SavedSearchRunResponseSchema = z.object({
+  savedSearchId: z.string(),
+  ranAt: z.string(),
+  // null on the first run, when every hit counts as added
+  previousRunAt: z.string().nullable(),
+  changes: SavedSearchChangesSchema,
+  // Changes cover every matching hit up to SAVED_SEARCH_SNAPSHOT_LIMIT; `results` is one page of them
+  snapshot: z.object({ items: z.number().int().nonnegative(), truncated: z.boolean() }),
+  results: searchResponseSchema,
+});
+export type SavedSearchRunResponse = z.infer<typeof SavedSearchRunResponseSchema>;
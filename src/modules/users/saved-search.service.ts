@@ -0,0 +1,167 @@
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { searchRequestSchema } from '../search/search.schemas.js';
+import { searchUnifiedFromDb } from '../search/search.service.js';
+import type { SearchHit } from '../search/search.hits.js';
+import { resolveRankingWeights } from '../search/search.ranking.js';
+import { SAVED_SEARCH_SNAPSHOT_LIMIT, SEARCH_PERSONALIZATION_ENABLED } from '../../config/search.js';
+import { AppError, NotFoundError } from '../../shared/errors.js';
+import type {
+  SavedSearch,
+  SavedSearchChanges,
+  SavedSearchCreateBody,
+  SavedSearchRunResponse,
+  SavedSearchSnapshotItem,
+  SavedSearchUpdateBody,
+} from './saved-search.schemas.js';
+
+// Saved searches: a user's SearchRequest stored by name and re-run on demand (DB only, like the catalog lists).
+// Each run keeps a snapshot of its hits so that the next run can report what appeared, disappeared or changed.
+
+function toSavedSearch(row: any): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    request: row.request ?? {},
+    lastRunAt: row.lastRunAt ? row.lastRunAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// Cursors expire, so a saved search always starts from its first page
+function storableRequest(request: Record<string, unknown>) {
+  const pagination = request.pagination as Record<string, unknown> | undefined;
+  if (!pagination?.cursor) return request;
+  const { cursor: _cursor, ...rest } = pagination;
+  return { ...request, pagination: rest };
+}
+
+async function findOwned(prisma: PrismaClient, userId: string, id: string) {
+  const row = await prisma.savedSearch.findFirst({ where: { id, userId } });
+  if (!row) throw new NotFoundError('Saved search not found');
+  return row;
+}
+
+export async function listSavedSearches(prisma: PrismaClient, userId: string): Promise<SavedSearch[]> {
+  const rows = await prisma.savedSearch.findMany({ where: { userId }, orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }] });
+  return rows.map(toSavedSearch);
+}
+
+export async function getSavedSearch(prisma: PrismaClient, userId: string, id: string): Promise<SavedSearch> {
+  return toSavedSearch(await findOwned(prisma, userId, id));
+}
+
+export async function createSavedSearch(prisma: PrismaClient, userId: string, body: SavedSearchCreateBody): Promise<SavedSearch> {
+  const row = await prisma.savedSearch.create({
+    data: { userId, name: body.name, request: storableRequest(body.request) as any },
+  });
+  return toSavedSearch(row);
+}
+
+// A new request invalidates the previous run's snapshot
+export async function updateSavedSearch(prisma: PrismaClient, userId: string, id: string, body: SavedSearchUpdateBody): Promise<SavedSearch> {
+  await findOwned(prisma, userId, id);
+  const row = await prisma.savedSearch.update({
+    where: { id },
+    data: {
+      ...(body.name !== undefined ? { name: body.name } : {}),
+      ...(body.request !== undefined ? { request: storableRequest(body.request) as any, lastRunAt: null, lastResult: Prisma.DbNull } : {}),
+    },
+  });
+  return toSavedSearch(row);
+}
+
+export async function deleteSavedSearch(prisma: PrismaClient, userId: string, id: string): Promise<void> {
+  await findOwned(prisma, userId, id);
+  await prisma.savedSearch.delete({ where: { id } });
+}
+
+export function snapshotOf(hits: SearchHit[]): SavedSearchSnapshotItem[] {
+  return hits.map((h: any) => ({
+    id: h.id,
+    type: h.type,
+    title: h.title,
+    priceTier: h.priceTier ?? null,
+    priceFrom: h.priceFrom ?? null,
+    priceTo: h.priceTo ?? null,
+    startsAt: h.nextOccurrence?.startsAt ?? null,
+    endsAt: h.nextOccurrence?.endsAt ?? null,
+  }));
+}
+
+const keyOf = (i: Pick<SavedSearchSnapshotItem, 'type' | 'id'>) => `${i.type}:${i.id}`;
+const priceOf = (i: SavedSearchSnapshotItem) => ({ priceTier: i.priceTier ?? null, priceFrom: i.priceFrom ?? null, priceTo: i.priceTo ?? null });
+const timeOf = (i: SavedSearchSnapshotItem) => ({ startsAt: i.startsAt ?? null, endsAt: i.endsAt ?? null });
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Hits of this run vs the previous one; `previous` is empty on the first run. `beyondLimit`: previous items
+// missing from a truncated snapshot that still match (not removed)
+export function diffSnapshots(
+  previous: SavedSearchSnapshotItem[],
+  current: SavedSearchSnapshotItem[],
+  beyondLimit: Array<Pick<SavedSearchSnapshotItem, 'type' | 'id'>> = []
+): SavedSearchChanges {
+  const before = new Map(previous.map((i) => [keyOf(i), i]));
+  const after = new Map(current.map((i) => [keyOf(i), i]));
+  const kept = new Set(beyondLimit.map(keyOf));
+  const changes: SavedSearchChanges = {
+    added: current.filter((i) => !before.has(keyOf(i))),
+    removed: previous.filter((i) => !after.has(keyOf(i)) && !kept.has(keyOf(i))),
+    changed: [],
+  };
+  for (const cur of current) {
+    const prev = before.get(keyOf(cur));
+    if (!prev) continue;
+    const priceChanged = !same(priceOf(prev), priceOf(cur));
+    const timeChanged = !same(timeOf(prev), timeOf(cur));
+    if (!priceChanged && !timeChanged) continue;
+    changes.changed.push({
+      id: cur.id,
+      type: cur.type,
+      title: cur.title,
+      price: priceChanged ? { before: priceOf(prev), after: priceOf(cur) } : undefined,
+      time: timeChanged ? { before: timeOf(prev), after: timeOf(cur) } : undefined,
+    });
+  }
+  return changes;
+}
+
+export async function runSavedSearch(
+  prisma: PrismaClient,
+  user: { id: string; role?: string },
+  id: string,
+  opts: { now?: Date } = {}
+): Promise<SavedSearchRunResponse> {
+  const row = await findOwned(prisma, user.id, id);
+  // Stored requests are re-validated so that defaults and constraints of the current schema apply
+  const parsed = searchRequestSchema.safeParse(row.request);
+  if (!parsed.success) {
+    throw new AppError('Saved search no longer matches the search request schema; update its request', 422, {
+      code: 'SAVED_SEARCH_INVALID',
+      details: parsed.error.issues,
+    });
+  }
+  const query = parsed.data;
+  const rankingWeights = resolveRankingWeights(query, user.role);
+  const userId = SEARCH_PERSONALIZATION_ENABLED && query.personalize !== false ? user.id : undefined;
+  const ranAt = opts.now ?? new Date();
+  const previous = Array.isArray(row.lastResult) ? (row.lastResult as SavedSearchSnapshotItem[]) : [];
+  // One search: the page for the response, and the ranking's hits up to the cap for the diff.
+  // Previous hits past the cap that still match are not reported as removed.
+  const { tracked, ...results } = await searchUnifiedFromDb(query, prisma, {
+    userId,
+    rankingWeights,
+    track: { limit: SAVED_SEARCH_SNAPSHOT_LIMIT, previous },
+  });
+  const { items, truncated, beyondLimit } = tracked!;
+  const snapshot = snapshotOf(items);
+  await prisma.savedSearch.update({ where: { id }, data: { lastRunAt: ranAt, lastResult: snapshot as any } });
+  return {
+    savedSearchId: id,
+    ranAt: ranAt.toISOString(),
+    previousRunAt: row.lastRunAt ? row.lastRunAt.toISOString() : null,
+    changes: diffSnapshots(previous, snapshot, beyondLimit),
+    snapshot: { items: snapshot.length, truncated },
+    results,
+  };
+}
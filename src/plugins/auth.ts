@@ -18,6 +18,7 @@ declare module 'fastify' {
   }
   interface FastifyInstance {
     authenticate: (req: FastifyRequest) => Promise<void>;
+    authenticateOptional: (req: FastifyRequest) => Promise<void>;
     authorize: (roles: Role[]) => (req: FastifyRequest, reply: any) => Promise<void>;
   }
 }
@@ -47,6 +48,17 @@ async function plugin(app: FastifyInstance) {
     }
   });
 
+  // For public endpoints: attaches request.user when a valid Bearer token is sent, never rejects
+  app.decorate('authenticateOptional', async function authenticateOptional(req: FastifyRequest) {
+    const header = req.headers['authorization'];
+    if (!header || !header.startsWith('Bearer ')) return;
+    try {
+      await app.authenticate(req);
+    } catch {
+      req.user = undefined;
+    }
+  });
+
   // Returns an onRequest hook that requires one of the specified roles
   app.decorate('authorize', function authorize(roles: Role[]) {
     return async function (req: FastifyRequest) {
@@ -0,0 +1,87 @@
+// IANA timezone helpers built on Intl (no external tz database needed)
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1..12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 Sun .. 6 Sat
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(tz?: string | null): tz is string {
+  if (!tz) return false;
+  try {
+    formatterFor(tz);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant in the given timezone (falls back to UTC for unknown zones)
+export function zonedParts(date: Date, timeZone?: string | null): ZonedParts {
+  const tz = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const parts: Record<string, string> = {};
+  for (const p of formatterFor(tz).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in minutes (e.g. +60 for CET)
+export function tzOffsetMinutes(date: Date, timeZone?: string | null): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+}
+
+// UTC instant for a wall-clock time in the timezone. Day/hour/minute overflow is allowed (day + 1, hour 24).
+// Times inside a DST gap move forward by the gap length, ambiguous times resolve to the first occurrence.
+export function zonedTimeToUtc(year: number, month: number, day: number, hour = 0, minute = 0, timeZone?: string | null): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offBefore = tzOffsetMinutes(new Date(guess - 12 * 3600 * 1000), timeZone);
+  const offAfter = tzOffsetMinutes(new Date(guess + 12 * 3600 * 1000), timeZone);
+  const candidates = [guess - offBefore * 60000, guess - offAfter * 60000].filter(
+    (t) => guess - t === tzOffsetMinutes(new Date(t), timeZone) * 60000
+  );
+  if (candidates.length) return new Date(Math.min(...candidates));
+  // Gap: apply the offset in effect before the transition
+  return new Date(guess - offBefore * 60000);
+}
+
+// "HH:MM" wall-clock time of an instant in the timezone
+export function formatZonedTime(date: Date, timeZone?: string | null): string {
+  const p = zonedParts(date, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}